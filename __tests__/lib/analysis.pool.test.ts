@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { scorePaletteAsync } from "@/lib/workers";
+import { runAnalysisTask } from "@/lib/workers/analysis.tasks";
+
+/** A worker whose script never loads — like a CSP or bundler failure */
+class BrokenWorker {
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  onerror: ((e: ErrorEvent) => void) | null = null;
+
+  constructor() {
+    setTimeout(() =>
+      this.onerror?.(new ErrorEvent("error", { message: "404" })),
+    );
+  }
+
+  postMessage() {}
+  terminate() {}
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("analysis pool", () => {
+  it("reruns pending jobs inline when a worker fails to load", async () => {
+    vi.stubGlobal("Worker", BrokenWorker);
+    const slots = ["#e07a5f", "#3d405b", "#81b29a"].map((hex) => ({
+      color: { hex },
+    }));
+    const expected = runAnalysisTask("score", {
+      hexes: slots.map((s) => s.color.hex),
+      metric: "ok",
+    });
+
+    await expect(
+      Promise.all([scorePaletteAsync(slots), scorePaletteAsync(slots)]),
+    ).resolves.toEqual([expected, expected]);
+    // Later calls skip the pool entirely
+    await expect(scorePaletteAsync(slots)).resolves.toEqual(expected);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  apcaContrast,
+  apcaFontTable,
+  apcaLevel,
+  apcaMinFontSize,
+} from "@/lib/utils/apca.utils";
+import { hexToRgb } from "@/lib/utils/color-math.utils";
+
+const lc = (text: string, bg: string) =>
+  apcaContrast(hexToRgb(text), hexToRgb(bg));
+
+describe("apcaContrast", () => {
+  // apca-w3 0.1.9 APCAcontrast(sRGBtoY(text), sRGBtoY(bg)), rounded
+  it.each([
+    ["#888888", "#ffffff", 63], // 63.056
+    ["#ffffff", "#888888", -69], // -68.541
+    ["#000000", "#aaaaaa", 58], // 58.146
+    ["#aaaaaa", "#000000", -56], // -56.241
+    ["#112233", "#ddeeff", 92], // 91.668
+    ["#ddeeff", "#112233", -93], // -93.068
+    ["#000000", "#ffffff", 106], // 106.041
+    ["#ffffff", "#000000", -108], // -107.885
+    ["#3b82f6", "#ffffff", 64], // 63.894
+  ])("gives %s on %s Lc %d", (text, bg, expected) => {
+    expect(lc(text, bg)).toBe(expected);
+  });
+
+  it("clips near-identical colors to 0", () => {
+    expect(lc("#777777", "#777777")).toBe(0);
+    expect(lc("#fefefe", "#ffffff")).toBe(0);
+    expect(Object.is(lc("#fefefe", "#ffffff"), -0)).toBe(false);
+  });
+
+  it("grades the magnitude into levels", () => {
+    expect(apcaLevel(92)).toBe("Preferred");
+    expect(apcaLevel(-69)).toBe("Content");
+    expect(apcaLevel(14)).toBe("Fail");
+  });
+});
+
+describe("apcaMinFontSize", () => {
+  // apca-w3 fontLookupAPCA at the table's own rows
+  it.each([
+    [45, [108, 96, 72, 42, 32, 28, 24, 24, 24]],
+    [60, [72, 48, 42, 24, 21, 18, 16, 16, 18]],
+    [75, [60, 42, 24, 18, 16, 15, 14, 16, 18]],
+    [90, [48, 32, 21, 16, 15.5, 14.5, 14, 16, 18]],
+  ])("matches the reference table at Lc %d", (value, sizes) => {
+    expect(apcaFontTable(value).map((row) => row.minSize)).toEqual(sizes);
+    expect(apcaFontTable(-value).map((row) => row.minSize)).toEqual(sizes);
+  });
+
+  it("interpolates between rows and rules out text at low contrast", () => {
+    expect(apcaMinFontSize(67.5, 400)).toBeCloseTo(20.63, 2);
+    expect(apcaMinFontSize(20, 700)).toBeNull();
+    expect(apcaMinFontSize(200, 400)).toBe(12.5);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkScalePairs,
+  generateScale,
+} from "@/lib/utils/color-math-scale.utils";
+import { SCALE_PRESETS } from "@/lib/constants/chroma";
+import type { ScaleContrastAnchor, ScaleDefinition } from "@/types";
+
+const hexes = (...args: Parameters<typeof generateScale>) =>
+  generateScale(...args).map((e) => e.hex);
+
+describe("generateScale", () => {
+  // Output of the fixed 50–950 scale before scale definitions existed
+  it.each([
+    [
+      "#6366f1",
+      "#d8ddf9 #c0c9fe #98a4ff #7881ff #5f5ff2 #4a42d7 #3829b3 #28188a #180f5d #0b0a2e #060717",
+    ],
+    [
+      "#3d405b",
+      "#dddee4 #caccd8 #a9acc1 #8b8fab #717595 #595d7c #444762 #303349 #1f2030 #0f1017 #08080c",
+    ],
+    [
+      "#81b29a",
+      "#d8e1dc #c0d2c9 #96b6a6 #729d88 #51846c #396c55 #255440 #173d2d #0d281c #07130e #050a07",
+    ],
+    [
+      "#808080",
+      "#dedede #cdcdcd #adadad #919191 #777777 #606060 #494949 #353535 #222222 #101010 #080808",
+    ],
+  ])("keeps the original default scale for %s", (hex, expected) => {
+    expect(hexes(hex).join(" ")).toBe(expected);
+  });
+
+  it.each([
+    [
+      "#ff0000",
+      "#fed3cc #ffb6a9 #ff7d6b #ff3d2f #ef0000 #d00000 #ac0000 #830000 #580000 #2d0000 #170201",
+    ],
+    [
+      "#0ea5e9",
+      "#cee2ef #add3ec #6eb7e4 #269cd8 #0081c7 #0068ad #004f8e #00396c #002548 #001323 #010a12",
+    ],
+  ])("matches the original clipped output for %s", (hex, expected) => {
+    expect(hexes(hex, "clip").join(" ")).toBe(expected);
+  });
+
+  it.each([0, 1])("stays finite with the chroma peak at %d", (peak) => {
+    const def: ScaleDefinition = {
+      ...SCALE_PRESETS[0],
+      // 0 through 1.1 — both ends and a step past them, where the envelope
+      // would divide by zero
+      positions: SCALE_PRESETS[0].steps.map(
+        (_, i, all) => i / (all.length - 2),
+      ),
+      chroma: { ...SCALE_PRESETS[0].chroma, peak },
+    };
+    for (const entry of generateScale("#6366f1", "css", def))
+      expect(entry.hex).toMatch(/^#[0-9a-f]{6}$/);
+    const pinned = { ...def, pin: 50 };
+    for (const entry of generateScale("#6366f1", "css", pinned))
+      expect(entry.hex).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
+
+describe("contrast anchoring", () => {
+  const failing = (
+    hex: string,
+    def: ScaleDefinition,
+    anchor: ScaleContrastAnchor,
+  ) =>
+    checkScalePairs(generateScale(hex, "css", { ...def, anchor }), anchor)
+      .filter((c) => !c.pass)
+      .map((c) => `${c.from}→${c.to}: ${c.value.toFixed(2)}`);
+
+  /** Pairs about half the scale apart — the editor's default */
+  const halfway = (def: ScaleDefinition) => {
+    const nums = def.steps as number[];
+    const half = (Math.max(...nums) - Math.min(...nums)) / 2;
+    return Math.round(half / 100) * 100 || Math.ceil(half);
+  };
+
+  // #767676 is 4.5:1 against both white and black, so pinning it leaves
+  // every WCAG pair reachable
+  it.each(SCALE_PRESETS.map((p) => [p.id, p] as const))(
+    "reaches WCAG 4.5 on every pair of %s",
+    (_, def) => {
+      const anchor = {
+        metric: "wcag",
+        target: 4.5,
+        distance: halfway(def),
+      } as const;
+      for (const hex of ["#767676", "#6366f1", "#0ea5e9"])
+        if (!def.pin || hex === "#767676")
+          expect(failing(hex, def, anchor)).toEqual([]);
+    },
+  );
+
+  // A pinned mid-tone can't reach Lc 60 against both ends, so only the
+  // unpinned presets are held to it
+  it.each(SCALE_PRESETS.filter((p) => !p.pin).map((p) => [p.id, p] as const))(
+    "reaches APCA Lc 60 on every pair of %s",
+    (_, def) => {
+      const anchor = {
+        metric: "apca",
+        target: 60,
+        distance: halfway(def),
+      } as const;
+      for (const hex of ["#6366f1", "#0ea5e9", "#2f7d5b"])
+        expect(failing(hex, def, anchor)).toEqual([]);
+    },
+  );
+
+  it("uses steeper steps near a pin when pairs need them", () => {
+    const radix = SCALE_PRESETS.find((p) => p.id === "radix")!;
+    expect(
+      failing("#4a42d7", radix, { metric: "wcag", target: 4.5, distance: 5 }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  gamutMapOklch,
+  isOklchInGamut,
+  oklchToRgb,
+  rgbToOklch,
+} from "@/lib/utils/color-math.utils";
+import type { GamutMapMethod, OKLCH } from "@/types";
+
+const mapped = (lch: OKLCH, method: GamutMapMethod) => {
+  const { r, g, b } = gamutMapOklch(lch, method).rgb;
+  return [r, g, b];
+};
+
+describe("gamutMapOklch", () => {
+  // Reference values from color.js: toGamut({ space: "srgb", method: "css" })
+  // and a plain clip, rounded to 8-bit
+  it.each([
+    [{ L: 0.7, C: 0.4, H: 150 }, [0, 194, 72], [0, 214, 0]],
+    [{ L: 0.5, C: 0.4, H: 270 }, [52, 37, 255], [64, 0, 255]],
+    [{ L: 0.9, C: 0.3, H: 100 }, [255, 223, 0], [255, 219, 0]],
+    [{ L: 0.6, C: 0.35, H: 30 }, [247, 0, 0], [255, 0, 0]],
+    [{ L: 0.4, C: 0.3, H: 320 }, [117, 0, 140], [133, 0, 166]],
+    // display-p3 green
+    [{ L: 0.84883, C: 0.36853, H: 145.64496 }, [0, 251, 41], [0, 255, 0]],
+  ])("maps oklch %o like CSS Color 4", (lch, css, clip) => {
+    expect(mapped(lch, "css")).toEqual(css);
+    expect(mapped(lch, "clip")).toEqual(clip);
+    expect(gamutMapOklch(lch).inGamut).toBe(false);
+  });
+
+  it("reduces chroma at constant lightness and hue for the chroma method", () => {
+    const lch = { L: 0.7, C: 0.4, H: 150 };
+    const rgb = oklchToRgb(lch, "chroma");
+    expect(rgb).toEqual({ r: 0, g: 190, b: 88 });
+    const out = rgbToOklch(rgb);
+    expect(out.L).toBeCloseTo(0.7, 2);
+    expect(out.H).toBeCloseTo(150, 0);
+    expect(isOklchInGamut(out)).toBe(true);
+  });
+
+  it("leaves in-gamut colors alone and pins the lightness ends", () => {
+    expect(gamutMapOklch({ L: 0.627955, C: 0.257683, H: 29.2339 })).toEqual({
+      rgb: { r: 255, g: 0, b: 0 },
+      inGamut: true,
+    });
+    expect(gamutMapOklch({ L: 1.2, C: 0.3, H: 0 })).toEqual({
+      rgb: { r: 255, g: 255, b: 255 },
+      inGamut: false,
+    });
+    expect(gamutMapOklch({ L: 0, C: 0.3, H: 0 }).rgb).toEqual({
+      r: 0,
+      g: 0,
+      b: 0,
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_NAME_DICTIONARIES,
+  colorNameDictionaries,
+  configureColorNames,
+  nearestColorNames,
+  nearestName,
+  searchColorNames,
+} from "@/lib/utils/color-names.utils";
+import { createRng } from "@/lib/utils/palette.utils";
+import { hexToRgb, rgbToOklab } from "@/lib/utils/color-math.utils";
+import type { RGB } from "@/types";
+
+afterEach(() => {
+  configureColorNames({ active: DEFAULT_NAME_DICTIONARIES, custom: [] });
+});
+
+/** ΔEOK to every entry of a dictionary, nearest first */
+function bruteForce(rgb: RGB, id: string, count: number): number[] {
+  const q = rgbToOklab(rgb);
+  const { colors } = colorNameDictionaries().find((d) => d.id === id)!;
+  return colors
+    .map(({ hex }) => {
+      const p = rgbToOklab(hexToRgb(hex));
+      return Math.hypot(q.L - p.L, q.a - p.a, q.b - p.b);
+    })
+    .sort((x, y) => x - y)
+    .slice(0, count);
+}
+
+describe("nearestColorNames", () => {
+  const rng = createRng(2024);
+  const queries = Array.from({ length: 60 }, () => ({
+    r: Math.floor(rng() * 256),
+    g: Math.floor(rng() * 256),
+    b: Math.floor(rng() * 256),
+  }));
+
+  it.each(["bundled", "css"])(
+    "finds the same nearest distances as a brute-force scan of %s",
+    (id) => {
+      for (const rgb of queries) {
+        const found = nearestColorNames(rgb, { count: 5, dictionaries: [id] });
+        const expected = bruteForce(rgb, id, 5);
+        found.forEach((m, i) => expect(m.score).toBeCloseTo(expected[i], 12));
+      }
+    },
+  );
+
+  it("puts exact hex matches first, in dictionary priority order", () => {
+    const [first, second] = nearestColorNames(hexToRgb("#ff6347"), {
+      count: 2,
+      dictionaries: ["css", "bundled"],
+    });
+    expect(first).toMatchObject({
+      name: "tomato",
+      dictionary: "css",
+      score: 0,
+    });
+    expect(second).toMatchObject({ dictionary: "bundled", score: 0 });
+  });
+
+  it("re-ranks by the chosen ΔE metric", () => {
+    const found = nearestColorNames(hexToRgb("#3b82f6"), {
+      count: 5,
+      metric: "2000",
+    });
+    const scores = found.map((m) => m.score);
+    expect(scores).toEqual([...scores].sort((x, y) => x - y));
+  });
+
+  it("uses the active dictionaries, falling back to the defaults", () => {
+    const custom = {
+      id: "brand",
+      label: "Brand",
+      colors: [{ name: "Signal Blue", hex: "#2255ee" }],
+    };
+    configureColorNames({ active: ["brand"], custom: [custom] });
+    expect(nearestName(hexToRgb("#2356ec"))).toBe("Signal Blue");
+    configureColorNames({ active: ["missing"], custom: [] });
+    expect(nearestColorNames(hexToRgb("#2356ec"))[0].dictionary).toBe(
+      "bundled",
+    );
+  });
+});
+
+describe("searchColorNames", () => {
+  it("ranks exact and prefix matches ahead of fuzzy ones", () => {
+    const names = searchColorNames("tomato", { dictionaries: ["css"] }).map(
+      (m) => m.name,
+    );
+    expect(names[0]).toBe("tomato");
+    expect(searchColorNames("rebpurp", { dictionaries: ["css"] })[0]).toEqual(
+      expect.objectContaining({ name: "rebeccapurple" }),
+    );
+  });
+});
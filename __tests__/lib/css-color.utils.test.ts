@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { parseColor } from "@/lib/utils/css-color.utils";
+
+/** [r, g, b, alpha 0–100] of a parsed color, null when it doesn't parse */
+const rgba = (input: string) => {
+  const c = parseColor(input);
+  return c && [c.rgb.r, c.rgb.g, c.rgb.b, c.alpha];
+};
+
+describe("parseColor", () => {
+  it.each([
+    ["#3d405b", [61, 64, 91, 100]],
+    ["#f008", [255, 0, 0, 53]],
+    ["rebeccapurple", [102, 51, 153, 100]],
+    ["rgb(61 64 91 / 50%)", [61, 64, 91, 50]],
+    ["rgba(100%, 0%, 0%, 0.25)", [255, 0, 0, 25]],
+    ["hsl(120deg 100% 25%)", [0, 128, 0, 100]],
+    ["hwb(0.5turn 0% 0%)", [0, 255, 255, 100]],
+    ["lab(50% 0 0)", [119, 119, 119, 100]],
+    ["oklch(62.8% 0.2577 29.23)", [255, 0, 0, 100]],
+    ["color(display-p3 1 0 0)", [255, 0, 0, 100]],
+  ])("reads %s", (input, expected) => {
+    expect(rgba(input)).toEqual(expected);
+  });
+
+  it("reports alpha as a 0–100 percentage", () => {
+    expect(parseColor("rgb(0 0 0 / 0.5)")?.alpha).toBe(50);
+    expect(parseColor("transparent")?.alpha).toBe(0);
+    expect(parseColor("#000")?.alpha).toBe(100);
+  });
+
+  it("flags and clips colors outside sRGB", () => {
+    expect(parseColor("color(display-p3 0 1 0)")).toMatchObject({
+      rgb: { r: 0, g: 255, b: 0 },
+      inGamut: false,
+    });
+    expect(parseColor("#00ff00")?.inGamut).toBe(true);
+  });
+
+  it("reads `none` components as 0 and rejects them in legacy syntax", () => {
+    expect(rgba("rgb(none 128 none)")).toEqual([0, 128, 0, 100]);
+    expect(rgba("rgb(255 0 0 / none)")).toEqual([255, 0, 0, 0]);
+    expect(rgba("oklch(0.7 0.1 none)")).toEqual(rgba("oklch(0.7 0.1 0)"));
+    expect(parseColor("rgb(255, none, 0)")).toBeNull();
+  });
+
+  it("rejects malformed input", () => {
+    for (const input of [
+      "",
+      "#12345",
+      "rgb(1 2)",
+      "rgb(1, 2 3)",
+      "rgb(1% 2 3%, 4)",
+      "hsl(120% 50% 50%)",
+      "color(unknown 1 0 0)",
+      "notacolor",
+    ])
+      expect(parseColor(input)).toBeNull();
+  });
+});
+
+describe("color-mix()", () => {
+  it("mixes in srgb with normalised percentages", () => {
+    expect(rgba("color-mix(in srgb, red, blue)")).toEqual([128, 0, 128, 100]);
+    expect(rgba("color-mix(in srgb, red 25%, blue)")).toEqual([
+      64, 0, 191, 100,
+    ]);
+    expect(rgba("color-mix(in srgb, 25% red, blue)")).toEqual(
+      rgba("color-mix(in srgb, red 25%, blue)"),
+    );
+    // Percentages summing under 100% scale the alpha down
+    expect(rgba("color-mix(in srgb, red 20%, blue 20%)")).toEqual([
+      128, 0, 128, 40,
+    ]);
+  });
+
+  it("premultiplies alpha", () => {
+    expect(rgba("color-mix(in srgb, rgb(255 0 0 / 0.2), blue)")).toEqual([
+      43, 0, 213, 60,
+    ]);
+  });
+
+  it("takes a `none` component from the other color", () => {
+    expect(rgba("color-mix(in srgb, rgb(none 0 0), white)")).toEqual([
+      255, 128, 128, 100,
+    ]);
+    expect(
+      rgba("color-mix(in oklch, oklch(0.7 0 none), oklch(0.7 0.2 150))"),
+    ).toEqual(rgba("oklch(0.7 0.1 150)"));
+  });
+
+  it.each([
+    // 350° → 10°: the short way passes through red, the long way through cyan
+    ["shorter", [255, 0, 0, 100]],
+    ["longer", [0, 255, 255, 100]],
+    ["increasing", [255, 0, 0, 100]],
+    ["decreasing", [0, 255, 255, 100]],
+  ])("interpolates hue the %s way", (method, expected) => {
+    expect(
+      rgba(
+        `color-mix(in hsl ${method} hue, hsl(350 100% 50%), hsl(10 100% 50%))`,
+      ),
+    ).toEqual(expected);
+  });
+
+  it("rejects hue methods without a hue and percentages past 100%", () => {
+    expect(parseColor("color-mix(in srgb longer hue, red, blue)")).toBeNull();
+    expect(parseColor("color-mix(in srgb, red 120%, blue)")).toBeNull();
+  });
+});
+
+describe("relative colors", () => {
+  it("reads channel keywords from the origin", () => {
+    expect(rgba("rgb(from #ff8000 b g r)")).toEqual([0, 128, 255, 100]);
+    expect(rgba("rgb(from rgb(255 0 0 / 0.5) r g b)")).toEqual([255, 0, 0, 50]);
+    expect(rgba("rgb(from #ff8000 r g b / 25%)")).toEqual([255, 128, 0, 25]);
+  });
+
+  it("converts the origin to the function's space", () => {
+    expect(rgba("hsl(from #ff0000 calc(h + 120) s l)")).toEqual([
+      0, 255, 0, 100,
+    ]);
+    expect(rgba("oklch(from #3b82f6 l 0 h)")).toEqual([135, 135, 135, 100]);
+    expect(rgba("color(from red display-p3 r g b)")).toEqual([255, 0, 0, 100]);
+    expect(rgba("color(from red xyz x y z)")).toEqual([255, 0, 0, 100]);
+  });
+
+  it("evaluates calc() over keywords", () => {
+    expect(
+      rgba("rgb(from red calc(r / 2) calc((g + 10) * 2) calc(-b + 51))"),
+    ).toEqual([128, 20, 51, 100]);
+    expect(rgba("rgb(from #ff000080 r g b / calc(alpha * 2))")).toEqual([
+      255, 0, 0, 100,
+    ]);
+  });
+
+  it("rejects unknown keywords, bad calc() and missing channels", () => {
+    for (const input of [
+      "rgb(from red r g)",
+      "rgb(from nope r g b)",
+      "rgb(from red x g b)",
+      "rgb(from red constructor g b)",
+      "rgb(from red calc(r / 0) g b)",
+      "rgb(from red calc(r + 10%) g b)",
+      "rgb(from red calc(r +) g b)",
+    ])
+      expect(parseColor(input)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { cvdMatrix, simulateCvdHex } from "@/lib/utils/cvd.utils";
+import type { CvdSimulation, CvdType } from "@/types";
+
+const sim = (
+  type: CvdType,
+  severity = 1,
+  method?: CvdSimulation["method"],
+): CvdSimulation => ({ type, severity, method });
+
+const simulate = (hexes: string[], s: CvdSimulation) =>
+  hexes.map((hex) => simulateCvdHex(hex, s));
+
+const SAMPLES = ["#ff0000", "#00ff00", "#0000ff", "#e07a5f"];
+
+describe("simulateCvd", () => {
+  // Machado et al. 2009 Table 1 matrices applied in linear sRGB, worked
+  // through independently of the engine
+  it.each([
+    ["protan", 1, ["#6d5f00", "#ffe500", "#0059ff", "#94895c"]],
+    ["deutan", 1, ["#a39000", "#efd63a", "#003dfb", "#ad9f5d"]],
+    ["tritan", 1, ["#ff000f", "#00f7d9", "#006b96", "#f46873"]],
+    ["protan", 0.5, ["#b45600", "#d7ed00", "#0046ff", "#b4875d"]],
+  ] as const)("matches Machado %s at severity %d", (type, severity, out) => {
+    expect(simulate(SAMPLES, sim(type, severity))).toEqual(out);
+  });
+
+  // Brettel et al. 1997 half-planes (DaltonLens coefficients)
+  it.each([
+    ["protan", ["#6c5c0c", "#ffed00", "#0038ff", "#968960"]],
+    ["tritan", ["#ff004e", "#79e9ff", "#006288", "#e27483"]],
+  ] as const)("matches Brettel %s", (type, out) => {
+    expect(simulate(SAMPLES, sim(type, 1, "brettel"))).toEqual(out);
+  });
+
+  it("keeps neutrals neutral under every deficiency", () => {
+    const grays = ["#000000", "#808080", "#ffffff"];
+    for (const type of ["protan", "deutan", "achromat", "bcm"] as const)
+      for (const method of ["machado", "brettel"] as const)
+        expect(simulate(grays, sim(type, 1, method))).toEqual(grays);
+  });
+
+  it("leaves colors alone at severity 0 and interpolates between rows", () => {
+    expect(simulate(SAMPLES, sim("deutan", 0))).toEqual(SAMPLES);
+    const mid = cvdMatrix("protan", 0.55);
+    const [lo, hi] = [cvdMatrix("protan", 0.5), cvdMatrix("protan", 0.6)];
+    mid.forEach((v, i) => expect(v).toBeCloseTo((lo[i] + hi[i]) / 2, 10));
+  });
+
+  it("reduces achromatopsia to luminance", () => {
+    expect(simulate(["#ff0000", "#00ff00"], sim("achromat"))).toEqual([
+      "#7f7f7f",
+      "#dcdcdc",
+    ]);
+  });
+});
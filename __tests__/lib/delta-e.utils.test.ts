@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  DELTA_E_METRICS,
+  DELTA_E_METRIC_IDS,
+  deltaE,
+  deltaEJnd,
+} from "@/lib/utils/delta-e.utils";
+import { hexToRgb } from "@/lib/utils/color-math.utils";
+
+type Lab = [number, number, number];
+
+// Sharma, Wu & Dalal (2005), "The CIEDE2000 color-difference formula:
+// implementation notes, supplementary test data and mathematical observations"
+const SHARMA: [Lab, Lab, number][] = [
+  [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+  [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+  [[50, 2.8361, -74.02], [50, 0, -82.7485], 3.4412],
+  [[50, -1.3802, -84.2814], [50, 0, -82.7485], 1],
+  [[50, -1.1848, -84.8006], [50, 0, -82.7485], 1],
+  [[50, -0.9009, -85.5211], [50, 0, -82.7485], 1],
+  [[50, 0, 0], [50, -1, 2], 2.3669],
+  [[50, -1, 2], [50, 0, 0], 2.3669],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+  [[50, 2.49, -0.001], [50, -2.49, 0.001], 7.1792],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0011], 7.2195],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0012], 7.2195],
+  [[50, -0.001, 2.49], [50, 0.0009, -2.49], 4.8045],
+  [[50, -0.001, 2.49], [50, 0.001, -2.49], 4.8045],
+  [[50, -0.001, 2.49], [50, 0.0011, -2.49], 4.7461],
+  [[50, 2.5, 0], [50, 0, -2.5], 4.3065],
+  [[50, 2.5, 0], [73, 25, -18], 27.1492],
+  [[50, 2.5, 0], [61, -5, 29], 22.8977],
+  [[50, 2.5, 0], [56, -27, -3], 31.903],
+  [[50, 2.5, 0], [58, 24, 15], 19.4535],
+  [[50, 2.5, 0], [50, 3.1736, 0.5854], 1],
+  [[50, 2.5, 0], [50, 3.2972, 0], 1],
+  [[50, 2.5, 0], [50, 1.8634, 0.5757], 1],
+  [[50, 2.5, 0], [50, 3.2592, 0.335], 1],
+  [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+  [[63.0109, -31.0961, -5.8663], [62.8187, -29.7946, -4.0864], 1.263],
+  [[61.2901, 3.7196, -5.3901], [61.4292, 2.248, -4.962], 1.8731],
+  [[35.0831, -44.1164, 3.7933], [35.0232, -40.0716, 1.5901], 1.8645],
+  [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+  [[36.4612, 47.858, 18.3852], [36.2715, 50.5065, 21.2231], 1.4146],
+  [[90.8027, -2.0831, 1.441], [91.1528, -1.6435, 0.0447], 1.4441],
+  [[90.9257, -0.5406, -0.9208], [88.6381, -0.8985, -0.7239], 1.5381],
+  [[6.7747, -0.2908, -2.4247], [5.8714, -0.0985, -2.2286], 0.6377],
+  [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+];
+
+describe("ΔE2000", () => {
+  it.each(SHARMA)("matches Sharma's test data for %o → %o", (x, y, de) => {
+    expect(DELTA_E_METRICS["2000"].diff(x, y)).toBeCloseTo(de, 4);
+  });
+
+  it("is symmetric", () => {
+    for (const [x, y] of SHARMA)
+      expect(DELTA_E_METRICS["2000"].diff(y, x)).toBeCloseTo(
+        DELTA_E_METRICS["2000"].diff(x, y),
+        10,
+      );
+  });
+});
+
+describe("deltaE", () => {
+  const rgb = (a: string, b: string) => [hexToRgb(a), hexToRgb(b)] as const;
+
+  // Reference values from color.js deltaEOK / deltaEITP
+  it.each([
+    ["#ff0000", "#fe0101", 0.001934, 0.76688],
+    ["#3d405b", "#81b29a", 0.353749, 130.55081],
+    ["#0000ff", "#1010f0", 0.024269, 9.172271],
+    ["#000000", "#ffffff", 1, 418.095468],
+  ])("measures %s → %s in OKLab and ICtCp", (a, b, ok, itp) => {
+    expect(deltaE(...rgb(a, b), "ok")).toBeCloseTo(ok, 6);
+    expect(deltaE(...rgb(a, b), "itp")).toBeCloseTo(itp, 5);
+  });
+
+  it("gives 0 for identical colors under every metric", () => {
+    for (const metric of DELTA_E_METRIC_IDS)
+      expect(deltaE(...rgb("#e07a5f", "#e07a5f"), metric)).toBe(0);
+  });
+
+  it("weights ΔE94 and CMC by the first color, the rest symmetrically", () => {
+    const [a, b] = rgb("#3b82f6", "#60a5fa");
+    for (const metric of DELTA_E_METRIC_IDS)
+      if (metric === "94" || metric === "cmc")
+        expect(deltaE(a, b, metric)).not.toBeCloseTo(deltaE(b, a, metric), 6);
+      else expect(deltaE(a, b, metric)).toBeCloseTo(deltaE(b, a, metric), 10);
+  });
+
+  it("scales to just-noticeable differences", () => {
+    const [a, b] = rgb("#0000ff", "#1010f0");
+    expect(deltaEJnd(a, b, "ok")).toBeCloseTo(0.024269 / 0.02, 4);
+    expect(deltaEJnd(a, b, "76")).toBeCloseTo(deltaE(a, b, "76") / 2.3, 10);
+  });
+});
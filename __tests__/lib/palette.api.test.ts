@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { fetchSource } from "@/lib/api/palette.api";
+
+let server: Server;
+let host: string;
+let base: string;
+
+const routes: Record<string, (port: number) => [number, string, string?]> = {
+  "/page": () => [
+    200,
+    `<link rel="stylesheet" href="/a.css">
+     <link rel="stylesheet" href="/missing.css">
+     <link rel="stylesheet" href="http://10.0.0.1/internal.css">
+     <link rel="stylesheet" href="http://169.254.169.254/latest/meta-data">
+     <p style="color:#e07a5f">hi</p>`,
+  ],
+  "/a.css": () => [200, `@import url("b.css");\n.a { color: #3d405b; }`],
+  "/b.css": () => [200, `.b { color: #81b29a; }`],
+  "/moved": () => [302, "", "/page"],
+  "/escape": (port) => [302, "", `http://localhost:${port}/page`],
+  "/metadata": () => [302, "", "http://169.254.169.254/"],
+  "/loop": () => [302, "", "/loop"],
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const port = (server.address() as AddressInfo).port;
+    if (req.url === "/huge") {
+      // Chunked, so there's no content-length to reject it up front, and
+      // never ended — only a reader that stops at the limit gets an answer
+      res.writeHead(200, { "content-type": "text/plain" });
+      const chunk = "a".repeat(64 * 1024);
+      for (let i = 0; i < 48; i++) res.write(chunk);
+      return;
+    }
+    const route = routes[req.url ?? ""];
+    if (!route) return void res.writeHead(404).end();
+    const [status, body, location] = route(port);
+    res.writeHead(status, location ? { location } : {}).end(body);
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  base = `http://${host}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("fetchSource", () => {
+  it("follows stylesheet links and @imports, reporting ones that fail", async () => {
+    const { text, fetched, failed } = await fetchSource(`${base}/page`, {
+      allowHosts: [host],
+    });
+    expect(fetched).toEqual([`${base}/page`, `${base}/a.css`, `${base}/b.css`]);
+    expect(failed).toEqual([
+      `${base}/missing.css`,
+      "http://10.0.0.1/internal.css",
+      "http://169.254.169.254/latest/meta-data",
+    ]);
+    for (const hex of ["#e07a5f", "#3d405b", "#81b29a"])
+      expect(text).toContain(hex);
+  });
+
+  it("resolves stylesheets against the URL redirected to", async () => {
+    const { fetched } = await fetchSource(`${base}/moved`, {
+      allowHosts: [host],
+    });
+    expect(fetched).toContain(`${base}/a.css`);
+  });
+
+  it("rejects loopback hosts", async () => {
+    await expect(fetchSource(`${base}/page`)).rejects.toThrow(
+      "is a private or unresolvable host",
+    );
+    await expect(fetchSource("http://[::1]/")).rejects.toThrow(
+      "is a private or unresolvable host",
+    );
+  });
+
+  it("rejects private and metadata addresses", async () => {
+    for (const url of [
+      "http://10.1.2.3/",
+      "http://172.16.0.1/",
+      "http://192.168.1.1/",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::ffff:127.0.0.1]/",
+    ])
+      await expect(fetchSource(url)).rejects.toThrow("private");
+  });
+
+  it("checks every redirect hop", async () => {
+    const options = { allowHosts: [host] };
+    await expect(fetchSource(`${base}/escape`, options)).rejects.toThrow(
+      "redirects to a private or unresolvable host",
+    );
+    await expect(fetchSource(`${base}/metadata`, options)).rejects.toThrow(
+      "redirects to a private or unresolvable host",
+    );
+    await expect(fetchSource(`${base}/loop`, options)).rejects.toThrow(
+      "redirects too often",
+    );
+  });
+
+  it("stops reading a body past the size limit", async () => {
+    await expect(
+      fetchSource(`${base}/huge`, { allowHosts: [host] }),
+    ).rejects.toThrow("is too large to scan");
+  }, 5_000);
+});
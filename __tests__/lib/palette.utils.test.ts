@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  createRng,
+  decodeSharePayload,
+  decodeUrl,
+  encodeSharePayload,
+  genPalette,
+  hexToStop,
+} from "@/lib/utils/palette.utils";
+import { HARMONIES } from "@/lib/constants/chroma";
+import type { PaletteSlot } from "@/types";
+
+const hexes = (...args: Parameters<typeof genPalette>) =>
+  genPalette(...args).map((c) => c.hex);
+
+describe("seeded generation", () => {
+  it("gives the same palette for the same seed in every mode", () => {
+    for (const { id } of HARMONIES)
+      expect(hexes(id, 6, null, "influence", 0, 42)).toEqual(
+        hexes(id, 6, null, "influence", 0, 42),
+      );
+  });
+
+  it("gives different palettes for different seeds", () => {
+    const palettes = new Set(
+      [1, 2, 3, 0xffffffff].map((seed) =>
+        hexes("analogous", 6, null, "influence", 0, seed).join(),
+      ),
+    );
+    expect(palettes.size).toBe(4);
+  });
+
+  it("replays with seeds, pinning and temperature applied", () => {
+    const seeds = [hexToStop("#e07a5f").hsl];
+    expect(hexes("triadic", 5, seeds, "pin", 0.4, 7)).toEqual(
+      hexes("triadic", 5, seeds, "pin", 0.4, 7),
+    );
+    expect(hexes("triadic", 5, seeds, "pin", 0.4, 7)[0]).toBe("#e07a5f");
+  });
+
+  it("takes a seed or an equivalent PRNG interchangeably", () => {
+    expect(hexes("tetradic", 4, null, "influence", 0, createRng(99))).toEqual(
+      hexes("tetradic", 4, null, "influence", 0, 99),
+    );
+  });
+});
+
+const slot = (hex: string, name?: string, locked = false): PaletteSlot => ({
+  id: crypto.randomUUID(),
+  color: hexToStop(hex),
+  locked,
+  name,
+});
+
+describe("share links", () => {
+  it("round-trips slots, generator settings and brand colors", () => {
+    const shared = decodeSharePayload(
+      encodeSharePayload({
+        mode: "triadic",
+        count: 4,
+        slots: [
+          slot("#3b82f6", "Sky", true),
+          slot("#f59e0b80"),
+          slot("#10b981"),
+        ],
+        seeds: [hexToStop("#6366f1")],
+        seedMode: "pin",
+        temperature: -0.5,
+        rngSeed: 123456789,
+        brandColors: [
+          { id: "b1", label: "Brand", hex: "#112233" },
+          { id: "b2", label: "Tint", hex: "#11223380" },
+        ],
+      }),
+    );
+
+    expect(shared).not.toBeNull();
+    expect(shared!.mode).toBe("triadic");
+    expect(shared!.count).toBe(4);
+    expect(
+      shared!.slots.map((s) => [s.color.hex, s.color.a, s.locked, s.name]),
+    ).toEqual([
+      ["#3b82f6", undefined, true, "Sky"],
+      ["#f59e0b", 50, false, undefined],
+      ["#10b981", undefined, false, undefined],
+    ]);
+    expect(shared!.seeds?.map((s) => s.hex)).toEqual(["#6366f1"]);
+    expect(shared!.seedMode).toBe("pin");
+    expect(shared!.temperature).toBe(-0.5);
+    expect(shared!.rngSeed).toBe(123456789);
+    expect(shared!.brandColors?.map((b) => [b.hex, b.label])).toEqual([
+      ["#112233", "Brand"],
+      ["#11223380", "Tint"],
+    ]);
+  });
+
+  it("clips long slot names and brand labels instead of breaking the link", () => {
+    const long = "Midnight ".repeat(20);
+    const emoji = "a" + "🎨".repeat(60);
+    const shared = decodeSharePayload(
+      encodeSharePayload({
+        mode: "analogous",
+        slots: [slot("#000000", long), slot("#ffffff", emoji)],
+        brandColors: [{ id: "b1", label: long, hex: "#123456" }],
+      }),
+    );
+
+    expect(shared).not.toBeNull();
+    expect(shared!.slots[0].name).toBe(long.slice(0, 80));
+    // 79 units would end mid-pair, so the lone high surrogate is dropped
+    expect(shared!.slots[1].name).toBe("a" + "🎨".repeat(39));
+    expect(shared!.brandColors?.[0].label).toBe(long.slice(0, 80));
+  });
+
+  it("drops slots, seeds and brand colors past the 64 a link can hold", () => {
+    const many = Array.from({ length: 70 }, (_, i) =>
+      slot("#" + i.toString(16).padStart(6, "0")),
+    );
+    const shared = decodeSharePayload(
+      encodeSharePayload({
+        mode: "analogous",
+        count: 70,
+        slots: many,
+        seeds: many.map((s) => s.color),
+        brandColors: many.map((s) => ({
+          id: s.id,
+          label: s.color.hex,
+          hex: s.color.hex,
+        })),
+      }),
+    );
+
+    expect(shared).not.toBeNull();
+    expect(shared!.count).toBe(64);
+    expect(shared!.slots).toHaveLength(64);
+    expect(shared!.slots[63].color.hex).toBe("#00003f");
+    expect(shared!.seeds).toHaveLength(64);
+    expect(shared!.brandColors).toHaveLength(64);
+  });
+
+  it("rejects unknown harmony modes", () => {
+    const data = btoa(JSON.stringify({ v: 2, m: "nope", s: [["ffffff", 0]] }));
+    expect(decodeSharePayload(data)).toBeNull();
+  });
+});
+
+describe("legacy share links", () => {
+  const decodeHash = (hash: string) => {
+    location.hash = hash;
+    return decodeUrl();
+  };
+
+  it("reads hexes, mode and seed", () => {
+    const shared = decodeHash("#p=3b82f6-f59e0b&m=triadic&r=42");
+    expect(shared?.version).toBe(1);
+    expect(shared?.mode).toBe("triadic");
+    expect(shared?.slots.map((s) => s.color.hex)).toEqual([
+      "#3b82f6",
+      "#f59e0b",
+    ]);
+    expect(shared?.rngSeed).toBe(42);
+  });
+
+  it("ignores a seed outside the 32-bit range instead of wrapping it", () => {
+    expect(
+      decodeHash("#p=3b82f6-f59e0b&r=4294967296")?.rngSeed,
+    ).toBeUndefined();
+    expect(decodeHash("#p=3b82f6-f59e0b&r=1e20")?.rngSeed).toBeUndefined();
+    expect(decodeHash("#p=3b82f6-f59e0b&r=4294967295")?.rngSeed).toBe(
+      4294967295,
+    );
+  });
+});
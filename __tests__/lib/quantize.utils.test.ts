@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  EXTRACT_ALGORITHM_IDS,
+  pixelClusters,
+  quantizePixels,
+} from "@/lib/utils/quantize.utils";
+import { createRng } from "@/lib/utils/palette.utils";
+import { hexToRgb, rgbToHex } from "@/lib/utils/color-math.utils";
+import { deltaE } from "@/lib/utils/delta-e.utils";
+import type { PixelBuffer } from "@/types";
+
+/** A 100-pixel-wide image of horizontal bands, `[hex, rows, alpha?]` each */
+function bands(spec: [string, number, number?][]): PixelBuffer {
+  const width = 100;
+  const height = spec.reduce((n, [, rows]) => n + rows, 0);
+  const data = new Uint8ClampedArray(width * height * 4);
+  let i = 0;
+  for (const [hex, rows, alpha = 255] of spec) {
+    const { r, g, b } = hexToRgb(hex);
+    for (let p = 0; p < rows * width; p++, i += 4)
+      data.set([r, g, b, alpha], i);
+  }
+  return { data, width, height };
+}
+
+const summary = (
+  colors: { rgb: Parameters<typeof rgbToHex>[0]; share: number }[],
+) => colors.map((c) => [rgbToHex(c.rgb), +c.share.toFixed(4)]);
+
+const FLAGS = bands([
+  ["#e63946", 40],
+  ["#1d3557", 30],
+  ["#2a9d8f", 20],
+  ["#f4a261", 10],
+]);
+
+describe("quantizePixels", () => {
+  it.each(EXTRACT_ALGORITHM_IDS)(
+    "recovers flat colors and their exact coverage with %s",
+    (algorithm) => {
+      expect(summary(quantizePixels(FLAGS, { algorithm, count: 4 }))).toEqual([
+        ["#e63946", 0.4],
+        ["#1d3557", 0.3],
+        ["#2a9d8f", 0.2],
+        ["#f4a261", 0.1],
+      ]);
+    },
+  );
+
+  it.each(EXTRACT_ALGORITHM_IDS)(
+    "finds the centers of two noisy color families with %s",
+    (algorithm) => {
+      const rng = createRng(7);
+      const image = bands([
+        ["#d62828", 50],
+        ["#003049", 50],
+      ]);
+      // ±12 per channel of jitter around each center
+      for (let i = 0; i < image.data.length; i += 4)
+        for (let c = 0; c < 3; c++)
+          image.data[i + c] += Math.round((rng() - 0.5) * 24);
+
+      const found = quantizePixels(image, { algorithm, count: 2 });
+      expect(found).toHaveLength(2);
+      for (const center of ["#d62828", "#003049"]) {
+        const want = hexToRgb(center);
+        const [match] = [...found].sort(
+          (x, y) => deltaE(x.rgb, want, "ok") - deltaE(y.rgb, want, "ok"),
+        );
+        // Within two just-noticeable differences of the true center
+        expect(deltaE(match.rgb, want, "ok")).toBeLessThan(0.04);
+        expect(match.share).toBeCloseTo(0.5, 2);
+      }
+    },
+  );
+
+  it("drops neutrals and transparent pixels unless asked", () => {
+    const image = bands([
+      ["#e63946", 30],
+      ["#f5f5f5", 50],
+      ["#1d3557", 20, 0],
+    ]);
+    expect(summary(quantizePixels(image))).toEqual([["#e63946", 0.375]]);
+    expect(summary(quantizePixels(image, { neutrals: true }))).toEqual([
+      ["#f5f5f5", 0.625],
+      ["#e63946", 0.375],
+    ]);
+  });
+
+  it("only counts pixels inside the region", () => {
+    const roi = { x: 0, y: 0.5, w: 1, h: 0.5 };
+    const colors = summary(quantizePixels(FLAGS, { roi }));
+    expect(colors).toHaveLength(3);
+    expect(colors).toEqual(
+      expect.arrayContaining([
+        ["#1d3557", 0.4],
+        ["#2a9d8f", 0.4],
+        ["#f4a261", 0.2],
+      ]),
+    );
+  });
+
+  it("sorts by saturation on request", () => {
+    const colors = quantizePixels(FLAGS, { sort: "saturation" });
+    expect(colors.map((c) => rgbToHex(c.rgb))).toEqual([
+      "#f4a261",
+      "#e63946",
+      "#2a9d8f",
+      "#1d3557",
+    ]);
+  });
+});
+
+describe("pixelClusters", () => {
+  it("covers every pixel, neutrals included", () => {
+    const image = bands([
+      ["#e63946", 30],
+      ["#f5f5f5", 50],
+      ["#1d3557", 20],
+    ]);
+    const clusters = pixelClusters(image, 4);
+    expect(summary(clusters)).toEqual([
+      ["#f5f5f5", 0.5],
+      ["#e63946", 0.3],
+      ["#1d3557", 0.2],
+    ]);
+    expect(clusters.reduce((s, c) => s + c.share, 0)).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractSourceColors,
+  scanColorLiterals,
+} from "@/lib/utils/source-colors.utils";
+
+const literals = (source: string) =>
+  scanColorLiterals(source).map((l) => l.literal);
+
+describe("scanColorLiterals", () => {
+  it("finds hex, functional and named colors in CSS", () => {
+    const css = `
+      /* #ffffff in a comment */
+      #add:hover { color: #E07A5F; }
+      .card {
+        background: rgb(61 64 91 / 0.9);
+        border: 1px solid  Tomato;
+        box-shadow: 0 0 2px hsl(200deg 50% 50%);
+        outline-color: oklch(70% 0.1 150);
+        fill: var(--brand);
+        color: transparent;
+      }
+    `;
+    expect(literals(css)).toEqual([
+      "#e07a5f",
+      "rgb(61 64 91 / 0.9)",
+      "tomato",
+      "hsl(200deg 50% 50%)",
+      "oklch(70% 0.1 150)",
+    ]);
+  });
+
+  it("reads style and color attributes in HTML but not prose", () => {
+    const html = `
+      <p style="color: navy; background:#fafafa">The red button &#123;</p>
+      <a href="#abc">link</a>
+      <font color="teal">old</font>
+    `;
+    expect(literals(html)).toEqual(["navy", "#fafafa", "teal"]);
+  });
+
+  it("reads SVG presentation attributes and skips url() references", () => {
+    const svg = `
+      <svg>
+        <linearGradient id="g"><stop stop-color="#3d405b"/></linearGradient>
+        <rect fill="url(#abc)" stroke="gold"/>
+        <circle fill="#81b29a80"/>
+      </svg>
+    `;
+    expect(literals(svg)).toEqual(["#3d405b", "gold", "#81b29a80"]);
+  });
+
+  it("returns rgb values and offsets in source order", () => {
+    const [a, b] = scanColorLiterals("a{color:#f00} b{color:blue}");
+    expect(a.rgb).toEqual({ r: 255, g: 0, b: 0 });
+    expect(b.rgb).toEqual({ r: 0, g: 0, b: 255 });
+    expect(a.index).toBeLessThan(b.index);
+  });
+});
+
+describe("extractSourceColors", () => {
+  const source = `
+    .a { color: #e07a5f; }
+    .b { color: #e07a5f; }
+    .c { color: #e17b5f; }
+    .d { color: rgb(224, 122, 95); }
+    .e { color: #3d405b; }
+  `;
+
+  it("clusters near-duplicates into the most frequent color", () => {
+    const colors = extractSourceColors(source);
+    expect(colors.map((c) => [c.hex, c.count])).toEqual([
+      ["#e07a5f", 4],
+      ["#3d405b", 1],
+    ]);
+    expect(colors[0].share).toBeCloseTo(0.8);
+    expect(colors[0].literals).toEqual([
+      "#e07a5f",
+      "rgb(224, 122, 95)",
+      "#e17b5f",
+    ]);
+  });
+
+  it("keeps every distinct color at a radius of 0", () => {
+    expect(extractSourceColors(source, { jnds: 0 }).map((c) => c.hex)).toEqual([
+      "#e07a5f",
+      "#e17b5f",
+      "#3d405b",
+    ]);
+  });
+
+  it("returns nothing for a source without colors", () => {
+    expect(extractSourceColors("<p>plain text</p>")).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { slotsFromHexes } from "@/lib/utils/palette-export.utils";
+import {
+  buildSwatchFile,
+  parseSwatchFile,
+} from "@/lib/utils/swatch-file.utils";
+
+const slots = slotsFromHexes([
+  { hex: "#e07a5f", name: "Terra Cotta" },
+  { hex: "#3d405b", name: "Delft Blue" },
+  { hex: "#81b29a", name: "Sage" },
+]);
+
+const parsed = async (bytes: Uint8Array, filename?: string) => {
+  const { name, skipped, slots } = await parseSwatchFile(bytes, filename);
+  return {
+    name,
+    skipped,
+    colors: slots.map((s) => [s.color.hex, s.name]),
+  };
+};
+
+/** Big-endian ASE bytes: one swatch block per `[name, model, values]` */
+function ase(swatches: [string, string, number[]][]): Uint8Array {
+  const size = swatches.reduce(
+    (n, [name, , values]) =>
+      n + 6 + 2 + (name.length + 1) * 2 + 4 + values.length * 4 + 2,
+    12,
+  );
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode("ASEF"));
+  view.setUint16(4, 1);
+  view.setUint32(8, swatches.length);
+  let off = 12;
+  for (const [name, model, values] of swatches) {
+    view.setUint16(off, 0x0001);
+    view.setUint32(
+      off + 2,
+      2 + (name.length + 1) * 2 + 4 + values.length * 4 + 2,
+    );
+    off += 6;
+    view.setUint16(off, name.length + 1);
+    off += 2;
+    for (const ch of name) {
+      view.setUint16(off, ch.charCodeAt(0));
+      off += 2;
+    }
+    off += 2; // NUL
+    bytes.set(new TextEncoder().encode(model), off);
+    off += 4;
+    for (const v of values) {
+      view.setFloat32(off, v);
+      off += 4;
+    }
+    off += 2; // color type
+  }
+  return bytes;
+}
+
+describe("parseSwatchFile", () => {
+  it.each(["ase", "aco"] as const)("reads back a %s file", async (format) => {
+    const { data } = buildSwatchFile(format, slots, "Sunset");
+    expect(await parsed(data)).toEqual({
+      name: format === "ase" ? "Sunset" : undefined,
+      skipped: 0,
+      colors: [
+        ["#e07a5f", "Terra Cotta"],
+        ["#3d405b", "Delft Blue"],
+        ["#81b29a", "Sage"],
+      ],
+    });
+  });
+
+  it("converts ASE CMYK and gray entries and skips unknown models", async () => {
+    const bytes = ase([
+      ["Ink", "CMYK", [0, 1, 1, 0]],
+      ["Mid", "Gray", [0.5]],
+      ["Odd", "XYZ ", [0, 0, 0]],
+    ]);
+    expect(await parsed(bytes)).toEqual({
+      name: undefined,
+      skipped: 1,
+      colors: [
+        ["#ff0000", "Ink"],
+        ["#808080", "Mid"],
+      ],
+    });
+  });
+
+  it.each(["ase", "aco"] as const)(
+    "reports a truncated %s file instead of a RangeError",
+    async (format) => {
+      const { data } = buildSwatchFile(format, slots, "Sunset");
+      for (const length of [10, 20, data.length - 1]) {
+        const error = await parseSwatchFile(
+          data.subarray(0, length),
+          `sunset.${format}`,
+        ).catch((e: unknown) => e);
+        expect(error).not.toBeInstanceOf(RangeError);
+        expect(error).toHaveProperty(
+          "message",
+          expect.stringContaining(`Not a valid ${format.toUpperCase()} file`),
+        );
+      }
+    },
+  );
+
+  it("rejects an ASE block that claims more bytes than it holds", async () => {
+    const bytes = ase([["Mid", "Gray", [0.5]]]);
+    // Name length past the end of its block
+    new DataView(bytes.buffer).setUint16(18, 500);
+    await expect(parseSwatchFile(bytes)).rejects.toThrow(
+      "Not a valid ASE file",
+    );
+  });
+});
@@ -0,0 +1,355 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useChromaStore } from "@/stores/chroma.store";
+import { hexToStop } from "@/lib/utils/palette.utils";
+import { createHistory } from "@/lib/utils/history.utils";
+
+const store = () => useChromaStore.getState();
+
+describe("rngSeed", () => {
+  beforeEach(() => store().generateWithSeed(1234));
+
+  it("is set by generate", () => {
+    expect(store().rngSeed).toBe(1234);
+  });
+
+  it.each([
+    ["editSlotColor", () => store().editSlotColor(0, hexToStop("#123456"))],
+    ["reorderSlots", () => store().reorderSlots(0, 2)],
+    ["addSlot", () => store().addSlot(hexToStop("#abcdef"))],
+    ["removeSlot", () => store().removeSlot(0)],
+  ])("is cleared by %s", (_, edit) => {
+    edit();
+    expect(store().rngSeed).toBeNull();
+  });
+
+  it("survives renaming a slot — names aren't generated", () => {
+    store().renameSlot(0, "Accent");
+    expect(store().rngSeed).toBe(1234);
+  });
+
+  it("survives locking and unlocking — locks aren't part of the seed", () => {
+    store().toggleLock(0);
+    expect(store().rngSeed).toBe(1234);
+    store().toggleLock(0);
+    expect(store().rngSeed).toBe(1234);
+  });
+
+  it("comes back with undo and with the next generate", () => {
+    store().editSlotColor(0, hexToStop("#123456"));
+    store().undo();
+    expect(store().rngSeed).toBe(1234);
+    store().editSlotColor(0, hexToStop("#123456"));
+    store().generateWithSeed(99);
+    expect(store().rngSeed).toBe(99);
+  });
+});
+
+describe("history", () => {
+  let now = 1_000_000;
+  /** Tracked fields worth comparing — slots by color, lock and order */
+  const tracked = () => {
+    const { slots, scaleHex, rngSeed } = store();
+    return {
+      slots: slots.map((s) => `${s.id}:${s.color.hex}:${s.locked}`),
+      scaleHex,
+      rngSeed,
+    };
+  };
+  const entries = () => Object.values(store().history.entries);
+  const current = () => store().history.entries[store().history.currentId];
+  /** Let the clock run past the merge window */
+  const later = () => (now += 5_000);
+
+  beforeEach(() => {
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+    store().generateWithSeed(1234);
+    useChromaStore.setState({ history: createHistory("Test") });
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it("undoes and redoes a sequence of edits back to each state", () => {
+    const states = [tracked()];
+    const edits = [
+      () => store().editSlotColor(0, hexToStop("#123456")),
+      () => store().addSlot(hexToStop("#abcdef"), 1),
+      () => store().reorderSlots(0, 2),
+      () => store().setScaleHex("#ff0000"),
+      () => store().removeSlot(1),
+    ];
+    for (const edit of edits) {
+      later();
+      edit();
+      states.push(tracked());
+    }
+    for (let i = states.length - 2; i >= 0; i--) {
+      store().undo();
+      expect(tracked()).toEqual(states[i]);
+    }
+    store().undo();
+    expect(tracked()).toEqual(states[0]);
+    for (let i = 1; i < states.length; i++) {
+      store().redo();
+      expect(tracked()).toEqual(states[i]);
+    }
+    store().redo();
+    expect(tracked()).toEqual(states.at(-1));
+  });
+
+  it("keeps the undone branch after a new edit and jumps between branches", () => {
+    store().editSlotColor(0, hexToStop("#111111"));
+    const a = current().id;
+    later();
+    store().editSlotColor(0, hexToStop("#222222"));
+    const b = current().id;
+    const atB = tracked();
+    store().undo();
+    later();
+    store().editSlotColor(1, hexToStop("#333333"));
+    const c = current().id;
+    const atC = tracked();
+
+    expect(entries().map((e) => e.id)).toEqual(
+      expect.arrayContaining([a, b, c]),
+    );
+    expect(store().history.entries[b].parentId).toBe(a);
+    expect(store().history.entries[c].parentId).toBe(a);
+
+    store().jumpToHistory(b);
+    expect(tracked()).toEqual(atB);
+    // Redo retraces the jump: back up to the fork, then down the old branch
+    store().undo();
+    expect(store().history.currentId).toBe(a);
+    store().redo();
+    expect(store().history.currentId).toBe(b);
+
+    store().jumpToHistory(c);
+    expect(tracked()).toEqual(atC);
+  });
+
+  it("folds rapid edits with the same key into one entry", () => {
+    const before = tracked();
+    for (const hex of ["#101010", "#202020", "#303030", "#404040"]) {
+      now += 100;
+      store().editSlotColor(0, hexToStop(hex));
+    }
+    const merged = tracked();
+    expect(entries()).toHaveLength(2);
+    // Only the last write to each path is kept, each way
+    const paths = (ps: { path: (string | number)[] }[]) =>
+      ps.map((p) => p.path.join("."));
+    expect(new Set(paths(current().patches)).size).toBe(
+      current().patches.length,
+    );
+    expect(new Set(paths(current().inverse)).size).toBe(
+      current().inverse.length,
+    );
+
+    store().undo();
+    expect(tracked()).toEqual(before);
+    store().redo();
+    expect(tracked()).toEqual(merged);
+  });
+
+  it("starts a new entry once the merge window has passed or after an undo", () => {
+    store().editSlotColor(0, hexToStop("#101010"));
+    later();
+    store().editSlotColor(0, hexToStop("#202020"));
+    expect(entries()).toHaveLength(3);
+    now += 100;
+    store().editSlotColor(1, hexToStop("#303030"));
+    expect(entries()).toHaveLength(4);
+
+    store().undo();
+    now += 100;
+    store().editSlotColor(1, hexToStop("#404040"));
+    // A new branch beside the undone edit, not merged into its parent
+    expect(entries()).toHaveLength(5);
+  });
+
+  it("prunes abandoned branch tips first, then the oldest entries", () => {
+    store().editSlotColor(0, hexToStop("#101010"));
+    later();
+    store().editSlotColor(0, hexToStop("#202020"));
+    const abandoned = current().id;
+    store().undo();
+
+    const states = [tracked()];
+    for (let i = 0; i < 199; i++) {
+      store().toggleLock(i % 2);
+      states.push(tracked());
+    }
+    // 202 recorded, so the abandoned tip and then the root went first
+    expect(entries()).toHaveLength(200);
+    expect(store().history.entries[abandoned]).toBeUndefined();
+    const root = store().history.entries[store().history.rootId];
+    expect(root.parentId).toBeNull();
+
+    // Undo walks back to the oldest state still held and no further
+    let undone = 0;
+    while (current().parentId) {
+      store().undo();
+      undone++;
+    }
+    expect(undone).toBe(199);
+    expect(tracked()).toEqual(states[states.length - 1 - undone]);
+    store().undo();
+    expect(tracked()).toEqual(states[states.length - 1 - undone]);
+  });
+});
+
+describe("projects", () => {
+  const projectNames = () => store().projects.map((p) => p.name);
+  const activeName = () =>
+    store().projects.find((p) => p.id === store().activeProjectId)?.name;
+  const hexes = () => store().slots.map((s) => s.color.hex);
+
+  beforeEach(() => {
+    const initial = useChromaStore.getInitialState();
+    useChromaStore.setState({
+      projects: initial.projects,
+      activeProjectId: initial.activeProjectId,
+    });
+    store().generateWithSeed(1);
+  });
+
+  it("keeps each project's palette across create and switch", () => {
+    const first = store().activeProjectId;
+    const firstHexes = hexes();
+    store().createProject("Brand");
+    expect(activeName()).toBe("Brand");
+    store().generateWithSeed(2);
+    const brandHexes = hexes();
+    expect(brandHexes).not.toEqual(firstHexes);
+
+    store().switchProject(first);
+    expect(hexes()).toEqual(firstHexes);
+    store().switchProject(store().projects[1].id);
+    expect(hexes()).toEqual(brandHexes);
+  });
+
+  it("restarts history once per switch", () => {
+    store().editSlotColor(0, hexToStop("#123456"));
+    store().createProject("Other");
+    const entries = Object.values(store().history.entries);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].label).toBe("Opened Other");
+  });
+
+  it("duplicates a project as a separate copy", () => {
+    store().createProject("Brand");
+    const brand = store().activeProjectId;
+    store().editSlotColor(0, hexToStop("#123456"));
+    store().duplicateProject(brand);
+    expect(activeName()).toBe("Brand copy");
+    expect(hexes()[0]).toBe("#123456");
+
+    store().editSlotColor(0, hexToStop("#654321"));
+    store().switchProject(brand);
+    expect(hexes()[0]).toBe("#123456");
+  });
+
+  it("deletes a project and falls back to the first, but never the last one", () => {
+    const firstHexes = hexes();
+    store().createProject("Brand");
+    store().deleteProject(store().activeProjectId);
+    expect(projectNames()).toEqual(["My Project"]);
+    expect(hexes()).toEqual(firstHexes);
+    store().deleteProject(store().activeProjectId);
+    expect(projectNames()).toEqual(["My Project"]);
+  });
+
+  it("switches palettes within a project", () => {
+    const firstHexes = hexes();
+    store().addProjectItem("palette", "Dark");
+    store().generateWithSeed(2);
+    const darkHexes = hexes();
+    const [first, dark] = store().projects[0].palettes;
+    store().switchProjectItem("palette", first.id);
+    expect(hexes()).toEqual(firstHexes);
+    store().switchProjectItem("palette", dark.id);
+    expect(hexes()).toEqual(darkHexes);
+  });
+});
+
+describe("persistence", () => {
+  afterEach(() => localStorage.clear());
+
+  it("round-trips projects through storage", async () => {
+    store().generateWithSeed(3);
+    store().createProject("Brand");
+    store().generateWithSeed(4);
+    const saved = {
+      projects: structuredClone(store().projects),
+      activeProjectId: store().activeProjectId,
+      hexes: store().slots.map((s) => s.color.hex),
+    };
+
+    // A reload: fresh state in memory, the same storage
+    const stored = localStorage.getItem("chroma-v4")!;
+    useChromaStore.setState({ projects: [], activeProjectId: "" });
+    localStorage.setItem("chroma-v4", stored);
+    await useChromaStore.persist.rehydrate();
+    expect(store().activeProjectId).toBe(saved.activeProjectId);
+    expect(store().projects.map((p) => p.name)).toEqual(
+      saved.projects.map((p) => p.name),
+    );
+    expect(store().slots.map((s) => s.color.hex)).toEqual(saved.hexes);
+    expect(
+      store().projects[0].palettes[0].slots.map((s) => s.color.hex),
+    ).toEqual(saved.projects[0].palettes[0].slots.map((s) => s.color.hex));
+  });
+
+  it("moves a version 3 store and its saved palettes into a first project", async () => {
+    localStorage.setItem(
+      "chroma-v4",
+      JSON.stringify({
+        version: 3,
+        state: {
+          mode: "triadic",
+          count: 2,
+          slots: [
+            { id: "a", color: { hex: "#e07a5f" }, locked: true },
+            { id: "b", color: { hex: "#3d405b" }, locked: false },
+          ],
+          scaleHex: "#81b29a",
+          scaleName: "sage",
+        },
+      }),
+    );
+    localStorage.setItem(
+      "chroma:palettes",
+      JSON.stringify([
+        {
+          id: "old",
+          name: "Old favourite",
+          hexes: ["#f2cc8f", "#000000"],
+          mode: "analogous",
+          createdAt: 0,
+        },
+      ]),
+    );
+    await useChromaStore.persist.rehydrate();
+
+    const [project] = store().projects;
+    expect(store().projects).toHaveLength(1);
+    expect(store().activeProjectId).toBe(project.id);
+    expect(project.palettes.map((p) => p.name)).toEqual([
+      "Palette",
+      "Old favourite",
+    ]);
+    expect(project.palettes[0].slots.map((s) => s.color.hex)).toEqual([
+      "#e07a5f",
+      "#3d405b",
+    ]);
+    expect(project.palettes[0].mode).toBe("triadic");
+    expect(project.palettes[1].slots.map((s) => s.color.hex)).toEqual([
+      "#f2cc8f",
+      "#000000",
+    ]);
+    expect(project.scales[0]).toMatchObject({ name: "sage", hex: "#81b29a" });
+    expect(store().slots.map((s) => s.color.hex)).toEqual([
+      "#e07a5f",
+      "#3d405b",
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+#!/usr/bin/env bun
+// chroma.ts — headless command-line entry point.
+//
+// Generates a palette with the same engine the studio uses and writes token
+// files to disk, so CI can turn seed colors into CSS / Tailwind / Style
+// Dictionary output without a browser.
+//
+//   bun run chroma generate --mode triadic --seed 6366f1 --format tailwind4
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import { HARMONIES } from "@/lib/constants/chroma";
+import {
+  PALETTE_EXPORT_FORMATS,
+  PALETTE_EXPORT_FORMAT_IDS,
+  type PaletteExportFormat,
+  buildPaletteExport,
+  genPalette,
+  generateUtilityColors,
+  hexToRgb,
+  nearestName,
+  newRngSeed,
+  parseHex,
+  rgbToHsl,
+  slotsFromHexes,
+} from "@/lib/utils";
+import type { GamutMapMethod, HarmonyMode } from "@/types";
+
+const GAMUT_METHODS: GamutMapMethod[] = ["css", "chroma", "clip"];
+
+const HELP = `
+Usage: chroma <command> [options]
+
+Commands:
+  generate                 Generate a palette and write token files (default)
+  formats                  List export formats
+  help                     Show this message
+
+Generate options:
+  --mode, -m <mode>        Harmony mode (default: analogous)
+  --count, -n <n>          Number of colors, 2–12 (default: 5)
+  --seed, -s <hex>         Seed color; repeat or comma-separate for several.
+                           Quote it or drop the "#" — the shell treats # as a comment.
+  --seed-mode <mode>       influence | pin (default: influence)
+  --temperature, -t <t>    -1 (cool) to 1 (warm) (default: 0)
+  --rng-seed <n>           PRNG seed (0–4294967295) — same seed, same palette
+  --gamut <method>         css | chroma | clip — how out-of-sRGB colors are
+                           mapped back in (default: css, the CSS Color 4 method)
+  --format, -f <id>        Export format; repeat or comma-separate (default: css)
+  --out, -o <dir>          Output directory (default: ./tokens)
+  --title <text>           Title for SVG / HTML exports
+  --stdout                 Print to stdout instead of writing files
+
+Example:
+  chroma generate --mode triadic --seed 6366f1 --format tailwind4,style-dictionary
+`;
+
+class CliError extends Error {}
+
+function list(values: string[] | undefined): string[] {
+  return (values ?? []).flatMap((v) =>
+    v
+      .split(",")
+      .map((x) => x.trim())
+      .filter(Boolean),
+  );
+}
+
+function parseNumber(
+  raw: string | undefined,
+  fallback: number,
+  flag: string,
+): number {
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) throw new CliError(`${flag} must be a number`);
+  return n;
+}
+
+async function runGenerate(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      mode: { type: "string", short: "m", default: "analogous" },
+      count: { type: "string", short: "n" },
+      seed: { type: "string", short: "s", multiple: true },
+      "seed-mode": { type: "string", default: "influence" },
+      temperature: { type: "string", short: "t" },
+      "rng-seed": { type: "string" },
+      gamut: { type: "string", default: "css" },
+      format: { type: "string", short: "f", multiple: true },
+      out: { type: "string", short: "o", default: "tokens" },
+      title: { type: "string" },
+      stdout: { type: "boolean", default: false },
+    },
+  });
+
+  const mode = values.mode as HarmonyMode;
+  if (!HARMONIES.some((h) => h.id === mode))
+    throw new CliError(
+      `Unknown mode "${mode}". Use one of: ${HARMONIES.map((h) => h.id).join(", ")}`,
+    );
+
+  const count = parseNumber(values.count, 5, "--count");
+  if (!Number.isInteger(count) || count < 2 || count > 12)
+    throw new CliError("--count must be an integer between 2 and 12");
+
+  const temperature = parseNumber(values.temperature, 0, "--temperature");
+  if (temperature < -1 || temperature > 1)
+    throw new CliError("--temperature must be between -1 and 1");
+
+  const seedMode = values["seed-mode"];
+  if (seedMode !== "influence" && seedMode !== "pin")
+    throw new CliError('--seed-mode must be "influence" or "pin"');
+
+  const rngSeed = parseNumber(values["rng-seed"], newRngSeed(), "--rng-seed");
+  if (!Number.isInteger(rngSeed) || rngSeed < 0 || rngSeed > 0xffffffff)
+    throw new CliError("--rng-seed must be an integer from 0 to 4294967295");
+
+  const gamut = values.gamut as GamutMapMethod;
+  if (!GAMUT_METHODS.includes(gamut))
+    throw new CliError(`--gamut must be one of: ${GAMUT_METHODS.join(", ")}`);
+
+  const seeds = list(values.seed).map((raw) => {
+    const hex = parseHex(raw);
+    if (!hex) throw new CliError(`Invalid seed color "${raw}"`);
+    return rgbToHsl(hexToRgb(hex));
+  });
+
+  const formats = list(values.format);
+  if (!formats.length) formats.push("css");
+  for (const f of formats)
+    if (!PALETTE_EXPORT_FORMAT_IDS.includes(f as PaletteExportFormat))
+      throw new CliError(
+        `Unknown format "${f}". Use one of: ${PALETTE_EXPORT_FORMAT_IDS.join(", ")}`,
+      );
+
+  const colors = genPalette(
+    mode,
+    count,
+    seeds.length ? seeds : null,
+    seedMode,
+    temperature,
+    rngSeed,
+    gamut,
+  );
+  const slots = slotsFromHexes(colors.map((c) => ({ hex: c.hex })));
+  const utility = generateUtilityColors(slots);
+
+  const outputs = (formats as PaletteExportFormat[]).map((format) =>
+    buildPaletteExport(format, slots, {
+      mode,
+      title: values.title,
+      utility,
+      gamut,
+    }),
+  );
+
+  if (values.stdout) {
+    process.stdout.write(outputs.map((o) => o.content).join("\n\n") + "\n");
+    return;
+  }
+
+  const outDir = path.resolve(values.out!);
+  await mkdir(outDir, { recursive: true });
+  for (const o of outputs)
+    await writeFile(path.join(outDir, o.filename), o.content, "utf8");
+
+  console.log(`Palette (${mode}, ${count} colors, --rng-seed ${rngSeed}):`);
+  slots.forEach((s, i) =>
+    console.log(
+      `  ${s.color.hex}  ${nearestName(s.color.rgb)}${colors[i].outOfGamut ? "  (gamut-mapped)" : ""}`,
+    ),
+  );
+  console.log(`\nWrote ${outputs.length} file(s) to ${outDir}:`);
+  for (const o of outputs) console.log(`  ${o.filename}`);
+}
+
+function printFormats(): void {
+  for (const id of PALETTE_EXPORT_FORMAT_IDS) {
+    const def = PALETTE_EXPORT_FORMATS[id];
+    console.log(`  ${id.padEnd(18)} ${def.label} → ${def.filename}`);
+  }
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command = "generate", ...rest] = argv;
+  switch (command) {
+    case "generate":
+      return runGenerate(rest);
+    case "formats":
+      return printFormats();
+    case "help":
+    case "--help":
+    case "-h":
+      console.log(HELP);
+      return;
+    default:
+      // Allow `chroma --mode triadic …` with the command omitted
+      if (command.startsWith("-")) return runGenerate(argv);
+      throw new CliError(`Unknown command "${command}"`);
+  }
+}
+
+main(process.argv.slice(2)).catch((err: unknown) => {
+  if (
+    err instanceof CliError ||
+    (err as { code?: string })?.code?.startsWith("ERR_PARSE_ARGS")
+  ) {
+    console.error(`chroma: ${(err as Error).message}`);
+    console.error(`Run "chroma help" for usage.`);
+  } else {
+    console.error(err);
+  }
+  process.exit(1);
+});
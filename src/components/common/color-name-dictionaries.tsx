@@ -0,0 +1,139 @@
+import { useMemo, useRef, useState } from "react";
+import { useChromaStore } from "@/hooks/use-chroma-store";
+import { Button } from "@/components/ui/button";
+import {
+  SWATCH_FILE_ACCEPT,
+  colorNameDictionaries,
+  importColorNameFile,
+  nearestColorNames,
+} from "@/lib/utils";
+import type { RGB } from "@/types";
+
+const chip = (active: boolean) =>
+  `inline-flex items-center gap-1 px-2 py-1 text-[10px] border rounded font-mono font-bold tracking-[.04em] whitespace-nowrap cursor-pointer transition-colors ${active ? "bg-primary text-primary-foreground border-primary" : "bg-transparent text-secondary-foreground border-border hover:text-foreground hover:border-input"}`;
+
+/**
+ * Toggles the dictionaries used for auto-labels and name search — the order
+ * they're switched on is their priority — and imports user lists.
+ */
+export function ColorNameDictionaryPicker() {
+  const active = useChromaStore((s) => s.nameDictionaries);
+  const custom = useChromaStore((s) => s.customNameDictionaries);
+  const setActive = useChromaStore((s) => s.setNameDictionaries);
+  const addDictionary = useChromaStore((s) => s.addNameDictionary);
+  const removeDictionary = useChromaStore((s) => s.removeNameDictionary);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The naming module is synced from the store, so re-read when imports change
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const dictionaries = useMemo(() => colorNameDictionaries(), [custom]);
+
+  const toggle = (id: string) => {
+    const next = active.includes(id)
+      ? active.filter((d) => d !== id)
+      : [...active, id];
+    if (next.length) setActive(next);
+  };
+
+  async function handleFile(file: File) {
+    setError(null);
+    try {
+      addDictionary(await importColorNameFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 flex-wrap">
+        {dictionaries.map((d) => {
+          const rank = active.indexOf(d.id);
+          return (
+            <span key={d.id} className="inline-flex items-center">
+              <button
+                className={chip(rank >= 0)}
+                title={`${d.desc ?? d.label}${rank >= 0 ? ` — priority ${rank + 1}` : ""}`}
+                onClick={() => toggle(d.id)}
+              >
+                {d.label}
+              </button>
+              {d.custom && (
+                <button
+                  className="text-muted-foreground hover:text-destructive text-[11px] px-1 cursor-pointer"
+                  title={`Remove ${d.label}`}
+                  onClick={() => removeDictionary(d.id)}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          );
+        })}
+        <Button
+          variant="ghost"
+          size="sm"
+          title="JSON, CSV or text lists of name + hex, or a swatch file with named swatches"
+          onClick={() => fileRef.current?.click()}
+        >
+          + Import list
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept={`.csv,.tsv,.txt,${SWATCH_FILE_ACCEPT}`}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) handleFile(e.target.files[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {error && (
+        <p className="text-destructive text-[10.5px] mt-1.5">{error}</p>
+      )}
+    </div>
+  );
+}
+
+/** Closest names to a color across the active dictionaries, with ΔEOK */
+export function NearestColorNames({
+  rgb,
+  count = 5,
+}: {
+  rgb: RGB;
+  count?: number;
+}) {
+  // Subscribed so the list follows dictionary changes
+  useChromaStore((s) => s.nameDictionaries);
+  const labels = Object.fromEntries(
+    colorNameDictionaries().map((d) => [d.id, d.label]),
+  );
+  const matches = nearestColorNames(rgb, { count });
+
+  return (
+    <div className="flex flex-col gap-1">
+      {matches.map((m) => (
+        <div
+          key={`${m.dictionary}:${m.name}`}
+          className="flex items-center gap-2 text-[11px]"
+        >
+          <div
+            className="w-4 h-4 rounded-xs shrink-0 border border-white/10"
+            style={{ background: m.hex }}
+          />
+          <span className="text-foreground flex-1 min-w-0 truncate">
+            {m.name}
+          </span>
+          <span className="text-muted-foreground text-[9.5px]">
+            {labels[m.dictionary]}
+          </span>
+          <span className="font-mono text-muted-foreground text-[9.5px] w-12 text-right">
+            {m.score === 0 ? "exact" : `ΔE ${(m.score * 100).toFixed(1)}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import type { AuditPair } from "@/types";
+import { AUDIT_USAGE } from "@/lib/utils";
+
+const PASS_BADGE = { bg: "rgba(34,197,94,.18)", fg: "#16a34a" };
+const FAIL_BADGE = { bg: "rgba(239,68,68,.13)", fg: "#dc2626" };
+
+/** Grid of audited pairs — shows WCAG 2 or APCA against each pair's usage */
+export function ContrastAuditList({
+  pairs,
+  useApca,
+  columns = "repeat(auto-fill,minmax(220px,1fr))",
+}: {
+  pairs: AuditPair[];
+  useApca: boolean;
+  columns?: string;
+}) {
+  if (!pairs.length)
+    return (
+      <p className="text-muted-foreground text-[10.5px]">No pairs to check.</p>
+    );
+
+  return (
+    <div className="grid gap-1.5" style={{ gridTemplateColumns: columns }}>
+      {pairs.map((p) => {
+        const passes = useApca ? p.passApca : p.passWcag;
+        const req = AUDIT_USAGE[p.usage];
+        const badge = passes ? PASS_BADGE : FAIL_BADGE;
+        return (
+          <div
+            key={p.id}
+            title={`${p.fg.name} ${p.fg.hex} on ${p.bg.name} ${p.bg.hex} — ${req.label}: ${useApca ? `Lc ${req.apca}` : `${req.wcag}:1`}`}
+            className="flex items-center gap-1.5 rounded-[5px] border border-secondary"
+            style={{
+              padding: "5px 8px",
+              background: passes ? "rgba(34,197,94,.04)" : "var(--color-card)",
+              opacity: passes ? 1 : 0.6,
+            }}
+          >
+            <div
+              className="rounded flex items-center justify-center shrink-0"
+              style={{
+                width: 28,
+                height: 18,
+                background: p.bg.hex,
+                border: "1px solid rgba(128,128,128,.2)",
+              }}
+            >
+              <div
+                className="h-1"
+                style={{ width: 12, borderRadius: 1, background: p.fg.hex }}
+              />
+            </div>
+            <span className="text-secondary-foreground text-[9px] flex-1 min-w-0 truncate">
+              {p.label}
+            </span>
+            <span className="font-mono text-muted-foreground text-[8.5px] whitespace-nowrap">
+              {useApca
+                ? `Lc${Math.round(Math.abs(p.apca))}`
+                : `${p.wcag.toFixed(1)}:1`}
+            </span>
+            <span
+              className="rounded-xs"
+              style={{
+                fontSize: 8,
+                fontWeight: 700,
+                padding: "1px 4px",
+                background: badge.bg,
+                color: badge.fg,
+              }}
+            >
+              {passes ? "PASS" : "FAIL"}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { useChromaStore } from "@/hooks/use-chroma-store";
+import { Button } from "@/components/ui/button";
+import { DELTA_E_METRICS, DELTA_E_METRIC_IDS } from "@/lib/utils";
+
+/** Row of ΔE formula buttons bound to the store's shared deltaEMetric */
+export function DeltaEMetricPicker({ className }: { className?: string }) {
+  const metric = useChromaStore((s) => s.deltaEMetric);
+  const setMetric = useChromaStore((s) => s.setDeltaEMetric);
+
+  return (
+    <div className={className ?? "flex items-center gap-1.5 flex-wrap"}>
+      <span className="text-[10px] tracking-widest uppercase text-muted-foreground font-semibold mr-1">
+        ΔE
+      </span>
+      {DELTA_E_METRIC_IDS.map((id) => (
+        <Button
+          key={id}
+          variant={metric === id ? "default" : "ghost"}
+          size="sm"
+          title={DELTA_E_METRICS[id].desc}
+          onClick={() => setMetric(id)}
+        >
+          {DELTA_E_METRICS[id].label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useCallback } from "react";
-import { parseHex, cn } from "@/lib/utils";
+import { parseColor, rgbToHex, toHexAlpha, cn } from "@/lib/utils";
 
 interface HexInputProps {
   value: string;
@@ -22,18 +22,22 @@ export default function HexInput({
 }: HexInputProps) {
   const [raw, setRaw] = useState(value);
   const [invalid, setInvalid] = useState(false);
+  const [focused, setFocused] = useState(false);
 
-  const displayVal = invalid ? raw : value;
+  // Keep what the user typed while editing — "red" shouldn't turn into
+  // "#ff0000" mid-word
+  const displayVal = invalid || focused ? raw : value;
 
+  // Accepts any CSS color (hex, named, rgb(), oklch(), color-mix()…) and
+  // normalises it to hex — with alpha bytes only when allowAlpha is set
   const validate = useCallback(
     (s: string): string | null => {
-      const h = parseHex(s);
-      if (h) return h;
-      if (allowAlpha) {
-        const c = s.trim().replace(/^#/, "");
-        if (/^[0-9a-fA-F]{8}$/.test(c)) return "#" + c;
-      }
-      return null;
+      const parsed = parseColor(s);
+      if (!parsed) return null;
+      const hex = rgbToHex(parsed.rgb);
+      return allowAlpha && parsed.alpha < 100
+        ? toHexAlpha(hex, parsed.alpha)
+        : hex;
     },
     [allowAlpha],
   );
@@ -49,10 +53,9 @@ export default function HexInput({
   };
 
   const handleBlur = () => {
-    if (!validate(raw)) {
-      setRaw(value);
-      setInvalid(false);
-    }
+    setFocused(false);
+    setRaw(validate(raw) ?? value);
+    setInvalid(false);
   };
 
   const resolvedHex = validate(raw) ?? value;
@@ -75,8 +78,11 @@ export default function HexInput({
           value={displayVal}
           onChange={handleChange}
           onBlur={handleBlur}
-          onFocus={(e) => e.target.select()}
-          maxLength={allowAlpha ? 9 : 7}
+          onFocus={(e) => {
+            setFocused(true);
+            setRaw(value);
+            e.target.select();
+          }}
           spellCheck={false}
           autoComplete="off"
           className={cn(
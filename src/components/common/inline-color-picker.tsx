@@ -9,7 +9,18 @@
  */
 
 import { useState, useCallback, useMemo, useEffect } from "react";
-import type { RGB, HSL, HSV, OKLCH } from "@/types";
+import type {
+  RGB,
+  HSL,
+  HSV,
+  OKLCH,
+  HWB,
+  CIELab,
+  CIELCH,
+  XYZ,
+  RGBFloat,
+  PickerMode,
+} from "@/types";
 import {
   hexToRgb,
   rgbToHex,
@@ -26,6 +37,20 @@ import {
   toHexAlpha,
   hsvToRgb,
   cssString,
+  rgbToHwb,
+  hwbToRgb,
+  rgbToLab,
+  labToRgb,
+  rgbToLch,
+  lchToRgb,
+  rgbToXyz,
+  xyzToRgb,
+  rgbToP3,
+  p3ToRgb,
+  rgbToRec2020,
+  rec2020ToRgb,
+  rgbToLinearRgb,
+  linearRgbToRgb,
   parseHexAlpha,
   cmykToRgb,
 } from "@/lib/utils";
@@ -39,6 +64,11 @@ import { OklabSliders } from "../common/sliders/oklab-sliders";
 import useChromaStore from "@/hooks/use-chroma-store";
 import HexInput from "../common/hex-input";
 import { CmykSliders } from "../common/sliders/cmyk-sliders";
+import { HwbSliders } from "../common/sliders/hwb-sliders";
+import { LabSliders } from "../common/sliders/lab-sliders";
+import { LchSliders } from "../common/sliders/lch-sliders";
+import { XyzSliders } from "../common/sliders/xyz-sliders";
+import { WideRgbSliders } from "../common/sliders/wide-rgb-sliders";
 
 // ─── Main export ──────────────────────────────────────────────────────────────
 
@@ -56,9 +86,6 @@ export function InlineColorPicker({
   onCancel,
 }: InlineColorPickerProps) {
   const [hex, setHex] = useState(initialHex);
-  const [mode, setMode] = useState<
-    "hsl" | "rgb" | "hsv" | "oklch" | "oklab" | "cmyk"
-  >("hsl");
   const {
     pickerHex,
     pickerAlpha,
@@ -81,6 +108,13 @@ export function InlineColorPicker({
   const oklch = useMemo(() => rgbToOklch(rgb), [rgb]);
   const oklab = useMemo(() => rgbToOklab(rgb), [rgb]);
   const cmyk = useMemo(() => rgbToCmyk(rgb), [rgb]);
+  const hwb = useMemo(() => rgbToHwb(rgb), [rgb]);
+  const lab = useMemo(() => rgbToLab(rgb), [rgb]);
+  const lch = useMemo(() => rgbToLch(rgb), [rgb]);
+  const xyz = useMemo(() => rgbToXyz(rgb), [rgb]);
+  const p3 = useMemo(() => rgbToP3(rgb), [rgb]);
+  const rec2020 = useMemo(() => rgbToRec2020(rgb), [rgb]);
+  const linear = useMemo(() => rgbToLinearRgb(rgb), [rgb]);
   const name = useMemo(() => nearestName(rgb), [rgb]);
 
   const displayHex = toHexAlpha(pickerHex, pickerAlpha);
@@ -128,6 +162,34 @@ export function InlineColorPicker({
       setPickerHex(rgbToHex(cmykToRgb(c))),
     [setPickerHex],
   );
+  const setHwb = useCallback(
+    (h: HWB) => setPickerHex(rgbToHex(hwbToRgb(h))),
+    [setPickerHex],
+  );
+  const setLab = useCallback(
+    (l: CIELab) => setPickerHex(rgbToHex(labToRgb(l))),
+    [setPickerHex],
+  );
+  const setLch = useCallback(
+    (l: CIELCH) => setPickerHex(rgbToHex(lchToRgb(l))),
+    [setPickerHex],
+  );
+  const setXyz = useCallback(
+    (x: XYZ) => setPickerHex(rgbToHex(xyzToRgb(x))),
+    [setPickerHex],
+  );
+  const setP3 = useCallback(
+    (c: RGBFloat) => setPickerHex(rgbToHex(p3ToRgb(c))),
+    [setPickerHex],
+  );
+  const setRec2020 = useCallback(
+    (c: RGBFloat) => setPickerHex(rgbToHex(rec2020ToRgb(c))),
+    [setPickerHex],
+  );
+  const setLinear = useCallback(
+    (c: RGBFloat) => setPickerHex(rgbToHex(linearRgbToRgb(c))),
+    [setPickerHex],
+  );
 
   // ColorWheel speaks HSL
   const handleWheelChange = useCallback(
@@ -187,13 +249,20 @@ export function InlineColorPicker({
     }
   };
 
-  const MODES = [
+  const MODES: { id: PickerMode; label: string }[] = [
     { id: "hsl", label: "HSL" },
     { id: "rgb", label: "RGB" },
     { id: "hsv", label: "HSV" },
+    { id: "hwb", label: "HWB" },
     { id: "oklch", label: "OKLCH" },
     { id: "oklab", label: "OKLab" },
     { id: "cmyk", label: "CMYK" },
+    { id: "lab", label: "Lab" },
+    { id: "lch", label: "LCH" },
+    { id: "xyz", label: "XYZ" },
+    { id: "p3", label: "P3" },
+    { id: "rec2020", label: "2020" },
+    { id: "linear", label: "Lin" },
   ];
 
   // Enter to apply, Escape handled by parent (Panel/BottomSheet)
@@ -238,13 +307,13 @@ export function InlineColorPicker({
       </div>
 
       {/* Mode tabs */}
-      <div className="flex p-1 bg-secondary/40 rounded-xl gap-1 border border-border/50">
+      <div className="grid grid-cols-7 p-1 bg-secondary/40 rounded-xl gap-1 border border-border/50">
         {MODES.map((m) => (
           <button
             key={m.id}
-            onClick={() => setMode(m.id as any)}
+            onClick={() => setPickerMode(m.id)}
             className={`flex-1 py-1.5 rounded-lg text-[9px] font-extrabold uppercase tracking-widest transition-all ${
-              mode === m.id
+              pickerMode === m.id
                 ? "bg-background text-foreground shadow-sm ring-1 ring-black/5"
                 : "text-muted-foreground hover:text-foreground"
             }`}
@@ -311,6 +380,72 @@ export function InlineColorPicker({
             onAlpha={setPickerAlpha}
           />
         )}
+        {pickerMode === "hwb" && (
+          <HwbSliders
+            hwb={hwb}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onHwb={setHwb}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "lab" && (
+          <LabSliders
+            lab={lab}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onLab={setLab}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "lch" && (
+          <LchSliders
+            lch={lch}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onLch={setLch}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "xyz" && (
+          <XyzSliders
+            xyz={xyz}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onXyz={setXyz}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "p3" && (
+          <WideRgbSliders
+            space="p3"
+            color={p3}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onColor={setP3}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "rec2020" && (
+          <WideRgbSliders
+            space="rec2020"
+            color={rec2020}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onColor={setRec2020}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "linear" && (
+          <WideRgbSliders
+            space="linear"
+            color={linear}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onColor={setLinear}
+            onAlpha={setPickerAlpha}
+          />
+        )}
       </div>
 
       {/* Preview + Hex + info */}
@@ -3,7 +3,7 @@ import { GripVertical } from "lucide-react";
 
 import { useChromaStore } from "@/hooks/use-chroma-store";
 import { useRegisterHotkey } from "@/providers/hotkey.provider";
-import { cn, hexToStop, parseHex } from "@/lib/utils";
+import { cn, hexToStop, parseColor, rgbToHex } from "@/lib/utils";
 import { HARMONIES, THEMES } from "@/lib/constants/chroma";
 
 import { Button } from "@/components/ui/button";
@@ -32,6 +32,7 @@ export function PalettePanel() {
     temperature,
     generate,
     undo,
+    redo,
     setMode,
     setCount,
     addSeed,
@@ -63,10 +64,18 @@ export function PalettePanel() {
   useRegisterHotkey({
     key: "z",
     ctrl: true,
-    label: "Undo generate",
+    label: "Undo",
     group: "Palette",
     handler: undo,
   });
+  useRegisterHotkey({
+    key: "z",
+    ctrl: true,
+    shift: true,
+    label: "Redo",
+    group: "Palette",
+    handler: redo,
+  });
   useRegisterHotkey({
     key: "?",
     label: "Keyboard shortcuts",
@@ -91,13 +100,13 @@ export function PalettePanel() {
 
   // ── Seed input ─────────────────────────────────────────────────────────────
   const handleAddSeed = useCallback(() => {
-    const hex = parseHex(seedInp);
-    if (!hex) {
+    const parsed = parseColor(seedInp);
+    if (!parsed) {
       setSeedErr(true);
       setTimeout(() => setSeedErr(false), 600);
       return;
     }
-    addSeed(hexToStop(hex));
+    addSeed(hexToStop(rgbToHex(parsed.rgb)));
     setSeedInp("");
   }, [seedInp, addSeed]);
 
@@ -188,7 +197,6 @@ export function PalettePanel() {
               onChange={(e) => setSeedInp(e.target.value)}
               onKeyDown={(e) => e.key === "Enter" && handleAddSeed()}
               placeholder="#F4A261"
-              maxLength={7}
               spellCheck={false}
               autoComplete="off"
             />
@@ -317,8 +325,8 @@ export function PalettePanel() {
           ⟳ Generate
         </Button>
         <p className="text-[10px] text-muted-foreground text-center mt-1.5">
-          <kbd>Space</kbd> generate · <kbd>Ctrl+Z</kbd> undo · <kbd>?</kbd>{" "}
-          shortcuts
+          <kbd>Space</kbd> generate · <kbd>Ctrl+Z</kbd> undo ·{" "}
+          <kbd>Ctrl+Shift+Z</kbd> redo · <kbd>?</kbd> shortcuts
         </p>
       </div>
     </aside>
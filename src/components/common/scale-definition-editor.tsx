@@ -0,0 +1,489 @@
+import { type ReactNode, useState } from "react";
+import { useChromaStore } from "@/hooks/use-chroma-store";
+import { Button } from "@/components/ui/button";
+import { SCALE_PRESETS } from "@/lib/constants/chroma";
+import type {
+  ScaleContrastAnchor,
+  ScaleContrastTarget,
+  ScaleDefinition,
+  ScaleEasing,
+  ScaleStep,
+} from "@/types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const inputCls =
+  "bg-muted border border-border rounded px-2 py-1 text-[11px] font-mono outline-none focus:border-ring transition-colors";
+
+/** "50, 100, A100" → [50, 100, "A100"] — numeric names stay numbers */
+function parseSteps(text: string): ScaleStep[] {
+  const steps = text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((s) => (/^-?\d+(\.\d+)?$/.test(s) ? Number(s) : s));
+  return [...new Set(steps)];
+}
+
+function parseNumbers(text: string): number[] {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((n) => Number.isFinite(n));
+}
+
+/** Keep positions, offsets, pin and targets consistent with a new step list */
+function withSteps(def: ScaleDefinition, steps: ScaleStep[]): ScaleDefinition {
+  const keep = (s: ScaleStep) => steps.includes(s);
+  return {
+    ...def,
+    steps,
+    positions: undefined,
+    hueOffsets: undefined,
+    pin:
+      def.pin == null || def.pin === "auto" || keep(def.pin) ? def.pin : null,
+    contrastTargets: def.contrastTargets?.filter((t) => keep(t.step)),
+  };
+}
+
+/** Default anchor — pairs about half the scale apart (500 on Tailwind steps) */
+function anchorFor(
+  def: ScaleDefinition,
+  metric: ScaleContrastAnchor["metric"],
+): ScaleContrastAnchor {
+  const nums = def.steps.filter((s): s is number => typeof s === "number");
+  const half =
+    nums.length === def.steps.length
+      ? (Math.max(...nums) - Math.min(...nums)) / 2
+      : def.steps.length / 2;
+  return {
+    metric,
+    target: metric === "wcag" ? 4.5 : 60,
+    distance:
+      def.anchor?.distance ?? (Math.round(half / 100) * 100 || Math.ceil(half)),
+  };
+}
+
+function SectionLabel({ children }: { children: ReactNode }) {
+  return (
+    <div className="text-[10px] tracking-widest uppercase text-muted-foreground mb-1.5 mt-3 font-display font-semibold">
+      {children}
+    </div>
+  );
+}
+
+function RangeRow({
+  label,
+  value,
+  min,
+  max,
+  step,
+  display,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  display?: string;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2 mb-1">
+      <span className="text-[10px] text-muted-foreground w-14 shrink-0">
+        {label}
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(+e.target.value)}
+        className="flex-1"
+      />
+      <span className="text-[10px] font-mono tabular-nums w-10 text-right">
+        {display ?? value}
+      </span>
+    </div>
+  );
+}
+
+/** Text field that commits on blur / Enter so partial input isn't parsed */
+function CommitInput({
+  value,
+  onCommit,
+  placeholder,
+}: {
+  value: string;
+  onCommit: (text: string) => void;
+  placeholder?: string;
+}) {
+  // null while not editing, so outside changes to `value` show through
+  const [draft, setDraft] = useState<string | null>(null);
+  const text = draft ?? value;
+  return (
+    <input
+      className={`${inputCls} w-full`}
+      value={text}
+      placeholder={placeholder}
+      spellCheck={false}
+      autoComplete="off"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        setDraft(null);
+        onCommit(text);
+      }}
+      onKeyDown={(e) =>
+        e.key === "Enter" && (e.target as HTMLInputElement).blur()
+      }
+    />
+  );
+}
+
+function EasingInput({
+  easing,
+  onChange,
+}: {
+  easing: ScaleEasing;
+  onChange: (e: ScaleEasing) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1 mb-1">
+      <div className="flex gap-1">
+        <Button
+          variant={easing.kind === "power" ? "default" : "ghost"}
+          size="sm"
+          onClick={() => onChange({ kind: "power", exponent: 1 })}
+        >
+          Power
+        </Button>
+        <Button
+          variant={easing.kind === "bezier" ? "default" : "ghost"}
+          size="sm"
+          onClick={() =>
+            onChange({ kind: "bezier", x1: 0.42, y1: 0, x2: 0.58, y2: 1 })
+          }
+        >
+          Bézier
+        </Button>
+      </div>
+      {easing.kind === "power" ? (
+        <RangeRow
+          label="Exponent"
+          value={easing.exponent}
+          min={0.3}
+          max={2.5}
+          step={0.05}
+          display={easing.exponent.toFixed(2)}
+          onChange={(exponent) => onChange({ kind: "power", exponent })}
+        />
+      ) : (
+        <CommitInput
+          value={[easing.x1, easing.y1, easing.x2, easing.y2]
+            .map((n) => +n.toFixed(3))
+            .join(", ")}
+          placeholder="x1, y1, x2, y2"
+          onCommit={(text) => {
+            const n = parseNumbers(text);
+            if (n.length !== 4) return;
+            // x control points must stay in 0–1 for a function of t
+            const [x1, y1, x2, y2] = n;
+            onChange({
+              kind: "bezier",
+              x1: Math.min(1, Math.max(0, x1)),
+              y1,
+              x2: Math.min(1, Math.max(0, x2)),
+              y2,
+            });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/** Editor for the store's shared scaleDefinition — presets plus every knob */
+export function ScaleDefinitionEditor() {
+  const def = useChromaStore((s) => s.scaleDefinition);
+  const setDef = useChromaStore((s) => s.setScaleDefinition);
+
+  // Any manual edit turns a preset into a custom definition
+  const update = (patch: Partial<ScaleDefinition>) =>
+    setDef({ ...def, ...patch, id: "custom", label: "Custom" });
+  const setTarget = (i: number, patch: Partial<ScaleContrastTarget>) =>
+    update({
+      contrastTargets: (def.contrastTargets ?? []).map((t, j) =>
+        j === i ? { ...t, ...patch } : t,
+      ),
+    });
+
+  return (
+    <div>
+      <SectionLabel>Scale Definition</SectionLabel>
+      <div className="flex flex-wrap gap-1">
+        {SCALE_PRESETS.map((p) => (
+          <Button
+            key={p.id}
+            variant={def.id === p.id ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setDef(p)}
+          >
+            {p.label}
+          </Button>
+        ))}
+        {def.id === "custom" && (
+          <Button variant="default" size="sm" disabled>
+            Custom
+          </Button>
+        )}
+      </div>
+
+      <SectionLabel>Steps</SectionLabel>
+      <CommitInput
+        value={def.steps.join(", ")}
+        placeholder="50, 100, 200 …"
+        onCommit={(text) => {
+          const steps = parseSteps(text);
+          if (steps.length && steps.join() !== def.steps.join())
+            setDef({ ...withSteps(def, steps), id: "custom", label: "Custom" });
+        }}
+      />
+
+      <SectionLabel>Lightness</SectionLabel>
+      <RangeRow
+        label="Lightest"
+        value={def.lightness.max}
+        min={0.5}
+        max={1}
+        step={0.005}
+        display={def.lightness.max.toFixed(3)}
+        onChange={(max) => update({ lightness: { ...def.lightness, max } })}
+      />
+      <RangeRow
+        label="Darkest"
+        value={def.lightness.min}
+        min={0}
+        max={0.5}
+        step={0.005}
+        display={def.lightness.min.toFixed(3)}
+        onChange={(min) => update({ lightness: { ...def.lightness, min } })}
+      />
+      <EasingInput
+        easing={def.lightness.curve}
+        onChange={(curve) => update({ lightness: { ...def.lightness, curve } })}
+      />
+
+      <SectionLabel>Chroma</SectionLabel>
+      <RangeRow
+        label="Peak"
+        value={def.chroma.peak}
+        min={0.05}
+        max={0.95}
+        step={0.01}
+        display={def.chroma.peak.toFixed(2)}
+        onChange={(peak) => update({ chroma: { ...def.chroma, peak } })}
+      />
+      <RangeRow
+        label="Boost"
+        value={def.chroma.boost}
+        min={0.2}
+        max={1.6}
+        step={0.01}
+        display={`×${def.chroma.boost.toFixed(2)}`}
+        onChange={(boost) => update({ chroma: { ...def.chroma, boost } })}
+      />
+      <EasingInput
+        easing={def.chroma.curve}
+        onChange={(curve) => update({ chroma: { ...def.chroma, curve } })}
+      />
+
+      <SectionLabel>Hue</SectionLabel>
+      <RangeRow
+        label="Drift"
+        value={def.hueDrift}
+        min={-90}
+        max={90}
+        step={1}
+        display={`${def.hueDrift > 0 ? "+" : ""}${def.hueDrift}°`}
+        onChange={(hueDrift) => update({ hueDrift })}
+      />
+      <CommitInput
+        value={def.hueOffsets?.join(", ") ?? ""}
+        placeholder="Per-step offsets (°), e.g. 0, 0, 4, 8"
+        onCommit={(text) => {
+          const offsets = parseNumbers(text);
+          update({ hueOffsets: offsets.length ? offsets : undefined });
+        }}
+      />
+
+      <SectionLabel>Pin Input Color</SectionLabel>
+      <select
+        className={`${inputCls} w-full`}
+        value={def.pin == null ? "" : String(def.pin)}
+        onChange={(e) => {
+          const v = e.target.value;
+          update({
+            pin:
+              v === ""
+                ? null
+                : v === "auto"
+                  ? "auto"
+                  : (def.steps.find((s) => String(s) === v) ?? null),
+          });
+        }}
+      >
+        <option value="">None — input only sets hue and chroma</option>
+        <option value="auto">Auto — nearest step in lightness</option>
+        {def.steps.map((s) => (
+          <option key={String(s)} value={String(s)}>
+            Step {s}
+          </option>
+        ))}
+      </select>
+
+      <SectionLabel>Contrast Anchoring</SectionLabel>
+      <div className="flex gap-1 mb-1">
+        {(
+          [
+            [null, "Off"],
+            ["wcag", "WCAG"],
+            ["apca", "APCA"],
+          ] as const
+        ).map(([metric, label]) => (
+          <Button
+            key={label}
+            variant={
+              (def.anchor?.metric ?? null) === metric ? "default" : "ghost"
+            }
+            size="sm"
+            onClick={() => update({ anchor: metric && anchorFor(def, metric) })}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+      {def.anchor && (
+        <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+          Steps
+          <input
+            type="number"
+            className={`${inputCls} w-16`}
+            min={1}
+            value={def.anchor.distance}
+            onChange={(e) =>
+              update({
+                anchor: {
+                  ...def.anchor!,
+                  distance: Math.max(1, +e.target.value || 1),
+                },
+              })
+            }
+          />
+          apart reach
+          <input
+            type="number"
+            className={`${inputCls} w-16`}
+            min={1}
+            max={def.anchor.metric === "wcag" ? 21 : 108}
+            step={def.anchor.metric === "wcag" ? 0.1 : 1}
+            value={def.anchor.target}
+            onChange={(e) =>
+              update({
+                anchor: {
+                  ...def.anchor!,
+                  target: Math.max(1, +e.target.value || 1),
+                },
+              })
+            }
+          />
+          {def.anchor.metric === "wcag" ? ":1" : "Lc"}
+        </div>
+      )}
+
+      {!def.anchor && <SectionLabel>Contrast Targets</SectionLabel>}
+      <div className={def.anchor ? "hidden" : "flex flex-col gap-1"}>
+        {(def.contrastTargets ?? []).map((t, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <select
+              className={inputCls}
+              value={String(t.step)}
+              onChange={(e) =>
+                setTarget(i, {
+                  step:
+                    def.steps.find((s) => String(s) === e.target.value) ??
+                    t.step,
+                })
+              }
+            >
+              {def.steps.map((s) => (
+                <option key={String(s)} value={String(s)}>
+                  {s}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              className={`${inputCls} w-16`}
+              min={1}
+              max={21}
+              step={0.1}
+              value={t.ratio}
+              onChange={(e) =>
+                setTarget(i, {
+                  ratio: Math.min(21, Math.max(1, +e.target.value || 1)),
+                })
+              }
+            />
+            <span className="text-[10px] text-muted-foreground">:1 vs</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setTarget(i, {
+                  against: t.against === "white" ? "black" : "white",
+                })
+              }
+            >
+              {t.against === "white" ? "White" : "Black"}
+            </Button>
+            <button
+              className="text-muted-foreground hover:text-destructive text-xs bg-transparent border-none cursor-pointer ml-auto"
+              onClick={() =>
+                update({
+                  contrastTargets: def.contrastTargets?.filter(
+                    (_, j) => j !== i,
+                  ),
+                })
+              }
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() =>
+            update({
+              contrastTargets: [
+                ...(def.contrastTargets ?? []),
+                {
+                  step: def.steps[Math.floor(def.steps.length / 2)],
+                  ratio: 4.5,
+                  against: "white",
+                },
+              ],
+            })
+          }
+        >
+          + Target
+        </Button>
+      </div>
+    </div>
+  );
+}
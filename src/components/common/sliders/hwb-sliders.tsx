@@ -0,0 +1,64 @@
+import { HWB } from "@/types";
+import { channelGrad } from "./channel-grad";
+import { hwbToRgb, rgbToHex } from "@/lib/utils";
+import { SliderRow } from "../slider-row";
+import { AlphaSlider } from "./alpha-slider";
+
+function hwbChannelGrad(channel: "h" | "w" | "b", hwb: HWB) {
+  return channelGrad(8, (t) => {
+    const c: HWB =
+      channel === "h"
+        ? { ...hwb, h: t * 360 }
+        : channel === "w"
+          ? { ...hwb, w: t * 100 }
+          : { ...hwb, b: t * 100 };
+    return rgbToHex(hwbToRgb(c));
+  });
+}
+
+export function HwbSliders({
+  hwb,
+  alpha,
+  hex,
+  onHwb,
+  onAlpha,
+}: {
+  hwb: HWB;
+  alpha: number;
+  hex: string;
+  onHwb: (hwb: HWB) => void;
+  onAlpha: (a: number) => void;
+}) {
+  return (
+    <div className="w-full max-w-100 flex flex-col gap-3.5">
+      <SliderRow
+        label="Hue"
+        display={`${Math.round(hwb.h)}°`}
+        value={Math.round(hwb.h)}
+        min={0}
+        max={359}
+        trackBg={hwbChannelGrad("h", hwb)}
+        onChange={(v) => onHwb({ ...hwb, h: v })}
+      />
+      <SliderRow
+        label="Whiteness"
+        display={`${Math.round(hwb.w)}%`}
+        value={Math.round(hwb.w)}
+        min={0}
+        max={100}
+        trackBg={hwbChannelGrad("w", hwb)}
+        onChange={(v) => onHwb({ ...hwb, w: v })}
+      />
+      <SliderRow
+        label="Blackness"
+        display={`${Math.round(hwb.b)}%`}
+        value={Math.round(hwb.b)}
+        min={0}
+        max={100}
+        trackBg={hwbChannelGrad("b", hwb)}
+        onChange={(v) => onHwb({ ...hwb, b: v })}
+      />
+      <AlphaSlider alpha={alpha} hex={hex} onChange={onAlpha} />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { CIELab } from "@/types";
+import { SliderRow } from "../slider-row";
+import { channelGrad } from "./channel-grad";
+import { labToRgb, rgbToHex } from "@/lib/utils";
+import { AlphaSlider } from "./alpha-slider";
+
+function labChannelGrad(channel: "L" | "a" | "b", lab: CIELab) {
+  return channelGrad(8, (t) => {
+    const c: CIELab =
+      channel === "L"
+        ? { ...lab, L: t * 100 }
+        : channel === "a"
+          ? { ...lab, a: t * 250 - 125 }
+          : { ...lab, b: t * 250 - 125 };
+    return rgbToHex(labToRgb(c));
+  });
+}
+
+export function LabSliders({
+  lab,
+  alpha,
+  hex,
+  onLab,
+  onAlpha,
+}: {
+  lab: CIELab;
+  alpha: number;
+  hex: string;
+  onLab: (lab: CIELab) => void;
+  onAlpha: (a: number) => void;
+}) {
+  return (
+    <div className="w-full max-w-100 flex flex-col gap-3.5">
+      <SliderRow
+        label="Lightness"
+        display={lab.L.toFixed(1)}
+        value={Math.round(lab.L)}
+        min={0}
+        max={100}
+        trackBg={labChannelGrad("L", lab)}
+        onChange={(v) => onLab({ ...lab, L: v })}
+      />
+      <SliderRow
+        label="a (green–red)"
+        display={lab.a.toFixed(1)}
+        value={Math.round(lab.a)}
+        min={-125}
+        max={125}
+        trackBg={labChannelGrad("a", lab)}
+        onChange={(v) => onLab({ ...lab, a: v })}
+      />
+      <SliderRow
+        label="b (blue–yellow)"
+        display={lab.b.toFixed(1)}
+        value={Math.round(lab.b)}
+        min={-125}
+        max={125}
+        trackBg={labChannelGrad("b", lab)}
+        onChange={(v) => onLab({ ...lab, b: v })}
+      />
+      <AlphaSlider alpha={alpha} hex={hex} onChange={onAlpha} />
+      <div
+        className="rounded text-[9.5px] text-muted-foreground leading-normal px-2 py-1.25"
+        style={{
+          background: "rgba(99,102,241,.08)",
+          border: "1px solid rgba(99,102,241,.18)",
+        }}
+      >
+        <strong className="text-secondary-foreground">CIELAB</strong> — the
+        print and ΔE reference space (D50, as in CSS <code>lab()</code>). Values
+        outside sRGB are clipped.
+      </div>
+    </div>
+  );
+}
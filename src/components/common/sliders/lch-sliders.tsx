@@ -0,0 +1,75 @@
+import { CIELCH } from "@/types";
+import { SliderRow } from "../slider-row";
+import { channelGrad } from "./channel-grad";
+import { lchToRgb, rgbToHex } from "@/lib/utils";
+import { AlphaSlider } from "./alpha-slider";
+
+function lchChannelGrad(channel: "L" | "C" | "H", lch: CIELCH) {
+  return channelGrad(8, (t) => {
+    const c: CIELCH =
+      channel === "L"
+        ? { ...lch, L: t * 100 }
+        : channel === "C"
+          ? { ...lch, C: t * 150 }
+          : { ...lch, H: t * 360 };
+    return rgbToHex(lchToRgb(c));
+  });
+}
+
+export function LchSliders({
+  lch,
+  alpha,
+  hex,
+  onLch,
+  onAlpha,
+}: {
+  lch: CIELCH;
+  alpha: number;
+  hex: string;
+  onLch: (lch: CIELCH) => void;
+  onAlpha: (a: number) => void;
+}) {
+  return (
+    <div className="w-full max-w-100 flex flex-col gap-3.5">
+      <SliderRow
+        label="Lightness"
+        display={lch.L.toFixed(1)}
+        value={Math.round(lch.L)}
+        min={0}
+        max={100}
+        trackBg={lchChannelGrad("L", lch)}
+        onChange={(v) => onLch({ ...lch, L: v })}
+      />
+      <SliderRow
+        label="Chroma"
+        display={lch.C.toFixed(1)}
+        value={Math.round(lch.C)}
+        min={0}
+        max={150}
+        trackBg={lchChannelGrad("C", lch)}
+        onChange={(v) => onLch({ ...lch, C: v })}
+      />
+      <SliderRow
+        label="Hue"
+        display={`${Math.round(lch.H)}°`}
+        value={Math.round(lch.H)}
+        min={0}
+        max={359}
+        trackBg={lchChannelGrad("H", lch)}
+        onChange={(v) => onLch({ ...lch, H: v })}
+      />
+      <AlphaSlider alpha={alpha} hex={hex} onChange={onAlpha} />
+      <div
+        className="rounded text-[9.5px] text-muted-foreground leading-normal px-2 py-1.25"
+        style={{
+          background: "rgba(99,102,241,.08)",
+          border: "1px solid rgba(99,102,241,.18)",
+        }}
+      >
+        <strong className="text-secondary-foreground">CIE LCH</strong> — polar
+        CIELAB. Less uniform than OKLCH in blues, but the space most print and
+        ΔE tooling speaks.
+      </div>
+    </div>
+  );
+}
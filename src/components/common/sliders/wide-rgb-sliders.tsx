@@ -0,0 +1,85 @@
+import { RGB, RGBFloat } from "@/types";
+import { SliderRow } from "../slider-row";
+import { channelGrad } from "./channel-grad";
+import { linearRgbToRgb, p3ToRgb, rec2020ToRgb, rgbToHex } from "@/lib/utils";
+import { AlphaSlider } from "./alpha-slider";
+
+export type WideRgbSpace = "p3" | "rec2020" | "linear";
+
+const SPACES: Record<
+  WideRgbSpace,
+  { toRgb: (c: RGBFloat) => RGB; label: string; note: string }
+> = {
+  p3: {
+    toRgb: p3ToRgb,
+    label: "Display-P3",
+    note: "the wide gamut of modern Apple and Android screens. sRGB colors never reach the channel extremes; values beyond sRGB are clipped.",
+  },
+  rec2020: {
+    toRgb: rec2020ToRgb,
+    label: "Rec.2020",
+    note: "the UHD/HDR broadcast gamut — wider still than P3. Values beyond sRGB are clipped.",
+  },
+  linear: {
+    toRgb: linearRgbToRgb,
+    label: "Linear sRGB",
+    note: "sRGB without the gamma curve — the space light actually mixes in. Mid gray sits near 0.21, not 0.5.",
+  },
+};
+
+function wideChannelGrad(
+  space: WideRgbSpace,
+  channel: keyof RGBFloat,
+  color: RGBFloat,
+) {
+  return channelGrad(8, (t) =>
+    rgbToHex(SPACES[space].toRgb({ ...color, [channel]: t })),
+  );
+}
+
+/** Predefined RGB spaces with 0–1 channels — color(display-p3 …) and kin */
+export function WideRgbSliders({
+  space,
+  color,
+  alpha,
+  hex,
+  onColor,
+  onAlpha,
+}: {
+  space: WideRgbSpace;
+  color: RGBFloat;
+  alpha: number;
+  hex: string;
+  onColor: (c: RGBFloat) => void;
+  onAlpha: (a: number) => void;
+}) {
+  return (
+    <div className="w-full max-w-100 flex flex-col gap-3.5">
+      {(["r", "g", "b"] as const).map((ch) => (
+        <SliderRow
+          key={ch}
+          label={{ r: "Red", g: "Green", b: "Blue" }[ch]}
+          display={color[ch].toFixed(3)}
+          value={Math.round(color[ch] * 1000)}
+          min={0}
+          max={1000}
+          trackBg={wideChannelGrad(space, ch, color)}
+          onChange={(v) => onColor({ ...color, [ch]: v / 1000 })}
+        />
+      ))}
+      <AlphaSlider alpha={alpha} hex={hex} onChange={onAlpha} />
+      <div
+        className="rounded text-[9.5px] text-muted-foreground leading-normal px-2 py-1.25"
+        style={{
+          background: "rgba(99,102,241,.08)",
+          border: "1px solid rgba(99,102,241,.18)",
+        }}
+      >
+        <strong className="text-secondary-foreground">
+          {SPACES[space].label}
+        </strong>{" "}
+        — {SPACES[space].note}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { XYZ } from "@/types";
+import { SliderRow } from "../slider-row";
+import { channelGrad } from "./channel-grad";
+import { rgbToHex, xyzToRgb } from "@/lib/utils";
+import { AlphaSlider } from "./alpha-slider";
+
+/** D65 white point — the natural upper bound of each channel */
+const XYZ_MAX: XYZ = { x: 0.9505, y: 1, z: 1.089 };
+
+function xyzChannelGrad(channel: keyof XYZ, xyz: XYZ) {
+  return channelGrad(8, (t) =>
+    rgbToHex(xyzToRgb({ ...xyz, [channel]: t * XYZ_MAX[channel] })),
+  );
+}
+
+export function XyzSliders({
+  xyz,
+  alpha,
+  hex,
+  onXyz,
+  onAlpha,
+}: {
+  xyz: XYZ;
+  alpha: number;
+  hex: string;
+  onXyz: (xyz: XYZ) => void;
+  onAlpha: (a: number) => void;
+}) {
+  return (
+    <div className="w-full max-w-100 flex flex-col gap-3.5">
+      {(["x", "y", "z"] as const).map((ch) => (
+        <SliderRow
+          key={ch}
+          label={ch.toUpperCase()}
+          display={xyz[ch].toFixed(4)}
+          value={Math.round(xyz[ch] * 1000)}
+          min={0}
+          max={Math.round(XYZ_MAX[ch] * 1000)}
+          trackBg={xyzChannelGrad(ch, xyz)}
+          onChange={(v) => onXyz({ ...xyz, [ch]: v / 1000 })}
+        />
+      ))}
+      <AlphaSlider alpha={alpha} hex={hex} onChange={onAlpha} />
+      <div
+        className="rounded text-[9.5px] text-muted-foreground leading-normal px-2 py-1.25"
+        style={{
+          background: "rgba(99,102,241,.08)",
+          border: "1px solid rgba(99,102,241,.18)",
+        }}
+      >
+        <strong className="text-secondary-foreground">CIE XYZ</strong> (D65) —
+        the device-independent hub every other space converts through. Y is
+        relative luminance.
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,7 @@ import { useState, useCallback, useRef } from "react";
 import { AccordionSection } from "./accordion-section";
 import { useChromaStore } from "@/hooks/use-chroma-store";
 import { useRegisterHotkey } from "@/providers/hotkey.provider";
-import { cn, parseHex, hexToStop } from "@/lib/utils";
+import { cn, parseColor, rgbToHex, hexToStop } from "@/lib/utils";
 import { HARMONIES, THEMES } from "@/lib/constants/chroma";
 
 interface GenerateControlsAccordionProps {
@@ -34,6 +34,7 @@ export function GenerateControlsAccordion({
     temperature,
     generate,
     undo,
+    redo,
     setMode,
     setCount,
     addSeed,
@@ -62,10 +63,18 @@ export function GenerateControlsAccordion({
   useRegisterHotkey({
     key: "z",
     ctrl: true,
-    label: "Undo generate",
+    label: "Undo",
     group: "Palette",
     handler: undo,
   });
+  useRegisterHotkey({
+    key: "z",
+    ctrl: true,
+    shift: true,
+    label: "Redo",
+    group: "Palette",
+    handler: redo,
+  });
   useRegisterHotkey({
     key: "?",
     label: "Keyboard shortcuts",
@@ -74,13 +83,13 @@ export function GenerateControlsAccordion({
   });
 
   const handleAddSeed = useCallback(() => {
-    const hex = parseHex(seedInp);
-    if (!hex) {
+    const parsed = parseColor(seedInp);
+    if (!parsed) {
       setSeedErr(true);
       setTimeout(() => setSeedErr(false), 600);
       return;
     }
-    addSeed(hexToStop(hex));
+    addSeed(hexToStop(rgbToHex(parsed.rgb)));
     setSeedInp("");
   }, [seedInp, addSeed]);
 
@@ -175,7 +184,6 @@ export function GenerateControlsAccordion({
             onChange={(e) => setSeedInp(e.target.value)}
             onKeyDown={(e) => e.key === "Enter" && handleAddSeed()}
             placeholder="#F4A261"
-            maxLength={7}
             spellCheck={false}
             autoComplete="off"
           />
@@ -7,6 +7,7 @@
  *   - Seed colors (list + add input)
  *   - Seed behavior (influence / pin)
  *   - Temperature slider
+ *   - Random seed (replay a generation exactly)
  *   - Harmony selector
  *   - Token names hint
  *   - Palette preview strip
@@ -24,7 +25,7 @@
 import React, { useState, useCallback, useRef } from "react";
 import { useChromaStore } from "@/hooks/use-chroma-store";
 import { useRegisterHotkey } from "@/providers/hotkey.provider";
-import { cn, parseHex, hexToStop } from "@/lib/utils";
+import { cn, parseColor, rgbToHex, hexToStop } from "@/lib/utils";
 import { HARMONIES, THEMES } from "@/lib/constants/chroma";
 
 // ─── Section helpers ──────────────────────────────────────────────────────────
@@ -79,8 +80,11 @@ export function GenerateControls({ onEditSeed }: GenerateControlsProps) {
     mode,
     seedMode,
     temperature,
+    rngSeed,
     generate,
+    generateWithSeed,
     undo,
+    redo,
     setMode,
     setCount,
     addSeed,
@@ -93,6 +97,8 @@ export function GenerateControls({ onEditSeed }: GenerateControlsProps) {
 
   const [seedInp, setSeedInp] = useState("");
   const [seedErr, setSeedErr] = useState(false);
+  const [rngInp, setRngInp] = useState("");
+  const [rngErr, setRngErr] = useState(false);
 
   // Debounce generate for sliders
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -111,10 +117,18 @@ export function GenerateControls({ onEditSeed }: GenerateControlsProps) {
   useRegisterHotkey({
     key: "z",
     ctrl: true,
-    label: "Undo generate",
+    label: "Undo",
     group: "Palette",
     handler: undo,
   });
+  useRegisterHotkey({
+    key: "z",
+    ctrl: true,
+    shift: true,
+    label: "Redo",
+    group: "Palette",
+    handler: redo,
+  });
   useRegisterHotkey({
     key: "?",
     label: "Keyboard shortcuts",
@@ -138,16 +152,28 @@ export function GenerateControls({ onEditSeed }: GenerateControlsProps) {
   });
 
   const handleAddSeed = useCallback(() => {
-    const hex = parseHex(seedInp);
-    if (!hex) {
+    const parsed = parseColor(seedInp);
+    if (!parsed) {
       setSeedErr(true);
       setTimeout(() => setSeedErr(false), 600);
       return;
     }
-    addSeed(hexToStop(hex));
+    addSeed(hexToStop(rgbToHex(parsed.rgb)));
     setSeedInp("");
   }, [seedInp, addSeed]);
 
+  const handleReplaySeed = useCallback(() => {
+    const raw = rngInp.trim();
+    const n = raw ? Number(raw) : (rngSeed ?? NaN);
+    if (!Number.isInteger(n) || n < 0 || n > 0xffffffff) {
+      setRngErr(true);
+      setTimeout(() => setRngErr(false), 600);
+      return;
+    }
+    generateWithSeed(n);
+    setRngInp("");
+  }, [rngInp, rngSeed, generateWithSeed]);
+
   return (
     <>
       {/* ── Colors count ── */}
@@ -239,7 +265,6 @@ export function GenerateControls({ onEditSeed }: GenerateControlsProps) {
             onChange={(e) => setSeedInp(e.target.value)}
             onKeyDown={(e) => e.key === "Enter" && handleAddSeed()}
             placeholder="#F4A261"
-            maxLength={7}
             spellCheck={false}
             autoComplete="off"
           />
@@ -321,6 +346,37 @@ export function GenerateControls({ onEditSeed }: GenerateControlsProps) {
         </div>
       </Section>
 
+      {/* ── Random seed ── */}
+      <Section>
+        <SectionLabel>Random Seed</SectionLabel>
+        <div className="flex gap-1.5 mb-2">
+          <input
+            className={cn(
+              "flex-1 min-w-0 bg-muted border rounded px-2 py-1.5 text-[11px] text-foreground font-mono tabular-nums",
+              "outline-none focus:border-ring transition-colors placeholder:text-muted-foreground",
+              rngErr ? "border-destructive" : "border-border",
+            )}
+            value={rngInp}
+            onChange={(e) => setRngInp(e.target.value.replace(/[^0-9]/g, ""))}
+            onKeyDown={(e) => e.key === "Enter" && handleReplaySeed()}
+            placeholder={rngSeed !== null ? String(rngSeed) : "—"}
+            inputMode="numeric"
+            spellCheck={false}
+            autoComplete="off"
+          />
+          <button
+            className="inline-flex items-center justify-center px-3 py-1.5 text-[11px] font-mono font-bold rounded border border-border bg-secondary text-secondary-foreground hover:text-foreground hover:border-input transition-colors cursor-pointer"
+            onClick={handleReplaySeed}
+            title="Generate with this seed"
+          >
+            ↻ Replay
+          </button>
+        </div>
+        <p className="text-[9.5px] text-muted-foreground leading-relaxed">
+          The same seed with the same settings reproduces a palette exactly.
+        </p>
+      </Section>
+
       {/* ── Harmony ── */}
       <Section>
         <SectionLabel>Harmony</SectionLabel>
@@ -391,8 +447,8 @@ export function GenerateFooter() {
         ⟳ Generate
       </button>
       <p className="text-[10px] text-muted-foreground text-center mt-1.5">
-        <kbd>Space</kbd> generate · <kbd>Ctrl+Z</kbd> undo · <kbd>?</kbd>{" "}
-        shortcuts
+        <kbd>Space</kbd> generate · <kbd>Ctrl+Z</kbd> undo ·{" "}
+        <kbd>Ctrl+Shift+Z</kbd> redo · <kbd>?</kbd> shortcuts
       </p>
     </div>
   );
@@ -18,7 +18,7 @@ interface GenerateFabProps {
 }
 
 export function GenerateFab({ className }: GenerateFabProps) {
-  const { generate, undo } = useChromaStore();
+  const { generate, undo, redo } = useChromaStore();
   const [spinning, setSpinning] = useState(false);
 
   const handleGenerate = () => {
@@ -44,11 +44,26 @@ export function GenerateFab({ className }: GenerateFabProps) {
           "text-sm cursor-pointer shadow-lg",
         )}
         title="Undo (Ctrl+Z)"
-        aria-label="Undo generate"
+        aria-label="Undo"
       >
         ↩
       </button>
 
+      {/* Redo button */}
+      <button
+        onClick={redo}
+        className={cn(
+          "w-8 h-8 flex items-center justify-center",
+          "rounded-full border border-white/20 bg-black/60 backdrop-blur-md",
+          "text-white/70 hover:text-white hover:bg-black/80 transition-all",
+          "text-sm cursor-pointer shadow-lg",
+        )}
+        title="Redo (Ctrl+Shift+Z)"
+        aria-label="Redo"
+      >
+        ↪
+      </button>
+
       {/* Generate FAB */}
       <button
         onClick={handleGenerate}
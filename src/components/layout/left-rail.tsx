@@ -4,6 +4,7 @@
  * The collapsible left rail in the Desktop Studio layout.
  * Contains:
  *   - Brand + collapse toggle
+ *   - ProjectSwitcher (project, palette, scale, gradient)
  *   - GenerateControls (count, harmony, seeds, temperature)
  *   - Saved palettes shortcut
  *   - Generate FAB / button
@@ -15,6 +16,7 @@
 import { useState, useEffect } from "react";
 import { Link, useRouterState } from "@tanstack/react-router";
 import { GenerateControls, GenerateFooter } from "./generate-controls";
+import { ProjectSwitcher } from "./project-switcher";
 import { useChromaStore } from "@/hooks/use-chroma-store";
 import { cn } from "@/lib/utils";
 import { LogoIcon } from "../logo-icon";
@@ -129,6 +131,7 @@ export function LeftRail({ onEditSeed, className }: LeftRailProps) {
       {!collapsed && (
         <>
           <div className="flex-1 overflow-y-auto [scrollbar-width:thin] border-r border-border">
+            <ProjectSwitcher />
             <GenerateControls onEditSeed={onEditSeed} />
 
             {/* Saved palettes link */}
@@ -146,7 +149,7 @@ export function LeftRail({ onEditSeed, className }: LeftRailProps) {
                     : "border-border text-muted-foreground hover:text-foreground hover:border-input",
                 )}
               >
-                <span>🗂</span> Saved & History
+                <span>🗂</span> Project Palettes
               </Link>
             </div>
           </div>
@@ -8,7 +8,7 @@
  * within that section (via prefix matching).
  *
  * Sections map to the 14 consolidated tools from Phase 1:
- *   CREATE  → /palette, /picker, /saved
+ *   CREATE  → /palette, /picker, /saved, /history
  *   ANALYZE → /accessibility, /scoring, /oklch-scatter
  *   BUILD   → /mixer, /gradient, /extract
  *   EXPORT  → /scale, /designsystem, /theme, /utility, /brand
@@ -37,7 +37,7 @@ export const SECTIONS: SectionDef[] = [
     label: "Create",
     icon: "✦",
     primary: "/palette",
-    routes: ["/palette", "/picker", "/saved"],
+    routes: ["/palette", "/picker", "/saved", "/history"],
   },
   {
     id: "analyze",
@@ -79,6 +79,7 @@ export const SECTION_TOOLS: Record<string, { to: string; label: string }[]> = {
     { to: "/palette", label: "Palette" },
     { to: "/picker", label: "Color Picker" },
     { to: "/saved", label: "Saved" },
+    { to: "/history", label: "History" },
   ],
   analyze: [
     { to: "/analyze/accessibility", label: "Accessibility" },
@@ -42,7 +42,13 @@ function HSlotCard({ slot, index, onEdit, active, slotWidth }: HSlotCardProps) {
   const rgb = useMemo(() => hexToRgb(slot.color.hex), [slot.color.hex]);
   const hsl = useMemo(() => rgbToHsl(rgb), [rgb]);
   const tc = useMemo(() => textColor(rgb), [rgb]);
-  const autoName = useMemo(() => nearestName(rgb), [rgb]);
+  // Dictionaries are read by nearestName(), so relabel when they change
+  const nameDictionaries = useChromaStore((s) => s.nameDictionaries);
+  const autoName = useMemo(
+    () => nearestName(rgb),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [rgb, nameDictionaries],
+  );
 
   const [lastTap, setLastTap] = useState(0);
   const [copied, setCopied] = useState(false);
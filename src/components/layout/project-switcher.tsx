@@ -0,0 +1,198 @@
+/**
+ * project-switcher.tsx  — left rail project picker
+ *
+ * Switches between projects and, inside the active one, between its named
+ * palettes, scales and gradients. Every view keeps reading the store's
+ * working fields; switching stashes them into the project and loads the
+ * target's.
+ */
+
+import type { ReactNode } from "react";
+import { useChromaStore } from "@/hooks/use-chroma-store";
+import { useActiveProject } from "@/hooks/use-active-project";
+import { cn } from "@/lib/utils";
+import type { ProjectItemKind } from "@/types";
+
+const selectClass =
+  "flex-1 min-w-0 bg-muted border border-border rounded px-1.5 py-1 text-[11px] text-foreground font-mono outline-none focus:border-ring transition-colors";
+
+function IconButton({
+  title,
+  disabled,
+  onClick,
+  children,
+}: {
+  title: string;
+  disabled?: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      aria-label={title}
+      disabled={disabled}
+      onClick={onClick}
+      className={cn(
+        "w-6 h-6 flex items-center justify-center rounded border border-transparent text-[12px] shrink-0 bg-transparent transition-colors",
+        disabled
+          ? "text-muted-foreground/40 cursor-default"
+          : "text-muted-foreground hover:text-foreground hover:border-border cursor-pointer",
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+interface PickerRowProps {
+  label: string;
+  items: { id: string; name: string }[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  /** Extra buttons after add — e.g. duplicate for projects */
+  extra?: ReactNode;
+}
+
+function PickerRow({
+  label,
+  items,
+  activeId,
+  onSwitch,
+  onAdd,
+  onRename,
+  onDelete,
+  extra,
+}: PickerRowProps) {
+  const active = items.find((i) => i.id === activeId);
+  const lower = label.toLowerCase();
+
+  const rename = () => {
+    if (!active) return;
+    const name = prompt(`Rename ${lower}`, active.name)?.trim();
+    if (name && name !== active.name) onRename(active.id, name);
+  };
+
+  const remove = () => {
+    if (!active || !confirm(`Delete ${lower} "${active.name}"?`)) return;
+    onDelete(active.id);
+  };
+
+  return (
+    <div className="flex items-center gap-1 mb-1.5">
+      <span className="w-14 shrink-0 text-[10px] text-muted-foreground">
+        {label}
+      </span>
+      <select
+        value={activeId}
+        onChange={(e) => onSwitch(e.target.value)}
+        className={selectClass}
+        aria-label={label}
+      >
+        {items.map((i) => (
+          <option key={i.id} value={i.id}>
+            {i.name}
+          </option>
+        ))}
+      </select>
+      <IconButton title={`New ${lower}`} onClick={onAdd}>
+        +
+      </IconButton>
+      {extra}
+      <IconButton title={`Rename ${lower}`} onClick={rename}>
+        ✎
+      </IconButton>
+      <IconButton
+        title={`Delete ${lower}`}
+        disabled={items.length < 2}
+        onClick={remove}
+      >
+        ×
+      </IconButton>
+    </div>
+  );
+}
+
+const ITEM_ROWS: {
+  kind: ProjectItemKind;
+  label: string;
+  list: "palettes" | "scales" | "gradients";
+  /** Name for a new copy — null keeps the current one's (scale token prefixes) */
+  newName: string | null;
+}[] = [
+  { kind: "palette", label: "Palette", list: "palettes", newName: "Palette" },
+  { kind: "scale", label: "Scale", list: "scales", newName: null },
+  {
+    kind: "gradient",
+    label: "Gradient",
+    list: "gradients",
+    newName: "Gradient",
+  },
+];
+
+export function ProjectSwitcher() {
+  const project = useActiveProject();
+  const projects = useChromaStore((s) => s.projects);
+  const {
+    createProject,
+    duplicateProject,
+    switchProject,
+    renameProject,
+    deleteProject,
+    addProjectItem,
+    switchProjectItem,
+    renameProjectItem,
+    deleteProjectItem,
+  } = useChromaStore();
+
+  if (!project) return null;
+
+  return (
+    <div className="px-4 py-3 border-b border-border">
+      <p className="text-[10px] tracking-widest uppercase text-muted-foreground mb-2 font-semibold">
+        Workspace
+      </p>
+      <PickerRow
+        label="Project"
+        items={projects}
+        activeId={project.id}
+        onSwitch={switchProject}
+        onAdd={() => {
+          const name = prompt("New project name", "New Project")?.trim();
+          if (name) createProject(name);
+        }}
+        onRename={renameProject}
+        onDelete={deleteProject}
+        extra={
+          <IconButton
+            title="Duplicate project"
+            onClick={() => duplicateProject(project.id)}
+          >
+            ⧉
+          </IconButton>
+        }
+      />
+      {ITEM_ROWS.map(({ kind, label, list, newName }) => (
+        <PickerRow
+          key={kind}
+          label={label}
+          items={project[list]}
+          activeId={project.active[kind]}
+          onSwitch={(id) => switchProjectItem(kind, id)}
+          onAdd={() =>
+            addProjectItem(
+              kind,
+              newName ??
+                project[list].find((i) => i.id === project.active[kind])!.name,
+            )
+          }
+          onRename={(id, name) => renameProjectItem(kind, id, name)}
+          onDelete={(id) => deleteProjectItem(kind, id)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -170,7 +170,13 @@ export function SlotCard({
   const rgb = useMemo(() => hexToRgb(slot.color.hex), [slot.color.hex]);
   const hsl = useMemo(() => rgbToHsl(rgb), [rgb]);
   const tc = useMemo(() => textColor(rgb), [rgb]);
-  const autoName = useMemo(() => nearestName(rgb), [rgb]);
+  // Dictionaries are read by nearestName(), so relabel when they change
+  const nameDictionaries = useChromaStore((s) => s.nameDictionaries);
+  const autoName = useMemo(
+    () => nearestName(rgb),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [rgb, nameDictionaries],
+  );
   const displayName = slot.name || autoName;
 
   const bg =
@@ -310,6 +316,14 @@ export function SlotCard({
                 <span className="ml-1">· {slot.color.a}%</span>
               )}
             </span>
+            {slot.color.outOfGamut && (
+              <span
+                className="font-mono text-[10px] font-medium opacity-95 leading-none text-white"
+                title="Generated outside sRGB and gamut-mapped back in"
+              >
+                ◐ GAMUT-MAPPED
+              </span>
+            )}
           </div>
         </div>
 
@@ -8,6 +8,11 @@ import {
   semanticSlotNames,
   toHexAlpha,
   toCssRgb,
+  nearestName,
+  buildSwatchFile,
+  downloadSwatchFile,
+  SWATCH_FILE_FORMATS,
+  type SwatchFileFormat,
 } from "@/lib/utils";
 import type { ExportTab } from "@/types";
 import { generateSvgSwatch, downloadSvg } from "@/lib/utils/svg-export";
@@ -33,8 +38,23 @@ const EXPORT_TABS: { id: ExportTab; label: string }[] = [
   { id: "figma", label: "Figma" },
   { id: "tailwind", label: "Tailwind" },
   { id: "svg", label: "SVG" },
+  { id: "ase", label: "ASE" },
+  { id: "aco", label: "ACO" },
+  { id: "gpl", label: "GPL" },
+  { id: "procreate", label: "Procreate" },
 ];
 
+/** Tabs that download a native swatch file instead of copying text */
+const SWATCH_TABS: Partial<Record<ExportTab, SwatchFileFormat>> = {
+  ase: "ase",
+  aco: "aco",
+  gpl: "gpl",
+  procreate: "procreate",
+};
+
+/** Binary swatch formats — previewed as a name list, not copyable */
+const BINARY_TABS: ExportTab[] = ["ase", "aco", "procreate"];
+
 export function ExportModal() {
   // Include alpha bytes in hex when a slot has transparency (#RRGGBBAA format)
   const modal = useChromaStore((s) => s.modal);
@@ -97,6 +117,16 @@ export function ExportModal() {
         return buildTailwindConfig(tokens, utilityColors);
       case "svg":
         return svgContent;
+      case "gpl":
+        return new TextDecoder().decode(
+          buildSwatchFile("gpl", slots, "Palette").data,
+        );
+      case "ase":
+      case "aco":
+      case "procreate":
+        return slots
+          .map((s) => `${s.color.hex}  ${s.name || nearestName(s.color.rgb)}`)
+          .join("\n");
       default:
         return "";
     }
@@ -110,6 +140,9 @@ export function ExportModal() {
 
   const handleDownloadSvg = () => downloadSvg(svgContent, "palette.svg");
 
+  const swatchFormat = SWATCH_TABS[exportTab];
+  const isBinary = BINARY_TABS.includes(exportTab);
+
   const downloadStory = () => {
     const names = semanticSlotNames(slots);
     const html = buildColorStoryHtml(
@@ -190,20 +223,37 @@ export function ExportModal() {
             />
           ))}
         </div>
+        {swatchFormat && (
+          <p className="text-[10px] text-muted-foreground">
+            {SWATCH_FILE_FORMATS[swatchFormat].label} · slot names become swatch
+            names
+            {swatchFormat === "procreate" &&
+              " (Procreate keeps the palette name only, max 30 swatches)"}
+          </p>
+        )}
         <DialogFooter>
           {exportTab === "svg" ? (
             <Button variant="ghost" onClick={handleDownloadSvg}>
               ↓ Download SVG
             </Button>
+          ) : swatchFormat ? (
+            <Button
+              variant="ghost"
+              onClick={() => downloadSwatchFile(swatchFormat, slots)}
+            >
+              ↓ Download {SWATCH_FILE_FORMATS[swatchFormat].extension}
+            </Button>
           ) : (
             <Button variant="ghost" onClick={downloadStory}>
               ↓ Color Story
             </Button>
           )}
           <DialogClose render={<Button variant="ghost">Close</Button>} />
-          <Button variant="default" onClick={handleCopy}>
-            {copied ? "✓ Copied" : "Copy"}
-          </Button>
+          {!isBinary && (
+            <Button variant="default" onClick={handleCopy}>
+              {copied ? "✓ Copied" : "Copy"}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -1,5 +1,4 @@
 import { useChromaStore } from "@/stores/chroma.store";
-import { savePalette } from "@/lib/utils";
 import { Button } from "../ui/button";
 import {
   Dialog,
@@ -17,7 +16,10 @@ import { HeartIcon } from "lucide-react";
 export function SaveModal() {
   const modal = useChromaStore((s) => s.modal);
   const slots = useChromaStore((s) => s.slots);
-  const mode = useChromaStore((s) => s.mode);
+  const savePaletteAs = useChromaStore((s) => s.savePaletteAs);
+  const projectName = useChromaStore(
+    (s) => s.projects.find((p) => p.id === s.activeProjectId)?.name,
+  );
   const saveName = useChromaStore((s) => s.saveName);
   const setSaveName = useChromaStore((s) => s.setSaveName);
   const closeModal = useChromaStore((s) => s.closeModal);
@@ -26,7 +28,7 @@ export function SaveModal() {
   const hexes = slots.map((s) => s.color.hex);
 
   const handleSave = () => {
-    savePalette(saveName.trim() || "Unnamed", hexes, mode);
+    savePaletteAs(saveName.trim() || "Unnamed");
     closeModal();
   };
 
@@ -54,6 +56,11 @@ export function SaveModal() {
       <DialogContent className="sm:max-w-sm">
         <DialogHeader>
           <DialogTitle>Save Palette</DialogTitle>
+          {projectName && (
+            <p className="text-[11px] text-muted-foreground">
+              Keeps a copy in {projectName}
+            </p>
+          )}
         </DialogHeader>
         <div className="flex h-9 rounded overflow-hidden gap-px">
           {hexes.map((h, i) => (
@@ -20,15 +20,43 @@ export function ShareModal() {
   const modal = useChromaStore((s) => s.modal);
   const slots = useChromaStore((s) => s.slots);
   const mode = useChromaStore((s) => s.mode);
+  const count = useChromaStore((s) => s.count);
+  const seeds = useChromaStore((s) => s.seeds);
+  const seedMode = useChromaStore((s) => s.seedMode);
+  const temperature = useChromaStore((s) => s.temperature);
+  const rngSeed = useChromaStore((s) => s.rngSeed);
+  const utilityColors = useChromaStore((s) => s.utilityColors);
+  const brandColors = useChromaStore((s) => s.brandColors);
   const closeModal = useChromaStore((s) => s.closeModal);
   const openModal = useChromaStore((s) => s.openModal);
 
   const [copied, setCopied] = useState(false);
 
-  const url = useMemo(() => {
-    const hexes = slots.map((s) => s.color.hex);
-    return encodeUrl(hexes, mode);
-  }, [slots, mode]);
+  const url = useMemo(
+    () =>
+      encodeUrl({
+        slots,
+        mode,
+        count,
+        seeds,
+        seedMode,
+        temperature,
+        rngSeed,
+        utilityColors,
+        brandColors,
+      }),
+    [
+      slots,
+      mode,
+      count,
+      seeds,
+      seedMode,
+      temperature,
+      rngSeed,
+      utilityColors,
+      brandColors,
+    ],
+  );
 
   const handleCopy = () => {
     navigator.clipboard.writeText(url).catch(() => {});
@@ -58,7 +86,8 @@ export function ShareModal() {
         <DialogHeader>
           <DialogTitle>Share Palette</DialogTitle>
           <DialogDescription>
-            Anyone with this URL can load your exact palette.
+            Anyone with this URL can load your exact palette — names, locks,
+            alpha, generator settings, utility and brand colors included.
           </DialogDescription>
         </DialogHeader>
         <textarea
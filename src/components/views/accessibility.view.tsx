@@ -2,11 +2,12 @@
  * accessibility.view.tsx  — Phase 1 merge
  *
  * Combines: accessibility-view + contrast-checker + color-blind-view
- * Sub-tabs:  [WCAG Slots] [Contrast Checker] [Color Blind]
+ * Sub-tabs:  [WCAG Slots] [Contrast Checker] [Audit] [Color Blind]
  */
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useChromaStore } from "@/hooks/use-chroma-store";
+import { useAnalysis } from "@/hooks/use-analysis";
 import {
   contrastRatio,
   wcagLevel,
@@ -16,14 +17,44 @@ import {
   suggestContrastFix,
   parseHex,
   rgbToHex,
-  applySimMatrix,
+  simulateCvdHex,
+  simulateCvdPixels,
+  cvdLabel,
+  cvdConflicts,
+  suggestCvdNudge,
+  hexToStop,
+  CVD_SAFE_DISTANCE,
   textColor,
   type WcagLevel,
   type ApcaLevel,
   nearestName,
+  apcaFontCheck,
+  apcaFontTable,
+  apcaMinContrast,
+  APCA_FONT_WEIGHTS,
+  runContrastAudit,
+  downloadAuditReport,
+  deriveThemeTokens,
+  generateScale,
+  semanticSlotNames,
+  AUDIT_GROUPS,
+  type AuditReportFormat,
 } from "@/lib/utils";
+import type {
+  AuditGroup,
+  AuditSummary,
+  CBType,
+  CvdConflict,
+  CvdMethod,
+  CvdNudge,
+  CvdSimulation,
+} from "@/types";
+import { runContrastAuditAsync } from "@/lib/workers";
 import { CB_TYPES } from "@/lib/constants/chroma";
 import ColorPickerModal from "@/components/modals/color-picker.modal";
+import { ContrastAuditList } from "@/components/common/contrast-audit-list";
+import { DeltaEMetricPicker } from "@/components/common/delta-e-metric-picker";
+import { Button } from "@/components/ui/button";
 
 // ─── Shared badge helpers ─────────────────────────────────────────────────────
 
@@ -36,8 +67,10 @@ const WCAG_BADGE: Record<WcagLevel, { bg: string; fg: string }> = {
 const APCA_BADGE: Record<ApcaLevel, { bg: string; fg: string }> = {
   Preferred: { bg: "rgba(34,197,94,.18)", fg: "#16a34a" },
   Body: { bg: "rgba(59,130,246,.15)", fg: "#2563eb" },
+  Content: { bg: "rgba(20,184,166,.15)", fg: "#0d9488" },
   Large: { bg: "rgba(234,179,8,.15)", fg: "#a16207" },
-  UI: { bg: "rgba(168,85,247,.15)", fg: "#7c3aed" },
+  Spot: { bg: "rgba(249,115,22,.15)", fg: "#c2410c" },
+  "Non-text": { bg: "rgba(168,85,247,.15)", fg: "#7c3aed" },
   Fail: { bg: "rgba(239,68,68,.13)", fg: "#dc2626" },
 };
 
@@ -223,97 +256,20 @@ function SwatchCard({
   );
 }
 
-function PairsMatrix({
-  hexes,
-  useApca,
-}: {
-  hexes: string[];
-  useApca: boolean;
-}) {
-  const pairs: { a: string; b: string; wcag: number; apca: number }[] = [];
-  for (let i = 0; i < hexes.length; i++)
-    for (let j = i + 1; j < hexes.length; j++) {
-      const rgbA = hexToRgb(hexes[i]),
-        rgbB = hexToRgb(hexes[j]);
-      pairs.push({
-        a: hexes[i],
-        b: hexes[j],
-        wcag: contrastRatio(rgbA, rgbB),
-        apca: apcaContrast(rgbA, rgbB),
-      });
-    }
-  const passing = pairs.filter((p) =>
-    useApca ? Math.abs(p.apca) >= 45 : p.wcag >= 4.5,
-  );
-  return (
-    <div>
-      <div className="text-muted-foreground mb-2.5 text-[10.5px]">
-        {passing.length} of {pairs.length} pairs pass{" "}
-        {useApca ? "APCA Large (Lc≥45)" : "WCAG AA (4.5:1)"}
-      </div>
-      <div className="grid gap-1.5 grid-cols-[repeat(auto-fill,minmax(200px,1fr))]">
-        {pairs.map(({ a, b, wcag, apca }, i) => {
-          const passes = useApca ? Math.abs(apca) >= 45 : wcag >= 4.5;
-          return (
-            <div
-              key={i}
-              style={{
-                display: "flex",
-                alignItems: "center",
-                gap: 6,
-                padding: "5px 8px",
-                borderRadius: 5,
-                border: "1px solid var(--color-secondary)",
-                background: passes
-                  ? "rgba(34,197,94,.04)"
-                  : "var(--color-card)",
-                opacity: passes ? 1 : 0.5,
-              }}
-            >
-              <div
-                className="rounded shrink-0 w-3.5 h-3.5"
-                style={{
-                  background: a,
-                  border: "1px solid rgba(128,128,128,.2)",
-                }}
-              />
-              <div
-                className="rounded shrink-0 w-3.5 h-3.5"
-                style={{
-                  background: b,
-                  border: "1px solid rgba(128,128,128,.2)",
-                }}
-              />
-              <span className="font-mono text-muted-foreground text-[8.5px] flex-1">
-                {useApca ? `Lc${Math.abs(apca)}` : `${wcag.toFixed(1)}:1`}
-              </span>
-              <span
-                style={{
-                  fontSize: 8,
-                  fontWeight: 700,
-                  padding: "1px 4px",
-                  borderRadius: 2,
-                  background: passes
-                    ? "rgba(34,197,94,.18)"
-                    : "rgba(239,68,68,.13)",
-                  color: passes ? "#16a34a" : "#dc2626",
-                }}
-              >
-                {passes ? "PASS" : "FAIL"}
-              </span>
-            </div>
-          );
-        })}
-      </div>
-    </div>
-  );
-}
-
 function WcagSlotsTab() {
   const slots = useChromaStore((s) => s.slots);
   const [useApca, setUseApca] = useState(false);
   const [showPairs, setShowPairs] = useState(false);
   const hexes = useMemo(() => slots.map((s) => s.color.hex), [slots]);
+  const paletteAudit = useMemo(
+    () =>
+      runContrastAudit({
+        palette: hexes.map((hex) => ({ name: hex, hex })),
+        paletteText: false,
+        paletteCombinations: true,
+      }),
+    [hexes],
+  );
   const stats = useMemo(() => {
     const rgbs = hexes.map(hexToRgb);
     const aaOnWhite = rgbs.filter((r) => contrastRatio(r, WHITE) >= 4.5).length;
@@ -324,13 +280,10 @@ function WcagSlotsTab() {
     const aaAny = rgbs.filter(
       (r) => Math.max(contrastRatio(r, WHITE), contrastRatio(r, BLACK)) >= 4.5,
     ).length;
-    const pairsTotal = (hexes.length * (hexes.length - 1)) / 2;
-    let pairsAA = 0;
-    for (let i = 0; i < hexes.length; i++)
-      for (let j = i + 1; j < hexes.length; j++)
-        if (contrastRatio(rgbs[i], rgbs[j]) >= 4.5) pairsAA++;
+    const pairsTotal = paletteAudit.summary.total;
+    const pairsAA = paletteAudit.summary.passWcag;
     return { aaOnWhite, aaOnBlack, aaAny, aaaAny, pairsAA, pairsTotal };
-  }, [hexes]);
+  }, [hexes, paletteAudit]);
 
   if (!slots.length) return <EmptyState title="Accessibility" />;
 
@@ -360,7 +313,8 @@ function WcagSlotsTab() {
         {useApca && (
           <div className="text-[10.5px] text-muted-foreground leading-relaxed mb-4 bg-card rounded-md px-3 py-2 border border-muted">
             <strong>APCA (WCAG 3 draft)</strong> — more perceptually accurate.
-            Lc ≥ 75 preferred · Lc ≥ 60 body text · Lc ≥ 45 large text / UI.
+            Lc ≥ 90 preferred · Lc ≥ 75 body text · Lc ≥ 60 content text · Lc ≥
+            45 large text · Lc ≥ 30 spot text / UI.
           </div>
         )}
         <div className="flex-wrap mb-5 flex gap-2">
@@ -434,13 +388,125 @@ function WcagSlotsTab() {
               {showPairs ? "Hide ↑" : "Show pairs ↓"}
             </button>
           </div>
-          {showPairs && <PairsMatrix hexes={hexes} useApca={useApca} />}
+          {showPairs && (
+            <ContrastAuditList pairs={paletteAudit.pairs} useApca={useApca} />
+          )}
         </div>
       </div>
     </div>
   );
 }
 
+// ─── APCA font lookup ─────────────────────────────────────────────────────────
+
+const FONT_WEIGHT_LABEL: Record<number, string> = {
+  100: "Thin",
+  200: "Extra light",
+  300: "Light",
+  400: "Regular",
+  500: "Medium",
+  600: "Semibold",
+  700: "Bold",
+  800: "Extra bold",
+  900: "Black",
+};
+
+function ApcaFontPanel({
+  lc,
+  size,
+  weight,
+  setSize,
+  setWeight,
+}: {
+  lc: number;
+  size: number;
+  weight: number;
+  setSize: (n: number) => void;
+  setWeight: (n: number) => void;
+}) {
+  const mag = Math.abs(lc);
+  const check = apcaFontCheck(mag, { size, weight });
+  const needed = apcaMinContrast({ size, weight });
+  const table = apcaFontTable(mag);
+
+  return (
+    <div className="bg-card rounded-md border border-muted mb-5 px-3 py-2.5">
+      <div className="items-center flex-wrap flex gap-2 mb-2">
+        <span className="text-[10px] tracking-widest uppercase text-muted-foreground font-display font-semibold">
+          Font spec
+        </span>
+        <input
+          type="number"
+          min={8}
+          max={120}
+          step={0.5}
+          value={size}
+          onChange={(e) => setSize(Math.max(1, Number(e.target.value) || 0))}
+          className="w-16 bg-transparent border border-border rounded px-1.5 py-0.5 font-mono text-[11px]"
+        />
+        <span className="text-muted-foreground text-[10px]">px</span>
+        <select
+          value={weight}
+          onChange={(e) => setWeight(Number(e.target.value))}
+          className="bg-transparent border border-border rounded px-1.5 py-0.5 text-[11px]"
+        >
+          {APCA_FONT_WEIGHTS.map((w) => (
+            <option key={w} value={w}>
+              {w} · {FONT_WEIGHT_LABEL[w]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="text-[11px] mb-2.5">
+        <span
+          style={{
+            color: check.pass ? "#00e676" : "#ff4455",
+            fontWeight: 700,
+            marginRight: 6,
+          }}
+        >
+          {check.pass ? "✓" : "✗"}
+        </span>
+        Lc {mag} is {check.pass ? "valid" : "not valid"} for {size}px/{weight}
+        {!check.pass && (
+          <span className="text-muted-foreground">
+            {" "}
+            —{" "}
+            {check.minSize !== null
+              ? `needs ${check.minSize}px at this weight`
+              : "too low for text at this weight"}
+            {needed !== null && `, or Lc ${needed} at ${size}px`}
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-9 gap-1">
+        {table.map(({ weight: w, minSize }) => (
+          <button
+            key={w}
+            onClick={() => setWeight(w)}
+            title={
+              minSize === null
+                ? `${w}: not usable for text at Lc ${mag}`
+                : `${w}: at least ${minSize}px at Lc ${mag}`
+            }
+            className={`rounded border px-1 py-1 text-center cursor-pointer ${w === weight ? "border-primary" : "border-muted"}`}
+          >
+            <div
+              className="text-[9px] text-muted-foreground"
+              style={{ fontWeight: w }}
+            >
+              {w}
+            </div>
+            <div className="font-mono text-[10px]">
+              {minSize === null ? "—" : `${minSize}px`}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ─── Sub-tab: Contrast Checker ────────────────────────────────────────────────
 
 function ContrastCheckerTab() {
@@ -448,6 +514,8 @@ function ContrastCheckerTab() {
   const [fg, setFg] = useState("#ffffff");
   const [bg, setBg] = useState("#1a1a2e");
   const [useApca, setUseApca] = useState(false);
+  const [fontSize, setFontSize] = useState(16);
+  const [fontWeight, setFontWeight] = useState(400);
   const [editingColor, setEditingColor] = useState<"fg" | "bg" | null>(null);
 
   const fgRgb = parseHex(fg)
@@ -493,6 +561,14 @@ function ContrastCheckerTab() {
             <div className="text-sm leading-relaxed opacity-70">
               Secondary / muted text at 70% opacity
             </div>
+            {useApca && (
+              <div
+                className="leading-snug mt-2"
+                style={{ fontSize, fontWeight }}
+              >
+                {fontSize}px / {fontWeight} — the quick brown fox
+              </div>
+            )}
           </div>
           <div className="justify-end flex mb-2 gap-1">
             <span className="text-[10px] text-muted-foreground self-center">
@@ -530,18 +606,22 @@ function ContrastCheckerTab() {
               (() => {
                 const lc = Math.abs(apcaContrast(fgRgb, bgRgb));
                 const al = apcaLevel(lc);
-                const aC: Record<string, string> = {
+                const aC: Record<ApcaLevel, string> = {
                   Preferred: "#00e676",
                   Body: "#69f0ae",
+                  Content: "#64ffda",
                   Large: "#fff176",
-                  UI: "#ce93d8",
+                  Spot: "#ffb74d",
+                  "Non-text": "#ce93d8",
                   Fail: "#ff4455",
                 };
-                const aBg: Record<string, string> = {
+                const aBg: Record<ApcaLevel, string> = {
                   Preferred: "rgba(0,230,118,.18)",
                   Body: "rgba(105,240,174,.15)",
+                  Content: "rgba(100,255,218,.12)",
                   Large: "rgba(255,241,118,.12)",
-                  UI: "rgba(206,147,216,.12)",
+                  Spot: "rgba(255,183,77,.12)",
+                  "Non-text": "rgba(206,147,216,.12)",
                   Fail: "rgba(255,68,85,.15)",
                 };
                 return (
@@ -563,6 +643,15 @@ function ContrastCheckerTab() {
                 );
               })()}
           </div>
+          {useApca && (
+            <ApcaFontPanel
+              lc={apcaContrast(fgRgb, bgRgb)}
+              size={fontSize}
+              weight={fontWeight}
+              setSize={setFontSize}
+              setWeight={setFontWeight}
+            />
+          )}
           <div className="flex flex-col gap-2 mb-6">
             {[
               { label: "AA Large Text (3:1)", pass: ratio >= 3 },
@@ -715,60 +804,428 @@ function ContrastCheckerTab() {
 
 // ─── Sub-tab: Color Blind ─────────────────────────────────────────────────────
 
+/** Simulation for a CB_TYPES entry — graded types follow the severity slider */
+function simFor(
+  t: CBType,
+  severity: number,
+  method: CvdMethod,
+): CvdSimulation | null {
+  return t.cvd
+    ? { type: t.cvd, severity: t.graded ? severity : 1, method }
+    : null;
+}
+
+/** Shows as "+0.04" / "−0.02" — zero-ish moves are dropped by the caller */
+const signed = (v: number, digits: number) =>
+  `${v >= 0 ? "+" : "−"}${Math.abs(v).toFixed(digits)}`;
+
+function nudgeSummary(n: CvdNudge): string {
+  return [
+    Math.abs(n.dL) >= 0.005 && `L ${signed(n.dL, 2)}`,
+    Math.abs(n.dC) >= 0.005 && `C ${signed(n.dC, 2)}`,
+    Math.abs(n.dH) >= 0.5 && `H ${signed(n.dH, 0)}°`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+const CONFLICTS_SHOWN = 8;
+
+/**
+ * Pairs of slots that collapse under a simulated deficiency, each with the
+ * smallest OKLCH nudge that pulls them back apart without creating a new
+ * clash. Nudges are only computed for the rows on screen.
+ */
+function CvdSafetyPanel({
+  conflicts,
+  sims,
+  threshold,
+  onThreshold,
+}: {
+  conflicts: CvdConflict[];
+  sims: CvdSimulation[];
+  threshold: number;
+  onThreshold: (v: number) => void;
+}) {
+  const slots = useChromaStore((s) => s.slots);
+  const metric = useChromaStore((s) => s.deltaEMetric);
+  const editSlotColor = useChromaStore((s) => s.editSlotColor);
+  const [showAll, setShowAll] = useState(false);
+  const names = semanticSlotNames(slots);
+  const hexes = slots.map((s) => s.color.hex);
+  const shown = useMemo(
+    () => (showAll ? conflicts : conflicts.slice(0, CONFLICTS_SHOWN)),
+    [conflicts, showAll],
+  );
+
+  const nudges = useMemo(() => {
+    const locked = slots.flatMap((s, i) => (s.locked ? [i] : []));
+    return shown.map((c) =>
+      suggestCvdNudge(
+        slots.map((s) => s.color.hex),
+        c,
+        sims,
+        { metric, threshold, locked },
+      ),
+    );
+  }, [shown, slots, sims, metric, threshold]);
+
+  return (
+    <div className="mt-8 max-w-240">
+      <div className="text-[10px] tracking-widest uppercase text-muted-foreground font-semibold mb-2">
+        Distinguishability
+      </div>
+      <p className="text-muted-foreground text-[10.5px] mb-3">
+        Pairs of slots closer than the threshold after simulation — distinct
+        under normal vision but easy to confuse in a chart legend.
+      </p>
+      <div className="items-center flex-wrap flex gap-x-5 gap-y-2 mb-4">
+        <DeltaEMetricPicker />
+        <label className="items-center flex gap-2 text-[10px] text-muted-foreground">
+          Threshold
+          <input
+            type="range"
+            min={2}
+            max={30}
+            value={threshold}
+            onChange={(e) => onThreshold(Number(e.target.value))}
+            className="w-32"
+          />
+          <span className="font-mono text-foreground w-14">
+            {threshold} JND
+          </span>
+        </label>
+      </div>
+
+      {!conflicts.length ? (
+        <p className="text-[10.5px]" style={{ color: "#16a34a" }}>
+          Every pair stays at least {threshold} JND apart under the checked
+          deficiencies.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-1.5">
+          {shown.map((c, i) => {
+            const nudge = nudges[i];
+            return (
+              <div
+                key={`${cvdLabel(c.sim)}-${c.a}-${c.b}`}
+                className="flex items-center gap-3 flex-wrap rounded-[5px] border border-secondary bg-card"
+                style={{ padding: "6px 10px" }}
+              >
+                <span className="font-mono text-[9.5px] font-bold w-36 truncate">
+                  {cvdLabel(c.sim)}
+                </span>
+                <div className="flex items-center gap-1">
+                  {[c.a, c.b].map((idx) => (
+                    <div
+                      key={idx}
+                      title={`${names[idx]} ${hexes[idx]}`}
+                      className="w-5 h-5 rounded-xs"
+                      style={{ background: hexes[idx] }}
+                    />
+                  ))}
+                  <span className="text-muted-foreground text-[10px] mx-1">
+                    →
+                  </span>
+                  {[c.a, c.b].map((idx) => (
+                    <div
+                      key={idx}
+                      className="w-5 h-5 rounded-xs"
+                      style={{ background: simulateCvdHex(hexes[idx], c.sim) }}
+                    />
+                  ))}
+                </div>
+                <span className="text-secondary-foreground text-[10px] w-40 truncate">
+                  {names[c.a]} / {names[c.b]}
+                </span>
+                <span
+                  className="font-mono text-[9.5px] whitespace-nowrap"
+                  title="Distance after simulation, and under normal vision"
+                >
+                  <span style={{ color: "#dc2626" }}>{c.jnd.toFixed(1)}</span>
+                  <span className="text-muted-foreground">
+                    {" "}
+                    / {c.normalJnd.toFixed(1)} JND
+                  </span>
+                </span>
+                <div className="ml-auto flex items-center gap-2">
+                  {nudge ? (
+                    <>
+                      <span className="text-muted-foreground text-[9.5px] font-mono">
+                        {names[nudge.index]}: {nudgeSummary(nudge)}
+                      </span>
+                      <div
+                        title={`${nudge.hex} — ${nudge.shift.toFixed(1)} JND from the original`}
+                        className="w-5 h-5 rounded-xs"
+                        style={{ background: nudge.hex }}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          editSlotColor(nudge.index, hexToStop(nudge.hex))
+                        }
+                      >
+                        Apply
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground text-[9.5px]">
+                      No small nudge fixes this
+                      {slots[c.a].locked || slots[c.b].locked
+                        ? " (slot locked)"
+                        : ""}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {conflicts.length > CONFLICTS_SHOWN && (
+            <button
+              className="self-start text-[10px] text-muted-foreground hover:text-foreground cursor-pointer"
+              onClick={() => setShowAll((v) => !v)}
+            >
+              {showAll
+                ? "Show fewer"
+                : `Show ${conflicts.length - CONFLICTS_SHOWN} more`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CvdImagePreview({
+  sims,
+}: {
+  sims: { id: string; label: string; sim: CvdSimulation }[];
+}) {
+  const [src, setSrc] = useState<string | null>(null);
+  const [active, setActive] = useState(sims[0]?.id);
+  // Bumped once the uploaded image is drawn, so the simulation re-renders
+  const [loaded, setLoaded] = useState(0);
+  const sourceRef = useRef<HTMLCanvasElement>(null);
+  const outRef = useRef<HTMLCanvasElement>(null);
+  const current = sims.find((s) => s.id === active) ?? sims[0];
+
+  useEffect(() => {
+    if (!src) return;
+    const img = new Image();
+    img.onload = () => {
+      const canvas = sourceRef.current;
+      if (!canvas) return;
+      const scale = Math.min(1, 480 / img.width);
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas
+        .getContext("2d")
+        ?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      setLoaded((n) => n + 1);
+    };
+    img.src = src;
+    return () => URL.revokeObjectURL(src);
+  }, [src]);
+
+  useEffect(() => {
+    const source = sourceRef.current,
+      out = outRef.current;
+    if (!source || !out || !current || !loaded) return;
+    const pixels = source
+      .getContext("2d")!
+      .getImageData(0, 0, source.width, source.height);
+    simulateCvdPixels(pixels.data, current.sim);
+    out.width = source.width;
+    out.height = source.height;
+    out.getContext("2d")!.putImageData(pixels, 0, 0);
+  }, [current, loaded]);
+
+  return (
+    <div className="mt-6 max-w-240">
+      <div className="items-center flex-wrap flex gap-2 mb-2.5">
+        <div className="text-[10px] tracking-widest uppercase text-muted-foreground font-display font-semibold">
+          Image
+        </div>
+        <input
+          type="file"
+          accept="image/*"
+          className="text-[10px] text-muted-foreground"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+      </div>
+      {src && (
+        <>
+          <div className="flex-wrap flex gap-1 mb-2.5">
+            {sims.map((s) => (
+              <button
+                key={s.id}
+                className={`inline-flex items-center gap-1 px-2 py-1 text-[10px] border rounded font-mono font-bold tracking-[.04em] whitespace-nowrap cursor-pointer transition-colors ${s.id === current?.id ? "bg-primary text-primary-foreground border-primary" : "bg-transparent text-secondary-foreground border-border hover:text-foreground hover:border-input"}`}
+                onClick={() => setActive(s.id)}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3.5">
+            {[
+              { ref: sourceRef, label: "Original" },
+              { ref: outRef, label: current?.label },
+            ].map(({ ref, label }, i) => (
+              <div key={i}>
+                <canvas
+                  ref={ref}
+                  className="w-full h-auto rounded border border-border"
+                />
+                <div className="text-[10px] text-muted-foreground mt-1">
+                  {label}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 function ColorBlindTab() {
   const slots = useChromaStore((s) => s.slots);
+  const [severity, setSeverity] = useState(1);
+  const [method, setMethod] = useState<CvdMethod>("machado");
+  const metric = useChromaStore((s) => s.deltaEMetric);
+  const [threshold, setThreshold] = useState(CVD_SAFE_DISTANCE);
+  const [monochromacy, setMonochromacy] = useState(false);
+  const sims = useMemo(
+    () =>
+      CB_TYPES.flatMap((t) => {
+        const sim = simFor(t, severity, method);
+        return sim ? [{ id: t.id, label: cvdLabel(sim), sim }] : [];
+      }),
+    [severity, method],
+  );
+  // Monochromacies collapse every equal-lightness pair, so they're opt-in
+  const checked = useMemo(
+    () =>
+      sims
+        .filter(
+          ({ sim }) =>
+            monochromacy || (sim.type !== "achromat" && sim.type !== "bcm"),
+        )
+        .map(({ sim }) => sim),
+    [sims, monochromacy],
+  );
+  const conflicts = useMemo(
+    () =>
+      cvdConflicts(
+        slots.map((s) => s.color.hex),
+        checked,
+        { metric, threshold },
+      ),
+    [slots, checked, metric, threshold],
+  );
   if (!slots.length) return <EmptyState title="Color Blindness Simulator" />;
   return (
     <div className="flex-1 overflow-auto p-6">
-      <p className="text-muted-foreground text-[11px] mb-5">
+      <p className="text-muted-foreground text-[11px] mb-4">
         How your palette appears under different types of color vision
-        deficiency.
+        deficiency — simulated in linear RGB.
       </p>
+      <div className="items-center flex-wrap flex gap-x-5 gap-y-2 mb-5 max-w-240">
+        <label className="items-center flex gap-2 text-[10px] text-muted-foreground">
+          Severity
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(severity * 100)}
+            onChange={(e) => setSeverity(Number(e.target.value) / 100)}
+            className="w-40"
+          />
+          <span className="font-mono text-foreground w-9">
+            {Math.round(severity * 100)}%
+          </span>
+        </label>
+        <div className="items-center flex gap-1">
+          <span className="text-muted-foreground text-[10px]">Model:</span>
+          {(
+            [
+              ["machado", "Machado 2009"],
+              ["brettel", "Brettel 1997"],
+            ] as const
+          ).map(([id, label]) => (
+            <button
+              key={id}
+              className={`inline-flex items-center gap-1 px-2 py-1 text-[10px] border rounded font-mono font-bold tracking-[.04em] whitespace-nowrap cursor-pointer transition-colors ${method === id ? "bg-primary text-primary-foreground border-primary" : "bg-transparent text-secondary-foreground border-border hover:text-foreground hover:border-input"}`}
+              onClick={() => setMethod(id)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="items-center flex gap-1.5 text-[10px] text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={monochromacy}
+            onChange={(e) => setMonochromacy(e.target.checked)}
+          />
+          Check monochromacies
+        </label>
+      </div>
       <div className="grid grid-cols-2 gap-3.5 max-w-240">
         {CB_TYPES.map((cbType) => {
-          const simSlots =
-            cbType.id === "normal"
-              ? slots
-              : slots.map((slot) => ({
-                  ...slot,
-                  color: {
-                    ...slot.color,
-                    rgb: applySimMatrix(
-                      hexToRgb(slot.color.hex),
-                      cbType.matrix,
-                    ),
-                    hex: rgbToHex(
-                      applySimMatrix(hexToRgb(slot.color.hex), cbType.matrix),
-                    ),
-                  },
-                }));
+          const sim = simFor(cbType, severity, method);
+          const hexes = slots.map((slot) =>
+            sim ? simulateCvdHex(slot.color.hex, sim) : slot.color.hex,
+          );
+          const clashes = sim
+            ? conflicts.filter((c) => c.sim.type === sim.type).length
+            : 0;
           return (
             <div
               key={cbType.id}
               className="bg-card border border-border rounded overflow-hidden"
             >
               <div className="px-3.5 py-2.5 border-b border-border flex justify-between items-baseline gap-2">
-                <div className="font-display text-sm font-bold">
-                  {cbType.name}
+                <div className="font-display text-sm font-bold flex items-center gap-2">
+                  {sim ? cvdLabel(sim) : cbType.name}
+                  {clashes > 0 && (
+                    <span
+                      className="rounded-xs font-mono"
+                      title={`${clashes} pair${clashes === 1 ? "" : "s"} below ${threshold} JND`}
+                      style={{
+                        fontSize: 8,
+                        fontWeight: 700,
+                        padding: "1px 4px",
+                        background: "rgba(239,68,68,.13)",
+                        color: "#dc2626",
+                      }}
+                    >
+                      {clashes} CLASH{clashes === 1 ? "" : "ES"}
+                    </span>
+                  )}
                 </div>
                 <div className="text-[10px] text-muted-foreground text-right">
                   {cbType.desc}
                 </div>
               </div>
               <div className="h-15 flex">
-                {simSlots.map((slot, i) => {
-                  const tc = textColor(hexToRgb(slot.color.hex));
+                {hexes.map((hex, i) => {
+                  const tc = textColor(hexToRgb(hex));
                   return (
                     <div
                       key={i}
                       className="flex-1 flex items-end p-1"
-                      style={{ background: slot.color.hex }}
+                      style={{ background: hex }}
                     >
                       <span
                         className="text-[9px] font-mono [writing-mode:vertical-rl] rotate-180 opacity-70"
                         style={{ color: tc }}
                       >
-                        {slot.color.hex.toUpperCase()}
+                        {hex.toUpperCase()}
                       </span>
                     </div>
                   );
@@ -778,6 +1235,185 @@ function ColorBlindTab() {
           );
         })}
       </div>
+      <CvdSafetyPanel
+        conflicts={conflicts}
+        sims={checked}
+        threshold={threshold}
+        onThreshold={setThreshold}
+      />
+      <CvdImagePreview sims={sims} />
+    </div>
+  );
+}
+
+// ─── Sub-tab: Contrast Audit ──────────────────────────────────────────────────
+
+const REPORT_FORMATS: { id: AuditReportFormat; label: string }[] = [
+  { id: "json", label: "JSON" },
+  { id: "md", label: "Markdown" },
+  { id: "html", label: "HTML" },
+];
+
+function AuditTab() {
+  const slots = useChromaStore((s) => s.slots);
+  const utilityColors = useChromaStore((s) => s.utilityColors);
+  const scaleDefinition = useChromaStore((s) => s.scaleDefinition);
+  const [title, setTitle] = useState("Contrast audit");
+  const [useApca, setUseApca] = useState(false);
+  const [group, setGroup] = useState<AuditGroup | "all">("all");
+  const [failingOnly, setFailingOnly] = useState(false);
+
+  const input = useMemo(() => {
+    const names = semanticSlotNames(slots);
+    return {
+      title,
+      palette: slots.map((s, i) => ({ name: names[i], hex: s.color.hex })),
+      tokens: deriveThemeTokens(slots, utilityColors),
+      scales: slots.map((s, i) => ({
+        name: names[i],
+        steps: generateScale(s.color.hex, "css", scaleDefinition),
+        anchor: scaleDefinition.anchor,
+      })),
+    };
+  }, [slots, utilityColors, scaleDefinition, title]);
+  const { data: audit } = useAnalysis(
+    () => runContrastAuditAsync(input),
+    [input],
+  );
+
+  if (!slots.length) return <EmptyState title="the contrast audit" />;
+  if (!audit)
+    return (
+      <div className="flex-1 flex items-center justify-center text-muted-foreground text-[12px]">
+        Auditing…
+      </div>
+    );
+
+  const visible = audit.pairs.filter(
+    (p) =>
+      (group === "all" || p.group === group) &&
+      (!failingOnly || !(useApca ? p.passApca : p.passWcag)),
+  );
+  const passed = (s: AuditSummary) => (useApca ? s.passApca : s.passWcag);
+  const chip = (active: boolean) =>
+    `inline-flex items-center gap-1 px-2 py-1 text-[10px] border rounded font-mono font-bold tracking-[.04em] whitespace-nowrap cursor-pointer transition-colors ${active ? "bg-primary text-primary-foreground border-primary" : "bg-transparent text-secondary-foreground border-border hover:text-foreground hover:border-input"}`;
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="max-w-225 mx-auto">
+        <div className="mb-5 justify-between items-start flex-wrap flex gap-2.5">
+          <p className="text-muted-foreground text-[11px] max-w-120">
+            Every foreground/background pair the palette, theme tokens and
+            scales actually use — checked against WCAG 2 and APCA for its usage
+            (body text, large text or UI).
+          </p>
+          <div className="items-center flex shrink-0 gap-1">
+            <span className="text-muted-foreground text-[10px]">Mode:</span>
+            {([false, true] as const).map((apca) => (
+              <button
+                key={String(apca)}
+                className={chip(useApca === apca)}
+                onClick={() => setUseApca(apca)}
+              >
+                {apca ? "APCA" : "WCAG 2.1"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-wrap mb-5 flex gap-2">
+          {[
+            { id: "all" as const, label: "All pairs", summary: audit.summary },
+            ...AUDIT_GROUPS.map((g) => ({
+              ...g,
+              summary: audit.summary.byGroup[g.id],
+            })),
+          ].map(({ id, label, summary }) => (
+            <button
+              key={id}
+              onClick={() => setGroup(id)}
+              className={`bg-card rounded-md border flex-[1_1_100px] px-3 py-2 text-left cursor-pointer ${group === id ? "border-primary" : "border-muted"}`}
+            >
+              <div
+                style={{
+                  fontSize: 17,
+                  fontWeight: 800,
+                  color:
+                    summary.total && passed(summary) === summary.total
+                      ? "#16a34a"
+                      : "var(--color-foreground)",
+                }}
+              >
+                {passed(summary)}/{summary.total}
+              </div>
+              <div className="text-[9px] text-muted-foreground uppercase tracking-[.05em] mt-0.5">
+                {label}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="mb-4 items-center flex-wrap flex gap-2">
+          <button
+            className={chip(failingOnly)}
+            onClick={() => setFailingOnly((v) => !v)}
+          >
+            Failing only
+          </button>
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Report title"
+            className="flex-1 min-w-40 bg-transparent border border-border rounded px-2 py-1 text-[11px]"
+          />
+          {REPORT_FORMATS.map(({ id, label }) => (
+            <Button
+              key={id}
+              variant="outline"
+              size="sm"
+              onClick={() => downloadAuditReport(audit, id)}
+            >
+              ↓ {label}
+            </Button>
+          ))}
+        </div>
+
+        {AUDIT_GROUPS.filter((g) => group === "all" || g.id === group).map(
+          (g) => {
+            const pairs = visible.filter((p) => p.group === g.id);
+            if (!pairs.length) return null;
+            const modes = pairs.some((p) => p.mode)
+              ? (["light", "dark"] as const)
+              : [undefined];
+            return (
+              <div key={g.id} className="mb-5">
+                <div className="text-[10px] tracking-widest uppercase text-muted-foreground font-display font-semibold mb-2">
+                  {g.label}
+                </div>
+                {modes.map((mode) => {
+                  const inMode = pairs.filter((p) => p.mode === mode);
+                  if (!inMode.length) return null;
+                  return (
+                    <div key={mode ?? "all"} className="mb-3">
+                      {mode && (
+                        <div className="text-[9.5px] font-bold text-muted-foreground uppercase mb-1.5 tracking-[.08em]">
+                          {mode === "light" ? "☀ Light mode" : "☾ Dark mode"}
+                        </div>
+                      )}
+                      <ContrastAuditList pairs={inMode} useApca={useApca} />
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          },
+        )}
+        {!visible.length && (
+          <p className="text-muted-foreground text-[11px]">
+            Every pair passes {useApca ? "APCA" : "WCAG 2"}.
+          </p>
+        )}
+      </div>
     </div>
   );
 }
@@ -796,10 +1432,11 @@ function EmptyState({ title }: { title: string }) {
 
 // ─── Tab bar ──────────────────────────────────────────────────────────────────
 
-type Tab = "wcag" | "contrast" | "colorblind";
+type Tab = "wcag" | "contrast" | "audit" | "colorblind";
 const TABS: { id: Tab; label: string }[] = [
   { id: "wcag", label: "WCAG Slots" },
   { id: "contrast", label: "Contrast Checker" },
+  { id: "audit", label: "Audit" },
   { id: "colorblind", label: "Color Blind" },
 ];
 
@@ -837,6 +1474,7 @@ export default function AccessibilityView() {
       <TabBar active={activeTab} setActive={setActiveTab} />
       {activeTab === "wcag" && <WcagSlotsTab />}
       {activeTab === "contrast" && <ContrastCheckerTab />}
+      {activeTab === "audit" && <AuditTab />}
       {activeTab === "colorblind" && <ColorBlindTab />}
     </div>
   );
@@ -2,8 +2,8 @@
  * brand-compliance-view.tsx
  *
  * Checks the current palette against user-defined brand anchor colors.
- * Reports: WCAG contrast vs brand colors, OKLCH distance (perceptual harmony),
- * harmonic compatibility score, and practical pairing recommendations.
+ * Reports: WCAG contrast vs brand colors, ΔE in the selected metric (brand
+ * match), OKLCH distance (perceptual harmony), and pairing recommendations.
  */
 
 import { useState, useMemo } from "react";
@@ -17,8 +17,11 @@ import {
   contrastRatio,
   rgbToOklch,
   nearestName,
+  deltaE,
+  DELTA_E_METRICS,
 } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { DeltaEMetricPicker } from "@/components/common/delta-e-metric-picker";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -29,7 +32,10 @@ function contrastBadge(ratio: number) {
   return { label: "Fail", color: "#ff1744" };
 }
 
-function oklchDist(hexA: string, hexB: string): number {
+/** A slot within this many JNDs of a brand color counts as an on-brand match */
+const BRAND_MATCH_JND = 2;
+
+function oklchHarmonyDist(hexA: string, hexB: string): number {
   const a = rgbToOklch(hexToRgb(hexA));
   const b = rgbToOklch(hexToRgb(hexB));
   // Weighted OKLCH distance: L difference counts less than chroma/hue
@@ -48,6 +54,8 @@ export default function BrandComplianceView() {
   const addBrand = useChromaStore((s) => s.addBrandColor);
   const removeBrand = useChromaStore((s) => s.removeBrandColor);
   const updateBrand = useChromaStore((s) => s.updateBrandColor);
+  const metric = useChromaStore((s) => s.deltaEMetric);
+  const metricDef = DELTA_E_METRICS[metric];
 
   const [hexInput, setHexInput] = useState("");
   const [labelInput, setLabelInput] = useState("");
@@ -87,14 +95,33 @@ export default function BrandComplianceView() {
         const apcaVal = Math.abs(
           apcaContrast(hexToRgb(brand.hex), hexToRgb(slot.color.hex)),
         );
-        const dist = oklchDist(brand.hex, slot.color.hex);
+        const de = deltaE(
+          hexToRgb(brand.hex),
+          hexToRgb(slot.color.hex),
+          metric,
+        );
+        const match = de <= BRAND_MATCH_JND * metricDef.jnd;
+        const dist = oklchHarmonyDist(brand.hex, slot.color.hex);
         const badge = contrastBadge(ratio);
         const harmonious = dist < 25; // within perceptual harmony zone
         const complementary = dist > 60 && dist < 90;
-        return { slot, ratio, apcaVal, dist, badge, harmonious, complementary };
+        return {
+          slot,
+          ratio,
+          apcaVal,
+          de,
+          match,
+          dist,
+          badge,
+          harmonious,
+          complementary,
+        };
       }),
     }));
-  }, [brandColors, slots]);
+  }, [brandColors, slots, metric, metricDef]);
+
+  // ΔEOK values are tiny — show more decimals so they stay readable
+  const fmtDe = (v: number) => v.toFixed(metric === "ok" ? 3 : 1);
 
   return (
     <div className="flex-1 overflow-auto p-7">
@@ -107,6 +134,8 @@ export default function BrandComplianceView() {
           </p>
         </div>
 
+        <DeltaEMetricPicker className="flex items-center gap-1.5 flex-wrap mb-4" />
+
         {/* Brand color input */}
         <div className="bg-card border border-border rounded-lg p-4 mb-6">
           <div className="text-[10px] tracking-widest uppercase text-muted-foreground mb-3 font-display font-semibold">
@@ -234,6 +263,8 @@ export default function BrandComplianceView() {
                       slot,
                       ratio,
                       apcaVal,
+                      de,
+                      match,
                       dist,
                       badge,
                       harmonious,
@@ -245,7 +276,7 @@ export default function BrandComplianceView() {
                         <div
                           key={slot.id}
                           className="rounded-lg border border-border overflow-hidden"
-                          title={`${name}\nContrast: ${ratio.toFixed(2)}:1\nAPCA: ${apcaVal.toFixed(0)}Lc\nΔOKLCH: ${dist.toFixed(1)}`}
+                          title={`${name}\nContrast: ${ratio.toFixed(2)}:1\nAPCA: ${apcaVal.toFixed(0)}Lc\n${metricDef.label}: ${fmtDe(de)}\nΔOKLCH: ${dist.toFixed(1)}`}
                         >
                           {/* Color pair preview */}
                           <div className="h-14 flex">
@@ -275,8 +306,17 @@ export default function BrandComplianceView() {
                               </span>
                             </div>
                             <div className="text-[9px] text-muted-foreground mt-1">
-                              APCA {apcaVal.toFixed(0)}Lc · Δ{dist.toFixed(0)}
+                              APCA {apcaVal.toFixed(0)}Lc · {metricDef.label}{" "}
+                              {fmtDe(de)}
                             </div>
+                            {match && (
+                              <div
+                                className="text-[9px] mt-1"
+                                style={{ color: "#40c4ff" }}
+                              >
+                                ● Brand match
+                              </div>
+                            )}
                             {harmonious && (
                               <div
                                 className="text-[9px] mt-1"
@@ -310,6 +350,12 @@ export default function BrandComplianceView() {
                     {pairs.filter((p) => p.ratio >= 7).length}/{pairs.length}{" "}
                     pass AAA
                   </span>
+                  <span>
+                    {pairs.filter((p) => p.match).length} brand match
+                    {pairs.filter((p) => p.match).length === 1 ? "" : "es"} (
+                    {metricDef.label} ≤ {fmtDe(BRAND_MATCH_JND * metricDef.jnd)}
+                    )
+                  </span>
                   <span>
                     {pairs.filter((p) => p.harmonious).length} harmonious
                   </span>
@@ -1,5 +1,16 @@
 import React, { useCallback, useMemo, useState } from "react";
-import type { RGB, HSL, HSV, OKLCH } from "@/types";
+import type {
+  RGB,
+  HSL,
+  HSV,
+  OKLCH,
+  HWB,
+  CIELab,
+  CIELCH,
+  XYZ,
+  RGBFloat,
+  PickerMode,
+} from "@/types";
 import {
   hexToRgb,
   rgbToHex,
@@ -26,6 +37,20 @@ import {
   hsvToRgb,
   cmykToRgb,
   cssString,
+  rgbToHwb,
+  hwbToRgb,
+  rgbToLab,
+  labToRgb,
+  rgbToLch,
+  lchToRgb,
+  rgbToXyz,
+  xyzToRgb,
+  rgbToP3,
+  p3ToRgb,
+  rgbToRec2020,
+  rec2020ToRgb,
+  rgbToLinearRgb,
+  linearRgbToRgb,
 } from "@/lib/utils";
 import { useChromaStore } from "@/hooks/use-chroma-store";
 import { useNavigate } from "@tanstack/react-router";
@@ -37,7 +62,16 @@ import { HsvSliders } from "../common/sliders/hsv-sliders";
 import { OklchSliders } from "../common/sliders/oklch-sliders";
 import { OklabSliders } from "../common/sliders/oklab-sliders";
 import { CmykSliders } from "../common/sliders/cmyk-sliders";
+import { HwbSliders } from "../common/sliders/hwb-sliders";
+import { LabSliders } from "../common/sliders/lab-sliders";
+import { LchSliders } from "../common/sliders/lch-sliders";
+import { XyzSliders } from "../common/sliders/xyz-sliders";
+import { WideRgbSliders } from "../common/sliders/wide-rgb-sliders";
 import HexInput from "../common/hex-input";
+import {
+  ColorNameDictionaryPicker,
+  NearestColorNames,
+} from "../common/color-name-dictionaries";
 import { PanelSection, PanelSectionLabel } from "../panel";
 
 // EyeDropper is a browser API not yet in lib.dom.d.ts
@@ -52,8 +86,6 @@ declare global {
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type PickerMode = "rgb" | "hsl" | "hsv" | "oklch" | "oklab";
-
 const MODES: { id: PickerMode; label: string; desc: string }[] = [
   { id: "rgb", label: "RGB", desc: "Red, Green, Blue — 0 to 255 per channel" },
   { id: "hsl", label: "HSL", desc: "Hue, Saturation, Lightness — CSS native" },
@@ -100,6 +132,13 @@ export default function ColorPickerView() {
   const oklch = useMemo(() => rgbToOklch(rgb), [rgb]);
   const oklab = useMemo(() => rgbToOklab(rgb), [rgb]);
   const cmyk = useMemo(() => rgbToCmyk(rgb), [rgb]);
+  const hwb = useMemo(() => rgbToHwb(rgb), [rgb]);
+  const lab = useMemo(() => rgbToLab(rgb), [rgb]);
+  const lch = useMemo(() => rgbToLch(rgb), [rgb]);
+  const xyz = useMemo(() => rgbToXyz(rgb), [rgb]);
+  const p3 = useMemo(() => rgbToP3(rgb), [rgb]);
+  const rec2020 = useMemo(() => rgbToRec2020(rgb), [rgb]);
+  const linear = useMemo(() => rgbToLinearRgb(rgb), [rgb]);
   const name = useMemo(() => nearestName(rgb), [rgb]);
 
   const displayHex = toHexAlpha(pickerHex, pickerAlpha);
@@ -147,6 +186,34 @@ export default function ColorPickerView() {
       setPickerHex(rgbToHex(cmykToRgb(c))),
     [setPickerHex],
   );
+  const setHwb = useCallback(
+    (h: HWB) => setPickerHex(rgbToHex(hwbToRgb(h))),
+    [setPickerHex],
+  );
+  const setLab = useCallback(
+    (l: CIELab) => setPickerHex(rgbToHex(labToRgb(l))),
+    [setPickerHex],
+  );
+  const setLch = useCallback(
+    (l: CIELCH) => setPickerHex(rgbToHex(lchToRgb(l))),
+    [setPickerHex],
+  );
+  const setXyz = useCallback(
+    (x: XYZ) => setPickerHex(rgbToHex(xyzToRgb(x))),
+    [setPickerHex],
+  );
+  const setP3 = useCallback(
+    (c: RGBFloat) => setPickerHex(rgbToHex(p3ToRgb(c))),
+    [setPickerHex],
+  );
+  const setRec2020 = useCallback(
+    (c: RGBFloat) => setPickerHex(rgbToHex(rec2020ToRgb(c))),
+    [setPickerHex],
+  );
+  const setLinear = useCallback(
+    (c: RGBFloat) => setPickerHex(rgbToHex(linearRgbToRgb(c))),
+    [setPickerHex],
+  );
 
   // ColorWheel speaks HSL
   const handleWheelChange = useCallback(
@@ -206,13 +273,20 @@ export default function ColorPickerView() {
     }
   };
 
-  const MODES = [
+  const MODES: { id: PickerMode; label: string }[] = [
     { id: "hsl", label: "HSL" },
     { id: "rgb", label: "RGB" },
     { id: "hsv", label: "HSV" },
+    { id: "hwb", label: "HWB" },
     { id: "oklch", label: "OKLCH" },
     { id: "oklab", label: "OKLab" },
     { id: "cmyk", label: "CMYK" },
+    { id: "lab", label: "Lab" },
+    { id: "lch", label: "LCH" },
+    { id: "xyz", label: "XYZ" },
+    { id: "p3", label: "P3" },
+    { id: "rec2020", label: "2020" },
+    { id: "linear", label: "Lin" },
   ];
 
   return (
@@ -225,14 +299,14 @@ export default function ColorPickerView() {
         </div>
 
         {/* Mode tabs */}
-        <div className="flex gap-1 mt-2.5 mb-1.5">
+        <div className="flex flex-wrap gap-1 mt-2.5 mb-1.5">
           {MODES.map((m) => (
             <button
               key={m.id}
-              onClick={() => setPickerMode(m.id as PickerMode)}
+              onClick={() => setPickerMode(m.id)}
               title={m.label}
               style={{
-                flex: 1,
+                flex: "1 0 13%",
                 padding: "4px 0",
                 borderRadius: 4,
                 fontSize: 10.5,
@@ -310,6 +384,72 @@ export default function ColorPickerView() {
             onAlpha={setPickerAlpha}
           />
         )}
+        {pickerMode === "hwb" && (
+          <HwbSliders
+            hwb={hwb}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onHwb={setHwb}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "lab" && (
+          <LabSliders
+            lab={lab}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onLab={setLab}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "lch" && (
+          <LchSliders
+            lch={lch}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onLch={setLch}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "xyz" && (
+          <XyzSliders
+            xyz={xyz}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onXyz={setXyz}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "p3" && (
+          <WideRgbSliders
+            space="p3"
+            color={p3}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onColor={setP3}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "rec2020" && (
+          <WideRgbSliders
+            space="rec2020"
+            color={rec2020}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onColor={setRec2020}
+            onAlpha={setPickerAlpha}
+          />
+        )}
+        {pickerMode === "linear" && (
+          <WideRgbSliders
+            space="linear"
+            color={linear}
+            alpha={pickerAlpha}
+            hex={pickerHex}
+            onColor={setLinear}
+            onAlpha={setPickerAlpha}
+          />
+        )}
 
         <div className="flex flex-col gap-4 w-full max-w-100 mt-3 pb-2">
           <div className="flex gap-4 w-full">
@@ -423,6 +563,15 @@ export default function ColorPickerView() {
         </div>
       </PanelSection>
 
+      {/* Named colors */}
+      <PanelSection>
+        <PanelSectionLabel>COLOR NAMES</PanelSectionLabel>
+        <div className="flex flex-col gap-2.5 pb-2">
+          <NearestColorNames rgb={rgb} />
+          <ColorNameDictionaryPicker />
+        </div>
+      </PanelSection>
+
       {/* Palette quick-pick */}
       <PanelSection>
         <PanelSectionLabel>PALETTE</PanelSectionLabel>
@@ -12,6 +12,10 @@
  *   - All 14 tools (with section labels)
  *   - All registered hotkey actions
  *   - Recent items (persisted in localStorage, max 5)
+ *   - Color actions when the query parses as a CSS color (hex, named,
+ *     oklch(), color-mix()…)
+ *   - Named-color matches from the active name dictionaries ("ocean blue",
+ *     or "add 'ocean blue'")
  */
 
 import React, {
@@ -26,16 +30,24 @@ import React, {
 import { useNavigate } from "@tanstack/react-router";
 import { useChromaStore } from "@/hooks/use-chroma-store";
 import { useHotkeyList } from "@/providers/hotkey.provider";
-import { cn } from "@/lib/utils";
+import {
+  cn,
+  hexToStop,
+  parseColor,
+  rgbToHex,
+  searchColorNames,
+} from "@/lib/utils";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 interface CommandItem {
   id: string;
   label: string;
-  section: "Create" | "Analyze" | "Build" | "Export" | "Action";
+  section: "Color" | "Create" | "Analyze" | "Build" | "Export" | "Action";
   keywords?: string;
   icon: string;
+  /** Rendered as a color chip in place of the icon */
+  swatch?: string;
   route?: string;
   action?: () => void;
 }
@@ -68,6 +80,14 @@ const TOOLS: CommandItem[] = [
     route: "/saved",
     keywords: "saved history load restore",
   },
+  {
+    id: "history",
+    label: "Edit history timeline",
+    section: "Create",
+    icon: "⏱",
+    route: "/history",
+    keywords: "history undo redo timeline branch snapshot restore",
+  },
   // Analyze — merged views
   {
     id: "accessibility",
@@ -162,6 +182,7 @@ const TOOLS: CommandItem[] = [
 ];
 
 const SECTION_ORDER = [
+  "Color",
   "Create",
   "Analyze",
   "Build",
@@ -255,6 +276,9 @@ function CommandPalette() {
   const navigate = useNavigate();
   const generate = useChromaStore((s) => s.generate);
   const openModal = useChromaStore((s) => s.openModal);
+  const addSeed = useChromaStore((s) => s.addSeed);
+  const setPickerHex = useChromaStore((s) => s.setPickerHex);
+  const setPickerAlpha = useChromaStore((s) => s.setPickerAlpha);
   const hotkeyList = useHotkeyList();
 
   // Load recent on open
@@ -337,11 +361,61 @@ function CommandPalette() {
 
   const allItems = [...TOOLS, ...builtinActions, ...actionItems];
 
+  // Color actions — only when the query itself is a color
+  const colorItems: CommandItem[] = useMemo(() => {
+    const parsed = query.trim() ? parseColor(query) : null;
+    if (!parsed) return [];
+    const hex = rgbToHex(parsed.rgb);
+    return [
+      {
+        id: "color:picker",
+        label: `Open ${hex} in the color picker`,
+        section: "Color",
+        icon: "🖋",
+        swatch: hex,
+        action: () => {
+          setPickerHex(hex);
+          setPickerAlpha(parsed.alpha);
+          navigate({ to: "/picker" });
+        },
+      },
+      {
+        id: "color:seed",
+        label: `Add ${hex} as a seed color`,
+        section: "Color",
+        icon: "🌱",
+        swatch: hex,
+        action: () => addSeed(hexToStop(hex)),
+      },
+    ];
+  }, [query, setPickerHex, setPickerAlpha, addSeed, navigate]);
+
+  // Named colors — fuzzy match on the query, minus a leading "add"
+  const nameItems: CommandItem[] = useMemo(() => {
+    const term = query
+      .trim()
+      .replace(/^add\s+/i, "")
+      .replace(/^["']|["']$/g, "");
+    if (term.length < 2) return [];
+    return searchColorNames(term, { limit: 6 }).map((m) => ({
+      id: `name:${m.dictionary}:${m.name}`,
+      label: `Add ${m.name} (${m.hex}) as a seed color`,
+      section: "Color",
+      icon: "🌱",
+      swatch: m.hex,
+      action: () => addSeed(hexToStop(m.hex)),
+    }));
+  }, [query, addSeed]);
+
   // Filter
   const filtered = useMemo(() => {
     if (!query) return allItems;
-    return allItems.filter((item) => fuzzyMatch(query, item));
-  }, [query, allItems]);
+    return [
+      ...colorItems,
+      ...nameItems,
+      ...allItems.filter((item) => fuzzyMatch(query, item)),
+    ];
+  }, [query, allItems, colorItems, nameItems]);
 
   // Group by section
   const grouped = useMemo(() => {
@@ -372,7 +446,8 @@ function CommandPalette() {
 
   const execute = useCallback(
     (item: CommandItem) => {
-      pushRecent(item.id);
+      // Color actions depend on the query, so they never become recents
+      if (item.section !== "Color") pushRecent(item.id);
       if (item.route)
         navigate({ to: item.route as Parameters<typeof navigate>[0]["to"] });
       else if (item.action) item.action();
@@ -458,9 +533,16 @@ function CommandPalette() {
                     onMouseEnter={() => setActiveIdx(idx)}
                     onClick={() => execute(item)}
                   >
-                    <span className="text-[16px] w-5 shrink-0 text-center leading-none">
-                      {item.icon}
-                    </span>
+                    {item.swatch ? (
+                      <span
+                        className="w-5 h-5 shrink-0 rounded border border-border"
+                        style={{ background: item.swatch }}
+                      />
+                    ) : (
+                      <span className="text-[16px] w-5 shrink-0 text-center leading-none">
+                        {item.icon}
+                      </span>
+                    )}
                     <span className="flex-1 text-sm text-foreground">
                       {item.label}
                     </span>
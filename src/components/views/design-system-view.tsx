@@ -14,10 +14,16 @@ import {
   textColor,
   hexToRgb,
   rgbToOklch,
+  repairThemeContrast,
+  contrastRequirements,
+  CONTRAST_STANDARDS,
 } from "@/lib/utils";
 import type {
+  ContrastStandard,
   PaletteSlot,
   SemanticToken,
+  TokenOverrides,
+  TokenRepairChange,
   UtilityColorSet,
   UtilityRole,
 } from "@/types";
@@ -32,18 +38,23 @@ type ExportFormat =
   | "figma"
   | "styledictionary";
 
-// ─── Token override store (local to this view, persisted via parent store later) ──
-
-type Overrides = Record<string, { light: string; dark: string }>;
+// ─── Token overrides ──────────────────────────────────────────────────────────
 
 function mergeTokens(
   tokens: SemanticToken[],
-  overrides: Overrides,
+  overrides: TokenOverrides,
 ): SemanticToken[] {
   return tokens.map((t) => {
     const o = overrides[t.name];
     if (!o) return t;
-    return { ...t, light: o.light ?? t.light, dark: o.dark ?? t.dark };
+    // A hand-picked hex replaces the gamut-mapped one
+    const outOfGamut = t.outOfGamut?.filter((m) => !o[m]);
+    return {
+      ...t,
+      light: o.light ?? t.light,
+      dark: o.dark ?? t.dark,
+      outOfGamut: outOfGamut?.length ? outOfGamut : undefined,
+    };
   });
 }
 
@@ -507,7 +518,7 @@ function TokenRow({
   onRevert,
 }: {
   token: SemanticToken;
-  overrides: Overrides;
+  overrides: TokenOverrides;
   mode: Mode;
   onOverride: (name: string, m: Mode, hex: string) => void;
   onRevert: (name: string) => void;
@@ -539,6 +550,14 @@ function TokenRow({
         {isOverridden && (
           <span className="text-primary font-bold text-[8px]">✎</span>
         )}
+        {token.outOfGamut?.includes(mode) && (
+          <span
+            className="text-muted-foreground text-[8px]"
+            title="Derived outside sRGB and gamut-mapped back in"
+          >
+            ◐
+          </span>
+        )}
         <code className="font-mono text-secondary-foreground overflow-ellipsis whitespace-nowrap overflow-hidden text-2.5">
           {token.name}
         </code>
@@ -605,6 +624,7 @@ function UtilityTokenRow({
   const color = mode === "light" ? u.light : u.dark;
   const subtle = mode === "light" ? u.subtle : u.subtleDark;
   const tc = textColor(hexToRgb(color));
+  const mapped = new Set(u.outOfGamut);
 
   return (
     <div className="flex items-center gap-2 py-1 px-0 border-b border-muted">
@@ -619,13 +639,17 @@ function UtilityTokenRow({
       </span>
       <div className="items-center flex gap-1.5">
         {[
-          { label: mode, hex: color },
-          { label: "subtle", hex: subtle },
-          { label: "base", hex: u.base },
-        ].map(({ label, hex }) => (
+          { label: mode, hex: color, oog: mapped.has(mode) },
+          {
+            label: "subtle",
+            hex: subtle,
+            oog: mapped.has(mode === "light" ? "subtle" : "subtleDark"),
+          },
+          { label: "base", hex: u.base, oog: false },
+        ].map(({ label, hex, oog }) => (
           <div
             key={label}
-            title={`${label}: ${hex}`}
+            title={`${label}: ${hex}${oog ? " (gamut-mapped)" : ""}`}
             className="items-center flex gap-1"
           >
             <div
@@ -637,6 +661,7 @@ function UtilityTokenRow({
             />
             <span className="font-mono text-muted-foreground text-[8px]">
               {label}
+              {oog && " ◐"}
             </span>
           </div>
         ))}
@@ -808,6 +833,131 @@ function AccessibilityPanel({
   );
 }
 
+// ─── Contrast repair panel ────────────────────────────────────────────────────
+
+function ContrastRepairPanel({
+  tokens,
+  onApply,
+}: {
+  tokens: ReturnType<typeof deriveThemeTokens>;
+  onApply: (changes: TokenRepairChange[]) => void;
+}) {
+  const [standard, setStandard] = useState<ContrastStandard>("aa");
+  const result = useMemo(
+    () => repairThemeContrast(tokens, contrastRequirements(standard)),
+    [tokens, standard],
+  );
+  const { changes, unresolved } = result;
+
+  return (
+    <div className="bg-card rounded-md border border-muted mb-5 px-3.5 py-3">
+      <div className="justify-between items-center flex-wrap flex gap-2 mb-2">
+        <div>
+          <div className="text-foreground font-bold text-[12px]">
+            Contrast repair
+          </div>
+          <div className="text-muted-foreground leading-normal text-[10px]">
+            Shifts token lightness (hue and chroma kept) by the smallest amount
+            that makes every pair pass — the token used by fewer pairs moves
+            first.
+          </div>
+        </div>
+        <div className="items-center flex shrink-0 gap-1">
+          {(Object.keys(CONTRAST_STANDARDS) as ContrastStandard[]).map((id) => (
+            <Button
+              key={id}
+              variant={standard === id ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setStandard(id)}
+            >
+              {CONTRAST_STANDARDS[id].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {!changes.length && !unresolved.length && (
+        <p className="text-[10.5px]" style={{ color: "#16a34a" }}>
+          ✓ Every pair already passes {CONTRAST_STANDARDS[standard].label}.
+        </p>
+      )}
+
+      {changes.length > 0 && (
+        <>
+          <div className="grid gap-2 grid-cols-[180px_50px_1fr_60px] py-1 px-0">
+            {["Token", "Mode", "Change", "ΔL"].map((h) => (
+              <span
+                key={h}
+                className="text-muted-foreground uppercase font-bold text-[9px]"
+              >
+                {h}
+              </span>
+            ))}
+          </div>
+          {changes.map((c) => (
+            <div
+              key={`${c.token}-${c.mode}`}
+              className="grid gap-2 grid-cols-[180px_50px_1fr_60px] items-center border-b border-muted py-1 px-0"
+            >
+              <span className="font-mono text-foreground text-[10px]">
+                {c.token}
+              </span>
+              <span className="text-muted-foreground text-[10px]">
+                {c.mode === "light" ? "☀" : "☾"} {c.mode}
+              </span>
+              <span className="flex items-center gap-1.5 font-mono text-[10px]">
+                <span
+                  className="rounded shrink-0 w-3.5 h-3.5"
+                  style={{
+                    background: c.from,
+                    border: "1px solid rgba(128,128,128,.2)",
+                  }}
+                />
+                <span className="text-muted-foreground line-through">
+                  {c.from}
+                </span>
+                <span className="text-muted-foreground">→</span>
+                <span
+                  className="rounded shrink-0 w-3.5 h-3.5"
+                  style={{
+                    background: c.to,
+                    border: "1px solid rgba(128,128,128,.2)",
+                  }}
+                />
+                <span className="text-foreground">{c.to}</span>
+              </span>
+              <span className="font-mono text-muted-foreground text-right text-[10px]">
+                {c.dL > 0 ? "+" : ""}
+                {c.dL.toFixed(3)}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+
+      {unresolved.length > 0 && (
+        <div className="mt-2 text-[10px]" style={{ color: "#dc2626" }}>
+          {unresolved.length} pair{unresolved.length > 1 ? "s" : ""} can't pass
+          by moving lightness alone:{" "}
+          {unresolved
+            .map(
+              (u) => `${u.requirement.label ?? u.requirement.fg} (${u.mode})`,
+            )
+            .join(", ")}
+        </div>
+      )}
+
+      {changes.length > 0 && (
+        <div className="flex justify-end mt-2.5">
+          <Button size="sm" onClick={() => onApply(changes)}>
+            Apply {changes.length} change{changes.length > 1 ? "s" : ""}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Export panel ─────────────────────────────────────────────────────────────
 
 function ExportPanel({
@@ -891,9 +1041,14 @@ function ExportPanel({
 // ─── Main view ────────────────────────────────────────────────────────────────
 
 export default function DesignSystemView() {
-  const { slots, utilityColors } = useChromaStore();
+  const {
+    slots,
+    utilityColors,
+    tokenOverrides: overrides,
+    setTokenOverride,
+    revertTokenOverride,
+  } = useChromaStore();
   const [mode, setMode] = useState<Mode>("light");
-  const [overrides, setOverrides] = useState<Overrides>({});
   const [expandedGroup, setExpandedGroup] = useState<string | null>(
     "Page Surfaces",
   );
@@ -919,36 +1074,25 @@ export default function DesignSystemView() {
 
   const handleOverride = useCallback(
     (name: string, m: Mode, hex: string) => {
-      setOverrides((prev) => ({
-        ...prev,
-        [name]: {
-          light:
-            m === "light"
-              ? hex
-              : (prev[name]?.light ??
-                baseTokens.semantic.find((t) => t.name === name)?.light ??
-                hex),
-          dark:
-            m === "dark"
-              ? hex
-              : (prev[name]?.dark ??
-                baseTokens.semantic.find((t) => t.name === name)?.dark ??
-                hex),
-        },
-      }));
+      const base = baseTokens.semantic.find((t) => t.name === name);
+      setTokenOverride(name, m, hex, {
+        light: base?.light ?? hex,
+        dark: base?.dark ?? hex,
+      });
     },
-    [baseTokens.semantic],
+    [baseTokens.semantic, setTokenOverride],
   );
 
-  const handleRevert = useCallback((name: string) => {
-    setOverrides((prev) => {
-      const next = { ...prev };
-      delete next[name];
-      return next;
-    });
-  }, []);
+  const handleRevert = useCallback(
+    (name: string) => revertTokenOverride(name),
+    [revertTokenOverride],
+  );
+
+  const applyRepair = (changes: TokenRepairChange[]) => {
+    for (const c of changes) handleOverride(c.token, c.mode, c.to);
+  };
 
-  const revertAll = () => setOverrides({});
+  const revertAll = () => revertTokenOverride();
   const overrideCount = Object.keys(overrides).length;
 
   if (!slots.length) {
@@ -1175,6 +1319,7 @@ export default function DesignSystemView() {
         {/* ── Accessibility panel ── */}
         {activePanel === "accessibility" && (
           <div>
+            <ContrastRepairPanel tokens={tokens} onApply={applyRepair} />
             <div className="grid gap-5 grid-cols-2">
               {(["light", "dark"] as const).map((m) => (
                 <div key={m}>
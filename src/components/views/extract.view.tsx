@@ -1,31 +1,59 @@
 /**
  * extract.view.tsx  — Phase 1 merge
  *
- * Combines: image-extract-view + converter-view
- * Sub-tabs:  [From Image] [Convert]
+ * Combines: image-extract-view + swatch file import + source scan + converter-view
+ * Sub-tabs:  [From Image] [From File] [From Source] [Convert]
  */
 
-import { useState, useMemo, useRef } from "react";
+import { useState, useMemo, useRef, useEffect, useDeferredValue } from "react";
 import { useNavigate } from "@tanstack/react-router";
 import { useChromaStore } from "@/hooks/use-chroma-store";
 import {
   rgbToHex,
-  parseAny,
+  parseColor,
+  toHexAlpha,
   rgbToHsl,
   rgbToHsv,
   rgbToCmyk,
   rgbToOklab,
   oklabToLch,
   nearestName,
-  extractColors,
   hexToStop,
+  importSwatchFile,
+  SWATCH_FILE_ACCEPT,
+  SWATCH_FILE_FORMATS,
+  autoAssignClusters,
+  clusterTransfers,
+  clamp,
+  EXTRACT_ALGORITHMS,
+  EXTRACT_ALGORITHM_IDS,
+  extractSourceColors,
+  slotsFromHexes,
+  type ExtractOptions,
+  type ImportedSwatches,
 } from "@/lib/utils";
+import {
+  decodeImage,
+  extractColors,
+  imageClustersAsync,
+  recolorImageAsync,
+} from "@/lib/workers";
+import { useAnalysis } from "@/hooks/use-analysis";
+import type {
+  DeltaEMetric,
+  ExtractRegion,
+  PixelBuffer,
+  PixelCluster,
+  SourceColor,
+} from "@/types";
+import type { extract } from "@/lib/api/palette.api";
 import { Button } from "@/components/ui/button";
 import ColorPickerModal from "@/components/modals/color-picker.modal";
+import { DeltaEMetricPicker } from "@/components/common/delta-e-metric-picker";
 
 // ─── Tab bar ──────────────────────────────────────────────────────────────────
 
-type Tab = "image" | "convert";
+type Tab = "image" | "file" | "source" | "convert";
 
 function TabBar({
   active,
@@ -39,6 +67,8 @@ function TabBar({
       {(
         [
           ["image", "From Image"],
+          ["file", "From File"],
+          ["source", "From Source"],
           ["convert", "Convert"],
         ] as const
       ).map(([id, label]) => (
@@ -58,51 +88,98 @@ function TabBar({
 // FROM IMAGE TAB
 // ═══════════════════════════════════════════════════════════════════════════════
 
+const EXTRACT_COUNT = 8;
+/** Smaller drags (as a fraction of either side) count as a click */
+const MIN_REGION = 0.02;
+
+type ExtractSettings = Required<
+  Pick<ExtractOptions, "algorithm" | "neutrals" | "sort" | "roi">
+>;
+
 function ImageTab() {
-  const { extractedColors, imgSrc, setExtracted, setSeeds, generate } =
-    useChromaStore();
+  const {
+    extractedColors,
+    imgSrc,
+    setExtracted,
+    setSeeds,
+    generate,
+    deltaEMetric,
+  } = useChromaStore();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState(false);
   const [dragOver, setDragOver] = useState(false);
+  const [view, setView] = useState<"colors" | "recolor">("colors");
+  const [settings, setSettings] = useState<ExtractSettings>({
+    algorithm: "median-cut",
+    neutrals: false,
+    sort: "share",
+    roi: null,
+  });
   const fileRef = useRef<HTMLInputElement>(null);
+  // Only the latest extraction may land — settings can change mid-run
+  const runRef = useRef(0);
 
-  async function handleFile(file: File) {
+  async function extract(file: Blob, src: string, next: ExtractSettings) {
+    const run = ++runRef.current;
     setLoading(true);
     setError(false);
     try {
-      const colors = await extractColors(file, 8);
-      const objectUrl = URL.createObjectURL(file);
-      setExtracted(colors, objectUrl);
+      const colors = await extractColors(file, {
+        ...next,
+        count: EXTRACT_COUNT,
+        metric: deltaEMetric,
+      });
+      if (run === runRef.current) setExtracted(colors, src);
     } catch {
-      setError(true);
+      if (run === runRef.current) setError(true);
     } finally {
-      setLoading(false);
+      if (run === runRef.current) setLoading(false);
     }
   }
 
+  function handleFile(file: File) {
+    const next = { ...settings, roi: null };
+    setSettings(next);
+    extract(file, URL.createObjectURL(file), next);
+  }
+
+  async function update(patch: Partial<ExtractSettings>) {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    if (!imgSrc) return;
+    const blob = await (await fetch(imgSrc)).blob();
+    extract(blob, imgSrc, next);
+  }
+
   const useOne = (index: number) => {
-    const rgb = extractedColors[index];
-    if (!rgb) return;
-    setSeeds([hexToStop(rgbToHex(rgb))]);
+    const color = extractedColors[index];
+    if (!color) return;
+    setSeeds([hexToStop(rgbToHex(color.rgb))]);
     generate();
     navigate({ to: "/palette" });
   };
 
   const useAll = () => {
     setSeeds(
-      extractedColors.slice(0, 5).map((rgb) => hexToStop(rgbToHex(rgb))),
+      extractedColors.slice(0, 5).map((c) => hexToStop(rgbToHex(c.rgb))),
     );
     generate();
     navigate({ to: "/palette" });
   };
 
+  const chip = (active: boolean) =>
+    `inline-flex items-center gap-1 px-2 py-1 text-[10px] border rounded font-mono font-bold tracking-[.04em] whitespace-nowrap cursor-pointer transition-colors ${active ? "bg-primary text-primary-foreground border-primary" : "bg-transparent text-secondary-foreground border-border hover:text-foreground hover:border-input"}`;
+
   return (
     <div className="flex-1 overflow-auto p-6">
       <div className="mx-auto" style={{ maxWidth: 780 }}>
         <p className="text-muted-foreground text-[11px] mb-5">
-          Upload an image to extract dominant colors and seed your palette.
+          Upload an image to extract dominant colors and seed your palette — or
+          recolor it with the current palette to preview a rebrand.
+          Near-duplicates are merged using the selected ΔE metric.
         </p>
+        <DeltaEMetricPicker className="flex items-center gap-1.5 flex-wrap mb-4" />
 
         <div
           className={`border-2 border-dashed rounded-md py-12 px-6 text-center cursor-pointer transition-colors ${dragOver ? "border-primary bg-primary/5" : "border-input hover:border-primary hover:bg-primary/5"}`}
@@ -135,74 +212,909 @@ function ImageTab() {
           </div>
         </div>
 
-        {(imgSrc || loading) && (
-          <div className="flex mt-5 gap-4">
-            {imgSrc && (
-              <div className="flex-1" style={{ maxWidth: 380 }}>
-                <img
-                  src={imgSrc}
-                  alt="Uploaded"
-                  className="w-full rounded border border-input block"
-                />
-              </div>
-            )}
-            <div className="flex-1">
-              <div className="text-[10px] tracking-widest uppercase text-muted-foreground mb-2.5 font-display font-semibold">
-                Extracted Colors
+        {imgSrc && (
+          <div className="flex gap-1 mt-5">
+            {(
+              [
+                ["colors", "Extracted colors"],
+                ["recolor", "Recolor with palette"],
+              ] as const
+            ).map(([id, label]) => (
+              <button
+                key={id}
+                className={chip(view === id)}
+                onClick={() => setView(id)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {view === "recolor" && imgSrc && <RecolorPanel src={imgSrc} />}
+
+        {view === "colors" && (imgSrc || loading) && (
+          <>
+            <div className="flex items-center gap-1 flex-wrap mt-4">
+              <span className="text-muted-foreground text-[10px] mr-0.5">
+                Algorithm:
+              </span>
+              {EXTRACT_ALGORITHM_IDS.map((id) => (
+                <button
+                  key={id}
+                  className={chip(settings.algorithm === id)}
+                  title={EXTRACT_ALGORITHMS[id].desc}
+                  onClick={() => update({ algorithm: id })}
+                >
+                  {EXTRACT_ALGORITHMS[id].label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-x-4 gap-y-1.5 flex-wrap mt-2">
+              <div className="flex items-center gap-1">
+                <span className="text-muted-foreground text-[10px] mr-0.5">
+                  Sort:
+                </span>
+                {(
+                  [
+                    ["share", "Coverage"],
+                    ["saturation", "Saturation"],
+                  ] as const
+                ).map(([id, label]) => (
+                  <button
+                    key={id}
+                    className={chip(settings.sort === id)}
+                    onClick={() => update({ sort: id })}
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
-              {loading && (
-                <p className="text-muted-foreground text-[12px]">
-                  Extracting colors…
-                </p>
-              )}
-              {error && (
-                <p className="text-destructive text-[12px]">
-                  Extraction failed. Try another image.
-                </p>
+              <label className="items-center flex gap-1.5 text-[10px] text-muted-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.neutrals}
+                  onChange={(e) => update({ neutrals: e.target.checked })}
+                />
+                Include neutrals
+              </label>
+            </div>
+
+            <div className="flex mt-4 gap-4">
+              {imgSrc && (
+                <div className="flex-1" style={{ maxWidth: 380 }}>
+                  <RegionSelect
+                    src={imgSrc}
+                    region={settings.roi}
+                    onChange={(roi) => update({ roi })}
+                  />
+                  <div className="text-[10px] text-muted-foreground mt-1 flex items-center gap-2">
+                    {settings.roi
+                      ? `Region: ${Math.round(settings.roi.w * 100)}% × ${Math.round(settings.roi.h * 100)}% of the image`
+                      : "Drag on the image to extract from a region"}
+                    {settings.roi && (
+                      <button
+                        className="underline cursor-pointer hover:text-foreground"
+                        onClick={() => update({ roi: null })}
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                </div>
               )}
-              {!loading &&
-                !error &&
-                extractedColors.map((rgb, i) => {
-                  const hex = rgbToHex(rgb);
-                  return (
-                    <div key={i} className="flex items-center gap-2 mb-1.5">
-                      <div
-                        className="rounded shrink-0"
-                        style={{
-                          width: 32,
-                          height: 32,
-                          background: hex,
-                          border: "1px solid rgba(255,255,255,.08)",
-                        }}
-                      />
-                      <div className="flex-1">
-                        <div className="font-mono uppercase font-bold text-[11px]">
-                          {hex.toUpperCase()}
-                        </div>
-                        <div className="text-muted-foreground text-[10px]">
-                          {nearestName(rgb)}
+              <div className="flex-1">
+                <div className="text-[10px] tracking-widest uppercase text-muted-foreground mb-2.5 font-display font-semibold">
+                  Extracted Colors
+                </div>
+                {loading && (
+                  <p className="text-muted-foreground text-[12px]">
+                    Extracting colors…
+                  </p>
+                )}
+                {error && (
+                  <p className="text-destructive text-[12px]">
+                    Extraction failed. Try another image.
+                  </p>
+                )}
+                {!loading &&
+                  !error &&
+                  extractedColors.map(({ rgb, share }, i) => {
+                    const hex = rgbToHex(rgb);
+                    return (
+                      <div key={i} className="flex items-center gap-2 mb-1.5">
+                        <div
+                          className="rounded shrink-0"
+                          style={{
+                            width: 32,
+                            height: 32,
+                            background: hex,
+                            border: "1px solid rgba(255,255,255,.08)",
+                          }}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-baseline gap-2">
+                            <span className="font-mono uppercase font-bold text-[11px]">
+                              {hex.toUpperCase()}
+                            </span>
+                            <span className="font-mono text-muted-foreground text-[10px]">
+                              {formatShare(share)}
+                            </span>
+                          </div>
+                          <div className="text-muted-foreground text-[10px] truncate">
+                            {nearestName(rgb, deltaEMetric)}
+                          </div>
+                          <div className="h-0.75 rounded-full bg-secondary mt-1 overflow-hidden">
+                            <div
+                              className="h-full"
+                              style={{
+                                width: `${share * 100}%`,
+                                background: hex,
+                              }}
+                            />
+                          </div>
                         </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => useOne(i)}
+                        >
+                          Use
+                        </Button>
+                      </div>
+                    );
+                  })}
+                {!loading && !error && imgSrc && !extractedColors.length && (
+                  <p className="text-muted-foreground text-[12px]">
+                    No colors found
+                    {settings.neutrals ? "." : " — try including neutrals."}
+                  </p>
+                )}
+                {!loading && extractedColors.length > 0 && (
+                  <Button
+                    variant="default"
+                    size="sm"
+                    style={{ marginTop: 14 }}
+                    onClick={useAll}
+                  >
+                    Use as Seed Colors →
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const formatShare = (share: number) =>
+  share >= 0.1 ? `${Math.round(share * 100)}%` : `${(share * 100).toFixed(1)}%`;
+
+/** The uploaded image with a drag-to-select region; a click clears it */
+function RegionSelect({
+  src,
+  region,
+  onChange,
+}: {
+  src: string;
+  region: ExtractRegion | null;
+  onChange: (region: ExtractRegion | null) => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ x: number; y: number }[] | null>(null);
+
+  const point = (e: React.PointerEvent) => {
+    const box = ref.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - box.left) / box.width, 0, 1),
+      y: clamp((e.clientY - box.top) / box.height, 0, 1),
+    };
+  };
+  const toRegion = ([a, b]: { x: number; y: number }[]): ExtractRegion => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    w: Math.abs(a.x - b.x),
+    h: Math.abs(a.y - b.y),
+  });
+  const shown = drag ? toRegion(drag) : region;
+
+  return (
+    <div
+      ref={ref}
+      className="relative overflow-hidden rounded border border-input cursor-crosshair select-none touch-none"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const p = point(e);
+        setDrag([p, p]);
+      }}
+      onPointerMove={(e) => drag && setDrag([drag[0], point(e)])}
+      onPointerUp={() => {
+        if (!drag) return;
+        const r = toRegion(drag);
+        setDrag(null);
+        const next = r.w >= MIN_REGION && r.h >= MIN_REGION ? r : null;
+        if (next || region) onChange(next);
+      }}
+    >
+      <img
+        src={src}
+        alt="Uploaded"
+        className="w-full block"
+        draggable={false}
+      />
+      {shown && (
+        <div
+          className="absolute border-2 border-primary pointer-events-none"
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.w * 100}%`,
+            height: `${shown.h * 100}%`,
+            boxShadow: "0 0 0 9999px rgba(0,0,0,.45)",
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// ─── Recolor ──────────────────────────────────────────────────────────────────
+
+/** Preview renders stay under this many pixels; the PNG is full resolution */
+const RECOLOR_PREVIEW_PIXELS = 1_000_000;
+const RECOLOR_CLUSTERS = 8;
+
+function drawPixels(canvas: HTMLCanvasElement | null, pixels: PixelBuffer) {
+  if (!canvas) return;
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  canvas
+    .getContext("2d")!
+    .putImageData(
+      new ImageData(pixels.data, pixels.width, pixels.height),
+      0,
+      0,
+    );
+}
+
+/**
+ * Maps the image's clusters onto the current slots by palette transfer in
+ * OKLab. Clusters start auto-assigned; clicking a slot swatch on a cluster
+ * row reassigns it, and "keep" leaves it untouched.
+ */
+function RecolorPanel({ src }: { src: string }) {
+  const slots = useChromaStore((s) => s.slots);
+  const [pixels, setPixels] = useState<PixelBuffer | null>(null);
+  const [clusters, setClusters] = useState<PixelCluster[]>([]);
+  const [manual, setManual] = useState<(number | null)[] | null>(null);
+  const [strength, setStrength] = useState(1);
+  const [error, setError] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const sourceRef = useRef<HTMLCanvasElement>(null);
+  const outRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let stale = false;
+    setPixels(null);
+    setClusters([]);
+    setManual(null);
+    setError(false);
+    (async () => {
+      const blob = await (await fetch(src)).blob();
+      const decoded = await decodeImage(blob, RECOLOR_PREVIEW_PIXELS);
+      const found = await imageClustersAsync(decoded, RECOLOR_CLUSTERS);
+      if (stale) return;
+      setPixels(decoded);
+      setClusters(found);
+    })().catch(() => !stale && setError(true));
+    return () => {
+      stale = true;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    if (pixels) drawPixels(sourceRef.current, pixels);
+  }, [pixels]);
+
+  const targets = useMemo(() => slots.map((s) => s.color.rgb), [slots]);
+  const auto = useMemo(
+    () => autoAssignClusters(clusters, targets),
+    [clusters, targets],
+  );
+  // A manual assignment only survives while it still points at real slots
+  const assignment = manual?.every((j) => j === null || j < slots.length)
+    ? manual
+    : auto;
+  const transfers = useMemo(
+    () => clusterTransfers(clusters, assignment, targets),
+    [clusters, assignment, targets],
+  );
+
+  const { data: recolored, pending } = useAnalysis(
+    () =>
+      pixels && clusters.length
+        ? recolorImageAsync(pixels, transfers, strength)
+        : Promise.resolve(null),
+    [pixels, transfers, strength],
+  );
+  useEffect(() => {
+    if (recolored) drawPixels(outRef.current, recolored);
+  }, [recolored]);
+
+  const assign = (cluster: number, slot: number | null) =>
+    setManual(assignment.map((j, i) => (i === cluster ? slot : j)));
+
+  async function downloadPng() {
+    setSaving(true);
+    try {
+      const blob = await (await fetch(src)).blob();
+      const full = await recolorImageAsync(blob, transfers, strength);
+      const canvas = document.createElement("canvas");
+      drawPixels(canvas, full);
+      const png = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob(resolve, "image/png"),
+      );
+      if (!png) throw new Error("PNG encoding failed");
+      const url = URL.createObjectURL(png);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "recolored.png";
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError(true);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (error)
+    return (
+      <p className="text-destructive text-[12px] mt-5">
+        Recoloring failed. Try another image.
+      </p>
+    );
+  if (!slots.length)
+    return (
+      <p className="text-muted-foreground text-[12px] mt-5">
+        Generate a palette first — its slots are the recolor targets.
+      </p>
+    );
+
+  const swatch = (active: boolean) =>
+    `w-5 h-5 rounded-xs shrink-0 cursor-pointer border ${active ? "ring-2 ring-primary ring-offset-1 ring-offset-background border-transparent" : "border-white/10"}`;
+
+  return (
+    <div className="mt-5">
+      <div className="grid grid-cols-2 gap-3.5">
+        {[
+          { ref: sourceRef, label: "Original" },
+          { ref: outRef, label: pending ? "Recoloring…" : "Recolored" },
+        ].map(({ ref, label }, i) => (
+          <div key={i}>
+            <canvas
+              ref={ref}
+              className="w-full h-auto rounded border border-border"
+            />
+            <div className="text-[10px] text-muted-foreground mt-1">
+              {label}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap mt-4 mb-3">
+        <label className="items-center flex gap-2 text-[10px] text-muted-foreground">
+          Strength
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={strength}
+            onChange={(e) => setStrength(Number(e.target.value))}
+          />
+          <span className="font-mono w-8">{Math.round(strength * 100)}%</span>
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!manual}
+          onClick={() => setManual(null)}
+        >
+          Auto-assign
+        </Button>
+        <Button
+          variant="default"
+          size="sm"
+          disabled={!recolored || saving}
+          onClick={downloadPng}
+        >
+          {saving ? "Rendering…" : "Download PNG"}
+        </Button>
+      </div>
+
+      <div className="text-[10px] tracking-widest uppercase text-muted-foreground font-semibold mb-2">
+        Clusters → Slots
+      </div>
+      {!clusters.length && (
+        <p className="text-muted-foreground text-[12px]">Finding clusters…</p>
+      )}
+      <div className="flex flex-col gap-1.5">
+        {clusters.map((c, i) => {
+          const hex = rgbToHex(c.rgb);
+          return (
+            <div key={i} className="flex items-center gap-2">
+              <div
+                className="w-5 h-5 rounded-xs shrink-0 border border-white/10"
+                style={{ background: hex }}
+                title={hex.toUpperCase()}
+              />
+              <span className="font-mono text-muted-foreground text-[10px] w-9 text-right">
+                {Math.round(c.share * 100)}%
+              </span>
+              <span className="text-muted-foreground text-[11px]">→</span>
+              <button
+                className={`px-1.5 h-5 text-[9.5px] rounded-xs border cursor-pointer ${assignment[i] === null ? "bg-primary text-primary-foreground border-primary" : "text-muted-foreground border-border hover:text-foreground"}`}
+                onClick={() => assign(i, null)}
+              >
+                keep
+              </button>
+              {slots.map((s, j) => (
+                <button
+                  key={s.id}
+                  className={swatch(assignment[i] === j)}
+                  style={{ background: s.color.hex }}
+                  title={`Slot ${j + 1} · ${s.name ?? nearestName(s.color.rgb)}`}
+                  onClick={() => assign(i, j)}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FROM FILE TAB
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Palettes larger than this load only the first N swatches by default */
+const DEFAULT_IMPORT_LIMIT = 10;
+
+function FileTab() {
+  const mode = useChromaStore((s) => s.mode);
+  const loadPalette = useChromaStore((s) => s.loadPalette);
+  const navigate = useNavigate();
+  const [imported, setImported] = useState<ImportedSwatches | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  async function handleFile(file: File) {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await importSwatchFile(file);
+      setImported(result);
+      setSelected(
+        new Set(result.slots.slice(0, DEFAULT_IMPORT_LIMIT).map((s) => s.id)),
+      );
+    } catch (err) {
+      setImported(null);
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const picked = imported?.slots.filter((s) => selected.has(s.id)) ?? [];
+
+  const handleLoad = () => {
+    if (!picked.length) return;
+    loadPalette(picked, mode, picked.length);
+    navigate({ to: "/palette" });
+  };
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="mx-auto" style={{ maxWidth: 780 }}>
+        <p className="text-muted-foreground text-[11px] mb-5">
+          Import a palette file from Illustrator, Photoshop, GIMP, Procreate or
+          Sketch. Swatch names are kept as color names.
+        </p>
+
+        <div
+          className={`border-2 border-dashed rounded-md py-12 px-6 text-center cursor-pointer transition-colors ${dragOver ? "border-primary bg-primary/5" : "border-input hover:border-primary hover:bg-primary/5"}`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragOver(false);
+            if (e.dataTransfer.files[0]) handleFile(e.dataTransfer.files[0]);
+          }}
+          onClick={() => fileRef.current?.click()}
+        >
+          <input
+            ref={fileRef}
+            type="file"
+            accept={SWATCH_FILE_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleFile(e.target.files[0]);
+              e.target.value = "";
+            }}
+          />
+          <div className="font-display text-[17px] font-bold text-secondary-foreground mb-1.5">
+            Drop a swatch file here
+          </div>
+          <div className="text-[11px] text-muted-foreground">
+            or click to browse · ASE, ACO, GPL, .swatches, .sketchpalette
+          </div>
+        </div>
+
+        {loading && (
+          <p className="text-muted-foreground text-[12px] mt-5">
+            Reading swatches…
+          </p>
+        )}
+        {error && <p className="text-destructive text-[12px] mt-5">{error}</p>}
+
+        {imported && !loading && (
+          <div className="mt-5">
+            <div className="flex items-baseline justify-between mb-2.5">
+              <div className="text-[10px] tracking-widest uppercase text-muted-foreground font-display font-semibold">
+                {imported.name ?? "Imported Swatches"} ·{" "}
+                {SWATCH_FILE_FORMATS[imported.format].label}
+              </div>
+              <div className="text-[10px] text-muted-foreground">
+                {selected.size} of {imported.slots.length} selected
+                {imported.skipped > 0 && ` · ${imported.skipped} skipped`}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-1.5">
+              {imported.slots.map((slot) => {
+                const on = selected.has(slot.id);
+                return (
+                  <label
+                    key={slot.id}
+                    className={`flex items-center gap-2 p-1.5 rounded border cursor-pointer transition-colors ${on ? "border-primary bg-primary/5" : "border-border hover:border-input"}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={on}
+                      onChange={() => toggle(slot.id)}
+                    />
+                    <div
+                      className="rounded shrink-0"
+                      style={{
+                        width: 28,
+                        height: 28,
+                        background: slot.color.hex,
+                        opacity: (slot.color.a ?? 100) / 100,
+                        border: "1px solid rgba(255,255,255,.08)",
+                      }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-mono uppercase font-bold text-[11px]">
+                        {slot.color.hex.toUpperCase()}
+                      </div>
+                      <div className="text-muted-foreground text-[10px] truncate">
+                        {slot.name ?? nearestName(slot.color.rgb)}
+                      </div>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+            <div className="flex gap-2 mt-3.5">
+              <Button
+                variant="default"
+                size="sm"
+                disabled={!picked.length}
+                onClick={handleLoad}
+              >
+                Load {picked.length} Colors →
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setSelected(
+                    selected.size === imported.slots.length
+                      ? new Set()
+                      : new Set(imported.slots.map((s) => s.id)),
+                  )
+                }
+              >
+                {selected.size === imported.slots.length
+                  ? "Select None"
+                  : "Select All"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FROM SOURCE TAB
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Cluster radius presets for near-duplicate literals, in JNDs */
+const SOURCE_MERGE = [
+  { label: "Exact", jnds: 0, desc: "Only identical colors are combined" },
+  { label: "Close", jnds: 2, desc: "Barely distinguishable colors combine" },
+  { label: "Similar", jnds: 4, desc: "Noticeably close colors combine" },
+] as const;
+
+/** Most colors listed for one source */
+const MAX_SOURCE_COLORS = 64;
+
+type PageColors = Awaited<ReturnType<typeof extract>>;
+
+/** Have the server fetch a page plus its stylesheets and rank their colors */
+async function fetchPageColors(
+  url: string,
+  metric: DeltaEMetric,
+  jnds: number,
+): Promise<PageColors> {
+  const res = await fetch("/api/palette/extract", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ url, metric, jnds, limit: MAX_SOURCE_COLORS }),
+  });
+  const body = await res.json();
+  if (!res.ok) {
+    const { error, issues } = body as {
+      error?: string;
+      issues?: { message: string }[];
+    };
+    throw new Error(issues?.[0]?.message ?? error ?? "Fetch failed");
+  }
+  return body as PageColors;
+}
+
+function SourceTab() {
+  const mode = useChromaStore((s) => s.mode);
+  const deltaEMetric = useChromaStore((s) => s.deltaEMetric);
+  const loadPalette = useChromaStore((s) => s.loadPalette);
+  const navigate = useNavigate();
+  const [text, setText] = useState("");
+  const [url, setUrl] = useState("");
+  /** The submitted URL — while set, results come from the server */
+  const [pageUrl, setPageUrl] = useState<string | null>(null);
+  const [jnds, setJnds] = useState(2);
+  /** null = the most frequent DEFAULT_IMPORT_LIMIT colors */
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+  const deferredText = useDeferredValue(text);
+
+  const scanned = useMemo(
+    () => extractSourceColors(deferredText, { metric: deltaEMetric, jnds }),
+    [deferredText, deltaEMetric, jnds],
+  );
+  const page = useAnalysis(
+    () =>
+      pageUrl
+        ? fetchPageColors(pageUrl, deltaEMetric, jnds)
+        : Promise.resolve(null),
+    [pageUrl, deltaEMetric, jnds],
+  );
+
+  const loading = !!pageUrl && page.pending;
+  const error = pageUrl ? page.error?.message : null;
+  const colors: SourceColor[] = pageUrl
+    ? (page.data?.colors ?? [])
+    : scanned.slice(0, MAX_SOURCE_COLORS);
+  const literals = pageUrl
+    ? (page.data?.literals ?? 0)
+    : scanned.reduce((n, c) => n + c.count, 0);
+  const failed = (pageUrl && page.data?.failed) || [];
+
+  const chosen =
+    selected ??
+    new Set(colors.slice(0, DEFAULT_IMPORT_LIMIT).map((c) => c.hex));
+  const picked = colors.filter((c) => chosen.has(c.hex));
+
+  const toggle = (hex: string) => {
+    const next = new Set(chosen);
+    if (next.has(hex)) next.delete(hex);
+    else next.add(hex);
+    setSelected(next);
+  };
+
+  const handleLoad = () => {
+    if (!picked.length) return;
+    loadPalette(
+      slotsFromHexes(picked.map((c) => ({ hex: c.hex }))),
+      mode,
+      picked.length,
+    );
+    navigate({ to: "/palette" });
+  };
+
+  const chip = (active: boolean) =>
+    `inline-flex items-center gap-1 px-2 py-1 text-[10px] border rounded font-mono font-bold tracking-[.04em] whitespace-nowrap cursor-pointer transition-colors ${active ? "bg-primary text-primary-foreground border-primary" : "bg-transparent text-secondary-foreground border-border hover:text-foreground hover:border-input"}`;
+
+  const field =
+    "w-full bg-muted border border-border rounded px-3 py-2.5 text-[12px] text-foreground font-mono outline-none focus:border-ring transition-colors placeholder:text-muted-foreground";
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="mx-auto" style={{ maxWidth: 780 }}>
+        <p className="text-muted-foreground text-[11px] mb-5">
+          Paste CSS, HTML or SVG — or fetch a web page with its stylesheets — to
+          collect every color it uses, ranked by how often it appears.
+          Near-duplicates are clustered using the selected ΔE metric.
+        </p>
+        <DeltaEMetricPicker className="flex items-center gap-1.5 flex-wrap mb-4" />
+
+        <form
+          className="flex gap-2 mb-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!url.trim()) return;
+            setPageUrl(url.trim());
+            setSelected(null);
+          }}
+        >
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com"
+            className={field}
+          />
+          <Button type="submit" variant="default" size="sm" disabled={loading}>
+            Fetch
+          </Button>
+        </form>
+
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setPageUrl(null);
+            setSelected(null);
+          }}
+          rows={8}
+          spellCheck={false}
+          placeholder={
+            ':root { --brand: #3366ff; }\n<rect fill="tomato" />\n…or paste a whole stylesheet, page or SVG'
+          }
+          className={`${field} resize-y`}
+        />
+
+        <div className="flex items-center gap-1.5 flex-wrap mt-3">
+          <span className="text-[10px] tracking-widest uppercase text-muted-foreground font-semibold mr-1">
+            Merge
+          </span>
+          {SOURCE_MERGE.map((m) => (
+            <button
+              key={m.label}
+              title={m.desc}
+              className={chip(jnds === m.jnds)}
+              onClick={() => {
+                setJnds(m.jnds);
+                setSelected(null);
+              }}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        {loading && (
+          <p className="text-muted-foreground text-[12px] mt-5">
+            Fetching {pageUrl}…
+          </p>
+        )}
+        {error && <p className="text-destructive text-[12px] mt-5">{error}</p>}
+        {!loading && !error && (pageUrl || deferredText) && !colors.length && (
+          <p className="text-muted-foreground text-[12px] mt-5">
+            No color literals found.
+          </p>
+        )}
+
+        {!loading && !error && colors.length > 0 && (
+          <div className="mt-5">
+            <div className="flex items-baseline justify-between mb-2.5">
+              <div className="text-[10px] tracking-widest uppercase text-muted-foreground font-display font-semibold">
+                {pageUrl ? "Page Colors" : "Source Colors"} · {literals}{" "}
+                literals
+              </div>
+              <div
+                className="text-[10px] text-muted-foreground"
+                title={failed.join("\n") || undefined}
+              >
+                {picked.length} of {colors.length} selected
+                {failed.length > 0 &&
+                  ` · ${failed.length} stylesheet${failed.length === 1 ? "" : "s"} failed`}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-1.5">
+              {colors.map((c) => {
+                const on = chosen.has(c.hex);
+                return (
+                  <label
+                    key={c.hex}
+                    className={`flex items-center gap-2 p-1.5 rounded border cursor-pointer transition-colors ${on ? "border-primary bg-primary/5" : "border-border hover:border-input"}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={on}
+                      onChange={() => toggle(c.hex)}
+                    />
+                    <div
+                      className="rounded shrink-0"
+                      style={{
+                        width: 28,
+                        height: 28,
+                        background: c.hex,
+                        border: "1px solid rgba(255,255,255,.08)",
+                      }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-baseline gap-2">
+                        <span className="font-mono uppercase font-bold text-[11px]">
+                          {c.hex.toUpperCase()}
+                        </span>
+                        <span className="font-mono text-muted-foreground text-[10px]">
+                          {c.count}× · {formatShare(c.share)}
+                        </span>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => useOne(i)}
+                      <div
+                        className="text-muted-foreground font-mono text-[10px] truncate"
+                        title={c.literals.join("\n")}
                       >
-                        Use
-                      </Button>
+                        {c.literals.join(", ")}
+                      </div>
                     </div>
-                  );
-                })}
-              {!loading && extractedColors.length > 0 && (
-                <Button
-                  variant="default"
-                  size="sm"
-                  style={{ marginTop: 14 }}
-                  onClick={useAll}
-                >
-                  Use as Seed Colors →
-                </Button>
-              )}
+                  </label>
+                );
+              })}
+            </div>
+            <div className="flex gap-2 mt-3.5">
+              <Button
+                variant="default"
+                size="sm"
+                disabled={!picked.length}
+                onClick={handleLoad}
+              >
+                Load {picked.length} Colors →
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setSelected(
+                    picked.length === colors.length
+                      ? new Set()
+                      : new Set(colors.map((c) => c.hex)),
+                  )
+                }
+              >
+                {picked.length === colors.length ? "Select None" : "Select All"}
+              </Button>
             </div>
           </div>
         )}
@@ -251,10 +1163,9 @@ function ConvertTab() {
   const convInput = useChromaStore((s) => s.convInput);
   const setConvInput = useChromaStore((s) => s.setConvInput);
 
-  const rgb = useMemo(
-    () => parseAny(convInput) ?? { r: 224, g: 122, b: 95 },
-    [convInput],
-  );
+  const parsed = useMemo(() => parseColor(convInput), [convInput]);
+  const rgb = useMemo(() => parsed?.rgb ?? { r: 224, g: 122, b: 95 }, [parsed]);
+  const alpha = parsed?.alpha ?? 100;
   const hex = useMemo(() => rgbToHex(rgb), [rgb]);
   const hsl = useMemo(() => rgbToHsl(rgb), [rgb]);
   const hsv = useMemo(() => rgbToHsv(rgb), [rgb]);
@@ -268,7 +1179,9 @@ function ConvertTab() {
       <div className="flex-1 overflow-auto p-7">
         <div className="mx-auto max-w-165">
           <p className="text-muted-foreground text-[11px] mb-5">
-            Paste any hex, rgb(), or hsl() value to see all formats instantly.
+            Paste any CSS color — hex, named, rgb(), hsl(), hwb(), lab(), lch(),
+            oklab(), oklch(), color() or color-mix() — to see all formats
+            instantly.
           </p>
 
           <div className="flex gap-2.5 mb-6 items-center">
@@ -282,14 +1195,29 @@ function ConvertTab() {
               className="w-full bg-muted border border-border rounded px-3 py-2.5 text-sm text-foreground font-mono tracking-[.06em] outline-none focus:border-ring transition-colors placeholder:text-muted-foreground"
               value={convInput}
               onChange={(e) => setConvInput(e.target.value)}
-              placeholder="#F4A261  ·  rgb(244,162,97)  ·  hsl(27,89%,67%)"
+              placeholder="#F4A261  ·  oklch(77% 0.14 55)  ·  color-mix(in oklab, coral, gold)"
               spellCheck={false}
               autoComplete="off"
             />
           </div>
 
+          {convInput.trim() && !parsed && (
+            <p className="text-destructive text-[11px] -mt-3 mb-4">
+              Not a valid CSS color.
+            </p>
+          )}
+          {parsed && !parsed.inGamut && (
+            <p className="text-[11px] text-amber-500 -mt-3 mb-4">
+              ⚠ Outside the sRGB gamut — values below are clipped.
+            </p>
+          )}
+
           <div className="grid grid-cols-2 gap-2">
-            <ConvCard label="HEX" value={hex} />
+            <ConvCard
+              label="HEX"
+              value={alpha < 100 ? toHexAlpha(hex, alpha) : hex}
+              sub={alpha < 100 ? `Alpha ${alpha}%` : undefined}
+            />
             <ConvCard
               label="CSS RGB"
               value={`rgb(${rgb.r}, ${rgb.g}, ${rgb.b})`}
@@ -349,6 +1277,8 @@ export default function ExtractView() {
       </div>
       <TabBar active={activeTab} setActive={setActiveTab} />
       {activeTab === "image" && <ImageTab />}
+      {activeTab === "file" && <FileTab />}
+      {activeTab === "source" && <SourceTab />}
       {activeTab === "convert" && <ConvertTab />}
     </div>
   );
@@ -1,13 +1,7 @@
 import { useState, useMemo, useCallback } from "react";
 import type { GradientStop, GradientState, GradientType } from "@/types";
 import { useChromaStore } from "@/hooks/use-chroma-store";
-import {
-  parseHex,
-  clamp,
-  applySimMatrix,
-  hexToRgb,
-  rgbToHex,
-} from "@/lib/utils";
+import { parseHex, clamp, simulateCvdHex, cvdLabel } from "@/lib/utils";
 import { GRAD_PRESETS, CB_TYPES } from "@/lib/constants/chroma";
 import GradientStopBar from "../common/gradient-stop-bar";
 import { Button } from "@/components/ui/button";
@@ -177,10 +171,11 @@ export default function GradientView() {
         {showCvd && (
           <div className="mb-2.5">
             {CB_TYPES.filter((t) => t.id !== "normal").map((cbType) => {
-              const simStops = g.stops.map((stop) => {
-                const rgb = applySimMatrix(hexToRgb(stop.hex), cbType.matrix);
-                return { ...stop, hex: rgbToHex(rgb) };
-              });
+              const sim = { type: cbType.cvd!, severity: 1 };
+              const simStops = g.stops.map((stop) => ({
+                ...stop,
+                hex: simulateCvdHex(stop.hex, sim),
+              }));
               const simState = { ...g, stops: simStops };
               const simCss = buildCss(simState, interpSpace);
               return (
@@ -194,7 +189,7 @@ export default function GradientView() {
                     }}
                   />
                   <span className="text-[9px] text-muted-foreground min-w-22.5 text-right">
-                    {cbType.name}
+                    {cvdLabel(sim)}
                   </span>
                 </div>
               );
@@ -0,0 +1,305 @@
+/**
+ * history-view.tsx  — edit history timeline
+ *
+ * Every recorded edit this session, newest first, with the branches left
+ * behind by undo-then-edit drawn as extra lanes. Clicking an entry jumps to
+ * it. Palette snapshots from earlier sessions continue the timeline below
+ * the first entry and restore as a new edit.
+ */
+
+import { useMemo } from "react";
+import type { EditHistory, HistoryEntry, PaletteSnapshot } from "@/types";
+import { useChromaStore } from "@/hooks/use-chroma-store";
+import { useActiveProject } from "@/hooks/use-active-project";
+import {
+  cn,
+  historyChildren,
+  historyLineage,
+  historyStates,
+} from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+
+const ROW_HEIGHT = 44;
+const LANE_WIDTH = 14;
+
+type TimelineRow =
+  | { kind: "edit"; entry: HistoryEntry; lane: number; hexes: string[] }
+  | { kind: "snapshot"; snap: PaletteSnapshot; hexes: string[] };
+
+// ─── Lanes ────────────────────────────────────────────────────────────────────
+
+/**
+ * Lane per entry. Lane 0 is the line through the current entry and on along
+ * redo; a child that isn't where redo leads starts a new lane.
+ */
+function assignLanes(h: EditHistory): Map<string, number> {
+  const children = historyChildren(h);
+  const lanes = new Map<string, number>();
+  let next = 1;
+  const visit = (e: HistoryEntry, lane: number) => {
+    lanes.set(e.id, lane);
+    for (const child of children.get(e.id) ?? [])
+      visit(child, child.id === e.redoId ? lane : next++);
+  };
+  visit(h.entries[h.rootId], 0);
+  return lanes;
+}
+
+/** Vertical lane lines through one row, plus the fork into a branch's parent */
+function LaneGutter({
+  row,
+  lane,
+  spans,
+  lanes,
+  isCurrent,
+}: {
+  row: number;
+  lane: number | null;
+  spans: { lane: number; top: number; bottom: number; forkLane: number }[];
+  lanes: number;
+  isCurrent: boolean;
+}) {
+  const mid = ROW_HEIGHT / 2;
+  const x = (l: number) => LANE_WIDTH / 2 + l * LANE_WIDTH;
+  return (
+    <svg
+      width={Math.max(1, lanes) * LANE_WIDTH}
+      height={ROW_HEIGHT}
+      className="shrink-0"
+      aria-hidden
+    >
+      {spans
+        .filter((s) => row >= s.top && row <= s.bottom && s.top < s.bottom)
+        .map((s) => {
+          const y1 = row === s.top ? mid : 0;
+          // The bottom row of a branch is its parent, on another lane
+          const d =
+            row === s.bottom && s.forkLane !== s.lane
+              ? `M ${x(s.lane)} ${y1} C ${x(s.lane)} ${mid}, ${x(s.forkLane)} ${mid - 8}, ${x(s.forkLane)} ${mid}`
+              : `M ${x(s.lane)} ${y1} L ${x(s.lane)} ${row === s.bottom ? mid : ROW_HEIGHT}`;
+          return (
+            <path
+              key={s.lane}
+              d={d}
+              className={s.lane === 0 ? "stroke-primary" : "stroke-border"}
+              strokeWidth={2}
+              fill="none"
+            />
+          );
+        })}
+      {lane === null ? (
+        <rect
+          x={x(0) - 4}
+          y={mid - 4}
+          width={8}
+          height={8}
+          className="fill-card stroke-muted-foreground"
+          strokeWidth={1.5}
+        />
+      ) : (
+        <circle
+          cx={x(lane)}
+          cy={mid}
+          r={isCurrent ? 5 : 3.5}
+          className={
+            lane === 0
+              ? "fill-primary stroke-card"
+              : "fill-muted-foreground stroke-card"
+          }
+          strokeWidth={isCurrent ? 2 : 1}
+        />
+      )}
+    </svg>
+  );
+}
+
+function Swatches({ hexes }: { hexes: string[] }) {
+  return (
+    <div className="flex h-5 w-28 shrink-0 rounded-sm overflow-hidden">
+      {hexes.map((hex, i) => (
+        <div key={i} className="flex-1" style={{ background: hex }} />
+      ))}
+    </div>
+  );
+}
+
+// ─── View ─────────────────────────────────────────────────────────────────────
+
+export default function HistoryView() {
+  const project = useActiveProject();
+  const history = useChromaStore((s) => s.history);
+  const paletteSnapshots = useChromaStore((s) => s.paletteSnapshots);
+  const { undo, redo, jumpToHistory, restoreSnapshot } = useChromaStore();
+
+  const { rows, spans, laneCount, branches } = useMemo(() => {
+    // Tracked fields only change along with history, so the state now is
+    // the state at history.currentId
+    const states = historyStates(history, useChromaStore.getState());
+    const lanes = assignLanes(history);
+    const root = history.entries[history.rootId];
+
+    const rows: TimelineRow[] = [
+      ...Object.values(history.entries)
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map((entry) => ({
+          kind: "edit" as const,
+          entry,
+          lane: lanes.get(entry.id)!,
+          hexes: states.get(entry.id)!.slots.map((s) => s.color.hex),
+        })),
+      // Snapshots taken this session are the parents of entries above
+      ...paletteSnapshots
+        .filter((snap) => snap.createdAt < root.createdAt)
+        .map((snap) => ({
+          kind: "snapshot" as const,
+          snap,
+          hexes: snap.slots.map((s) => s.hex),
+        })),
+    ];
+
+    const rowOf = new Map<string, number>();
+    rows.forEach((r, i) => r.kind === "edit" && rowOf.set(r.entry.id, i));
+    const spans = new Map<
+      number,
+      { lane: number; top: number; bottom: number; forkLane: number }
+    >();
+    for (const r of rows) {
+      if (r.kind !== "edit") continue;
+      const i = rowOf.get(r.entry.id)!;
+      const span = spans.get(r.lane);
+      if (!span) {
+        spans.set(r.lane, {
+          lane: r.lane,
+          top: i,
+          bottom: i,
+          forkLane: r.lane,
+        });
+      } else span.bottom = i;
+    }
+    // Branches reach down to the entry they forked from
+    for (const span of spans.values()) {
+      if (span.lane === 0) continue;
+      const first = rows[span.bottom] as Extract<TimelineRow, { kind: "edit" }>;
+      const parentId = first.entry.parentId!;
+      span.bottom = rowOf.get(parentId)!;
+      span.forkLane = lanes.get(parentId)!;
+    }
+
+    return {
+      rows,
+      spans: [...spans.values()],
+      laneCount: Math.max(...lanes.values()) + 1,
+      branches: spans.size - 1,
+    };
+  }, [history, paletteSnapshots]);
+
+  const current = history.entries[history.currentId];
+  const onLine = new Set(
+    historyLineage(history, history.currentId).map((e) => e.id),
+  );
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="mx-auto" style={{ maxWidth: 920 }}>
+        <div className="justify-between items-center mb-1 flex">
+          <h2 className="font-display font-extrabold text-xl">
+            {project?.name ?? "Project"} · History
+          </h2>
+          <div className="flex gap-1.5">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!current.parentId}
+              onClick={undo}
+            >
+              ↩ Undo
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!current.redoId}
+              onClick={redo}
+            >
+              ↪ Redo
+            </Button>
+          </div>
+        </div>
+        <p className="text-[11px] text-muted-foreground mb-4">
+          {Object.keys(history.entries).length - 1} edits this session
+          {branches > 0 &&
+            ` · ${branches} branch${branches === 1 ? "" : "es"}`}{" "}
+          · click an entry to jump to it. Switching palette, scale, gradient or
+          project starts a new history.
+        </p>
+
+        <div className="bg-card border border-border rounded overflow-hidden">
+          {rows.map((r, i) => {
+            const isEdit = r.kind === "edit";
+            const isCurrent = isEdit && r.entry.id === current.id;
+            // Ahead of the current entry on its own line — reachable by redo
+            const ahead = isEdit && r.lane === 0 && !onLine.has(r.entry.id);
+            return (
+              <button
+                key={isEdit ? r.entry.id : r.snap.id}
+                onClick={() =>
+                  isEdit ? jumpToHistory(r.entry.id) : restoreSnapshot(r.snap)
+                }
+                disabled={isCurrent}
+                title={
+                  isEdit
+                    ? isCurrent
+                      ? "Current state"
+                      : "Jump here"
+                    : "Restore this palette as a new edit"
+                }
+                style={{ height: ROW_HEIGHT }}
+                className={cn(
+                  "w-full flex items-center gap-3 pr-3 text-left bg-transparent border-0 border-b border-border last:border-b-0 transition-colors",
+                  isCurrent
+                    ? "bg-primary/10 cursor-default"
+                    : "hover:bg-accent cursor-pointer",
+                  isEdit && r.lane > 0 && "opacity-60",
+                  ahead && "opacity-75",
+                )}
+              >
+                <LaneGutter
+                  row={i}
+                  lane={isEdit ? r.lane : null}
+                  spans={spans}
+                  lanes={laneCount}
+                  isCurrent={isCurrent}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-[12px] font-medium truncate">
+                    {isEdit ? r.entry.label : r.snap.label}
+                    {isCurrent && (
+                      <span className="ml-2 text-[10px] text-primary uppercase tracking-[.06em]">
+                        current
+                      </span>
+                    )}
+                    {isEdit && r.lane > 0 && (
+                      <span className="ml-2 text-[10px] text-muted-foreground uppercase tracking-[.06em]">
+                        branch
+                      </span>
+                    )}
+                    {!isEdit && (
+                      <span className="ml-2 text-[10px] text-muted-foreground uppercase tracking-[.06em]">
+                        snapshot
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-muted-foreground font-mono">
+                    {isEdit
+                      ? new Date(r.entry.updatedAt).toLocaleTimeString()
+                      : `${new Date(r.snap.createdAt).toLocaleString()} · ${r.snap.mode}`}
+                  </div>
+                </div>
+                <Swatches hexes={r.hexes} />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
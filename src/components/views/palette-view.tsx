@@ -15,6 +15,7 @@
  */
 
 import { useState } from "react";
+import { Link } from "@tanstack/react-router";
 import { PaletteStrip } from "../layout/palette-strip";
 import { GenerateControls, GenerateFooter } from "../layout/generate-controls";
 import { useChromaStore } from "@/hooks/use-chroma-store";
@@ -43,7 +44,9 @@ function StandalonePaletteView() {
 // Strip and controls are already visible in their columns.
 
 function PaletteStudioPanel() {
-  const { generate, undo, openModal, setSaveName, slots } = useChromaStore();
+  const { generate, undo, redo, history, openModal, setSaveName, slots } =
+    useChromaStore();
+  const { parentId, redoId } = history.entries[history.currentId];
 
   return (
     <div className="flex flex-col h-full overflow-auto p-5 gap-4">
@@ -76,12 +79,28 @@ function PaletteStudioPanel() {
         >
           ⟳ Generate New Palette
         </button>
-        <button
-          onClick={undo}
-          className="w-full h-9 text-[11px] font-mono rounded-md border border-border bg-secondary text-secondary-foreground hover:border-input transition-colors cursor-pointer"
+        <div className="flex gap-2">
+          <button
+            onClick={undo}
+            disabled={!parentId}
+            className="flex-1 h-9 text-[11px] font-mono rounded-md border border-border bg-secondary text-secondary-foreground hover:border-input transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          >
+            ↩ Undo
+          </button>
+          <button
+            onClick={redo}
+            disabled={!redoId}
+            className="flex-1 h-9 text-[11px] font-mono rounded-md border border-border bg-secondary text-secondary-foreground hover:border-input transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          >
+            ↪ Redo
+          </button>
+        </div>
+        <Link
+          to="/history"
+          className="w-full h-9 flex items-center justify-center text-[11px] font-mono rounded-md border border-border bg-secondary text-secondary-foreground hover:border-input transition-colors no-underline"
         >
-          ↩ Undo Last Generate
-        </button>
+          ⏱ History Timeline
+        </Link>
       </div>
 
       <div className="border-t border-border pt-3 flex flex-col gap-2">
@@ -113,8 +132,9 @@ function PaletteStudioPanel() {
 
       <div className="border-t border-border pt-3">
         <p className="text-[10px] text-muted-foreground leading-relaxed">
-          <kbd>Space</kbd> generate · <kbd>Ctrl+Z</kbd> undo · <kbd>Ctrl+E</kbd>{" "}
-          export · <kbd>?</kbd> all shortcuts
+          <kbd>Space</kbd> generate · <kbd>Ctrl+Z</kbd> undo ·{" "}
+          <kbd>Ctrl+Shift+Z</kbd> redo · <kbd>Ctrl+E</kbd> export · <kbd>?</kbd>{" "}
+          all shortcuts
         </p>
       </div>
     </div>
@@ -10,6 +10,7 @@ import { useNavigate } from "@tanstack/react-router";
 import { useChromaStore } from "@/hooks/use-chroma-store";
 import {
   generateScale,
+  checkScalePairs,
   textColor,
   parseHex,
   hexToRgb,
@@ -17,8 +18,10 @@ import {
   hexToStop,
   nearestName,
 } from "@/lib/utils";
+import type { GamutMapMethod, ScaleEntry, ScaleStep } from "@/types";
 import { Button } from "@/components/ui/button";
 import ColorPickerModal from "@/components/modals/color-picker.modal";
+import { ScaleDefinitionEditor } from "@/components/common/scale-definition-editor";
 
 // ─── Tab bar ──────────────────────────────────────────────────────────────────
 
@@ -57,8 +60,37 @@ function TabBar({
 
 const TOKEN_TABS = ["css", "js", "tailwind", "json"] as const;
 
+const GAMUT_METHODS: { id: GamutMapMethod; label: string; desc: string }[] = [
+  {
+    id: "css",
+    label: "CSS 4",
+    desc: "Reduce chroma, keep the closest clipped color within a JND",
+  },
+  { id: "chroma", label: "Chroma", desc: "Reduce chroma until in sRGB" },
+  {
+    id: "clip",
+    label: "Clip",
+    desc: "Clamp RGB channels — may shift hue and lightness",
+  },
+];
+
+/** Chip tooltip — gamut mapping, pinning and contrast-target results */
+function stepTitle({ step, hex, inGamut, pinned, target }: ScaleEntry) {
+  let t = `${step}: ${hex}`;
+  if (pinned) t += " (input color)";
+  if (!inGamut) t += " (gamut-mapped)";
+  if (target)
+    t += `\nTarget ${target.ratio}:1 vs ${target.against} — got ${target.achieved.toFixed(2)}:1`;
+  return t;
+}
+
+/** Marker suffix: ● pinned input, ◎ contrast-solved, ◐ gamut-mapped */
+function stepMarks({ inGamut, pinned, target }: ScaleEntry) {
+  return `${pinned ? " ●" : ""}${target ? " ◎" : ""}${inGamut ? "" : " ◐"}`;
+}
+
 function buildSingleTokens(
-  scale: ReturnType<typeof generateScale>,
+  scale: ScaleEntry[],
   name: string,
   tab: string,
 ): string {
@@ -87,6 +119,7 @@ function SingleColorTab() {
     scaleHex,
     scaleName,
     scaleTokenTab,
+    scaleDefinition,
     slots,
     generate,
     setSeeds,
@@ -98,12 +131,17 @@ function SingleColorTab() {
   const [copied, setCopied] = useState(false);
   const [inputVal, setInputVal] = useState(scaleHex);
   const [showPicker, setShowPicker] = useState(false);
+  const [gamut, setGamut] = useState<GamutMapMethod>("css");
 
   React.useEffect(() => {
     setInputVal(scaleHex);
   }, [scaleHex]);
 
-  const scale = useMemo(() => generateScale(scaleHex), [scaleHex]);
+  const scale = useMemo(
+    () => generateScale(scaleHex, gamut, scaleDefinition),
+    [scaleHex, gamut, scaleDefinition],
+  );
+  const mappedCount = scale.filter((s) => !s.inGamut).length;
   const tokens = useMemo(
     () => buildSingleTokens(scale, scaleName, scaleTokenTab),
     [scale, scaleName, scaleTokenTab],
@@ -126,7 +164,10 @@ function SingleColorTab() {
   };
 
   const useAsSeeds = () => {
-    const picks = [1, 3, 5, 7, 9].map((i) => scale[i]).filter(Boolean);
+    // Five evenly spaced steps, skipping the near-white and near-black ends
+    const picks = [1, 3, 5, 7, 9]
+      .map((k) => scale[Math.round((k / 10) * (scale.length - 1))])
+      .filter(Boolean);
     setSeeds(picks.map(({ hex }) => hexToStop(hex)));
     generate();
     navigate({ to: "/palette" });
@@ -137,7 +178,10 @@ function SingleColorTab() {
       <div className="flex flex-1 overflow-hidden">
         <div className="flex-1 flex flex-col overflow-auto p-6">
           <p className="text-muted-foreground text-[11px] mb-5">
-            50–950 design token scale from any base color. Click a chip to copy.
+            {scaleDefinition.label} design token scale (
+            {scaleDefinition.steps[0]}–{scaleDefinition.steps.at(-1)}) from any
+            base color. Click a chip to copy. ● pinned input · ◎ contrast target
+            · ◐ gamut-mapped.
           </p>
 
           <div className="flex gap-2 items-center mb-6 max-w-150">
@@ -161,15 +205,38 @@ function SingleColorTab() {
             </Button>
           </div>
 
+          <div className="flex items-center gap-1.5 mb-3 max-w-225">
+            <span className="text-[10px] tracking-widest uppercase text-muted-foreground font-semibold mr-1">
+              Gamut
+            </span>
+            {GAMUT_METHODS.map((m) => (
+              <Button
+                key={m.id}
+                variant={gamut === m.id ? "default" : "ghost"}
+                size="sm"
+                title={m.desc}
+                onClick={() => setGamut(m.id)}
+              >
+                {m.label}
+              </Button>
+            ))}
+            <span className="ml-auto text-[10px] text-muted-foreground">
+              {mappedCount
+                ? `◐ ${mappedCount} step${mappedCount > 1 ? "s" : ""} mapped into sRGB`
+                : "All steps in sRGB"}
+            </span>
+          </div>
+
           <div className="flex rounded overflow-hidden h-13 max-w-225">
-            {scale.map(({ step, hex, rgb }) => {
+            {scale.map((entry) => {
+              const { step, hex, rgb } = entry;
               const tc = textColor(rgb);
               return (
                 <div
                   key={step}
                   className="flex flex-col items-center justify-center gap-0.5 font-mono text-[10px] cursor-pointer flex-1"
                   style={{ background: hex }}
-                  title={`${step}: ${hex} — click to copy`}
+                  title={`${stepTitle(entry)}\nClick to copy`}
                   onClick={() =>
                     navigator.clipboard.writeText(hex).catch(() => {})
                   }
@@ -179,6 +246,7 @@ function SingleColorTab() {
                     style={{ color: tc }}
                   >
                     {step}
+                    {stepMarks(entry)}
                   </div>
                   <div className="opacity-65 text-[9px]" style={{ color: tc }}>
                     {hex.toUpperCase()}
@@ -246,6 +314,8 @@ function SingleColorTab() {
           >
             Use scale as seeds →
           </Button>
+
+          <ScaleDefinitionEditor />
         </div>
       </div>
 
@@ -268,11 +338,10 @@ function SingleColorTab() {
 // FULL PALETTE TAB (was MultiScaleView)
 // ═══════════════════════════════════════════════════════════════════════════════
 
-const STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
 type ExportFmt = "css" | "tailwind" | "json";
 
 function buildMultiScaleTokens(
-  scales: { name: string; steps: ReturnType<typeof generateScale> }[],
+  scales: { name: string; steps: ScaleEntry[] }[],
   fmt: ExportFmt,
 ): string {
   switch (fmt) {
@@ -295,12 +364,12 @@ function buildMultiScaleTokens(
 }
 
 function FullPaletteTab() {
-  const { slots } = useChromaStore();
+  const { slots, scaleDefinition } = useChromaStore();
   const [fmt, setFmt] = useState<ExportFmt>("css");
   const [copied, setCopied] = useState(false);
   const [hoveredCell, setHoveredCell] = useState<{
     slot: number;
-    step: number;
+    step: ScaleStep;
   } | null>(null);
 
   const slotNames = useMemo(() => semanticSlotNames(slots), [slots]);
@@ -309,9 +378,15 @@ function FullPaletteTab() {
       slots.map((slot, i) => ({
         name: slotNames[i] ?? `color-${i + 1}`,
         hex: slot.color.hex,
-        steps: generateScale(slot.color.hex),
+        steps: generateScale(slot.color.hex, "css", scaleDefinition),
       })),
-    [slots, slotNames],
+    [slots, slotNames, scaleDefinition],
+  );
+
+  const anchor = scaleDefinition.anchor;
+  const pairChecks = useMemo(
+    () => scales.map((s) => (anchor ? checkScalePairs(s.steps, anchor) : [])),
+    [scales, anchor],
   );
 
   const tokens = useMemo(
@@ -337,11 +412,20 @@ function FullPaletteTab() {
     <div className="flex-1 overflow-auto p-6">
       <div className="mx-auto max-w-270">
         <p className="text-muted-foreground text-[11px] mb-5">
-          Full 50–950 tint scale for every palette color simultaneously — like
+          Full tint scale for every palette color simultaneously — like
           Tailwind, Radix, or shadcn's color system. Click any chip to copy its
-          hex.
+          hex. ● marks the pinned input, ◎ a contrast-solved step and ◐ steps
+          that were gamut-mapped into sRGB.
         </p>
 
+        <details className="bg-card border border-border rounded-lg px-4 py-3 mb-6 max-w-100">
+          <summary className="text-[11px] font-semibold cursor-pointer">
+            Scale definition — {scaleDefinition.label} (
+            {scaleDefinition.steps.length} steps)
+          </summary>
+          <ScaleDefinitionEditor />
+        </details>
+
         <div className="overflow-x-auto mb-7">
           <table style={{ borderCollapse: "collapse", minWidth: 600 }}>
             <thead>
@@ -352,7 +436,7 @@ function FullPaletteTab() {
                 >
                   Color
                 </th>
-                {STEPS.map((step) => (
+                {scaleDefinition.steps.map((step) => (
                   <th
                     key={step}
                     className="text-[9px] font-bold text-muted-foreground uppercase tracking-[.06em] text-center"
@@ -389,7 +473,8 @@ function FullPaletteTab() {
                       {nearestName(hexToRgb(scale.hex))}
                     </div>
                   </td>
-                  {scale.steps.map(({ step, hex, rgb }) => {
+                  {scale.steps.map((entry) => {
+                    const { step, hex, rgb, inGamut, pinned, target } = entry;
                     const tc = textColor(rgb);
                     const isHovered =
                       hoveredCell?.slot === si && hoveredCell?.step === step;
@@ -417,7 +502,7 @@ function FullPaletteTab() {
                             transition: "transform .1s",
                             transform: isHovered ? "scale(1.12)" : "none",
                           }}
-                          title={`${scale.name}-${step}: ${hex}`}
+                          title={`${scale.name}-${stepTitle(entry)}`}
                           onClick={() =>
                             navigator.clipboard.writeText(hex).catch(() => {})
                           }
@@ -426,13 +511,22 @@ function FullPaletteTab() {
                           }
                           onMouseLeave={() => setHoveredCell(null)}
                         >
-                          {isHovered && (
+                          {isHovered ? (
                             <span
                               className="text-[7.5px] font-mono font-bold"
                               style={{ color: tc }}
                             >
                               {hex.slice(1).toUpperCase()}
                             </span>
+                          ) : (
+                            (pinned || target || !inGamut) && (
+                              <span
+                                className="text-[8px] opacity-60"
+                                style={{ color: tc }}
+                              >
+                                {stepMarks(entry).trim()}
+                              </span>
+                            )
                           )}
                         </div>
                       </td>
@@ -444,9 +538,70 @@ function FullPaletteTab() {
           </table>
         </div>
 
+        {anchor && (
+          <div className="mb-7">
+            <div className="text-[10px] tracking-widest uppercase text-muted-foreground mb-2 font-display font-semibold">
+              Contrast Pairs — steps {anchor.distance} apart ≥{" "}
+              {anchor.metric === "wcag"
+                ? `${anchor.target}:1 WCAG`
+                : `Lc ${anchor.target} APCA`}
+            </div>
+            {scales.map((scale, si) => {
+              const checks = pairChecks[si];
+              const failed = checks.filter((c) => !c.pass).length;
+              return (
+                <div
+                  key={si}
+                  className="flex items-center gap-1.5 mb-1.5 flex-wrap"
+                >
+                  <span className="text-secondary-foreground font-bold text-[10px] w-24 truncate">
+                    {scale.name}
+                  </span>
+                  <span
+                    className="text-[9px] font-bold w-20"
+                    style={{ color: failed ? "#ff1744" : "#00c853" }}
+                  >
+                    {failed
+                      ? `✗ ${failed}/${checks.length} fail`
+                      : `✓ ${checks.length}/${checks.length} pass`}
+                  </span>
+                  {checks.map((c) => (
+                    <span
+                      key={`${c.from}-${c.to}`}
+                      className="text-[9px] font-mono px-1.5 py-0.5 rounded border"
+                      style={{
+                        borderColor: c.pass ? "#00c85355" : "#ff174455",
+                        color: c.pass ? undefined : "#ff1744",
+                      }}
+                      title={`${scale.name}-${c.from} vs ${scale.name}-${c.to}`}
+                    >
+                      {c.from}↔{c.to}{" "}
+                      {anchor.metric === "wcag"
+                        ? `${c.value.toFixed(2)}:1`
+                        : `Lc ${c.value.toFixed(0)}`}{" "}
+                      {c.pass ? "✓" : "✗"}
+                    </span>
+                  ))}
+                </div>
+              );
+            })}
+            {pairChecks.some((checks) => checks.some((c) => !c.pass)) && (
+              <p className="text-[10px] text-muted-foreground mt-2">
+                Failing pairs mean the target can't be met at this distance —
+                black to white is at most 21:1 (Lc ~108) across the whole scale,
+                and a pinned input color narrows the room on one side. Lower the
+                target or widen the distance.
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="flex gap-3 mb-6 flex-wrap">
           {scales.map((scale, i) => {
-            const s500 = scale.steps.find((s) => s.step === 500);
+            // The pinned input step, else the middle of the scale
+            const key =
+              scale.steps.find((s) => s.pinned) ??
+              scale.steps[Math.floor(scale.steps.length / 2)];
             return (
               <div
                 key={i}
@@ -466,7 +621,7 @@ function FullPaletteTab() {
                     {scale.name}
                   </div>
                   <div className="font-mono text-muted-foreground text-[8.5px]">
-                    500: {s500?.hex ?? "—"}
+                    {key ? `${key.step}: ${key.hex}` : "—"}
                   </div>
                 </div>
               </div>
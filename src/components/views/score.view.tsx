@@ -5,20 +5,22 @@
  * Sub-tabs:  [Score] [Compare]
  */
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useMemo } from "react";
 import type { SavedPalette } from "@/types";
 import { useChromaStore } from "@/hooks/use-chroma-store";
+import { useAnalysis } from "@/hooks/use-analysis";
+import { useActiveProject } from "@/hooks/use-active-project";
 import {
-  scorePalette,
   hexToRgb,
   contrastRatio,
   rgbToOklch,
-  nearestName,
-  loadSaved,
   hexToStop,
+  DELTA_E_METRICS,
 } from "@/lib/utils";
+import { nearestNamesAsync, scorePaletteAsync } from "@/lib/workers";
 import { useNavigate } from "@tanstack/react-router";
 import { Button } from "@/components/ui/button";
+import { DeltaEMetricPicker } from "@/components/common/delta-e-metric-picker";
 
 // ─── Shared helpers ───────────────────────────────────────────────────────────
 
@@ -136,13 +138,27 @@ function RadarChart({ scores }: { scores: Record<string, number> }) {
 
 function ScoreTab() {
   const slots = useChromaStore((s) => s.slots);
-  const score = useMemo(() => scorePalette(slots), [slots]);
-  const slotNames = useMemo(
-    () => slots.map((s) => nearestName(hexToRgb(s.color.hex))),
-    [slots],
+  const metric = useChromaStore((s) => s.deltaEMetric);
+  const { data: score } = useAnalysis(
+    () => scorePaletteAsync(slots, metric),
+    [slots, metric],
+  );
+  const { data: slotNames = [] } = useAnalysis(
+    () =>
+      nearestNamesAsync(
+        slots.map((s) => hexToRgb(s.color.hex)),
+        metric,
+      ),
+    [slots, metric],
   );
 
   if (!slots.length) return <EmptyState />;
+  if (!score)
+    return (
+      <div className="flex-1 flex items-center justify-center text-muted-foreground text-[12px]">
+        Scoring…
+      </div>
+    );
 
   const { balance, accessibility, harmony, uniqueness, overall } = score;
   const scoreColor = (v: number) =>
@@ -187,6 +203,7 @@ function ScoreTab() {
           : uniqueness >= 40
             ? "Moderate distinctiveness."
             : "Colors are perceptually similar. Increasing lightness or hue spread will help.",
+      detail: `Average pairwise ${DELTA_E_METRICS[metric].label} — 10 JNDs apart scores 100.`,
     },
   ];
 
@@ -197,6 +214,7 @@ function ScoreTab() {
           Objective evaluation across four dimensions. Scores are relative, not
           absolute targets.
         </p>
+        <DeltaEMetricPicker className="flex items-center gap-1.5 flex-wrap mb-4" />
         <div className="flex gap-8 items-start mt-2">
           <div className="flex flex-col items-center gap-3 shrink-0">
             <RadarChart
@@ -215,7 +233,7 @@ function ScoreTab() {
             </div>
           </div>
           <div className="flex-1 flex flex-col gap-5">
-            {feedback.map(({ label, value, note }) => (
+            {feedback.map(({ label, value, note, detail }) => (
               <div key={label} className="flex flex-col">
                 <div className="justify-between flex mb-1">
                   <span className="font-bold text-[12px]">{label}</span>
@@ -243,6 +261,11 @@ function ScoreTab() {
                 <div className="text-muted-foreground leading-normal text-[11px]">
                   {note}
                 </div>
+                {detail && (
+                  <div className="text-muted-foreground/70 text-[10px] mt-0.5">
+                    {detail}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -416,15 +439,25 @@ function CompareTab() {
   const mode = useChromaStore((s) => s.mode);
   const loadPalette = useChromaStore((s) => s.loadPalette);
   const navigate = useNavigate();
-  const [saved, setSaved] = useState<SavedPalette[]>([]);
+  const project = useActiveProject();
   const [selA, setSelA] = useState<string | null>(null);
   const [selB, setSelB] = useState<string | null>(null);
 
-  useEffect(() => {
-    const all = loadSaved();
-    setSaved(all);
-    if (all.length > 0) setSelB(all[0].id);
-  }, []);
+  // The project's other palettes — the open one is "Current Palette"
+  const saved: SavedPalette[] = useMemo(
+    () =>
+      (project?.palettes ?? [])
+        .filter((p) => p.id !== project?.active.palette)
+        .map((p) => ({
+          id: p.id,
+          name: p.name,
+          hexes: p.slots.map((s) => s.color.hex),
+          slotNames: p.slots.map((s) => s.name),
+          mode: p.mode,
+          createdAt: project!.createdAt,
+        })),
+    [project],
+  );
 
   const CURRENT: SavedPalette = useMemo(
     () => ({
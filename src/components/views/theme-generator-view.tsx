@@ -9,14 +9,19 @@ import {
   buildTailwindV4,
   semanticSlotNames,
   textColor,
-  contrastRatio,
   rgbToOklch,
   hexToRgb,
   hexToStop,
+  runContrastAudit,
+  simulateCvdHex,
+  simulateCvdTokens,
+  cvdLabel,
 } from "@/lib/utils";
+import { CB_TYPES } from "@/lib/constants/chroma";
 import type { PaletteSlot } from "@/types";
 import { Button } from "@/components/ui/button";
 import HexInput from "../common/hex-input";
+import { ContrastAuditList } from "../common/contrast-audit-list";
 
 type ThemeTab = "css" | "figma" | "tailwind" | "tailwind4" | "styledictionary";
 type PreviewMode = "light" | "dark";
@@ -701,35 +706,7 @@ function ContrastMatrix({
 }: {
   tokens: ReturnType<typeof deriveThemeTokens>;
 }) {
-  const pairs = [
-    { label: "Body text / background", fg: "--foreground", bg: "--background" },
-    {
-      label: "Muted text / background",
-      fg: "--muted-foreground",
-      bg: "--background",
-    },
-    { label: "Body text / card", fg: "--foreground", bg: "--card" },
-    {
-      label: "Primary fg / primary",
-      fg: "--primary-foreground",
-      bg: "--primary",
-    },
-    {
-      label: "Container fg / container",
-      fg: "--primary-container-foreground",
-      bg: "--primary-container",
-    },
-    {
-      label: "Secondary fg / secondary",
-      fg: "--secondary-foreground",
-      bg: "--secondary",
-    },
-    {
-      label: "Destruct fg / destructive",
-      fg: "--destructive-foreground",
-      bg: "--destructive",
-    },
-  ];
+  const { pairs } = useMemo(() => runContrastAudit({ tokens }), [tokens]);
 
   return (
     <div className="grid gap-4 grid-cols-2">
@@ -738,67 +715,11 @@ function ContrastMatrix({
           <div className="text-[9.5px] font-bold text-muted-foreground uppercase mb-1.5 tracking-[.08em]">
             {m === "light" ? "☀ Light mode" : "☾ Dark mode"}
           </div>
-          {pairs.map(({ label, fg, bg }) => {
-            const fgHex =
-              tokens.semantic.find((t) => t.name === fg)?.[m] ?? "#888";
-            const bgHex =
-              tokens.semantic.find((t) => t.name === bg)?.[m] ?? "#fff";
-            const ratio = contrastRatio(
-              hexToStop(fgHex).rgb,
-              hexToStop(bgHex).rgb,
-            );
-            const aaa = ratio >= 7,
-              aa = ratio >= 4.5,
-              aaLarge = ratio >= 3;
-            const badgeColor = aaa
-              ? "#22c55e"
-              : aa
-                ? "#3b82f6"
-                : aaLarge
-                  ? "#f59e0b"
-                  : "#ef4444";
-            const badgeLabel = aaa
-              ? "AAA"
-              : aa
-                ? "AA"
-                : aaLarge
-                  ? "AA+"
-                  : "FAIL";
-
-            return (
-              <div
-                key={label}
-                className="flex items-center gap-1.5 py-1 px-0 border-b border-muted"
-              >
-                <div
-                  className="rounded flex items-center justify-center shrink-0"
-                  style={{
-                    width: 28,
-                    height: 18,
-                    background: bgHex,
-                    border: "1px solid rgba(128,128,128,.2)",
-                  }}
-                >
-                  <div
-                    className="h-1"
-                    style={{ width: 12, borderRadius: 1, background: fgHex }}
-                  />
-                </div>
-                <span className="text-secondary-foreground text-[9px] flex-1">
-                  {label}
-                </span>
-                <span className="font-mono text-muted-foreground mr-0.5 text-[9px]">
-                  {ratio.toFixed(1)}:1
-                </span>
-                <span
-                  className="text-[8px] font-bold text-white rounded px-1 py-px"
-                  style={{ background: badgeColor }}
-                >
-                  {badgeLabel}
-                </span>
-              </div>
-            );
-          })}
+          <ContrastAuditList
+            pairs={pairs.filter((p) => p.mode === m)}
+            useApca={false}
+            columns="1fr"
+          />
         </div>
       ))}
     </div>
@@ -1412,6 +1333,7 @@ export default function ThemeGeneratorView() {
   const { slots, utilityColors } = useChromaStore();
   const [activeTab, setActiveTab] = useState<ThemeTab>("css");
   const [previewMode, setPreviewMode] = useState<PreviewMode>("light");
+  const [cvdView, setCvdView] = useState("normal");
   const [copied, setCopied] = useState(false);
   const [expandTokens, setExpandTokens] = useState(false);
   const [expandContrast, setExpandContrast] = useState(false);
@@ -1422,9 +1344,28 @@ export default function ThemeGeneratorView() {
     [slots, utilityColors],
   );
   const slotNames = useMemo(() => semanticSlotNames(slots), [slots]);
-  const [tokenOverrides, setTokenOverrides] = useState<
-    Record<string, { light: string; dark: string }>
-  >({});
+  // Mockup as seen with the selected color-vision deficiency
+  const cvdSim = useMemo(() => {
+    const t = CB_TYPES.find((c) => c.id === cvdView);
+    return t?.cvd ? { type: t.cvd, severity: 1 } : null;
+  }, [cvdView]);
+  const previewTokens = useMemo(
+    () => (cvdSim ? simulateCvdTokens(tokens, cvdSim) : tokens),
+    [tokens, cvdSim],
+  );
+  const previewSlots = useMemo(
+    () =>
+      cvdSim
+        ? slots.map((s) => ({
+            ...s,
+            color: hexToStop(simulateCvdHex(s.color.hex, cvdSim)),
+          }))
+        : slots,
+    [slots, cvdSim],
+  );
+  const tokenOverrides = useChromaStore((s) => s.tokenOverrides);
+  const setTokenOverride = useChromaStore((s) => s.setTokenOverride);
+  const revertTokenOverride = useChromaStore((s) => s.revertTokenOverride);
 
   const mergedTokens = useMemo(
     () => ({
@@ -1440,31 +1381,13 @@ export default function ThemeGeneratorView() {
   );
 
   const overrideToken = (name: string, mode: "light" | "dark", hex: string) => {
-    setTokenOverrides((prev) => ({
-      ...prev,
-      [name]: {
-        light:
-          mode === "light"
-            ? hex
-            : (prev[name]?.light ??
-              tokens.semantic.find((t) => t.name === name)?.light ??
-              hex),
-        dark:
-          mode === "dark"
-            ? hex
-            : (prev[name]?.dark ??
-              tokens.semantic.find((t) => t.name === name)?.dark ??
-              hex),
-      },
-    }));
-  };
-  const revertToken = (name: string) => {
-    setTokenOverrides((prev) => {
-      const n = { ...prev };
-      delete n[name];
-      return n;
+    const base = tokens.semantic.find((t) => t.name === name);
+    setTokenOverride(name, mode, hex, {
+      light: base?.light ?? hex,
+      dark: base?.dark ?? hex,
     });
   };
+  const revertToken = (name: string) => revertTokenOverride(name);
   const overrideCount = Object.keys(tokenOverrides).length;
 
   const content = useMemo((): string => {
@@ -1523,7 +1446,19 @@ export default function ThemeGeneratorView() {
             <div className="text-[10px] tracking-widest uppercase text-muted-foreground mb-2.5 font-display font-semibold m-0">
               Website Preview
             </div>
-            <div className="flex gap-1">
+            <div className="flex items-center gap-1">
+              <select
+                value={cvdView}
+                onChange={(e) => setCvdView(e.target.value)}
+                title="Preview with a color-vision deficiency"
+                className="bg-transparent border border-border rounded px-1.5 py-1 text-[10px] mr-1"
+              >
+                {CB_TYPES.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.cvd ? cvdLabel({ type: t.cvd, severity: 1 }) : t.name}
+                  </option>
+                ))}
+              </select>
               {(["light", "dark"] as const).map((m) => (
                 <Button
                   key={m}
@@ -1539,12 +1474,16 @@ export default function ThemeGeneratorView() {
 
           {/* Source palette strip — shows how palette → theme roles */}
           <PaletteSourceStrip
-            slots={slots}
-            tokens={tokens}
+            slots={previewSlots}
+            tokens={previewTokens}
             mode={previewMode}
           />
 
-          <WebsiteMockup tokens={tokens} slots={slots} mode={previewMode} />
+          <WebsiteMockup
+            tokens={previewTokens}
+            slots={previewSlots}
+            mode={previewMode}
+          />
 
           {/* Component Showcase */}
           <div className="mt-4">
@@ -1559,7 +1498,7 @@ export default function ThemeGeneratorView() {
             </button>
             {expandComponents && (
               <div className="mt-2">
-                <ComponentShowcase tokens={tokens} mode={previewMode} />
+                <ComponentShowcase tokens={previewTokens} mode={previewMode} />
               </div>
             )}
           </div>
@@ -1597,8 +1536,8 @@ export default function ThemeGeneratorView() {
           {expandContrast && <ContrastMatrix tokens={tokens} />}
           {!expandContrast && (
             <p className="text-muted-foreground text-[10.5px] mt-1">
-              WCAG AA/AAA contrast ratios for all key semantic token pairs —
-              click to expand.
+              WCAG contrast for every semantic and utility token pair — click to
+              expand.
             </p>
           )}
         </div>
@@ -1646,7 +1585,7 @@ export default function ThemeGeneratorView() {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setTokenOverrides({})}
+                    onClick={() => revertTokenOverride()}
                   >
                     ↩ Revert all
                   </Button>
@@ -1,8 +1,8 @@
 /**
  * visualize.view.tsx  — Phase 1 merge
  *
- * Combines: oklch-scatter-view + p3-gamut-view
- * Sub-tabs:  [OKLCH Space] [P3 Gamut]
+ * Combines: oklch-scatter-view + p3-gamut-view + data-viz chart preview
+ * Sub-tabs:  [OKLCH Space] [P3 Gamut] [Charts]
  */
 
 import { useMemo, useRef, useEffect, useState } from "react";
@@ -16,12 +16,35 @@ import {
   oklchToRgb,
   rgbToHex,
   nearestName,
+  rgbToP3,
+  toCssColorFn,
+  createRng,
+  isDataVizMode,
+  semanticSlotNames,
+  simulateCvdHex,
 } from "@/lib/utils";
+import { CB_TYPES, HARMONIES } from "@/lib/constants/chroma";
 import { Button } from "@/components/ui/button";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
 
 // ─── Tab bar ──────────────────────────────────────────────────────────────────
 
-type Tab = "oklch" | "p3";
+type Tab = "oklch" | "p3" | "charts";
 
 function TabBar({
   active,
@@ -36,6 +59,7 @@ function TabBar({
         [
           ["oklch", "OKLCH Space"],
           ["p3", "P3 Gamut"],
+          ["charts", "Charts"],
         ] as const
       ).map(([id, label]) => (
         <button
@@ -373,28 +397,6 @@ function OklchTab() {
 // P3 GAMUT TAB
 // ═══════════════════════════════════════════════════════════════════════════════
 
-const SRGB_TO_P3 = [
-  0.8225, 0.1774, 0.0, 0.0332, 0.9669, 0.0, 0.0171, 0.0724, 0.9108,
-];
-
-function srgbLinear(c: number) {
-  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
-}
-function p3Gamma(c: number) {
-  return c <= 0.0030186 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
-}
-function srgbToP3(r: number, g: number, b: number): [number, number, number] {
-  const rL = srgbLinear(r / 255),
-    gL = srgbLinear(g / 255),
-    bL = srgbLinear(b / 255);
-  const M = SRGB_TO_P3;
-  return [
-    p3Gamma(clamp(M[0] * rL + M[1] * gL + M[2] * bL, 0, 1)),
-    p3Gamma(clamp(M[3] * rL + M[4] * gL + M[5] * bL, 0, 1)),
-    p3Gamma(clamp(M[6] * rL + M[7] * gL + M[8] * bL, 0, 1)),
-  ];
-}
-
 function isWideGamut(hex: string): boolean {
   return rgbToOklch(hexToRgb(hex)).C > 0.25;
 }
@@ -405,9 +407,7 @@ function expandToP3(hex: string): string {
   );
 }
 function p3CssColor(hex: string): string {
-  const { r, g, b } = hexToRgb(hex);
-  const [rP3, gP3, bP3] = srgbToP3(r, g, b);
-  return `color(display-p3 ${rP3.toFixed(4)} ${gP3.toFixed(4)} ${bP3.toFixed(4)})`;
+  return toCssColorFn("display-p3", rgbToP3(hexToRgb(hex)));
 }
 
 function P3SwatchCard({
@@ -648,6 +648,170 @@ function P3Tab() {
   );
 }
 
+// ─── Tab: Charts ──────────────────────────────────────────────────────────────
+
+const CHART_CATEGORIES = ["Q1", "Q2", "Q3", "Q4"];
+const HEATMAP_COLS = 12;
+const HEATMAP_ROWS = 6;
+
+/** Fixed sample data — the charts only change when the palette does */
+function sampleChartData(series: number) {
+  const rand = createRng(7);
+  const row = (f: (i: number) => number) =>
+    Object.fromEntries(
+      Array.from({ length: series }, (_, i) => [`s${i}`, Math.round(f(i))]),
+    );
+  return {
+    bars: CHART_CATEGORIES.map((cat) => ({
+      cat,
+      ...row(() => 20 + rand() * 80),
+    })),
+    lines: Array.from({ length: 12 }, (_, x) => ({
+      x: x + 1,
+      ...row((i) => 50 + 30 * Math.sin(x / 2 + i) + i * 8 + rand() * 10),
+    })),
+    heat: Array.from({ length: HEATMAP_ROWS }, (_, r) =>
+      Array.from({ length: HEATMAP_COLS }, (_, c) =>
+        clamp(
+          (Math.sin(c / 2.5) + Math.cos(r / 1.5) + 2) / 4 +
+            (rand() - 0.5) * 0.2,
+          0,
+          1,
+        ),
+      ),
+    ),
+  };
+}
+
+function ChartsTab() {
+  const slots = useChromaStore((s) => s.slots);
+  const mode = useChromaStore((s) => s.mode);
+  const [cvd, setCvd] = useState("normal");
+
+  const sim = CB_TYPES.find((t) => t.id === cvd)?.cvd;
+  const hexes = slots.map((s) =>
+    sim ? simulateCvdHex(s.color.hex, { type: sim, severity: 1 }) : s.color.hex,
+  );
+  const names = semanticSlotNames(slots);
+  const config: ChartConfig = Object.fromEntries(
+    hexes.map((hex, i) => [`s${i}`, { label: names[i], color: hex }]),
+  );
+  const data = useMemo(() => sampleChartData(slots.length), [slots.length]);
+  const series = hexes.map((_, i) => `s${i}`);
+  /** Heatmap value (0–1) → palette slot, treating the slots as a color scale */
+  const heatColor = (v: number) =>
+    hexes[Math.min(hexes.length - 1, Math.floor(v * hexes.length))];
+  const heatRows = data.heat.map((cells, r) => ({
+    row: `R${r + 1}`,
+    ...Object.fromEntries(cells.map((_, c) => [`c${c}`, 1])),
+  }));
+
+  if (!slots.length) return <EmptyState title="chart previews" />;
+
+  const chip = (active: boolean) =>
+    `inline-flex items-center gap-1 px-2 py-1 text-[10px] border rounded font-mono font-bold tracking-[.04em] whitespace-nowrap cursor-pointer transition-colors ${active ? "bg-primary text-primary-foreground border-primary" : "bg-transparent text-secondary-foreground border-border hover:text-foreground hover:border-input"}`;
+  const label = (text: string) => (
+    <div className="text-[10px] tracking-widest uppercase text-muted-foreground font-semibold mb-2">
+      {text}
+    </div>
+  );
+
+  return (
+    <div className="flex-1 overflow-auto p-6">
+      <div className="max-w-225 mx-auto">
+        <p className="text-muted-foreground text-[11px] mb-4 max-w-150">
+          {isDataVizMode(mode)
+            ? `Generated in ${HARMONIES.find((h) => h.id === mode)?.label} mode. `
+            : "Switch the generator to Categorical, Sequential or Diverging for chart-ready palettes. "}
+          Bars and lines use each slot as a series; the heatmap reads the slots
+          in order as a color scale.
+        </p>
+        <div className="flex items-center gap-1 flex-wrap mb-5">
+          <span className="text-muted-foreground text-[10px] mr-1">View:</span>
+          {CB_TYPES.map((t) => (
+            <button
+              key={t.id}
+              className={chip(cvd === t.id)}
+              onClick={() => setCvd(t.id)}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
+
+        {label("Bar")}
+        <ChartContainer config={config} className="aspect-auto h-56 mb-6">
+          <BarChart data={data.bars}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="cat" tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {series.map((key) => (
+              <Bar
+                key={key}
+                dataKey={key}
+                fill={`var(--color-${key})`}
+                radius={2}
+                isAnimationActive={false}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+
+        {label("Line")}
+        <ChartContainer config={config} className="aspect-auto h-56 mb-6">
+          <LineChart data={data.lines}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="x" tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {series.map((key) => (
+              <Line
+                key={key}
+                dataKey={key}
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+
+        {label("Heatmap")}
+        <ChartContainer config={{}} className="aspect-auto h-48">
+          <BarChart
+            data={heatRows}
+            layout="vertical"
+            barCategoryGap={1}
+            margin={{ left: 0, right: 0 }}
+          >
+            <XAxis type="number" hide domain={[0, HEATMAP_COLS]} />
+            <YAxis
+              type="category"
+              dataKey="row"
+              tickLine={false}
+              axisLine={false}
+              width={28}
+            />
+            {data.heat[0].map((_, c) => (
+              <Bar
+                key={c}
+                dataKey={`c${c}`}
+                stackId="heat"
+                stroke="var(--color-background)"
+                isAnimationActive={false}
+              >
+                {data.heat.map((cells, r) => (
+                  <Cell key={r} fill={heatColor(cells[c])} />
+                ))}
+              </Bar>
+            ))}
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+}
+
 // ─── Root export ──────────────────────────────────────────────────────────────
 
 export default function VisualizeView() {
@@ -660,6 +824,7 @@ export default function VisualizeView() {
       <TabBar active={activeTab} setActive={setActiveTab} />
       {activeTab === "oklch" && <OklchTab />}
       {activeTab === "p3" && <P3Tab />}
+      {activeTab === "charts" && <ChartsTab />}
     </div>
   );
 }
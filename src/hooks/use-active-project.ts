@@ -0,0 +1,12 @@
+import { useMemo } from "react";
+import { liveProject, useChromaStore } from "@/stores/chroma.store";
+import type { Project } from "@/types";
+
+/**
+ * The active project as currently edited. `projects` in the store only holds
+ * the active palette, scale and gradient as of the last switch.
+ */
+export function useActiveProject(): Project | undefined {
+  const state = useChromaStore();
+  return useMemo(() => liveProject(state), [state]);
+}
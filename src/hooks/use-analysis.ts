@@ -0,0 +1,39 @@
+import { type DependencyList, useEffect, useState } from "react";
+
+/**
+ * Runs an async analysis (usually a worker-pool call from @/lib/workers)
+ * whenever `deps` change. The last result stays in `data` while the next one
+ * is pending, and results that arrive after a newer run started are dropped.
+ */
+export function useAnalysis<T>(
+  run: () => Promise<T>,
+  deps: DependencyList,
+): { data: T | undefined; pending: boolean; error: Error | null } {
+  const [data, setData] = useState<T>();
+  const [pending, setPending] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let stale = false;
+    setPending(true);
+    run().then(
+      (result) => {
+        if (stale) return;
+        setData(result);
+        setError(null);
+        setPending(false);
+      },
+      (err) => {
+        if (stale) return;
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setPending(false);
+      },
+    );
+    return () => {
+      stale = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+
+  return { data, pending, error };
+}
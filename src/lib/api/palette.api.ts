@@ -0,0 +1,478 @@
+// palette.api.ts
+// Request schemas and handlers behind the /api/palette/* server routes.
+// Route files stay thin — they only bind these handlers to HTTP methods.
+
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import * as z from "zod";
+
+import { HARMONIES } from "@/lib/constants/chroma";
+import {
+  DELTA_E_METRIC_IDS,
+  PALETTE_EXPORT_FORMAT_IDS,
+  buildPaletteExport,
+  extractSourceColors,
+  genPalette,
+  hexToRgb,
+  nearestName,
+  newRngSeed,
+  parseHex,
+  rgbToHsl,
+  rgbToOklch,
+  scorePalette,
+  slotsFromHexes,
+} from "@/lib/utils";
+import type { HarmonyMode, PaletteSlot } from "@/types";
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const hexSchema = z
+  .string()
+  .refine((s) => parseHex(s) !== null, {
+    message: "Expected a hex color (#rgb, #rrggbb or #rrggbbaa)",
+  })
+  .transform((s) => parseHex(s)!.toLowerCase());
+
+const harmonySchema = z.enum(
+  HARMONIES.map((h) => h.id) as [HarmonyMode, ...HarmonyMode[]],
+);
+
+const gamutSchema = z.enum(["css", "chroma", "clip"]).default("css");
+
+const deltaESchema = z.enum(DELTA_E_METRIC_IDS);
+
+/** A palette color — either a bare hex string or `{ hex, name }` */
+const colorSchema = z.union([
+  hexSchema.transform((hex) => ({ hex, name: undefined })),
+  z.object({ hex: hexSchema, name: z.string().min(1).optional() }),
+]);
+
+export const generateRequestSchema = z.object({
+  mode: harmonySchema.default("analogous"),
+  count: z.number().int().min(2).max(12).default(5),
+  seeds: z.array(hexSchema).max(12).default([]),
+  seedMode: z.enum(["influence", "pin"]).default("influence"),
+  temperature: z.number().min(-1).max(1).default(0),
+  /** PRNG seed — omit for a fresh one; echoed back so results can be replayed */
+  rngSeed: z.number().int().min(0).max(0xffffffff).optional(),
+  /** How out-of-sRGB colors are mapped back in */
+  gamut: gamutSchema,
+});
+
+export const scoreRequestSchema = z.object({
+  colors: z.array(colorSchema).min(2).max(24),
+  /** ΔE formula for the uniqueness dimension */
+  metric: deltaESchema.default("ok"),
+});
+
+export const exportRequestSchema = z.object({
+  colors: z.array(colorSchema).min(1).max(24),
+  format: z.enum(PALETTE_EXPORT_FORMAT_IDS),
+  mode: harmonySchema.default("analogous"),
+  title: z.string().max(120).optional(),
+  gamut: gamutSchema,
+});
+
+/** Largest page, stylesheet or pasted source that will be scanned */
+const MAX_SOURCE_LENGTH = 2_000_000;
+
+export const extractRequestSchema = z
+  .object({
+    /** http(s) page, stylesheet or SVG to fetch — a page's stylesheets come too */
+    url: z.url({ protocol: /^https?$/ }).optional(),
+    /** CSS, HTML or SVG text to scan instead of fetching anything */
+    source: z.string().max(MAX_SOURCE_LENGTH).optional(),
+    /** ΔE formula and radius (in JNDs) for clustering near-duplicates */
+    metric: deltaESchema.default("ok"),
+    jnds: z.number().min(0).max(20).default(4),
+    limit: z.number().int().min(1).max(64).default(24),
+  })
+  .refine((b) => (b.url === undefined) !== (b.source === undefined), {
+    message: "Pass either url or source",
+    path: ["url"],
+  });
+
+export type GenerateRequest = z.infer<typeof generateRequestSchema>;
+export type ScoreRequest = z.infer<typeof scoreRequestSchema>;
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+export type ExtractRequest = z.infer<typeof extractRequestSchema>;
+
+// ─── Request parsing ──────────────────────────────────────────────────────────
+
+type Parsed<T> = { ok: true; data: T } | { ok: false; response: Response };
+
+/** Read + validate a JSON body. Failures come back as ready-to-send 400s. */
+async function parseBody<T extends z.ZodType>(
+  request: Request,
+  schema: T,
+): Promise<Parsed<z.infer<T>>> {
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    return {
+      ok: false,
+      response: Response.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 },
+      ),
+    };
+  }
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      ok: false,
+      response: Response.json(
+        {
+          error: "Invalid request body",
+          issues: result.error.issues.map((i) => ({
+            path: i.path.join("."),
+            message: i.message,
+          })),
+        },
+        { status: 400 },
+      ),
+    };
+  }
+  return { ok: true, data: result.data };
+}
+
+// ─── Serialisation ────────────────────────────────────────────────────────────
+
+function describeSlot(slot: PaletteSlot) {
+  const rgb = hexToRgb(slot.color.hex);
+  return {
+    hex: slot.color.hex,
+    name: slot.name ?? nearestName(rgb),
+    rgb,
+    hsl: rgbToHsl(rgb),
+    oklch: rgbToOklch(rgb),
+  };
+}
+
+// ─── Source fetching ──────────────────────────────────────────────────────────
+
+const FETCH_TIMEOUT_MS = 10_000;
+/** Stylesheets followed from one page — links and @imports combined */
+const MAX_STYLESHEETS = 12;
+/** Redirects followed per fetch — every hop is checked like the first URL */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Where a fetched URL may not lead: loopback, private, shared (CGNAT),
+ * link-local — cloud metadata lives at 169.254.169.254 — documentation,
+ * multicast and reserved ranges, plus IPv6 forms that embed an IPv4 address.
+ * Without this the route would probe the network the server runs in.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const)
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+for (const [network, prefix] of [
+  ["::", 127],
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const)
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+
+export interface FetchSourceOptions {
+  /** `host:port`s let through without the address check — local fixtures */
+  allowHosts?: string[];
+}
+
+/**
+ * Whether every address the URL's host resolves to is public. This is a
+ * lookup of its own, separate from fetch's, so a host that re-resolves in
+ * between (DNS rebinding) isn't caught.
+ */
+async function isPublicHost(url: URL, allowHosts: string[]): Promise<boolean> {
+  if (allowHosts.includes(url.host)) return true;
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  const addresses = family
+    ? [{ address: host, family }]
+    : await lookup(host, { all: true, verbatim: true }).catch(() => []);
+  return (
+    addresses.length > 0 &&
+    !addresses.some(({ address, family }) =>
+      BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"),
+    )
+  );
+}
+
+/** Network failures are reported without details — they'd map the network */
+const fetchFailure = (url: string, err: unknown) =>
+  new Error(
+    err instanceof Error && err.name === "TimeoutError"
+      ? `${url} timed out`
+      : `Could not fetch ${url}`,
+  );
+
+/**
+ * The body as text, read in chunks so an oversized response is dropped at
+ * MAX_SOURCE_LENGTH instead of buffered whole — not every server sends a
+ * content-length.
+ */
+async function readCapped(res: Response, url: string): Promise<string> {
+  const tooLarge = new Error(`${url} is too large to scan`);
+  if (Number(res.headers.get("content-length")) > MAX_SOURCE_LENGTH) {
+    await res.body?.cancel();
+    throw tooLarge;
+  }
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  for (;;) {
+    const chunk = await reader.read().catch((err: unknown) => {
+      throw fetchFailure(url, err);
+    });
+    if (chunk.done) return text + decoder.decode();
+    text += decoder.decode(chunk.value, { stream: true });
+    if (text.length > MAX_SOURCE_LENGTH) {
+      await reader.cancel();
+      throw tooLarge;
+    }
+  }
+}
+
+/**
+ * Fetch a public http(s) URL as text. Redirects are followed by hand so
+ * each hop's host goes through the same address check; the final URL comes
+ * back as the base for relative links.
+ */
+async function fetchText(
+  url: string,
+  { allowHosts = [] }: FetchSourceOptions = {},
+): Promise<{ text: string; url: string }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = new URL(url);
+  for (let hop = 0; ; hop++) {
+    if (!/^https?:$/.test(current.protocol))
+      throw new Error(`${url} redirects to a non-http(s) URL`);
+    if (!(await isPublicHost(current, allowHosts)))
+      throw new Error(
+        hop
+          ? `${url} redirects to a private or unresolvable host`
+          : `${url} is a private or unresolvable host`,
+      );
+    let res: Response;
+    try {
+      res = await fetch(current, {
+        signal,
+        redirect: "manual",
+        headers: { accept: "text/html,text/css,image/svg+xml,*/*;q=0.5" },
+      });
+    } catch (err) {
+      throw fetchFailure(url, err);
+    }
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      await res.body?.cancel();
+      if (hop >= MAX_REDIRECTS) throw new Error(`${url} redirects too often`);
+      current = new URL(location, current);
+      continue;
+    }
+    if (!res.ok) throw new Error(`${url} responded ${res.status}`);
+    return { text: await readCapped(res, url), url: current.href };
+  }
+}
+
+/** `<link rel="stylesheet" href>` and `@import` targets, resolved against `base` */
+function stylesheetUrls(text: string, base: string): string[] {
+  const hrefs: string[] = [];
+  for (const [tag] of text.matchAll(/<link\b[^>]*>/gi)) {
+    if (!/\brel\s*=\s*["']?[^"'>]*\bstylesheet\b/i.test(tag)) continue;
+    const m = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(tag);
+    if (m) hrefs.push(m[1] ?? m[2] ?? m[3]);
+  }
+  for (const m of text.matchAll(/@import\s+(?:url\(\s*)?["']?([^"')\s;]+)/gi))
+    hrefs.push(m[1]);
+  return hrefs.flatMap((href) => {
+    try {
+      const url = new URL(href.replace(/&amp;/g, "&"), base);
+      return /^https?:$/.test(url.protocol) ? [url.href] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * A page plus the stylesheets it links or imports, breadth first, up to
+ * MAX_STYLESHEETS. Only the page itself has to load — stylesheets that fail,
+ * private ones included, are reported, not fatal.
+ */
+export async function fetchSource(
+  url: string,
+  options: FetchSourceOptions = {},
+) {
+  const page = await fetchText(url, options);
+  const queue = stylesheetUrls(page.text, page.url);
+  const fetched = [url];
+  const failed: string[] = [];
+  const texts = [page.text];
+  const seen = new Set(fetched);
+  while (queue.length && seen.size <= MAX_STYLESHEETS) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    try {
+      const css = await fetchText(next, options);
+      texts.push(css.text);
+      fetched.push(next);
+      queue.push(...stylesheetUrls(css.text, css.url));
+    } catch {
+      failed.push(next);
+    }
+  }
+  return { text: texts.join("\n"), fetched, failed };
+}
+
+// ─── Handlers ─────────────────────────────────────────────────────────────────
+
+export function generate(body: GenerateRequest) {
+  const seeds = body.seeds.map((hex) => rgbToHsl(hexToRgb(hex)));
+  const rngSeed = body.rngSeed ?? newRngSeed();
+  const colors = genPalette(
+    body.mode,
+    body.count,
+    seeds.length ? seeds : null,
+    body.seedMode,
+    body.temperature,
+    rngSeed,
+    body.gamut,
+  );
+  const slots = slotsFromHexes(colors.map((c) => ({ hex: c.hex })));
+  return {
+    mode: body.mode,
+    count: body.count,
+    rngSeed,
+    colors: slots.map((slot, i) => ({
+      ...describeSlot(slot),
+      outOfGamut: !!colors[i].outOfGamut,
+    })),
+  };
+}
+
+export function score(body: ScoreRequest) {
+  const slots = slotsFromHexes(body.colors);
+  return {
+    colors: slots.map(describeSlot),
+    score: scorePalette(slots, body.metric),
+  };
+}
+
+export function exportPalette(body: ExportRequest) {
+  const slots = slotsFromHexes(body.colors);
+  return {
+    format: body.format,
+    ...buildPaletteExport(body.format, slots, {
+      mode: body.mode,
+      title: body.title,
+      gamut: body.gamut,
+    }),
+  };
+}
+
+export async function extract(body: ExtractRequest) {
+  const { text, fetched, failed } = body.url
+    ? await fetchSource(body.url)
+    : { text: body.source ?? "", fetched: [], failed: [] };
+  const found = extractSourceColors(text, {
+    metric: body.metric,
+    jnds: body.jnds,
+  });
+  const top = found.slice(0, body.limit);
+  const slots = slotsFromHexes(top.map((c) => ({ hex: c.hex })));
+  return {
+    url: body.url ?? null,
+    fetched,
+    failed,
+    literals: found.reduce((n, c) => n + c.count, 0),
+    colors: slots.map((slot, i) => ({
+      ...describeSlot(slot),
+      count: top[i].count,
+      share: top[i].share,
+      literals: top[i].literals,
+    })),
+  };
+}
+
+// ─── Route handlers ───────────────────────────────────────────────────────────
+
+export async function handleGenerate(request: Request): Promise<Response> {
+  const parsed = await parseBody(request, generateRequestSchema);
+  if (!parsed.ok) return parsed.response;
+  return Response.json(generate(parsed.data));
+}
+
+export async function handleScore(request: Request): Promise<Response> {
+  const parsed = await parseBody(request, scoreRequestSchema);
+  if (!parsed.ok) return parsed.response;
+  return Response.json(score(parsed.data));
+}
+
+export async function handleExport(request: Request): Promise<Response> {
+  const parsed = await parseBody(request, exportRequestSchema);
+  if (!parsed.ok) return parsed.response;
+  return Response.json(exportPalette(parsed.data));
+}
+
+export async function handleExtract(request: Request): Promise<Response> {
+  const parsed = await parseBody(request, extractRequestSchema);
+  if (!parsed.ok) return parsed.response;
+  try {
+    return Response.json(await extract(parsed.data));
+  } catch (err) {
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Extraction failed" },
+      { status: 502 },
+    );
+  }
+}
+
+/** Endpoint index served from GET /api/palette */
+export const PALETTE_API_ENDPOINTS = [
+  {
+    method: "POST",
+    path: "/api/palette/generate",
+    description: "Generate a palette from a harmony mode and optional seeds",
+  },
+  {
+    method: "POST",
+    path: "/api/palette/score",
+    description: "Score a palette for balance, accessibility and harmony",
+  },
+  {
+    method: "POST",
+    path: "/api/palette/export",
+    description: `Export a palette as one of: ${PALETTE_EXPORT_FORMAT_IDS.join(", ")}`,
+  },
+  {
+    method: "POST",
+    path: "/api/palette/extract",
+    description:
+      "Rank the color literals in pasted CSS / HTML / SVG or a fetched page",
+  },
+] as const;
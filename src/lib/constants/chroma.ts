@@ -1,4 +1,10 @@
-import type { HarmonyDef, ThemeDef, CBType, GradientPreset } from "@/types";
+import type {
+  HarmonyDef,
+  ThemeDef,
+  CBType,
+  GradientPreset,
+  ScaleDefinition,
+} from "@/types";
 import { hexToRgb } from "@/lib/utils";
 import ColorNames from "./named-colors/color-names.json";
 
@@ -81,6 +87,21 @@ export const HARMONIES: HarmonyDef[] = [
     label: "Matsuda T",
     desc: "Half-wheel dominance — warm or cool palette.",
   },
+  {
+    id: "categorical",
+    label: "Categorical",
+    desc: "Chart series — maximises the closest pair's ΔE, including under color blindness.",
+  },
+  {
+    id: "sequential",
+    label: "Sequential",
+    desc: "Ordered data — one hue, strictly light to dark.",
+  },
+  {
+    id: "diverging",
+    label: "Diverging",
+    desc: "Data around a midpoint — two hues meeting at a neutral center.",
+  },
 ];
 
 // ─── Themes ───────────────────────────────────────────────────────────────────
@@ -569,37 +590,140 @@ export const CB_TYPES: CBType[] = [
     id: "normal",
     name: "Normal Vision",
     desc: "Full color perception",
-    matrix: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+    cvd: null,
   },
   {
-    id: "deuteranopia",
-    name: "Deuteranopia",
-    desc: "Green-blind · ~6% of males",
-    matrix: [0.367, 0.861, -0.228, 0.28, 0.673, 0.047, -0.012, 0.043, 0.969],
+    id: "protan",
+    name: "Protan",
+    desc: "Red-weak to red-blind · ~2% of males",
+    cvd: "protan",
+    graded: true,
   },
   {
-    id: "protanopia",
-    name: "Protanopia",
-    desc: "Red-blind · ~2% of males",
-    matrix: [0.152, 1.053, -0.205, 0.115, 0.786, 0.099, -0.004, -0.048, 1.052],
+    id: "deutan",
+    name: "Deutan",
+    desc: "Green-weak to green-blind · ~6% of males",
+    cvd: "deutan",
+    graded: true,
   },
   {
-    id: "tritanopia",
-    name: "Tritanopia",
-    desc: "Blue-yellow blind · ~0.01%",
-    matrix: [1.256, -0.077, -0.179, -0.079, 0.931, 0.148, 0.005, 0.691, 0.304],
+    id: "tritan",
+    name: "Tritan",
+    desc: "Blue-yellow · ~0.01%",
+    cvd: "tritan",
+    graded: true,
   },
   {
     id: "achromatopsia",
     name: "Achromatopsia",
-    desc: "Complete color blindness · very rare",
-    matrix: [0.299, 0.587, 0.114, 0.299, 0.587, 0.114, 0.299, 0.587, 0.114],
+    desc: "Rod monochromacy · very rare",
+    cvd: "achromat",
+  },
+  {
+    id: "bcm",
+    name: "Blue-cone monochromacy",
+    desc: "S cones only · ~1 in 100,000",
+    cvd: "bcm",
+  },
+];
+
+// ─── Scale Presets ────────────────────────────────────────────────────────────
+// The first entry is the default for generateScale(). Positions run 0 (lightest)
+// → 1 (darkest); contrast targets re-anchor the lightness curve at their step.
+
+const TAILWIND_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+// Quadratic ease-out (2u − u²) as a cubic Bézier
+const EASE_OUT = {
+  kind: "bezier",
+  x1: 1 / 3,
+  y1: 2 / 3,
+  x2: 2 / 3,
+  y2: 1,
+} as const;
+// The original 4t(1 − t) tent, × (1.1 − 0.3·|t − 0.4|) to favour step 400
+const TAILWIND_CHROMA = {
+  peak: 0.5,
+  boost: 1.1,
+  curve: EASE_OUT,
+  focus: 0.4,
+  falloff: 0.3,
+};
+
+export const SCALE_PRESETS: ScaleDefinition[] = [
+  {
+    id: "tailwind",
+    label: "Tailwind",
+    steps: TAILWIND_STEPS,
+    positions: TAILWIND_STEPS.map((s) => s / 1000),
+    lightness: {
+      max: 0.97,
+      min: 0.1,
+      curve: { kind: "power", exponent: 0.85 },
+    },
+    chroma: TAILWIND_CHROMA,
+    hueDrift: 0,
+    pin: null,
+  },
+  {
+    id: "radix",
+    label: "Radix",
+    steps: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+    positions: [
+      0.01, 0.03, 0.07, 0.11, 0.16, 0.22, 0.3, 0.42, 0.55, 0.62, 0.78, 0.92,
+    ],
+    lightness: { max: 0.995, min: 0.2, curve: { kind: "power", exponent: 1 } },
+    chroma: { peak: 0.55, boost: 1, curve: EASE_OUT },
+    hueDrift: 0,
+    pin: 9,
+    contrastTargets: [
+      { step: 11, ratio: 4.5, against: "white" },
+      { step: 12, ratio: 13, against: "white" },
+    ],
+  },
+  {
+    id: "material",
+    label: "Material",
+    steps: [50, 100, 200, 300, 400, 500, 600, 700, 800, 900],
+    positions: [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9],
+    lightness: { max: 0.97, min: 0.22, curve: { kind: "power", exponent: 1 } },
+    chroma: { peak: 0.5, boost: 1, curve: EASE_OUT },
+    hueDrift: -6,
+    pin: 500,
+  },
+  {
+    id: "wcag",
+    label: "WCAG",
+    steps: TAILWIND_STEPS,
+    positions: TAILWIND_STEPS.map((s) => s / 1000),
+    lightness: {
+      max: 0.97,
+      min: 0.1,
+      curve: { kind: "power", exponent: 0.85 },
+    },
+    chroma: TAILWIND_CHROMA,
+    hueDrift: 0,
+    pin: null,
+    contrastTargets: [
+      { step: 100, ratio: 16, against: "black" },
+      { step: 400, ratio: 3, against: "white" },
+      { step: 500, ratio: 4.5, against: "white" },
+      { step: 700, ratio: 7, against: "white" },
+    ],
   },
   {
-    id: "deuteranomaly",
-    name: "Deuteranomaly",
-    desc: "Reduced green sensitivity · ~5% of males",
-    matrix: [0.531, 0.566, -0.097, 0.176, 0.764, 0.06, -0.004, 0.04, 0.964],
+    id: "aa-500",
+    label: "AA @ 500",
+    steps: TAILWIND_STEPS,
+    positions: TAILWIND_STEPS.map((s) => s / 1000),
+    lightness: {
+      max: 0.97,
+      min: 0.1,
+      curve: { kind: "power", exponent: 0.85 },
+    },
+    chroma: TAILWIND_CHROMA,
+    hueDrift: 0,
+    pin: null,
+    anchor: { metric: "wcag", target: 4.5, distance: 500 },
   },
 ];
 
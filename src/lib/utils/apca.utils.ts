@@ -0,0 +1,192 @@
+// apca.utils.ts
+// APCA-W3 0.0.98G-4g (Accessible Perceptual Contrast Algorithm) and its font
+// size/weight lookup table. Reference implementation and table:
+// https://github.com/Myndex/apca-w3 — re-exported from color-math.ts.
+
+import type { RGB } from "@/types";
+
+// ─── Constants (0.0.98G-4g) ───────────────────────────────────────────────────
+
+const MAIN_TRC = 2.4;
+const S_RCO = 0.2126729,
+  S_GCO = 0.7151522,
+  S_BCO = 0.072175;
+
+const NORM_BG = 0.56,
+  NORM_TXT = 0.57,
+  REV_TXT = 0.62,
+  REV_BG = 0.65;
+
+/** Soft clamp for near-black — lifts flare-dominated darks */
+const BLK_THRS = 0.022,
+  BLK_CLMP = 1.414;
+
+const SCALE_BOW = 1.14,
+  SCALE_WOB = 1.14,
+  LO_BOW_OFFSET = 0.027,
+  LO_WOB_OFFSET = 0.027;
+
+/** Luminance difference below which contrast is zero */
+const DELTA_Y_MIN = 0.0005;
+/** Low-contrast clip — anything under Lc 10 reports 0 */
+const LO_CLIP = 0.1;
+
+// ─── Algorithm ────────────────────────────────────────────────────────────────
+
+/** APCA screen luminance (Ys) — a simple 2.4 exponent, not the piecewise sRGB curve */
+export function apcaLuminance({ r, g, b }: RGB): number {
+  return (
+    S_RCO * (r / 255) ** MAIN_TRC +
+    S_GCO * (g / 255) ** MAIN_TRC +
+    S_BCO * (b / 255) ** MAIN_TRC
+  );
+}
+
+const softClamp = (Y: number) =>
+  Y > BLK_THRS ? Y : Y + (BLK_THRS - Y) ** BLK_CLMP;
+
+/**
+ * APCA Lc of text `fg` on background `bg`, rounded to a whole number.
+ * Positive = dark text on light bg; negative = light text on dark bg.
+ * Use Math.abs(apcaContrast(fg, bg)) for the magnitude.
+ *
+ * Interpretation (magnitude):
+ *   ≥ 90 → Preferred for body text columns
+ *   ≥ 75 → Minimum for body text columns
+ *   ≥ 60 → Other content text
+ *   ≥ 45 → Large text and headlines
+ *   ≥ 30 → Spot-readable text, placeholders, non-text UI
+ *   ≥ 15 → Non-semantic non-text (dividers) — never text
+ */
+export function apcaContrast(fg: RGB, bg: RGB): number {
+  const txtY = softClamp(apcaLuminance(fg));
+  const bgY = softClamp(apcaLuminance(bg));
+  if (Math.abs(bgY - txtY) < DELTA_Y_MIN) return 0;
+
+  let out: number;
+  if (bgY > txtY) {
+    // Dark text on light bg (normal polarity)
+    const sapc = (bgY ** NORM_BG - txtY ** NORM_TXT) * SCALE_BOW;
+    out = sapc < LO_CLIP ? 0 : sapc - LO_BOW_OFFSET;
+  } else {
+    // Light text on dark bg (reverse polarity)
+    const sapc = (bgY ** REV_BG - txtY ** REV_TXT) * SCALE_WOB;
+    out = sapc > -LO_CLIP ? 0 : sapc + LO_WOB_OFFSET;
+  }
+  // Math.round maps -0.4 to -0; keep a plain zero
+  return Math.round(out * 100) || 0;
+}
+
+// ─── Levels ───────────────────────────────────────────────────────────────────
+
+export type ApcaLevel =
+  | "Preferred"
+  | "Body"
+  | "Content"
+  | "Large"
+  | "Spot"
+  | "Non-text"
+  | "Fail";
+
+export const APCA_LEVELS: { level: ApcaLevel; min: number; desc: string }[] = [
+  { level: "Preferred", min: 90, desc: "Preferred for columns of body text" },
+  { level: "Body", min: 75, desc: "Minimum for columns of body text" },
+  { level: "Content", min: 60, desc: "Content text that isn't body copy" },
+  { level: "Large", min: 45, desc: "Large text and headlines" },
+  { level: "Spot", min: 30, desc: "Spot text, placeholders, UI components" },
+  { level: "Non-text", min: 15, desc: "Dividers and other non-text only" },
+  { level: "Fail", min: 0, desc: "Not distinguishable enough for any use" },
+];
+
+export function apcaLevel(lc: number): ApcaLevel {
+  const mag = Math.abs(lc);
+  return APCA_LEVELS.find((l) => mag >= l.min)!.level;
+}
+
+// ─── Font lookup ──────────────────────────────────────────────────────────────
+// Minimum font size (px) per weight for each Lc, from apca-w3's
+// fontLookupAPCA table. 777 = non-text only, 999 = unusable at that Lc.
+
+export const APCA_FONT_WEIGHTS = [
+  100, 200, 300, 400, 500, 600, 700, 800, 900,
+] as const;
+
+const NON_TEXT = 777;
+
+// prettier-ignore
+const FONT_MATRIX: [number, ...number[]][] = [
+  //Lc  100  200  300  400    500     600     700   800  900
+  [0,   999, 999, 999, 999,   999,    999,    999,  999, 999],
+  [10,  999, 999, 999, 999,   999,    999,    999,  999, 999],
+  [15,  777, 777, 777, 777,   777,    777,    777,  777, 777],
+  [20,  777, 777, 777, 777,   777,    777,    777,  777, 777],
+  [25,  777, 777, 777, 120,   120,    108,    96,   96,  96],
+  [30,  777, 777, 120, 108,   108,    96,     72,   72,  72],
+  [35,  777, 120, 108, 96,    72,     60,     48,   48,  48],
+  [40,  120, 108, 96,  60,    48,     42,     32,   32,  32],
+  [45,  108, 96,  72,  42,    32,     28,     24,   24,  24],
+  [50,  96,  72,  60,  32,    28,     24,     21,   21,  21],
+  [55,  80,  60,  48,  28,    24,     21,     18,   18,  18],
+  [60,  72,  48,  42,  24,    21,     18,     16,   16,  18],
+  [65,  68,  46,  32,  21.75, 19,     17,     15,   16,  18],
+  [70,  64,  44,  28,  19.5,  18,     16,     14.5, 16,  18],
+  [75,  60,  42,  24,  18,    16,     15,     14,   16,  18],
+  [80,  56,  38.25, 23, 17.25, 15.81, 14.81,  14,   16,  18],
+  [85,  52,  34.5, 22, 16.5,  15.625, 14.625, 14,   16,  18],
+  [90,  48,  32,  21,  16,    15.5,   14.5,   14,   16,  18],
+  [95,  45,  28,  19.5, 15.5, 15,     14,     13.5, 16,  18],
+  [100, 42,  26.5, 18.5, 15,  14.5,   13.5,   13,   16,  18],
+  [105, 39,  25,  18,  14.5,  14,     13,     12,   16,  18],
+  [110, 36,  24,  18,  14,    13,     12,     11,   16,  18],
+  [115, 34,  22.5, 17.5, 13.5, 12.5,  11.5,   10,   16,  18],
+  [120, 32,  21,  17,  13,    12,     11,     10,   16,  18],
+  [125, 30,  20,  16.5, 12.5, 11.5,   10.5,   10,   16,  18],
+];
+
+const weightColumn = (weight: number) =>
+  Math.min(9, Math.max(1, Math.round(weight / 100)));
+
+/**
+ * Minimum font size in px for a weight at this Lc, interpolated between table
+ * rows. `null` when the contrast is too low for text of that weight at all.
+ */
+export function apcaMinFontSize(lc: number, weight: number): number | null {
+  const mag = Math.min(125, Math.abs(lc));
+  const col = weightColumn(weight);
+  let i = FONT_MATRIX.findIndex((row) => row[0] > mag);
+  if (i === -1) i = FONT_MATRIX.length - 1;
+  const lo = FONT_MATRIX[i - 1],
+    hi = FONT_MATRIX[i];
+  if (lo[col] >= NON_TEXT) return null;
+  const t = (mag - lo[0]) / (hi[0] - lo[0]);
+  return Math.round((lo[col] + (hi[col] - lo[col]) * t) * 100) / 100;
+}
+
+/** Minimum size for every weight at this Lc */
+export function apcaFontTable(
+  lc: number,
+): { weight: (typeof APCA_FONT_WEIGHTS)[number]; minSize: number | null }[] {
+  return APCA_FONT_WEIGHTS.map((weight) => ({
+    weight,
+    minSize: apcaMinFontSize(lc, weight),
+  }));
+}
+
+/** Whether text at `size` px and `weight` is readable at this Lc */
+export function apcaFontCheck(
+  lc: number,
+  { size, weight }: { size: number; weight: number },
+): { pass: boolean; minSize: number | null } {
+  const minSize = apcaMinFontSize(lc, weight);
+  return { pass: minSize !== null && size >= minSize, minSize };
+}
+
+/** Lowest Lc at which `size` px / `weight` text is readable, or null if none */
+export function apcaMinContrast(spec: {
+  size: number;
+  weight: number;
+}): number | null {
+  for (let lc = 15; lc <= 125; lc++)
+    if (apcaFontCheck(lc, spec).pass) return lc;
+  return null;
+}
@@ -4,6 +4,8 @@
 
 import type {
   RGB,
+  OKLCH,
+  GamutMapMethod,
   UtilityRole,
   UtilityColorSet,
   ThemeTokenSet,
@@ -13,7 +15,7 @@ import {
   hexToRgb,
   rgbToHex,
   rgbToOklch,
-  oklchToRgb,
+  gamutMapOklch,
   contrastRatio,
   clamp,
   textColor,
@@ -49,6 +51,7 @@ import {
 export function deriveThemeTokens(
   slots: { color: { hex: string } }[],
   utility: UtilityColorSet,
+  gamut: GamutMapMethod = "css",
 ): ThemeTokenSet {
   if (!slots.length)
     return {
@@ -73,30 +76,40 @@ export function deriveThemeTokens(
   const dominantH = primaryLch.H;
   const tintC = clamp(primaryLch.C * 0.055, 0.005, 0.015);
 
+  // ── Gamut-mapped OKLCH → hex ─────────────────────────────────────────────
+  // Remembers mapped results so the tokens using them can be flagged below.
+  const mapped = new Set<string>();
+  function mk(lch: OKLCH): string {
+    const { rgb, inGamut } = gamutMapOklch(lch, gamut);
+    const hex = rgbToHex(rgb);
+    if (!inGamut) mapped.add(hex);
+    return hex;
+  }
+  function gamutFlags<K extends string>(entries: [K, string][]) {
+    const out = entries.filter(([, hex]) => mapped.has(hex)).map(([k]) => k);
+    return out.length ? out : undefined;
+  }
+
   // ── OKLCH neutral builder ─────────────────────────────────────────────────
   /** Near-neutral at target lightness, tinted with the palette's dominant hue.
    *  In dark mode, M3 uses tonal elevation (lighter = higher surface level). */
   function mkN(L: number, C = tintC, H = dominantH): string {
-    return rgbToHex(oklchToRgb({ L: clamp(L, 0.01, 0.995), C, H }));
+    return mk({ L: clamp(L, 0.01, 0.995), C, H });
   }
 
   // ── Primary brand tokens ─────────────────────────────────────────────────
   // Light mode: vivid, L≈0.30–0.38 so it reads well on near-white backgrounds
-  const primaryLight = rgbToHex(
-    oklchToRgb({
-      L: clamp(primaryLch.L, 0.26, 0.4),
-      C: clamp(primaryLch.C, 0.14, 0.3),
-      H: primaryLch.H,
-    }),
-  );
+  const primaryLight = mk({
+    L: clamp(primaryLch.L, 0.26, 0.4),
+    C: clamp(primaryLch.C, 0.14, 0.3),
+    H: primaryLch.H,
+  });
   // Dark mode: L≈0.70–0.82 for legibility on dark backgrounds
-  const primaryDark = rgbToHex(
-    oklchToRgb({
-      L: clamp(primaryLch.L + 0.36, 0.62, 0.82),
-      C: clamp(primaryLch.C * 0.88, 0.1, 0.28),
-      H: primaryLch.H,
-    }),
-  );
+  const primaryDark = mk({
+    L: clamp(primaryLch.L + 0.36, 0.62, 0.82),
+    C: clamp(primaryLch.C * 0.88, 0.1, 0.28),
+    H: primaryLch.H,
+  });
   // Foreground on primary: must always pass WCAG AA (4.5:1)
   // Near-white for light-mode primary, near-black for dark-mode primary
   const primaryFgLight = mkN(0.985, 0.004);
@@ -104,34 +117,26 @@ export function deriveThemeTokens(
 
   // ── Primary container tokens (M3 pattern: lighter/softer version for backgrounds) ──
   // Used for large sections, hero areas, secondary buttons
-  const primaryContainerLight = rgbToHex(
-    oklchToRgb({
-      L: 0.92,
-      C: clamp(primaryLch.C * 0.38, 0.03, 0.1),
-      H: primaryLch.H,
-    }),
-  );
-  const primaryContainerDark = rgbToHex(
-    oklchToRgb({
-      L: 0.24,
-      C: clamp(primaryLch.C * 0.35, 0.03, 0.09),
-      H: primaryLch.H,
-    }),
-  );
-  const primaryContainerFgLight = rgbToHex(
-    oklchToRgb({
-      L: 0.2,
-      C: clamp(primaryLch.C * 0.5, 0.06, 0.16),
-      H: primaryLch.H,
-    }),
-  );
-  const primaryContainerFgDark = rgbToHex(
-    oklchToRgb({
-      L: 0.88,
-      C: clamp(primaryLch.C * 0.45, 0.05, 0.14),
-      H: primaryLch.H,
-    }),
-  );
+  const primaryContainerLight = mk({
+    L: 0.92,
+    C: clamp(primaryLch.C * 0.38, 0.03, 0.1),
+    H: primaryLch.H,
+  });
+  const primaryContainerDark = mk({
+    L: 0.24,
+    C: clamp(primaryLch.C * 0.35, 0.03, 0.09),
+    H: primaryLch.H,
+  });
+  const primaryContainerFgLight = mk({
+    L: 0.2,
+    C: clamp(primaryLch.C * 0.5, 0.06, 0.16),
+    H: primaryLch.H,
+  });
+  const primaryContainerFgDark = mk({
+    L: 0.88,
+    C: clamp(primaryLch.C * 0.45, 0.05, 0.14),
+    H: primaryLch.H,
+  });
 
   // ── Secondary tokens ─────────────────────────────────────────────────────
   // shadcn: secondary = muted elevated surface (30% role in 60-30-10)
@@ -142,48 +147,44 @@ export function deriveThemeTokens(
 
   // ── Accent tokens ────────────────────────────────────────────────────────
   // Used for hover states, selected states, highlights — a tinted surface
-  const accentLight = rgbToHex(
-    oklchToRgb({
-      L: 0.935,
-      C: clamp(primaryLch.C * 0.38, 0.03, 0.11),
-      H: primaryLch.H,
-    }),
-  );
-  const accentDark = rgbToHex(
-    oklchToRgb({
-      L: 0.24,
-      C: clamp(primaryLch.C * 0.38, 0.03, 0.1),
-      H: primaryLch.H,
-    }),
-  );
+  const accentLight = mk({
+    L: 0.935,
+    C: clamp(primaryLch.C * 0.38, 0.03, 0.11),
+    H: primaryLch.H,
+  });
+  const accentDark = mk({
+    L: 0.24,
+    C: clamp(primaryLch.C * 0.38, 0.03, 0.1),
+    H: primaryLch.H,
+  });
   const accentFgLight = mkN(0.14);
   const accentFgDark = mkN(0.93);
 
   // ── Destructive = error utility ───────────────────────────────────────────
   const errLch = rgbToOklch(utility.error.color.rgb);
   // Light mode: saturated red, dark enough for white bg (L≈0.46)
-  const destructiveLight = rgbToHex(
-    oklchToRgb({
-      L: clamp(errLch.L, 0.42, 0.52),
-      C: clamp(errLch.C, 0.18, 0.28),
-      H: errLch.H,
-    }),
-  );
+  const destructiveLight = mk({
+    L: clamp(errLch.L, 0.42, 0.52),
+    C: clamp(errLch.C, 0.18, 0.28),
+    H: errLch.H,
+  });
   // Dark mode: lighter red for dark bg readability
-  const destructiveDark = rgbToHex(
-    oklchToRgb({
-      L: clamp(errLch.L + 0.12, 0.56, 0.72),
-      C: clamp(errLch.C * 0.88, 0.14, 0.26),
-      H: errLch.H,
-    }),
-  );
+  const destructiveDark = mk({
+    L: clamp(errLch.L + 0.12, 0.56, 0.72),
+    C: clamp(errLch.C * 0.88, 0.14, 0.26),
+    H: errLch.H,
+  });
   // Subtle destructive: for alert backgrounds
-  const destructiveSubtleLight = rgbToHex(
-    oklchToRgb({ L: 0.94, C: clamp(errLch.C * 0.28, 0.03, 0.08), H: errLch.H }),
-  );
-  const destructiveSubtleDark = rgbToHex(
-    oklchToRgb({ L: 0.18, C: clamp(errLch.C * 0.28, 0.03, 0.07), H: errLch.H }),
-  );
+  const destructiveSubtleLight = mk({
+    L: 0.94,
+    C: clamp(errLch.C * 0.28, 0.03, 0.08),
+    H: errLch.H,
+  });
+  const destructiveSubtleDark = mk({
+    L: 0.18,
+    C: clamp(errLch.C * 0.28, 0.03, 0.07),
+    H: errLch.H,
+  });
 
   // ── M3-style surface elevation tiers ─────────────────────────────────────
   // In light mode: surfaces get slightly darker as elevation rises
@@ -427,44 +428,49 @@ export function deriveThemeTokens(
     const darkLAdj = role === "warning" ? +0.04 : +0.08;
 
     // Light mode: darker/more saturated — readable on white
-    const light = rgbToHex(
-      oklchToRgb({
-        L: clamp(lch.L + lightLAdj, 0.34, 0.55),
-        C: clamp(lch.C * 1.05, 0.1, 0.26),
-        H: lch.H,
-      }),
-    );
+    const light = mk({
+      L: clamp(lch.L + lightLAdj, 0.34, 0.55),
+      C: clamp(lch.C * 1.05, 0.1, 0.26),
+      H: lch.H,
+    });
     // Dark mode: lighter — readable on dark surface
-    const dark = rgbToHex(
-      oklchToRgb({
-        L: clamp(lch.L + darkLAdj, 0.5, 0.78),
-        C: clamp(lch.C * 0.88, 0.08, 0.22),
-        H: lch.H,
-      }),
-    );
+    const dark = mk({
+      L: clamp(lch.L + darkLAdj, 0.5, 0.78),
+      C: clamp(lch.C * 0.88, 0.08, 0.22),
+      H: lch.H,
+    });
     // Subtle light: alert background — near-white with a tint of the role hue
-    const subtle = rgbToHex(
-      oklchToRgb({
-        L: 0.945,
-        C: clamp(lch.C * 0.3, 0.02, 0.07),
-        H: lch.H,
-      }),
-    );
+    const subtle = mk({
+      L: 0.945,
+      C: clamp(lch.C * 0.3, 0.02, 0.07),
+      H: lch.H,
+    });
     // Subtle dark: alert background in dark mode — near-dark with a tint of the role hue
     // Sits above the card surface (L≈0.11) so it's clearly a tinted surface, not flat black
-    const subtleDark = rgbToHex(
-      oklchToRgb({
-        L: 0.16,
-        C: clamp(lch.C * 0.32, 0.02, 0.08),
-        H: lch.H,
-      }),
-    );
+    const subtleDark = mk({
+      L: 0.16,
+      C: clamp(lch.C * 0.32, 0.02, 0.08),
+      H: lch.H,
+    });
 
     utilityTokens[role] = { base, light, dark, subtle, subtleDark };
+    const outOfGamut = gamutFlags([
+      ["light", light],
+      ["dark", dark],
+      ["subtle", subtle],
+      ["subtleDark", subtleDark],
+    ]);
+    if (outOfGamut) utilityTokens[role].outOfGamut = outOfGamut;
   }
 
   return {
-    semantic,
+    semantic: semantic.map((t) => {
+      const outOfGamut = gamutFlags([
+        ["light", t.light],
+        ["dark", t.dark],
+      ]);
+      return outOfGamut ? { ...t, outOfGamut } : t;
+    }),
     utility: utilityTokens,
     palette: semanticSlotNames(slots).map((name, i) => ({
       name,
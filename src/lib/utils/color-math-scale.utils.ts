@@ -5,6 +5,15 @@
 import type {
   RGB,
   HSL,
+  DeltaEMetric,
+  GamutMapMethod,
+  ScaleContrastAnchor,
+  ScaleContrastTarget,
+  ScaleDefinition,
+  ScaleEasing,
+  ScaleEntry,
+  ScalePairCheck,
+  ScaleStep,
   UtilityRole,
   UtilityColor,
   UtilityColorSet,
@@ -15,51 +24,392 @@ import {
   rgbToHsl,
   rgbToOklch,
   oklchToRgb,
+  gamutMapOklch,
   contrastRatio,
+  apcaContrast,
+  luminance,
   clamp,
-  colorDist,
+  DELTA_E_METRICS,
 } from "./color-math.utils";
+import { SCALE_PRESETS } from "@/lib/constants/chroma";
 
 // ─── Scale Generation ─────────────────────────────────────────────────────────
 
-const SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+/** Evaluate a ScaleEasing at t ∈ [0, 1] */
+export function easeScale(e: ScaleEasing, t: number): number {
+  t = clamp(t, 0, 1);
+  if (e.kind === "power") return Math.pow(t, e.exponent);
+  // Cubic Bézier from (0,0) to (1,1): find s with x(s) = t, return y(s)
+  const bez = (a: number, b: number, s: number) =>
+    3 * a * s * (1 - s) ** 2 + 3 * b * s * s * (1 - s) + s ** 3;
+  // x1 = 1/3, x2 = 2/3 make x(s) = s exactly — no search needed
+  if (e.x1 === 1 / 3 && e.x2 === 2 / 3) return bez(e.y1, e.y2, t);
+  let lo = 0,
+    hi = 1;
+  for (let i = 0; i < 24; i++) {
+    const mid = (lo + hi) / 2;
+    if (bez(e.x1, e.x2, mid) < t) lo = mid;
+    else hi = mid;
+  }
+  return bez(e.y1, e.y2, (lo + hi) / 2);
+}
+
+/** Step positions along the scale — explicit, or evenly spread over 0.05–0.95 */
+function stepPositions(def: ScaleDefinition): number[] {
+  const n = def.steps.length;
+  if (def.positions?.length === n) return def.positions;
+  return def.steps.map((_, i) => (n === 1 ? 0.5 : 0.05 + (0.9 * i) / (n - 1)));
+}
 
 /**
- * Generate a perceptually uniform tint/shade scale in OKLCH space.
- *
- * Lightness follows a smooth curve:
- *   L(t) = Lmax - (Lmax - Lmin) * t^γ   (γ ≈ 0.9 keeps midtones vivid)
- *
- * Chroma uses a tent curve — peaks at step 400–500 (vibrant midtones),
- * falls to 0 at the extremes (near-white and near-black are always neutral).
- *
- * Hue is held constant, which is exactly what OKLCH guarantees — no hue
- * drift as you lighten or darken (unlike HSL).
+ * Chroma envelope: 0 at both ends, `boost` at `peak`, eased in between and
+ * tapered by `falloff` away from `focus`. A peak at 0 or 1 leaves that side
+ * without a ramp — it sits at full strength.
+ */
+function chromaShape(def: ScaleDefinition, t: number): number {
+  const { peak, boost, curve, focus = peak, falloff = 0 } = def.chroma;
+  const u =
+    t <= peak ? (peak > 0 ? t / peak : 1) : peak < 1 ? (1 - t) / (1 - peak) : 1;
+  return (
+    Math.max(0, boost - falloff * Math.abs(t - focus)) * easeScale(curve, u)
+  );
+}
+
+const WHITE_RGB: RGB = { r: 255, g: 255, b: 255 };
+const BLACK_RGB: RGB = { r: 0, g: 0, b: 0 };
+
+/**
+ * Lightness at which OKLCH(L, C, H) reaches `ratio` against white (the
+ * lightest such L) or black (the darkest). Falls back to the extreme when
+ * the ratio is unreachable.
  */
-export function generateScale(hex: string) {
-  const base = rgbToOklch(hexToRgb(hex));
+function solveContrastL(
+  C: number,
+  H: number,
+  { ratio, against }: ScaleContrastTarget,
+  gamut: GamutMapMethod,
+): number {
+  const bg = against === "white" ? WHITE_RGB : BLACK_RGB;
+  const meets = (L: number) =>
+    contrastRatio(gamutMapOklch({ L, C, H }, gamut).rgb, bg) >= ratio;
+  let lo = 0,
+    hi = 1;
+  for (let i = 0; i < 24; i++) {
+    const mid = (lo + hi) / 2;
+    // Against white darker passes, so search for the lightest passing L
+    if (meets(mid) === (against === "white")) lo = mid;
+    else hi = mid;
+  }
+  return against === "white" ? lo : hi;
+}
+
+// ─── Contrast-anchored lightness ──────────────────────────────────────────────
+// Steps are placed in a "contrast space" where equal distances give roughly
+// equal contrast — ln(Y + 0.05) for WCAG (exact: the ratio is a difference
+// of logs) and Y^0.6 for APCA (approximate). Every anchor pair is held a gap
+// apart there, and the gap is searched against the real metric on the final
+// sRGB colors, so a passing result is guaranteed rather than estimated.
+
+/** Gaps tried, evenly up to the whole range, before bisecting the first pass */
+const GAP_SAMPLES = 16;
+
+/** Coordinates for step distances — the names when all numeric, else indices */
+function stepCoords(steps: ScaleStep[]): number[] {
+  return steps.every((s) => typeof s === "number")
+    ? (steps as number[])
+    : steps.map((_, i) => i);
+}
+
+/** WCAG ratio, or the weaker of the two APCA polarities */
+function pairContrast(a: RGB, b: RGB, metric: ScaleContrastAnchor["metric"]) {
+  return metric === "wcag"
+    ? contrastRatio(a, b)
+    : Math.min(Math.abs(apcaContrast(a, b)), Math.abs(apcaContrast(b, a)));
+}
+
+/** Each step paired with the nearest later step at least `distance` away */
+function anchorPairs(coords: number[], distance: number): [number, number][] {
+  const pairs: [number, number][] = [];
+  coords.forEach((c, i) => {
+    let best = -1;
+    coords.forEach((d, j) => {
+      if (d - c >= distance && (best < 0 || d < coords[best])) best = j;
+    });
+    if (best >= 0) pairs.push([i, best]);
+  });
+  return pairs;
+}
+
+/** Check every anchor pair of a generated scale */
+export function checkScalePairs(
+  scale: ScaleEntry[],
+  anchor: ScaleContrastAnchor,
+): ScalePairCheck[] {
+  const coords = stepCoords(scale.map((e) => e.step));
+  return anchorPairs(coords, anchor.distance).map(([i, j]) => {
+    const value = pairContrast(scale[i].rgb, scale[j].rgb, anchor.metric);
+    return {
+      from: scale[i].step,
+      to: scale[j].step,
+      value,
+      pass: value >= anchor.target,
+    };
+  });
+}
+
+/** Lightness at which OKLCH(L, C, H), gamut-mapped, has luminance Y */
+function solveLuminanceL(
+  C: number,
+  H: number,
+  Y: number,
+  gamut: GamutMapMethod,
+): number {
+  let lo = 0,
+    hi = 1;
+  for (let i = 0; i < 22; i++) {
+    const mid = (lo + hi) / 2;
+    if (luminance(gamutMapOklch({ L: mid, C, H }, gamut).rgb) < Y) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
 
-  // Lightness range: 0.97 (near white) → 0.10 (near black)
-  const Lmax = 0.97,
-    Lmin = 0.1;
-  // Chroma: use input chroma but cap to sRGB-safe range (~0.32)
-  const Cbase = Math.min(base.C, 0.32);
+/**
+ * Per-step lightness so that every anchor pair reaches the target. Steps
+ * follow a line through the pinned step (or the middle of the range), bent
+ * where it would leave a pair less than the gap apart — near the ends of the
+ * range, or next to the pin. The smallest gap that passes wins; when none
+ * does, the one whose weakest pair comes closest.
+ */
+function solveAnchoredLightness(
+  steps: ScaleStep[],
+  chromaAt: (i: number) => number,
+  hueAt: (i: number) => number,
+  anchor: ScaleContrastAnchor,
+  gamut: GamutMapMethod,
+  pin: { index: number; rgb: RGB } | null,
+): number[] {
+  const wcag = anchor.metric === "wcag";
+  const toZ = (Y: number) => (wcag ? Math.log(Y + 0.05) : Math.pow(Y, 0.6));
+  const fromZ = (z: number) =>
+    wcag ? Math.exp(z) - 0.05 : Math.pow(Math.max(0, z), 1 / 0.6);
+  const zTop = toZ(1),
+    zBot = toZ(0);
+
+  const coords = stepCoords(steps);
+  const pairs = anchorPairs(coords, anchor.distance);
+  const lo = Math.min(...coords),
+    hi = Math.max(...coords);
+  const zPivot = pin ? toZ(luminance(pin.rgb)) : (zTop + zBot) / 2;
+  const cPivot = pin ? coords[pin.index] : (lo + hi) / 2;
+  // Lightest to darkest — z never rises along this order
+  const order = coords.map((_, i) => i).sort((a, b) => coords[a] - coords[b]);
+
+  const layout = (gap: number) => {
+    const k = gap / anchor.distance;
+    // Lowest z each step can take and still fit every darker step below it
+    const floor: number[] = [];
+    order.reduceRight((below, i) => {
+      let f = below;
+      for (const [a, b] of pairs) if (a === i) f = Math.max(f, floor[b] + gap);
+      return (floor[i] = i === pin?.index ? zPivot : f);
+    }, zBot);
+    // Then lightest first: on the line, but under every lighter step by the
+    // gap and never below the floor
+    const z: number[] = [];
+    order.reduce((above, i) => {
+      let ceil = above;
+      for (const [a, b] of pairs)
+        if (b === i) ceil = Math.min(ceil, z[a] - gap);
+      const line = zPivot - k * (coords[i] - cPivot);
+      return (z[i] =
+        i === pin?.index
+          ? zPivot
+          : clamp(Math.min(ceil, Math.max(floor[i], line)), zBot, zTop));
+    }, zTop);
+    return z;
+  };
 
-  return SCALE_STEPS.map((step) => {
-    const t = step / 1000; // 0.05 → 0.95
+  const build = (gap: number) => {
+    const Ls = layout(gap).map((z, i) =>
+      solveLuminanceL(chromaAt(i), hueAt(i), fromZ(z), gamut),
+    );
+    const rgbs = Ls.map((L, i) =>
+      i === pin?.index
+        ? pin.rgb
+        : gamutMapOklch({ L, C: chromaAt(i), H: hueAt(i) }, gamut).rgb,
+    );
+    // Each pair as a fraction of the target — 1 or more passes
+    const shares = pairs.map(
+      ([i, j]) => pairContrast(rgbs[i], rgbs[j], anchor.metric) / anchor.target,
+    );
+    return {
+      Ls,
+      passing: shares.filter((v) => v >= 1).length,
+      worst: Math.min(...shares),
+    };
+  };
 
-    // Lightness: power curve (γ=0.85) for good visual spacing
-    const L = clamp(Lmax - (Lmax - Lmin) * Math.pow(t, 0.85), 0.02, 0.98);
+  // Passing isn't monotonic in the gap — past a point the pairs no longer
+  // fit the range — so sample upwards and bisect below the first pass.
+  // Failing that, most passing pairs, then the strongest weakest pair.
+  let closest = build(0);
+  let gLo = 0;
+  for (let s = 1; s <= GAP_SAMPLES; s++) {
+    const gap = ((zTop - zBot) * s) / GAP_SAMPLES;
+    const r = build(gap);
+    if (r.passing === pairs.length) {
+      let gHi = gap,
+        best = r;
+      for (let i = 0; i < 10; i++) {
+        const mid = (gLo + gHi) / 2;
+        const m = build(mid);
+        if (m.passing === pairs.length) {
+          gHi = mid;
+          best = m;
+        } else gLo = mid;
+      }
+      return best.Ls;
+    }
+    if (
+      r.passing > closest.passing ||
+      (r.passing === closest.passing && r.worst > closest.worst)
+    )
+      closest = r;
+    gLo = gap;
+  }
+  return closest.Ls;
+}
 
-    // Chroma tent: peaks at t=0.4 (step 400), zero at extremes
-    // Uses a smooth parabola: C(t) = Cbase * 4t(1-t) * scale
-    const chromaTent = 4 * t * (1 - t); // 0 at ends, 1 at t=0.5
-    const chromaScale = 1.1 - 0.3 * Math.abs(t - 0.4); // slightly favour step 400
-    const C = clamp(Cbase * chromaTent * chromaScale, 0, 0.37);
+/**
+ * Generate a tint/shade scale in OKLCH space from a ScaleDefinition
+ * (Tailwind-style 50–950 by default — see SCALE_PRESETS).
+ *
+ * Lightness eases from `max` to `min` along each step's position. A pinned
+ * step (holding the input color) and contrast-target steps act as anchors:
+ * between anchors, L is interpolated on the eased curve so the scale stays
+ * smooth while hitting every anchor exactly. With `def.anchor` set, the
+ * lightness curve is instead solved so step pairs reach a contrast target —
+ * see checkScalePairs() to report them.
+ *
+ * Chroma follows an eased envelope — zero at both ends (near-white and
+ * near-black stay neutral), peaking at `chroma.peak`. Hue holds the input
+ * hue, plus optional linear drift and per-step offsets around the input's
+ * position. Steps that land outside sRGB are brought back with `gamut` and
+ * flagged `inGamut: false`.
+ */
+export function generateScale(
+  hex: string,
+  gamut: GamutMapMethod = "css",
+  def: ScaleDefinition = SCALE_PRESETS[0],
+): ScaleEntry[] {
+  const inputRgb = hexToRgb(hex);
+  const base = rgbToOklch(inputRgb);
+  const { max: Lmax, min: Lmin, curve } = def.lightness;
+  const ts = stepPositions(def);
+  if (!ts.length) return [];
+  const ps = ts.map((t) => easeScale(curve, t));
+
+  // Input position: the pinned step, or the step closest in lightness
+  const curveL = (p: number) => Lmax - (Lmax - Lmin) * p;
+  const nearestIdx = ps.reduce(
+    (best, p, i) =>
+      Math.abs(curveL(p) - base.L) < Math.abs(curveL(ps[best]) - base.L)
+        ? i
+        : best,
+    0,
+  );
+  const pinIdx =
+    def.pin == null
+      ? -1
+      : def.pin === "auto"
+        ? nearestIdx
+        : def.steps.indexOf(def.pin);
+  const anchorIdx = pinIdx >= 0 ? pinIdx : nearestIdx;
+  const tAnchor = ts[anchorIdx];
+
+  // Chroma: input chroma (sRGB-safe cap) at the envelope peak, or rescaled
+  // so the pinned step carries the input chroma exactly
+  const pinShape = pinIdx >= 0 ? chromaShape(def, ts[pinIdx]) : 0;
+  const Cref =
+    pinIdx >= 0 && pinShape > 0 ? base.C / pinShape : Math.min(base.C, 0.32);
+  const chromaAt = (i: number) =>
+    clamp(Cref * chromaShape(def, ts[i]), 0, 0.37);
+  const hueAt = (i: number) =>
+    (((base.H + def.hueDrift * (ts[i] - tAnchor) + (def.hueOffsets?.[i] ?? 0)) %
+      360) +
+      360) %
+    360;
+
+  // Lightness anchors in eased-progress space
+  const anchors: { p: number; L: number }[] = [
+    { p: 0, L: Lmax },
+    { p: 1, L: Lmin },
+  ];
+  if (pinIdx >= 0) anchors.push({ p: ps[pinIdx], L: base.L });
+  // Contrast targets don't apply once the whole curve is contrast-anchored
+  const targets = new Map<number, ScaleContrastTarget>();
+  for (const target of def.anchor ? [] : (def.contrastTargets ?? [])) {
+    const i = def.steps.indexOf(target.step);
+    if (i < 0 || i === pinIdx) continue;
+    targets.set(i, target);
+    anchors.push({
+      p: ps[i],
+      L: solveContrastL(chromaAt(i), hueAt(i), target, gamut),
+    });
+  }
+  anchors.sort((a, b) => a.p - b.p);
+
+  const anchoredLs = def.anchor
+    ? solveAnchoredLightness(
+        def.steps,
+        chromaAt,
+        hueAt,
+        def.anchor,
+        gamut,
+        pinIdx >= 0 ? { index: pinIdx, rgb: inputRgb } : null,
+      )
+    : null;
+
+  const lightnessAt = (p: number) => {
+    const k = anchors.findIndex((a) => a.p >= p);
+    if (k <= 0) return anchors[Math.max(0, k)].L;
+    const a = anchors[k - 1],
+      b = anchors[k];
+    return b.p === a.p ? b.L : a.L + ((b.L - a.L) * (p - a.p)) / (b.p - a.p);
+  };
 
-    const rgb = oklchToRgb({ L, C, H: base.H });
+  return def.steps.map((step, i) => {
+    if (i === pinIdx) {
+      const hsl = rgbToHsl(inputRgb);
+      return {
+        step,
+        hex: rgbToHex(inputRgb),
+        rgb: inputRgb,
+        hsl,
+        inGamut: true,
+        pinned: true,
+      };
+    }
+    const L = anchoredLs
+      ? anchoredLs[i]
+      : clamp(lightnessAt(ps[i]), 0.02, 0.98);
+    const { rgb, inGamut } = gamutMapOklch(
+      { L, C: chromaAt(i), H: hueAt(i) },
+      gamut,
+    );
     const hsl = rgbToHsl(rgb);
-    return { step, hex: rgbToHex(rgb), rgb, hsl };
+    const entry: ScaleEntry = { step, hex: rgbToHex(rgb), rgb, hsl, inGamut };
+    const target = targets.get(i);
+    if (target)
+      entry.target = {
+        ...target,
+        achieved: contrastRatio(
+          rgb,
+          target.against === "white" ? WHITE_RGB : BLACK_RGB,
+        ),
+      };
+    return entry;
   });
 }
 
@@ -69,12 +419,13 @@ export interface PaletteScore {
   balance: number; // Hue spread 0–100
   accessibility: number; // % pairs passing AA
   harmony: number; // Saturation consistency 0–100
-  uniqueness: number; // Average OKLab distance 0–100
+  uniqueness: number; // Average pairwise ΔE in JNDs 0–100
   overall: number;
 }
 
 export function scorePalette(
   slots: { color: { hex: string } }[],
+  metric: DeltaEMetric = "ok",
 ): PaletteScore {
   if (slots.length < 2)
     return {
@@ -123,16 +474,20 @@ export function scorePalette(
   // Normalise: max expected deviation ~0.15 (wide range) → score 0
   const harmony = Math.round(Math.max(0, 100 - (chromaDev / 0.15) * 100));
 
-  // ── Uniqueness: average pairwise OKLab distance, normalised ─────────────
+  // ── Uniqueness: average pairwise ΔE, normalised ────────────────────────
+  // Measured in JNDs so every metric shares one scale — 10 JNDs apart on
+  // average scores 100 (matches the old OKLab × 500 under ΔEOK).
+  const { prepare, diff, jnd } = DELTA_E_METRICS[metric];
+  const coords = rgbs.map(prepare);
   let totalDist = 0,
     totalPairs = 0;
-  for (let i = 0; i < rgbs.length; i++)
-    for (let j = i + 1; j < rgbs.length; j++) {
-      totalDist += colorDist(rgbs[i], rgbs[j]);
+  for (let i = 0; i < coords.length; i++)
+    for (let j = i + 1; j < coords.length; j++) {
+      totalDist += diff(coords[i], coords[j]);
       totalPairs++;
     }
-  const avgDist = totalDist / totalPairs;
-  const uniqueness = Math.round(Math.min(100, avgDist * 500));
+  const avgJnd = totalDist / totalPairs / jnd;
+  const uniqueness = Math.round(Math.min(100, avgJnd * 10));
 
   const overall = Math.round(
     (balance + accessibility + harmony + uniqueness) / 4,
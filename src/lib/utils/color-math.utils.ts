@@ -1,4 +1,28 @@
-import type { CMYK, HSL, HSV, OKLCH, OKLab, PickerMode, RGB } from "@/types";
+import type {
+  CIELCH,
+  CIELab,
+  CMYK,
+  GamutMapMethod,
+  HSL,
+  HSV,
+  HWB,
+  OKLCH,
+  OKLab,
+  PickerMode,
+  RGB,
+  RGBFloat,
+  XYZ,
+} from "@/types";
+import { parseColor } from "./css-color.utils";
+import {
+  rgbToHwb,
+  rgbToLab,
+  rgbToLch,
+  rgbToLinearRgb,
+  rgbToP3,
+  rgbToRec2020,
+  rgbToXyz,
+} from "./color-space.utils";
 
 // ─── Utilities ────────────────────────────────────────────────────────────────
 
@@ -163,9 +187,11 @@ export function cmykToRgb({ c, m, y, k }: CMYK): RGB {
 // ─── OKLab / OKLCH ───────────────────────────────────────────────────────────
 
 export function rgbToOklab({ r, g, b }: RGB): OKLab {
-  const rl = toLinear(r / 255),
-    gl = toLinear(g / 255),
-    bl = toLinear(b / 255);
+  return linearToOklab(toLinear(r / 255), toLinear(g / 255), toLinear(b / 255));
+}
+
+/** Linear-light sRGB (0–1, unclamped) → OKLab */
+function linearToOklab(rl: number, gl: number, bl: number): OKLab {
   const l = Math.cbrt(
     0.4122214708 * rl + 0.5363325363 * gl + 0.0514459929 * bl,
   );
@@ -201,32 +227,28 @@ export function lchToOklab({ L, C, H }: OKLCH): OKLab {
 
 // ─── OKLab → linear RGB → sRGB (shared kernel) ────────────────────────────────
 
-export function oklabToRgb({ L, a, b }: OKLab): RGB {
+/** OKLab → linear-light sRGB, unclamped — out-of-gamut channels leave 0–1 */
+function oklabToLinear({ L, a, b }: OKLab): [number, number, number] {
   const l_ = L + 0.3963377774 * a + 0.2158037573 * b;
   const m_ = L - 0.1055613458 * a - 0.0638541728 * b;
   const s_ = L - 0.0894841775 * a - 1.291485548 * b;
   const l3 = l_ * l_ * l_,
     m3 = m_ * m_ * m_,
     s3 = s_ * s_ * s_;
-  const rl = clamp(
+  return [
     +4.0767416621 * l3 - 3.3077115913 * m3 + 0.2309699292 * s3,
-    0,
-    1,
-  );
-  const gl = clamp(
     -1.2684380046 * l3 + 2.6097574011 * m3 - 0.3413193965 * s3,
-    0,
-    1,
-  );
-  const bl = clamp(
     -0.0041960863 * l3 - 0.7034186147 * m3 + 1.707614701 * s3,
-    0,
-    1,
-  );
+  ];
+}
+
+/** OKLab → sRGB, clipping each channel to the gamut */
+export function oklabToRgb(lab: OKLab): RGB {
+  const [rl, gl, bl] = oklabToLinear(lab);
   return {
-    r: Math.round(fromLinear(rl) * 255),
-    g: Math.round(fromLinear(gl) * 255),
-    b: Math.round(fromLinear(bl) * 255),
+    r: Math.round(fromLinear(clamp(rl, 0, 1)) * 255),
+    g: Math.round(fromLinear(clamp(gl, 0, 1)) * 255),
+    b: Math.round(fromLinear(clamp(bl, 0, 1)) * 255),
   };
 }
 
@@ -239,66 +261,96 @@ export function rgbToOklch(rgb: RGB): OKLCH {
   return { L, C, H };
 }
 
-/** Convert OKLCH → sRGB, clamping out-of-gamut via chroma bisection (CSS Color 4 algorithm).
- *  Keeps hue and lightness stable; reduces C until the RGB result is in [0,255]. */
-export function oklchToRgb(lch: OKLCH): RGB {
-  // Shortcut: achromatic or L at extremes
-  if (lch.C < 0.0001) {
-    const v = Math.round(fromLinear(clamp(lch.L * lch.L * lch.L, 0, 1)) * 255);
-    return { r: clamp(v, 0, 255), g: clamp(v, 0, 255), b: clamp(v, 0, 255) };
-  }
-  if (lch.L >= 1) return { r: 255, g: 255, b: 255 };
-  if (lch.L <= 0) return { r: 0, g: 0, b: 0 };
-
-  const hRad = (lch.H * Math.PI) / 180;
-  const lab: OKLab = {
-    L: lch.L,
-    a: lch.C * Math.cos(hRad),
-    b: lch.C * Math.sin(hRad),
-  };
-  const rgb = oklabToRgb(lab);
-
-  // In gamut — return directly
-  if (
-    rgb.r >= 0 &&
-    rgb.r <= 255 &&
-    rgb.g >= 0 &&
-    rgb.g <= 255 &&
-    rgb.b >= 0 &&
-    rgb.b <= 255
-  ) {
-    return rgb;
+/** Convert OKLCH → sRGB, gamut-mapping out-of-sRGB colors (CSS Color 4 by default).
+ *  Use gamutMapOklch() when you also need to know whether mapping happened. */
+export function oklchToRgb(lch: OKLCH, method: GamutMapMethod = "css"): RGB {
+  return gamutMapOklch(lch, method).rgb;
+}
+
+// ─── Gamut mapping ────────────────────────────────────────────────────────────
+// CSS Color 4 §13.2: bisect chroma at constant L and H, but accept a clipped
+// result as soon as it sits within one just-noticeable difference (ΔEOK 0.02)
+// of the chroma-reduced color. That keeps more chroma than pure reduction
+// without the hue and lightness shifts of plain clipping.
+
+const GAMUT_JND = 0.02;
+const GAMUT_EPS = 0.0001;
+
+const lchLab = (L: number, C: number, H: number): OKLab => {
+  const hRad = (H * Math.PI) / 180;
+  return { L, a: C * Math.cos(hRad), b: C * Math.sin(hRad) };
+};
+
+function labInGamut(lab: OKLab): boolean {
+  return oklabToLinear(lab).every((v) => v >= -1e-6 && v <= 1 + 1e-6);
+}
+
+function clipLab(lab: OKLab): OKLab {
+  const [r, g, b] = oklabToLinear(lab).map((v) => clamp(v, 0, 1));
+  return linearToOklab(r, g, b);
+}
+
+const deltaEOK = (x: OKLab, y: OKLab) =>
+  Math.hypot(x.L - y.L, x.a - y.a, x.b - y.b);
+
+/** True when the OKLCH color is displayable in sRGB without mapping */
+export function isOklchInGamut({ L, C, H }: OKLCH): boolean {
+  return labInGamut(lchLab(L, C, H));
+}
+
+/**
+ * Bring an OKLCH color into sRGB.
+ *   css    — CSS Color 4 chroma bisection with a ΔEOK JND (default)
+ *   chroma — reduce chroma until strictly in gamut (most conservative)
+ *   clip   — clamp channels; may shift hue and lightness
+ * `inGamut` is false when the requested color had to be mapped.
+ */
+export function gamutMapOklch(
+  { L, C, H }: OKLCH,
+  method: GamutMapMethod = "css",
+): { rgb: RGB; inGamut: boolean } {
+  if (L >= 1) return { rgb: { r: 255, g: 255, b: 255 }, inGamut: L <= 1 };
+  if (L <= 0) return { rgb: { r: 0, g: 0, b: 0 }, inGamut: L >= 0 };
+
+  const origin = lchLab(L, C, H);
+  if (labInGamut(origin)) return { rgb: oklabToRgb(origin), inGamut: true };
+  if (method === "clip") return { rgb: oklabToRgb(origin), inGamut: false };
+
+  let lo = 0;
+  let hi = C;
+
+  if (method === "chroma") {
+    while (hi - lo > GAMUT_EPS) {
+      const mid = (lo + hi) / 2;
+      if (labInGamut(lchLab(L, mid, H))) lo = mid;
+      else hi = mid;
+    }
+    return { rgb: oklabToRgb(lchLab(L, lo, H)), inGamut: false };
   }
 
-  // Binary-search chroma reduction (CSS Color 4 §10.9 algorithm)
-  let lo = 0,
-    hi = lch.C;
-  const eps = 0.0001;
-  for (let i = 0; i < 32; i++) {
+  let clipped = clipLab(origin);
+  if (deltaEOK(clipped, origin) < GAMUT_JND)
+    return { rgb: oklabToRgb(clipped), inGamut: false };
+
+  let loInGamut = true;
+  while (hi - lo > GAMUT_EPS) {
     const mid = (lo + hi) / 2;
-    if (hi - lo < eps) break;
-    const midLab: OKLab = {
-      L: lch.L,
-      a: mid * Math.cos(hRad),
-      b: mid * Math.sin(hRad),
-    };
-    const t = oklabToRgb(midLab);
-    const inGamut =
-      t.r >= 0 &&
-      t.r <= 255 &&
-      t.g >= 0 &&
-      t.g <= 255 &&
-      t.b >= 0 &&
-      t.b <= 255;
-    if (inGamut) lo = mid;
-    else hi = mid;
+    const current = lchLab(L, mid, H);
+    if (loInGamut && labInGamut(current)) {
+      lo = mid;
+      continue;
+    }
+    clipped = clipLab(current);
+    const E = deltaEOK(clipped, current);
+    if (E < GAMUT_JND) {
+      if (GAMUT_JND - E < GAMUT_EPS) break;
+      loInGamut = false;
+      lo = mid;
+    } else {
+      hi = mid;
+    }
   }
-  const finalLab: OKLab = {
-    L: lch.L,
-    a: lo * Math.cos(hRad),
-    b: lo * Math.sin(hRad),
-  };
-  return oklabToRgb(finalLab);
+  return { rgb: oklabToRgb(clipped), inGamut: false };
 }
 
 // ─── Interpolate two colors in OKLab space (perceptually uniform) ─────────────
@@ -366,70 +418,6 @@ export function textColor(bg: RGB): string {
     : "#000000";
 }
 
-// ─── APCA Contrast (WCAG 3 / Accessible Perceptual Contrast Algorithm) ────────
-// Reference implementation: https://github.com/Myndex/apca-w3
-// Lc value scale: ≥60 = body text, ≥45 = large text, ≥30 = non-text UI
-// Positive = dark text on light bg; negative = light text on dark bg.
-
-function apcaSRGB(c: number): number {
-  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
-}
-
-/** APCA perceptual luminance (Ys) — uses APCA-specific exponent 2.4 */
-function apcaLuminance({ r, g, b }: RGB): number {
-  return (
-    0.2126729 * apcaSRGB(r / 255) +
-    0.7151522 * apcaSRGB(g / 255) +
-    0.072175 * apcaSRGB(b / 255)
-  );
-}
-
-/**
- * APCA Lc value — the Accessible Perceptual Contrast Algorithm.
- * Returns a signed value: positive = dark text on light bg, negative = light on dark.
- * Use Math.abs(apcaContrast(fg, bg)) for the magnitude.
- *
- * Interpretation (magnitude):
- *   ≥ 75 → Preferred body text (7pt–11pt)
- *   ≥ 60 → Minimum body text, preferred for non-critical content
- *   ≥ 45 → Large text (18pt+), UI components, input borders
- *   ≥ 30 → Non-text elements, icons, decorative
- *   < 30 → Insufficient for any meaningful visual distinction
- */
-export function apcaContrast(fg: RGB, bg: RGB): number {
-  const Yfg = apcaLuminance(fg);
-  const Ybg = apcaLuminance(bg);
-  const Ntxt = 0.57,
-    Nbg = 0.56,
-    Rtxt = 0.62,
-    Rbg = 0.65;
-  const scale = 1.14,
-    offset = 0.027;
-
-  let Sapc = 0;
-  if (Ybg > Yfg) {
-    // Dark text on light bg (positive Lc)
-    const Spl = Math.pow(Ybg, Nbg) - Math.pow(Yfg, Ntxt);
-    Sapc = Spl < 0.1 ? 0 : Spl * scale - offset;
-  } else {
-    // Light text on dark bg (negative Lc)
-    const Spl = Math.pow(Ybg, Rbg) - Math.pow(Yfg, Rtxt);
-    Sapc = Spl > -0.1 ? 0 : Spl * scale + offset;
-  }
-  return Math.round(Sapc * 100);
-}
-
-export type ApcaLevel = "Preferred" | "Body" | "Large" | "UI" | "Fail";
-
-export function apcaLevel(lc: number): ApcaLevel {
-  const mag = Math.abs(lc);
-  if (mag >= 75) return "Preferred";
-  if (mag >= 60) return "Body";
-  if (mag >= 45) return "Large";
-  if (mag >= 30) return "UI";
-  return "Fail";
-}
-
 // ─── Contrast Fix Suggestions ─────────────────────────────────────────────────
 
 /**
@@ -478,6 +466,7 @@ export function suggestContrastFix(
 
 // ─── Perceptual Distance ──────────────────────────────────────────────────────
 
+/** Euclidean OKLab distance — same as deltaE(a, b, "ok") */
 export function colorDist(a: RGB, b: RGB): number {
   const la = rgbToOklab(a),
     lb = rgbToOklab(b);
@@ -526,29 +515,9 @@ export function opaqueHex(hex: string): string {
   return "#" + c.slice(0, 6);
 }
 
-function parseRgbStr(s: string): RGB | null {
-  const m = s.match(/rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/);
-  if (!m) return null;
-  return {
-    r: clamp(Math.round(+m[1]), 0, 255),
-    g: clamp(Math.round(+m[2]), 0, 255),
-    b: clamp(Math.round(+m[3]), 0, 255),
-  };
-}
-
-function parseHslStr(s: string): RGB | null {
-  const m = s.match(/hsla?\(\s*([\d.]+)[,\s]\s*([\d.]+)%?[,\s]\s*([\d.]+)%?/);
-  if (!m) return null;
-  return hslToRgb({
-    h: +m[1] % 360,
-    s: clamp(+m[2], 0, 100),
-    l: clamp(+m[3], 0, 100),
-  });
-}
-
+/** Any CSS color string → sRGB. Use parseColor() to keep alpha and gamut info. */
 export function parseAny(s: string): RGB | null {
-  const h = parseHex(s);
-  return h ? hexToRgb(h) : parseRgbStr(s) || parseHslStr(s);
+  return parseColor(s)?.rgb ?? null;
 }
 
 // ─── Alpha-aware CSS string formatters ───────────────────────────────────────
@@ -614,6 +583,52 @@ export function toCssCmyk(cmyk: CMYK, alpha = 100): string {
     : `device-cmyk(${c}% ${m}% ${y}% ${k}% / ${fmtA(alpha)})`;
 }
 
+export function toCssHwb(hwb: HWB, alpha = 100): string {
+  const h = Math.round(hwb.h);
+  const w = Math.round(hwb.w);
+  const b = Math.round(hwb.b);
+  return alpha >= 100
+    ? `hwb(${h} ${w}% ${b}%)`
+    : `hwb(${h} ${w}% ${b}% / ${fmtA(alpha)})`;
+}
+
+/** CSS lab() is D50 — pass a D50 CIELab */
+export function toCssLab(lab: CIELab, alpha = 100): string {
+  const L = lab.L.toFixed(2);
+  const a = lab.a.toFixed(2);
+  const b = lab.b.toFixed(2);
+  return alpha >= 100
+    ? `lab(${L} ${a} ${b})`
+    : `lab(${L} ${a} ${b} / ${fmtA(alpha)})`;
+}
+
+export function toCssLch(lch: CIELCH, alpha = 100): string {
+  const L = lch.L.toFixed(2);
+  const C = lch.C.toFixed(2);
+  const H = lch.H.toFixed(2);
+  return alpha >= 100
+    ? `lch(${L} ${C} ${H})`
+    : `lch(${L} ${C} ${H} / ${fmtA(alpha)})`;
+}
+
+export type CssRgbSpace = "display-p3" | "rec2020" | "srgb-linear";
+
+/** color(<space> r g b) for the predefined RGB spaces, channels 0–1 */
+export function toCssColorFn(
+  space: CssRgbSpace,
+  c: RGBFloat,
+  alpha = 100,
+): string {
+  const body = `${space} ${c.r.toFixed(4)} ${c.g.toFixed(4)} ${c.b.toFixed(4)}`;
+  return alpha >= 100 ? `color(${body})` : `color(${body} / ${fmtA(alpha)})`;
+}
+
+/** color(xyz-d65 x y z) */
+export function toCssXyz(xyz: XYZ, alpha = 100): string {
+  const body = `xyz-d65 ${xyz.x.toFixed(4)} ${xyz.y.toFixed(4)} ${xyz.z.toFixed(4)}`;
+  return alpha >= 100 ? `color(${body})` : `color(${body} / ${fmtA(alpha)})`;
+}
+
 /** 8-char hex with alpha: #RRGGBBAA */
 export function toHexAlpha(hex: string, alpha: number): string {
   if (alpha >= 100) return hex;
@@ -623,25 +638,6 @@ export function toHexAlpha(hex: string, alpha: number): string {
   return `${hex}${aa}`;
 }
 
-// ─── Color Blindness Simulation ───────────────────────────────────────────────
-
-export function applySimMatrix(rgb: RGB, M: number[]): RGB {
-  const R = toLinear(rgb.r / 255),
-    G = toLinear(rgb.g / 255),
-    B = toLinear(rgb.b / 255);
-  return {
-    r: Math.round(
-      fromLinear(clamp(M[0] * R + M[1] * G + M[2] * B, 0, 1)) * 255,
-    ),
-    g: Math.round(
-      fromLinear(clamp(M[3] * R + M[4] * G + M[5] * B, 0, 1)) * 255,
-    ),
-    b: Math.round(
-      fromLinear(clamp(M[6] * R + M[7] * G + M[8] * B, 0, 1)) * 255,
-    ),
-  };
-}
-
 // ─── CSS output string for current mode ──────────────────────────────────────
 
 export function cssString(
@@ -667,6 +663,20 @@ export function cssString(
       return toCssOklab(oklab, alpha);
     case "cmyk":
       return toCssCmyk(cmyk, alpha);
+    case "hwb":
+      return toCssHwb(rgbToHwb(rgb), alpha);
+    case "lab":
+      return toCssLab(rgbToLab(rgb), alpha);
+    case "lch":
+      return toCssLch(rgbToLch(rgb), alpha);
+    case "xyz":
+      return toCssXyz(rgbToXyz(rgb), alpha);
+    case "p3":
+      return toCssColorFn("display-p3", rgbToP3(rgb), alpha);
+    case "rec2020":
+      return toCssColorFn("rec2020", rgbToRec2020(rgb), alpha);
+    case "linear":
+      return toCssColorFn("srgb-linear", rgbToLinearRgb(rgb), alpha);
   }
 }
 
@@ -688,3 +698,61 @@ export {
   semanticSlotNames,
   buildThemeCss,
 } from "./color-math-export.utils";
+export { parseColor } from "./css-color.utils";
+export {
+  rgbToLinearRgb,
+  linearRgbToRgb,
+  linearRgbToXyz,
+  xyzToLinearRgb,
+  rgbToXyz,
+  xyzToRgb,
+  xyzD65ToD50,
+  xyzD50ToD65,
+  xyzToLab,
+  labToXyz,
+  rgbToLab,
+  labToRgb,
+  labToLch,
+  lchToLab,
+  rgbToLch,
+  lchToRgb,
+  rgbToHwb,
+  hwbToRgb,
+  rgbToP3,
+  p3ToRgb,
+  rgbToRec2020,
+  rec2020ToRgb,
+} from "./color-space.utils";
+export {
+  DELTA_E_METRICS,
+  DELTA_E_METRIC_IDS,
+  deltaE,
+  deltaEJnd,
+  deltaECMC,
+  type DeltaEMetricDef,
+} from "./delta-e.utils";
+export {
+  APCA_FONT_WEIGHTS,
+  APCA_LEVELS,
+  apcaContrast,
+  apcaFontCheck,
+  apcaFontTable,
+  apcaLevel,
+  apcaLuminance,
+  apcaMinContrast,
+  apcaMinFontSize,
+  type ApcaLevel,
+} from "./apca.utils";
+export {
+  CVD_DICHROMACIES,
+  CVD_SAFE_DISTANCE,
+  cvdConflicts,
+  cvdLabel,
+  cvdMatrix,
+  simulateCvd,
+  simulateCvdHex,
+  simulateCvdPixels,
+  simulateCvdTokens,
+  suggestCvdNudge,
+  type CvdSafetyOptions,
+} from "./cvd.utils";
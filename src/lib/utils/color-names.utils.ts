@@ -0,0 +1,423 @@
+// color-names.utils.ts
+// Named-color dictionaries behind one index: exact hex lookup, nearest match
+// through a k-d tree in OKLab and fuzzy text search. Built in are the CSS
+// named colors and the bundled color-names list; users can add their own from
+// JSON, CSV/text or swatch files.
+
+import type {
+  ColorNameDictionary,
+  ColorNameMatch,
+  DeltaEMetric,
+  NamedColor,
+  RGB,
+} from "@/types";
+import {
+  DELTA_E_METRICS,
+  hexToRgb,
+  parseHex,
+  rgbToHex,
+  rgbToOklab,
+} from "./color-math.utils";
+import { CSS_NAMED_COLORS } from "./css-color.utils";
+import { parseSwatchFile } from "./swatch-file.utils";
+import { NAMED } from "@/lib/constants/chroma";
+
+// ─── Dictionaries ─────────────────────────────────────────────────────────────
+// Pantone, RAL and NCS names are trademarked and their published sRGB values
+// are licensed, so none ship here — teams with a license import their own.
+
+export const DEFAULT_NAME_DICTIONARIES = ["bundled"];
+
+let _builtins: ColorNameDictionary[] | null = null;
+let _custom: ColorNameDictionary[] = [];
+let _active: string[] = DEFAULT_NAME_DICTIONARIES;
+
+// Built lazily — NAMED is still uninitialised while the constants ↔ utils
+// import cycle resolves
+function builtinDictionaries(): ColorNameDictionary[] {
+  _builtins ??= [
+    {
+      id: "bundled",
+      label: "Color Names",
+      desc: `${NAMED.length.toLocaleString()} community-sourced names`,
+      colors: NAMED,
+    },
+    {
+      id: "css",
+      label: "CSS",
+      desc: "CSS Color 4 named colors",
+      colors: Object.entries(CSS_NAMED_COLORS).map(([name, hex]) => ({
+        name,
+        hex: `#${hex}`,
+      })),
+    },
+  ];
+  return _builtins;
+}
+
+/** Built-in dictionaries followed by the user's */
+export function colorNameDictionaries(): ColorNameDictionary[] {
+  return [...builtinDictionaries(), ..._custom];
+}
+
+/**
+ * Set which dictionaries nearestName() and searchColorNames() use, in
+ * priority order, and the user-imported ones. Unknown ids are ignored; an
+ * empty selection falls back to the defaults.
+ */
+export function configureColorNames({
+  active,
+  custom,
+}: {
+  active: string[];
+  custom: ColorNameDictionary[];
+}): void {
+  _custom = custom;
+  _active = active;
+}
+
+function activeDictionaries(ids = _active): ColorNameDictionary[] {
+  const all = colorNameDictionaries();
+  const picked = ids.flatMap((id) => all.filter((d) => d.id === id));
+  return picked.length
+    ? picked
+    : all.filter((d) => DEFAULT_NAME_DICTIONARIES.includes(d.id));
+}
+
+// ─── Index ────────────────────────────────────────────────────────────────────
+// One index per dictionary, built on first use: OKLab coordinates packed into
+// a Float64Array, an implicit balanced k-d tree over them (node = middle of
+// its range, split axis cycles L → a → b) and normalised names for search.
+
+interface NameIndex {
+  colors: NamedColor[];
+  /** Normalised hex → first entry with that color */
+  byHex: Map<string, number>;
+  lab: Float64Array;
+  tree: Int32Array;
+  keys: string[];
+}
+
+const _indexes = new WeakMap<ColorNameDictionary, NameIndex>();
+
+/** Lowercase, accents stripped, punctuation collapsed to single spaces */
+function normalizeName(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Partially sort tree[lo, hi) so position k holds its median on `axis` */
+function selectMedian(
+  tree: Int32Array,
+  lab: Float64Array,
+  lo: number,
+  hi: number,
+  k: number,
+  axis: number,
+): void {
+  const v = (i: number) => lab[tree[i] * 3 + axis];
+  const swap = (i: number, j: number) => {
+    const t = tree[i];
+    tree[i] = tree[j];
+    tree[j] = t;
+  };
+  let left = lo,
+    right = hi - 1;
+  while (right > left) {
+    const pivot = v((left + right) >> 1);
+    let i = left,
+      j = right;
+    while (i <= j) {
+      while (v(i) < pivot) i++;
+      while (v(j) > pivot) j--;
+      if (i <= j) swap(i++, j--);
+    }
+    if (k <= j) right = j;
+    else if (k >= i) left = i;
+    else break;
+  }
+}
+
+function buildKdTree(lab: Float64Array, n: number): Int32Array {
+  const tree = Int32Array.from({ length: n }, (_, i) => i);
+  const build = (lo: number, hi: number, depth: number) => {
+    if (hi - lo <= 1) return;
+    const mid = (lo + hi) >> 1;
+    selectMedian(tree, lab, lo, hi, mid, depth % 3);
+    build(lo, mid, depth + 1);
+    build(mid + 1, hi, depth + 1);
+  };
+  build(0, n, 0);
+  return tree;
+}
+
+function nameIndex(dictionary: ColorNameDictionary): NameIndex {
+  let index = _indexes.get(dictionary);
+  if (index) return index;
+  const colors = dictionary.colors;
+  const lab = new Float64Array(colors.length * 3);
+  const byHex = new Map<string, number>();
+  colors.forEach((c, i) => {
+    const hex = c.hex.toLowerCase();
+    if (!byHex.has(hex)) byHex.set(hex, i);
+    const { L, a, b } = rgbToOklab(hexToRgb(hex));
+    lab[i * 3] = L;
+    lab[i * 3 + 1] = a;
+    lab[i * 3 + 2] = b;
+  });
+  index = {
+    colors,
+    byHex,
+    lab,
+    tree: buildKdTree(lab, colors.length),
+    keys: colors.map((c) => normalizeName(c.name)),
+  };
+  _indexes.set(dictionary, index);
+  return index;
+}
+
+/** The k entries closest to `q` in OKLab, nearest first, as [entry, ΔEOK²] */
+function kdNearest(
+  { lab, tree }: NameIndex,
+  q: [number, number, number],
+  k: number,
+): [number, number][] {
+  const best: [number, number][] = [];
+  const visit = (lo: number, hi: number, depth: number) => {
+    if (lo >= hi) return;
+    const mid = (lo + hi) >> 1;
+    const p = tree[mid];
+    const d2 =
+      (q[0] - lab[p * 3]) ** 2 +
+      (q[1] - lab[p * 3 + 1]) ** 2 +
+      (q[2] - lab[p * 3 + 2]) ** 2;
+    if (best.length < k || d2 < best[best.length - 1][1]) {
+      let i = best.length;
+      while (i > 0 && best[i - 1][1] > d2) i--;
+      best.splice(i, 0, [p, d2]);
+      if (best.length > k) best.pop();
+    }
+    const axis = depth % 3;
+    const diff = q[axis] - lab[p * 3 + axis];
+    const [nearLo, nearHi, farLo, farHi] =
+      diff < 0 ? [lo, mid, mid + 1, hi] : [mid + 1, hi, lo, mid];
+    visit(nearLo, nearHi, depth + 1);
+    if (best.length < k || diff * diff < best[best.length - 1][1])
+      visit(farLo, farHi, depth + 1);
+  };
+  visit(0, tree.length, 0);
+  return best;
+}
+
+// ─── Nearest lookup ───────────────────────────────────────────────────────────
+
+/** Candidates pulled from the tree before re-ranking by a non-OKLab metric */
+const METRIC_CANDIDATES = 16;
+
+/**
+ * Closest names to a color across the active dictionaries (or `dictionaries`),
+ * nearest first. Distance is ΔEOK from the k-d tree; with a metric the tree's
+ * nearest few are re-ranked by that ΔE. Exact hex matches always come first,
+ * in dictionary priority order.
+ */
+export function nearestColorNames(
+  rgb: RGB,
+  {
+    count = 1,
+    metric,
+    dictionaries,
+  }: { count?: number; metric?: DeltaEMetric; dictionaries?: string[] } = {},
+): ColorNameMatch[] {
+  const hex = rgbToHex(rgb);
+  const { L, a, b } = rgbToOklab(rgb);
+  const def = metric ? DELTA_E_METRICS[metric] : null;
+  const q = def?.prepare(rgb);
+  const matches: ColorNameMatch[] = [];
+  const exact: ColorNameMatch[] = [];
+
+  for (const dictionary of activeDictionaries(dictionaries)) {
+    const index = nameIndex(dictionary);
+    if (!index.colors.length) continue;
+    const hit = index.byHex.get(hex);
+    if (hit !== undefined)
+      exact.push({ ...index.colors[hit], dictionary: dictionary.id, score: 0 });
+    const k = def ? Math.max(count, METRIC_CANDIDATES) : count;
+    for (const [i, d2] of kdNearest(index, [L, a, b], k)) {
+      if (i === hit) continue;
+      const c = index.colors[i];
+      matches.push({
+        name: c.name,
+        hex: c.hex,
+        dictionary: dictionary.id,
+        score: def ? def.diff(q!, def.prepare(hexToRgb(c.hex))) : Math.sqrt(d2),
+      });
+    }
+  }
+  // Stable sort keeps dictionary priority among equal distances
+  return [...exact, ...matches.sort((x, y) => x.score - y.score)].slice(
+    0,
+    count,
+  );
+}
+
+/**
+ * Closest named color from the active dictionaries. Without a metric the
+ * match is by ΔEOK (fast, used for live labels); pass a ΔE metric to re-rank
+ * the nearest candidates by it.
+ */
+export function nearestName(rgb: RGB, metric?: DeltaEMetric): string {
+  return nearestColorNames(rgb, { metric })[0]?.name ?? rgbToHex(rgb);
+}
+
+// ─── Text search ──────────────────────────────────────────────────────────────
+
+/** 0 = no match; otherwise higher is better */
+function matchScore(key: string, q: string, tokens: string[]): number {
+  if (!key) return 0;
+  // Shorter names win among equal kinds of match
+  const brevity = Math.max(0, 10 - (key.length - q.length) / 3);
+  if (key === q) return 100;
+  if (key.startsWith(q)) return 80 + brevity;
+  const words = key.split(" ");
+  if (tokens.every((t) => words.some((w) => w.startsWith(t))))
+    return 60 + brevity;
+  if (key.includes(q)) return 50 + brevity;
+  if (tokens.every((t) => key.includes(t))) return 40 + brevity;
+  // Subsequence: every query letter in order, fewer gaps is better
+  const letters = q.replace(/ /g, "");
+  let gaps = 0,
+    at = -1;
+  for (const ch of letters) {
+    const next = key.indexOf(ch, at + 1);
+    if (next < 0) return 0;
+    if (at >= 0 && next > at + 1) gaps++;
+    at = next;
+  }
+  return gaps > letters.length / 3 ? 0 : 20 - gaps + brevity / 2;
+}
+
+/**
+ * Fuzzy name search across the active dictionaries (or `dictionaries`):
+ * exact, prefix, word-prefix, substring and in-order letter matches, best
+ * first. Accents and punctuation are ignored.
+ */
+export function searchColorNames(
+  query: string,
+  {
+    limit = 20,
+    dictionaries,
+  }: { limit?: number; dictionaries?: string[] } = {},
+): ColorNameMatch[] {
+  const q = normalizeName(query);
+  if (!q) return [];
+  const tokens = q.split(" ");
+  const results: ColorNameMatch[] = [];
+  const seen = new Set<string>();
+  for (const dictionary of activeDictionaries(dictionaries)) {
+    const { colors, keys } = nameIndex(dictionary);
+    keys.forEach((key, i) => {
+      const score = matchScore(key, q, tokens);
+      if (!score) return;
+      const id = `${key}|${colors[i].hex.toLowerCase()}`;
+      if (seen.has(id)) return;
+      seen.add(id);
+      results.push({ ...colors[i], dictionary: dictionary.id, score });
+    });
+  }
+  return results.sort((x, y) => y.score - x.score).slice(0, limit);
+}
+
+// ─── User dictionaries ────────────────────────────────────────────────────────
+
+function entry(name: unknown, value: unknown): NamedColor | null {
+  if (typeof name !== "string" || typeof value !== "string") return null;
+  const hex = parseHex(value);
+  return name.trim() && hex
+    ? { name: name.trim(), hex: hex.toLowerCase() }
+    : null;
+}
+
+/**
+ * Named colors from text: a JSON array of {name, hex} (or `color`/`value`)
+ * objects or [name, hex] pairs, a JSON object of name → hex, or one entry
+ * per line as CSV/TSV or "name  #hex" in either order. Throws when nothing
+ * usable is found.
+ */
+export function parseColorNameList(text: string): NamedColor[] {
+  const trimmed = text.trim();
+  let colors: (NamedColor | null)[];
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const data: unknown = JSON.parse(trimmed);
+    colors = Array.isArray(data)
+      ? data.map((item) =>
+          Array.isArray(item)
+            ? entry(item[0], item[1])
+            : item && typeof item === "object"
+              ? entry(
+                  (item as Record<string, unknown>).name,
+                  (item as Record<string, unknown>).hex ??
+                    (item as Record<string, unknown>).color ??
+                    (item as Record<string, unknown>).value,
+                )
+              : null,
+        )
+      : Object.entries(data as Record<string, unknown>).map(([k, v]) =>
+          entry(k, v),
+        );
+  } else {
+    colors = trimmed.split(/\r?\n/).map((line) => {
+      const cells = line.split(/[,\t;]/).map((c) => c.trim());
+      if (cells.length > 1) {
+        // CSV/TSV — the first hex cell and the first other non-empty cell
+        const hex = cells.find((c) => parseHex(c));
+        const name = cells.find((c) => c && !parseHex(c));
+        return entry(name?.replace(/^["']|["']$/g, ""), hex);
+      }
+      const hex = /#[0-9a-f]{6}\b|#[0-9a-f]{3}\b|\b[0-9a-f]{6}\b/i.exec(line);
+      return hex
+        ? entry(line.replace(hex[0], " ").replace(/\s+/g, " "), hex[0])
+        : null;
+    });
+  }
+  const found = colors.filter((c): c is NamedColor => c !== null);
+  if (!found.length) throw new Error("No named colors found in the list");
+  return found;
+}
+
+const TEXT_LIST_EXTENSIONS = [".json", ".csv", ".tsv", ".txt"];
+
+/** A user dictionary from a text list or a swatch file (ASE, ACO, GPL…) */
+export async function importColorNameFile(
+  file: File,
+): Promise<ColorNameDictionary> {
+  const ext = file.name.toLowerCase().match(/\.[a-z]+$/)?.[0] ?? "";
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let colors: NamedColor[] | null = null;
+  if (TEXT_LIST_EXTENSIONS.includes(ext)) {
+    try {
+      colors = parseColorNameList(new TextDecoder().decode(bytes));
+    } catch (e) {
+      // A .json may still be a Procreate or Sketch palette
+      if (ext !== ".json") throw e;
+    }
+  }
+  if (!colors) {
+    const { slots } = await parseSwatchFile(bytes, file.name);
+    colors = slots.flatMap((s) =>
+      s.name ? [{ name: s.name, hex: s.color.hex }] : [],
+    );
+    if (!colors.length)
+      throw new Error("The swatches in this file have no names");
+  }
+  return {
+    id: `custom-${crypto.randomUUID()}`,
+    label: file.name.replace(/\.[^.]+$/, ""),
+    desc: `${colors.length} imported colors`,
+    colors,
+    custom: true,
+  };
+}
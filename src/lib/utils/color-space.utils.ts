@@ -0,0 +1,395 @@
+// color-space.utils.ts
+// CIE and wide-gamut color spaces — linear sRGB, XYZ (D65/D50), CIELAB and
+// LCh (D50/D65), HWB, Display-P3 and Rec.2020. The Vec3 kernels are shared
+// with the CSS color parser; the typed converters below them are re-exported
+// from color-math.ts.
+
+import type {
+  CIELCH,
+  CIELab,
+  DisplayP3,
+  HWB,
+  Illuminant,
+  LinearRGB,
+  RGB,
+  RGBFloat,
+  Rec2020,
+  XYZ,
+} from "@/types";
+import { clamp } from "./color-math.utils";
+
+// ─── Matrices ─────────────────────────────────────────────────────────────────
+// Values from the CSS Color 4 sample code. All RGB spaces are D65 except
+// ProPhoto, which is D50 and gets Bradford-adapted.
+
+export type Vec3 = [number, number, number];
+export type Mat3 = [Vec3, Vec3, Vec3];
+
+export const mul = (m: Mat3, [x, y, z]: Vec3): Vec3 => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z,
+];
+
+export const SRGB_TO_XYZ: Mat3 = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+export const XYZ_TO_SRGB: Mat3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+export const P3_TO_XYZ: Mat3 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+export const XYZ_TO_P3: Mat3 = [
+  [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+  [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+  [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+];
+export const A98_TO_XYZ: Mat3 = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+export const XYZ_TO_A98: Mat3 = [
+  [2.0415879038107465, -0.5650069742788596, -0.34473135077832956],
+  [-0.9692436362808795, 1.8759675015077202, 0.04155505740717557],
+  [0.013444280632031142, -0.11836239223101838, 1.0151749943912054],
+];
+export const PROPHOTO_TO_XYZ50: Mat3 = [
+  [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+  [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+  [0, 0, 0.8251046025104601],
+];
+export const XYZ50_TO_PROPHOTO: Mat3 = [
+  [1.3457989731028281, -0.25558010007997534, -0.05110628506753401],
+  [-0.5446224939028347, 1.5082327413132781, 0.02053603239147973],
+  [0, 0, 1.2119675456389454],
+];
+export const REC2020_TO_XYZ: Mat3 = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+export const XYZ_TO_REC2020: Mat3 = [
+  [1.716651187971268, -0.355670783776392, -0.25336628137366],
+  [-0.666684351832489, 1.616481236634939, 0.0157685458139111],
+  [0.017639857445311, -0.042770613257809, 0.942103121235474],
+];
+export const D65_TO_D50: Mat3 = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+export const D50_TO_D65: Mat3 = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+export const XYZ_TO_LMS: Mat3 = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+export const LMS_TO_OKLAB: Mat3 = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.42859224204858, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+export const OKLAB_TO_LMS: Mat3 = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+export const LMS_TO_XYZ: Mat3 = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+// ─── Transfer functions (sign-preserving, so out-of-gamut values survive) ────
+
+export const srgbToLinear = (v: number) => {
+  const a = Math.abs(v);
+  return a <= 0.04045 ? v / 12.92 : Math.sign(v) * ((a + 0.055) / 1.055) ** 2.4;
+};
+export const srgbFromLinear = (v: number) => {
+  const a = Math.abs(v);
+  return a <= 0.0031308
+    ? v * 12.92
+    : Math.sign(v) * (1.055 * a ** (1 / 2.4) - 0.055);
+};
+export const a98ToLinear = (v: number) =>
+  Math.sign(v) * Math.abs(v) ** (563 / 256);
+export const a98FromLinear = (v: number) =>
+  Math.sign(v) * Math.abs(v) ** (256 / 563);
+export const prophotoToLinear = (v: number) =>
+  Math.abs(v) <= 16 / 512 ? v / 16 : Math.sign(v) * Math.abs(v) ** 1.8;
+export const prophotoFromLinear = (v: number) =>
+  Math.abs(v) >= 1 / 512 ? Math.sign(v) * Math.abs(v) ** (1 / 1.8) : v * 16;
+const REC_A = 1.09929682680944;
+const REC_B = 0.018053968510807;
+export const rec2020ToLinear = (v: number) =>
+  Math.abs(v) < REC_B * 4.5
+    ? v / 4.5
+    : Math.sign(v) * ((Math.abs(v) + REC_A - 1) / REC_A) ** (1 / 0.45);
+export const rec2020FromLinear = (v: number) =>
+  Math.abs(v) > REC_B
+    ? Math.sign(v) * (REC_A * Math.abs(v) ** 0.45 - (REC_A - 1))
+    : v * 4.5;
+
+// ─── Kernels ──────────────────────────────────────────────────────────────────
+
+export const map3 = (v: Vec3, f: (n: number) => number): Vec3 => [
+  f(v[0]),
+  f(v[1]),
+  f(v[2]),
+];
+
+export const normalizeHue = (h: number) => ((h % 360) + 360) % 360;
+
+const WHITES: Record<Illuminant, Vec3> = {
+  d50: [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585],
+  d65: [0.3127 / 0.329, 1, (1 - 0.3127 - 0.329) / 0.329],
+};
+const KAPPA = 24389 / 27;
+const EPSILON = 216 / 24389;
+
+/** CIELAB → XYZ relative to the same white */
+export function labToXyzVec([L, a, b]: Vec3, white: Illuminant): Vec3 {
+  const W = WHITES[white];
+  const fy = (L + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  return [
+    (fx ** 3 > EPSILON ? fx ** 3 : (116 * fx - 16) / KAPPA) * W[0],
+    (L > KAPPA * EPSILON ? fy ** 3 : L / KAPPA) * W[1],
+    (fz ** 3 > EPSILON ? fz ** 3 : (116 * fz - 16) / KAPPA) * W[2],
+  ];
+}
+
+export function xyzToLabVec(xyz: Vec3, white: Illuminant): Vec3 {
+  const W = WHITES[white];
+  const [fx, fy, fz] = xyz.map((v, i) => {
+    const t = v / W[i];
+    return t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116;
+  });
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function oklabToXyzVec(lab: Vec3): Vec3 {
+  return mul(
+    LMS_TO_XYZ,
+    map3(mul(OKLAB_TO_LMS, lab), (v) => v ** 3),
+  );
+}
+
+export function xyzToOklabVec(xyz: Vec3): Vec3 {
+  return mul(LMS_TO_OKLAB, map3(mul(XYZ_TO_LMS, xyz), Math.cbrt));
+}
+
+/** Rectangular → polar; hue is powerless (NaN) for achromatic colors */
+export function toPolar([L, a, b]: Vec3, achromatic: number): Vec3 {
+  const C = Math.hypot(a, b);
+  const H =
+    C <= achromatic ? NaN : normalizeHue((Math.atan2(b, a) * 180) / Math.PI);
+  return [L, C, H];
+}
+
+export function fromPolar([L, C, H]: Vec3): Vec3 {
+  const h = ((Number.isNaN(H) ? 0 : H) * Math.PI) / 180;
+  return [L, C * Math.cos(h), C * Math.sin(h)];
+}
+
+// ─── HSL / HWB kernels (gamma sRGB 0–1) ───────────────────────────────────────
+
+/** HSL (s, l in 0–100) → gamma sRGB 0–1 */
+export function hslToSrgb([h, s, l]: Vec3): Vec3 {
+  const hue = Number.isNaN(h) ? 0 : h;
+  const sn = s / 100;
+  const ln = l / 100;
+  const f = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const a = sn * Math.min(ln, 1 - ln);
+    return ln - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+export function srgbToHsl([r, g, b]: Vec3): Vec3 {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  let h = NaN;
+  let s = 0;
+  if (d !== 0) {
+    s = l === 0 || l === 1 ? 0 : (max - l) / Math.min(l, 1 - l);
+    if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h *= 60;
+  }
+  if (s < 0) {
+    h += 180;
+    s = Math.abs(s);
+  }
+  return [Number.isNaN(h) ? h : normalizeHue(h), s * 100, l * 100];
+}
+
+export function hwbToSrgb([h, w, b]: Vec3): Vec3 {
+  const wn = w / 100;
+  const bn = b / 100;
+  if (wn + bn >= 1) {
+    const gray = wn / (wn + bn);
+    return [gray, gray, gray];
+  }
+  return map3(hslToSrgb([h, 100, 50]), (v) => v * (1 - wn - bn) + wn);
+}
+
+export function srgbToHwb(rgb: Vec3): Vec3 {
+  const [h] = srgbToHsl(rgb);
+  const w = Math.min(...rgb);
+  const b = 1 - Math.max(...rgb);
+  return [w + b >= 1 - 1e-9 ? NaN : h, w * 100, b * 100];
+}
+
+// ─── Typed converters ─────────────────────────────────────────────────────────
+
+const vec = ({ r, g, b }: RGBFloat): Vec3 => [r, g, b];
+const rgbFloat = ([r, g, b]: Vec3): RGBFloat => ({ r, g, b });
+const xyzVec = ({ x, y, z }: XYZ): Vec3 => [x, y, z];
+const xyzObj = ([x, y, z]: Vec3): XYZ => ({ x, y, z });
+
+/** 0–255 sRGB → gamma-encoded 0–1 */
+const srgbVec = ({ r, g, b }: RGB): Vec3 => [r / 255, g / 255, b / 255];
+
+/** Gamma-encoded 0–1 sRGB → 0–255, clipped to the sRGB gamut */
+const srgbFromVec = (v: Vec3): RGB => {
+  const [r, g, b] = map3(v, (c) => Math.round(clamp(c, 0, 1) * 255));
+  return { r, g, b };
+};
+
+const linearFromRgb = (rgb: RGB): Vec3 => map3(srgbVec(rgb), srgbToLinear);
+const rgbFromLinear = (lin: Vec3): RGB =>
+  srgbFromVec(map3(lin, srgbFromLinear));
+
+// ─── Linear sRGB ──────────────────────────────────────────────────────────────
+
+export function rgbToLinearRgb(rgb: RGB): LinearRGB {
+  return rgbFloat(linearFromRgb(rgb));
+}
+
+export function linearRgbToRgb(lin: LinearRGB): RGB {
+  return rgbFromLinear(vec(lin));
+}
+
+// ─── XYZ ──────────────────────────────────────────────────────────────────────
+// XYZ values are D65-relative unless a function says otherwise.
+
+export function linearRgbToXyz(lin: LinearRGB): XYZ {
+  return xyzObj(mul(SRGB_TO_XYZ, vec(lin)));
+}
+
+export function xyzToLinearRgb(xyz: XYZ): LinearRGB {
+  return rgbFloat(mul(XYZ_TO_SRGB, xyzVec(xyz)));
+}
+
+export function rgbToXyz(rgb: RGB): XYZ {
+  return xyzObj(mul(SRGB_TO_XYZ, linearFromRgb(rgb)));
+}
+
+export function xyzToRgb(xyz: XYZ): RGB {
+  return rgbFromLinear(mul(XYZ_TO_SRGB, xyzVec(xyz)));
+}
+
+/** Bradford chromatic adaptation D65 → D50 */
+export function xyzD65ToD50(xyz: XYZ): XYZ {
+  return xyzObj(mul(D65_TO_D50, xyzVec(xyz)));
+}
+
+export function xyzD50ToD65(xyz: XYZ): XYZ {
+  return xyzObj(mul(D50_TO_D65, xyzVec(xyz)));
+}
+
+// ─── CIELAB / LCh ─────────────────────────────────────────────────────────────
+// D50 matches CSS lab()/lch(); D65 skips the Bradford step and is what most
+// ΔE formulas in the literature assume.
+
+export function xyzToLab(xyz: XYZ, white: Illuminant = "d50"): CIELab {
+  const v = white === "d50" ? mul(D65_TO_D50, xyzVec(xyz)) : xyzVec(xyz);
+  const [L, a, b] = xyzToLabVec(v, white);
+  return { L, a, b };
+}
+
+export function labToXyz({ L, a, b }: CIELab, white: Illuminant = "d50"): XYZ {
+  const v = labToXyzVec([L, a, b], white);
+  return xyzObj(white === "d50" ? mul(D50_TO_D65, v) : v);
+}
+
+export function rgbToLab(rgb: RGB, white: Illuminant = "d50"): CIELab {
+  return xyzToLab(rgbToXyz(rgb), white);
+}
+
+export function labToRgb(lab: CIELab, white: Illuminant = "d50"): RGB {
+  return xyzToRgb(labToXyz(lab, white));
+}
+
+/** Achromatic colors get H = 0 so the result is always a plain number */
+export function labToLch({ L, a, b }: CIELab): CIELCH {
+  const [, C, H] = toPolar([L, a, b], 0.0015);
+  return { L, C, H: Number.isNaN(H) ? 0 : H };
+}
+
+export function lchToLab({ L, C, H }: CIELCH): CIELab {
+  const [, a, b] = fromPolar([L, C, H]);
+  return { L, a, b };
+}
+
+export function rgbToLch(rgb: RGB, white: Illuminant = "d50"): CIELCH {
+  return labToLch(rgbToLab(rgb, white));
+}
+
+export function lchToRgb(lch: CIELCH, white: Illuminant = "d50"): RGB {
+  return labToRgb(lchToLab(lch), white);
+}
+
+// ─── HWB ──────────────────────────────────────────────────────────────────────
+
+export function rgbToHwb(rgb: RGB): HWB {
+  const [h, w, b] = srgbToHwb(srgbVec(rgb));
+  return { h: Number.isNaN(h) ? 0 : h, w, b };
+}
+
+export function hwbToRgb({ h, w, b }: HWB): RGB {
+  return srgbFromVec(hwbToSrgb([h, w, b]));
+}
+
+// ─── Display-P3 / Rec.2020 ────────────────────────────────────────────────────
+// sRGB sits inside both gamuts, so the forward direction never clips; the
+// reverse clips anything sRGB can't show.
+
+export function rgbToP3(rgb: RGB): DisplayP3 {
+  const lin = mul(XYZ_TO_P3, mul(SRGB_TO_XYZ, linearFromRgb(rgb)));
+  return rgbFloat(map3(lin, srgbFromLinear));
+}
+
+export function p3ToRgb(p3: DisplayP3): RGB {
+  const xyz = mul(P3_TO_XYZ, map3(vec(p3), srgbToLinear));
+  return rgbFromLinear(mul(XYZ_TO_SRGB, xyz));
+}
+
+export function rgbToRec2020(rgb: RGB): Rec2020 {
+  const lin = mul(XYZ_TO_REC2020, mul(SRGB_TO_XYZ, linearFromRgb(rgb)));
+  return rgbFloat(map3(lin, rec2020FromLinear));
+}
+
+export function rec2020ToRgb(rec: Rec2020): RGB {
+  const xyz = mul(REC2020_TO_XYZ, map3(vec(rec), rec2020ToLinear));
+  return rgbFromLinear(mul(XYZ_TO_SRGB, xyz));
+}
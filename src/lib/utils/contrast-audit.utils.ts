@@ -0,0 +1,499 @@
+// contrast-audit.utils.ts
+// One contrast audit engine for every foreground/background pair the tokens
+// actually use — palette text, semantic light/dark tokens, utility colors and
+// scale steps — scored with both WCAG 2 and APCA, plus JSON / Markdown / HTML
+// reports for accessibility sign-off.
+
+import type {
+  AuditGroup,
+  AuditPair,
+  AuditSummary,
+  AuditUsage,
+  ContrastAudit,
+  ScaleContrastAnchor,
+  ScaleEntry,
+  ThemeTokenSet,
+  UtilityRole,
+} from "@/types";
+import {
+  apcaContrast,
+  contrastRatio,
+  hexToRgb,
+  textColor,
+} from "./color-math.utils";
+import { checkScalePairs } from "./color-math-scale.utils";
+
+// ─── Requirements ─────────────────────────────────────────────────────────────
+
+/** Minimum WCAG ratio and APCA |Lc| per usage */
+export const AUDIT_USAGE: Record<
+  AuditUsage,
+  { label: string; wcag: number; apca: number }
+> = {
+  body: { label: "Body text", wcag: 4.5, apca: 60 },
+  large: { label: "Large text", wcag: 3, apca: 45 },
+  ui: { label: "UI / non-text", wcag: 3, apca: 30 },
+};
+
+export const AUDIT_GROUPS: { id: AuditGroup; label: string }[] = [
+  { id: "palette", label: "Palette" },
+  { id: "semantic", label: "Semantic tokens" },
+  { id: "utility", label: "Utility colors" },
+  { id: "scale", label: "Scale steps" },
+];
+
+/** Semantic token pairs as rendered by the theme: [fg, bg, usage, label] */
+export const SEMANTIC_CONTRAST_PAIRS: [string, string, AuditUsage, string][] = [
+  ["--foreground", "--background", "body", "Body text / background"],
+  ["--muted-foreground", "--background", "body", "Muted text / background"],
+  ["--muted-foreground", "--muted", "body", "Muted text / muted"],
+  ["--surface-dim-foreground", "--surface-dim", "body", "Text / dim surface"],
+  ["--card-foreground", "--card", "body", "Card text / card"],
+  ["--card-raised-foreground", "--card-raised", "body", "Text / raised card"],
+  ["--popover-foreground", "--popover", "body", "Popover text / popover"],
+  ["--primary", "--background", "body", "Link / background"],
+  ["--primary-foreground", "--primary", "body", "Primary fg / primary"],
+  [
+    "--primary-container-foreground",
+    "--primary-container",
+    "body",
+    "Container fg / container",
+  ],
+  ["--secondary-foreground", "--secondary", "body", "Secondary fg / secondary"],
+  ["--accent-foreground", "--accent", "body", "Accent fg / accent"],
+  [
+    "--destructive-foreground",
+    "--destructive",
+    "body",
+    "Destructive fg / destructive",
+  ],
+  ["--destructive", "--destructive-subtle", "body", "Error text / error tint"],
+  ["--border-strong", "--background", "ui", "Strong border / background"],
+  ["--input", "--background", "ui", "Input border / background"],
+  ["--ring", "--background", "ui", "Focus ring / background"],
+];
+
+// ─── Engine ───────────────────────────────────────────────────────────────────
+
+/** Score one pair against its usage requirement */
+export function auditPair(
+  base: Omit<AuditPair, "wcag" | "apca" | "passWcag" | "passApca">,
+): AuditPair {
+  const fg = hexToRgb(base.fg.hex),
+    bg = hexToRgb(base.bg.hex);
+  const wcag = contrastRatio(fg, bg);
+  const apca = apcaContrast(fg, bg);
+  const req = AUDIT_USAGE[base.usage];
+  return {
+    ...base,
+    wcag,
+    apca,
+    passWcag: wcag >= req.wcag,
+    passApca: Math.abs(apca) >= req.apca,
+  };
+}
+
+/** Usage implied by a scale anchor's own target */
+function anchorUsage({ metric, target }: ScaleContrastAnchor): AuditUsage {
+  const req = (u: AuditUsage) => AUDIT_USAGE[u][metric];
+  return target >= req("body")
+    ? "body"
+    : target >= req("large")
+      ? "large"
+      : "ui";
+}
+
+const onColorName = (hex: string) => (hex === "#ffffff" ? "white" : "black");
+
+export interface ContrastAuditInput {
+  title?: string;
+  /** Palette colors — each is checked with its auto text color */
+  palette?: { name: string; hex: string }[];
+  /** Check each palette color with its auto text color (default true) */
+  paletteText?: boolean;
+  /** Also check every palette color against every other */
+  paletteCombinations?: boolean;
+  tokens?: ThemeTokenSet;
+  /** Anchored scales check their step pairs; others check each step's text color */
+  scales?: {
+    name: string;
+    steps: ScaleEntry[];
+    anchor?: ScaleContrastAnchor | null;
+  }[];
+}
+
+export function runContrastAudit(input: ContrastAuditInput): ContrastAudit {
+  const pairs: AuditPair[] = [];
+
+  // ── Palette ─────────────────────────────────────────────────────────────
+  const palette = input.palette ?? [];
+  for (const c of input.paletteText === false ? [] : palette) {
+    const on = textColor(hexToRgb(c.hex));
+    pairs.push(
+      auditPair({
+        id: `palette:${c.name}/text`,
+        group: "palette",
+        label: `${onColorName(on)} text / ${c.name}`,
+        fg: { name: onColorName(on), hex: on },
+        bg: c,
+        usage: "body",
+      }),
+    );
+  }
+  if (input.paletteCombinations)
+    for (let i = 0; i < palette.length; i++)
+      for (let j = i + 1; j < palette.length; j++)
+        pairs.push(
+          auditPair({
+            id: `palette:${palette[i].name}/${palette[j].name}`,
+            group: "palette",
+            label: `${palette[i].name} / ${palette[j].name}`,
+            fg: palette[i],
+            bg: palette[j],
+            usage: "body",
+          }),
+        );
+
+  // ── Semantic + utility tokens ───────────────────────────────────────────
+  const tokens = input.tokens;
+  if (tokens) {
+    const byName = new Map(tokens.semantic.map((t) => [t.name, t]));
+    for (const mode of ["light", "dark"] as const) {
+      for (const [fgName, bgName, usage, label] of SEMANTIC_CONTRAST_PAIRS) {
+        const fg = byName.get(fgName),
+          bg = byName.get(bgName);
+        if (!fg || !bg) continue;
+        pairs.push(
+          auditPair({
+            id: `semantic:${mode}:${fgName}/${bgName}`,
+            group: "semantic",
+            mode,
+            label,
+            fg: { name: fgName, hex: fg[mode] },
+            bg: { name: bgName, hex: bg[mode] },
+            usage,
+          }),
+        );
+      }
+    }
+
+    const background = byName.get("--background");
+    for (const [role, u] of Object.entries(tokens.utility) as [
+      UtilityRole,
+      ThemeTokenSet["utility"][UtilityRole],
+    ][]) {
+      const add = (
+        mode: "light" | "dark",
+        fg: [string, string],
+        bg: [string, string],
+        usage: AuditUsage,
+        label: string,
+      ) =>
+        pairs.push(
+          auditPair({
+            id: `utility:${mode}:${fg[0]}/${bg[0]}`,
+            group: "utility",
+            mode,
+            label,
+            fg: { name: fg[0], hex: fg[1] },
+            bg: { name: bg[0], hex: bg[1] },
+            usage,
+          }),
+        );
+      const n = `--${role}`;
+      add(
+        "light",
+        [n, u.light],
+        [`${n}-subtle`, u.subtle],
+        "body",
+        `${role} text / ${role} subtle`,
+      );
+      add(
+        "light",
+        [`${n}-base`, u.base],
+        [`${n}-subtle`, u.subtle],
+        "ui",
+        `${role} base / ${role} subtle`,
+      );
+      add(
+        "dark",
+        [n, u.dark],
+        [`${n}-subtle`, u.subtleDark],
+        "body",
+        `${role} text / ${role} subtle`,
+      );
+      if (background) {
+        add(
+          "light",
+          [n, u.light],
+          ["--background", background.light],
+          "body",
+          `${role} text / background`,
+        );
+        add(
+          "dark",
+          [n, u.dark],
+          ["--background", background.dark],
+          "body",
+          `${role} text / background`,
+        );
+      }
+    }
+  }
+
+  // ── Scale steps ─────────────────────────────────────────────────────────
+  for (const scale of input.scales ?? []) {
+    const stepName = (e: ScaleEntry) => `${scale.name}-${e.step}`;
+    if (scale.anchor) {
+      const usage = anchorUsage(scale.anchor);
+      for (const check of checkScalePairs(scale.steps, scale.anchor)) {
+        const a = scale.steps.find((e) => e.step === check.from)!;
+        const b = scale.steps.find((e) => e.step === check.to)!;
+        pairs.push(
+          auditPair({
+            id: `scale:${stepName(b)}/${stepName(a)}`,
+            group: "scale",
+            label: `${stepName(b)} / ${stepName(a)}`,
+            fg: { name: stepName(b), hex: b.hex },
+            bg: { name: stepName(a), hex: a.hex },
+            usage,
+          }),
+        );
+      }
+    } else {
+      for (const e of scale.steps) {
+        const on = textColor(e.rgb);
+        pairs.push(
+          auditPair({
+            id: `scale:${stepName(e)}/text`,
+            group: "scale",
+            label: `${onColorName(on)} text / ${stepName(e)}`,
+            fg: { name: onColorName(on), hex: on },
+            bg: { name: stepName(e), hex: e.hex },
+            usage: "body",
+          }),
+        );
+      }
+    }
+  }
+
+  const summarize = (ps: AuditPair[]): AuditSummary => ({
+    total: ps.length,
+    passWcag: ps.filter((p) => p.passWcag).length,
+    passApca: ps.filter((p) => p.passApca).length,
+  });
+  const byGroup = Object.fromEntries(
+    AUDIT_GROUPS.map(({ id }) => [
+      id,
+      summarize(pairs.filter((p) => p.group === id)),
+    ]),
+  ) as Record<AuditGroup, AuditSummary>;
+
+  return {
+    title: input.title?.trim() || "Contrast audit",
+    generatedAt: new Date().toISOString(),
+    pairs,
+    summary: { ...summarize(pairs), byGroup },
+  };
+}
+
+// ─── Reports ──────────────────────────────────────────────────────────────────
+
+export type AuditReportFormat = "json" | "md" | "html";
+
+const fmtWcag = (r: number) => `${r.toFixed(2)}:1`;
+const fmtApca = (lc: number) => `Lc ${Math.round(lc)}`;
+const mark = (pass: boolean) => (pass ? "✓" : "✗");
+
+function esc(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function groupsWithPairs(audit: ContrastAudit) {
+  return AUDIT_GROUPS.map((g) => ({
+    ...g,
+    pairs: audit.pairs.filter((p) => p.group === g.id),
+  })).filter((g) => g.pairs.length);
+}
+
+export function auditToJson(audit: ContrastAudit): string {
+  return JSON.stringify({ ...audit, requirements: AUDIT_USAGE }, null, 2);
+}
+
+export function auditToMarkdown(audit: ContrastAudit): string {
+  const { summary } = audit;
+  const lines = [
+    `# ${audit.title}`,
+    "",
+    `Generated ${audit.generatedAt}`,
+    "",
+    "## Summary",
+    "",
+    "| Group | Pairs | WCAG 2 pass | APCA pass |",
+    "| --- | ---: | ---: | ---: |",
+    ...groupsWithPairs(audit).map(({ id, label }) => {
+      const s = summary.byGroup[id];
+      return `| ${label} | ${s.total} | ${s.passWcag} | ${s.passApca} |`;
+    }),
+    `| **All** | **${summary.total}** | **${summary.passWcag}** | **${summary.passApca}** |`,
+    "",
+    "## Requirements",
+    "",
+    "| Usage | WCAG 2 | APCA |",
+    "| --- | ---: | ---: |",
+    ...Object.values(AUDIT_USAGE).map(
+      (u) => `| ${u.label} | ${u.wcag}:1 | Lc ${u.apca} |`,
+    ),
+  ];
+
+  for (const { label, pairs } of groupsWithPairs(audit)) {
+    lines.push(
+      "",
+      `## ${label}`,
+      "",
+      "| Mode | Pair | Foreground | Background | Usage | WCAG 2 | APCA |",
+      "| --- | --- | --- | --- | --- | ---: | ---: |",
+      ...pairs.map(
+        (p) =>
+          `| ${p.mode ?? "—"} | ${p.label} | \`${p.fg.name}\` ${p.fg.hex} | \`${p.bg.name}\` ${p.bg.hex} | ${AUDIT_USAGE[p.usage].label} | ${fmtWcag(p.wcag)} ${mark(p.passWcag)} | ${fmtApca(p.apca)} ${mark(p.passApca)} |`,
+      ),
+    );
+  }
+
+  lines.push(
+    "",
+    "## Sign-off",
+    "",
+    "- Reviewer: ____________________",
+    "- Date: ____________________",
+    "- Decision: ☐ Approved ☐ Approved with exceptions ☐ Changes required",
+    "",
+  );
+  return lines.join("\n");
+}
+
+export function auditToHtml(audit: ContrastAudit): string {
+  const { summary } = audit;
+  const cell = (pass: boolean, text: string) =>
+    `<td class="num ${pass ? "pass" : "fail"}">${esc(text)} ${mark(pass)}</td>`;
+  const swatch = (hex: string) =>
+    `<span class="sw" style="background:${hex}"></span>`;
+
+  const sections = groupsWithPairs(audit)
+    .map(
+      ({ label, pairs }) => `
+  <h2>${esc(label)}</h2>
+  <table>
+    <thead><tr><th>Mode</th><th>Preview</th><th>Pair</th><th>Foreground</th><th>Background</th><th>Usage</th><th>WCAG 2</th><th>APCA</th></tr></thead>
+    <tbody>${pairs
+      .map(
+        (p) => `
+      <tr>
+        <td>${p.mode ?? "—"}</td>
+        <td><span class="pv" style="background:${p.bg.hex};color:${p.fg.hex}">Aa</span></td>
+        <td>${esc(p.label)}</td>
+        <td>${swatch(p.fg.hex)}<code>${esc(p.fg.name)}</code> ${p.fg.hex}</td>
+        <td>${swatch(p.bg.hex)}<code>${esc(p.bg.name)}</code> ${p.bg.hex}</td>
+        <td>${AUDIT_USAGE[p.usage].label}</td>
+        ${cell(p.passWcag, fmtWcag(p.wcag))}
+        ${cell(p.passApca, fmtApca(p.apca))}
+      </tr>`,
+      )
+      .join("")}
+    </tbody>
+  </table>`,
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(audit.title)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #1a1a1a; max-width: 1100px; margin: 40px auto; padding: 0 24px; }
+  h1 { margin-bottom: 0; }
+  .meta { color: #666; margin-top: 4px; }
+  table { border-collapse: collapse; width: 100%; margin: 8px 0 24px; font-size: 13px; }
+  th, td { border-bottom: 1px solid #e5e5e5; padding: 6px 8px; text-align: left; vertical-align: middle; }
+  th { font-size: 11px; text-transform: uppercase; letter-spacing: .05em; color: #666; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  .pass { color: #15803d; }
+  .fail { color: #b91c1c; font-weight: 600; }
+  .sw { display: inline-block; width: 12px; height: 12px; border-radius: 2px; border: 1px solid rgba(0,0,0,.15); vertical-align: -2px; margin-right: 6px; }
+  .pv { display: inline-block; padding: 2px 8px; border-radius: 4px; font-weight: 600; border: 1px solid rgba(0,0,0,.1); }
+  code { font-size: 12px; }
+  .signoff { border: 1px solid #ccc; border-radius: 6px; padding: 16px 20px; margin-top: 32px; }
+  .signoff p { margin: 12px 0; }
+</style>
+</head>
+<body>
+  <h1>${esc(audit.title)}</h1>
+  <p class="meta">Generated ${esc(audit.generatedAt)} · ${summary.total} pairs · WCAG 2 ${summary.passWcag}/${summary.total} pass · APCA ${summary.passApca}/${summary.total} pass</p>
+
+  <h2>Requirements</h2>
+  <table>
+    <thead><tr><th>Usage</th><th class="num">WCAG 2</th><th class="num">APCA</th></tr></thead>
+    <tbody>${Object.values(AUDIT_USAGE)
+      .map(
+        (u) =>
+          `<tr><td>${u.label}</td><td class="num">${u.wcag}:1</td><td class="num">Lc ${u.apca}</td></tr>`,
+      )
+      .join("")}</tbody>
+  </table>
+${sections}
+  <div class="signoff">
+    <strong>Sign-off</strong>
+    <p>Reviewer: ______________________________</p>
+    <p>Date: ______________________________</p>
+    <p>Decision: ☐ Approved &nbsp; ☐ Approved with exceptions &nbsp; ☐ Changes required</p>
+  </div>
+</body>
+</html>
+`;
+}
+
+const REPORT_META: Record<
+  AuditReportFormat,
+  { build: (a: ContrastAudit) => string; mimeType: string; extension: string }
+> = {
+  json: {
+    build: auditToJson,
+    mimeType: "application/json",
+    extension: ".json",
+  },
+  md: { build: auditToMarkdown, mimeType: "text/markdown", extension: ".md" },
+  html: { build: auditToHtml, mimeType: "text/html", extension: ".html" },
+};
+
+export function buildAuditReport(
+  audit: ContrastAudit,
+  format: AuditReportFormat,
+): { filename: string; mimeType: string; data: string } {
+  const { build, mimeType, extension } = REPORT_META[format];
+  const base =
+    audit.title
+      .trim()
+      .replace(/[^\w-]+/g, "-")
+      .toLowerCase() || "contrast-audit";
+  return { filename: base + extension, mimeType, data: build(audit) };
+}
+
+/** Triggers a browser download of the report */
+export function downloadAuditReport(
+  audit: ContrastAudit,
+  format: AuditReportFormat,
+): void {
+  const { filename, mimeType, data } = buildAuditReport(audit, format);
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
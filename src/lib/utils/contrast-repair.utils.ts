@@ -0,0 +1,333 @@
+// contrast-repair.utils.ts
+// Repairs a whole ThemeTokenSet against a list of required contrast pairs.
+// Tokens keep their OKLCH hue and chroma; only lightness moves, by the
+// smallest amount that passes, and the side used by fewer pairs moves first.
+
+import type {
+  AuditUsage,
+  ContrastRepairResult,
+  ContrastRequirement,
+  ContrastStandard,
+  RGB,
+  ThemeTokenSet,
+  TokenRepairChange,
+  UtilityRole,
+} from "@/types";
+import {
+  apcaContrast,
+  contrastRatio,
+  hexToRgb,
+  luminance,
+  oklchToRgb,
+  rgbToHex,
+  rgbToOklch,
+} from "./color-math.utils";
+import { AUDIT_USAGE, SEMANTIC_CONTRAST_PAIRS } from "./contrast-audit.utils";
+
+type Mode = "light" | "dark";
+
+const MODES: Mode[] = ["light", "dark"];
+
+// ─── Standards ────────────────────────────────────────────────────────────────
+
+export const CONTRAST_STANDARDS: Record<
+  ContrastStandard,
+  {
+    label: string;
+    metric: ContrastRequirement["metric"];
+    targets: Record<AuditUsage, number>;
+  }
+> = {
+  aa: {
+    label: "WCAG AA",
+    metric: "wcag",
+    targets: { body: 4.5, large: 3, ui: 3 },
+  },
+  aaa: {
+    label: "WCAG AAA",
+    metric: "wcag",
+    targets: { body: 7, large: 4.5, ui: 3 },
+  },
+  apca: {
+    label: "APCA",
+    metric: "apca",
+    targets: {
+      body: AUDIT_USAGE.body.apca,
+      large: AUDIT_USAGE.large.apca,
+      ui: AUDIT_USAGE.ui.apca,
+    },
+  },
+};
+
+/** The audit's semantic pairs — plus utility text pairs for the given roles — at a standard's targets */
+export function contrastRequirements(
+  standard: ContrastStandard,
+  roles: UtilityRole[] = [],
+): ContrastRequirement[] {
+  const { metric, targets } = CONTRAST_STANDARDS[standard];
+  return [
+    ...SEMANTIC_CONTRAST_PAIRS.map(([fg, bg, usage, label]) => ({
+      fg,
+      bg,
+      metric,
+      target: targets[usage],
+      label,
+    })),
+    ...roles.flatMap((role) => [
+      {
+        fg: `--${role}`,
+        bg: `--${role}-subtle`,
+        metric,
+        target: targets.body,
+        label: `${role} text / ${role} subtle`,
+      },
+      {
+        fg: `--${role}`,
+        bg: "--background",
+        metric,
+        target: targets.body,
+        label: `${role} text / background`,
+      },
+    ]),
+  ];
+}
+
+// ─── Token access ─────────────────────────────────────────────────────────────
+// Tokens are flattened to "name@mode" → hex. Utility variants use their CSS
+// names: --success (light/dark), --success-subtle (subtle/subtleDark) and
+// --success-base, which is shared by both modes and never moved.
+
+const key = (name: string, mode: Mode) => `${name}@${mode}`;
+const nameOf = (k: string) => k.slice(0, k.lastIndexOf("@"));
+
+function flatten(tokens: ThemeTokenSet): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const t of tokens.semantic)
+    for (const m of MODES) values.set(key(t.name, m), t[m]);
+  for (const [role, u] of Object.entries(tokens.utility)) {
+    const n = `--${role}`;
+    values.set(key(n, "light"), u.light);
+    values.set(key(n, "dark"), u.dark);
+    values.set(key(`${n}-subtle`, "light"), u.subtle);
+    values.set(key(`${n}-subtle`, "dark"), u.subtleDark);
+    values.set(key(`${n}-base`, "light"), u.base);
+    values.set(key(`${n}-base`, "dark"), u.base);
+  }
+  return values;
+}
+
+function unflatten(
+  tokens: ThemeTokenSet,
+  values: Map<string, string>,
+): ThemeTokenSet {
+  const get = (name: string, m: Mode) => values.get(key(name, m))!;
+  return {
+    ...tokens,
+    semantic: tokens.semantic.map((t) => {
+      const light = get(t.name, "light"),
+        dark = get(t.name, "dark");
+      // A repaired value is in sRGB, so its out-of-gamut flag no longer applies
+      const outOfGamut = t.outOfGamut?.filter(
+        (m) => (m === "light" ? light : dark) === t[m],
+      );
+      return {
+        ...t,
+        light,
+        dark,
+        outOfGamut: outOfGamut?.length ? outOfGamut : undefined,
+      };
+    }),
+    utility: Object.fromEntries(
+      Object.entries(tokens.utility).map(([role, u]) => {
+        const n = `--${role}`;
+        const next = {
+          ...u,
+          light: get(n, "light"),
+          dark: get(n, "dark"),
+          subtle: get(`${n}-subtle`, "light"),
+          subtleDark: get(`${n}-subtle`, "dark"),
+        };
+        const outOfGamut = u.outOfGamut?.filter((v) => next[v] === u[v]);
+        return [
+          role,
+          { ...next, outOfGamut: outOfGamut?.length ? outOfGamut : undefined },
+        ];
+      }),
+    ) as ThemeTokenSet["utility"],
+  };
+}
+
+// ─── Solver ───────────────────────────────────────────────────────────────────
+
+const SCAN_STEP = 0.005;
+const MAX_PASSES = 6;
+
+function measure(
+  metric: ContrastRequirement["metric"],
+  fg: RGB,
+  bg: RGB,
+): number {
+  return metric === "wcag"
+    ? contrastRatio(fg, bg)
+    : Math.abs(apcaContrast(fg, bg));
+}
+
+/** Smallest |ΔL| from L0 at which `ok` holds — scanned outward, then bisected */
+function nearestPassingL(
+  L0: number,
+  ok: (L: number) => boolean,
+): number | null {
+  const clampL = (L: number) => Math.min(1, Math.max(0, L));
+  for (let d = SCAN_STEP; d < 1 + SCAN_STEP; d += SCAN_STEP) {
+    for (const dir of [-1, 1]) {
+      const prev = L0 + dir * (d - SCAN_STEP);
+      if (prev < 0 || prev > 1) continue;
+      if (!ok(clampL(L0 + dir * d))) continue;
+      let lo = d - SCAN_STEP,
+        hi = d;
+      for (let i = 0; i < 10; i++) {
+        const mid = (lo + hi) / 2;
+        if (ok(clampL(L0 + dir * mid))) hi = mid;
+        else lo = mid;
+      }
+      return clampL(L0 + dir * hi);
+    }
+  }
+  return null;
+}
+
+interface Check {
+  requirement: ContrastRequirement;
+  mode: Mode;
+  fg: string;
+  bg: string;
+}
+
+/**
+ * Adjusts token lightness until every requirement passes. The token used by
+ * fewer pairs in that mode moves first (foreground on a tie), and it moves to
+ * satisfy all of its own pairs at once when it can, without swapping which
+ * side is lighter unless nothing else works. Locked token names — and
+ * utility --*-base colors — are never changed.
+ */
+export function repairThemeContrast(
+  tokens: ThemeTokenSet,
+  requirements: ContrastRequirement[],
+  { locked = [] }: { locked?: string[] } = {},
+): ContrastRepairResult {
+  const values = flatten(tokens);
+  const original = new Map(values);
+  const lockedNames = new Set(locked);
+  const movable = (k: string) =>
+    !lockedNames.has(nameOf(k)) && !nameOf(k).endsWith("-base");
+
+  const checks: Check[] = requirements.flatMap((requirement) =>
+    (requirement.modes ?? MODES)
+      .map((mode) => ({
+        requirement,
+        mode,
+        fg: key(requirement.fg, mode),
+        bg: key(requirement.bg, mode),
+      }))
+      .filter((c) => values.has(c.fg) && values.has(c.bg)),
+  );
+
+  const rgbOf = (k: string) => hexToRgb(values.get(k)!);
+  const valueOf = (c: Check, k?: string, rgb?: RGB) =>
+    measure(
+      c.requirement.metric,
+      c.fg === k ? rgb! : rgbOf(c.fg),
+      c.bg === k ? rgb! : rgbOf(c.bg),
+    );
+  const passes = (c: Check, k?: string, rgb?: RGB) =>
+    valueOf(c, k, rgb) >= c.requirement.target;
+
+  const load = new Map<string, number>();
+  for (const c of checks)
+    for (const k of [c.fg, c.bg]) load.set(k, (load.get(k) ?? 0) + 1);
+
+  /** Which side is lighter — kept unless no other fix exists */
+  const polarity = (c: Check, k?: string, rgb?: RGB) =>
+    luminance(c.fg === k ? rgb! : rgbOf(c.fg)) >=
+    luminance(c.bg === k ? rgb! : rgbOf(c.bg));
+
+  /** New hex for token k passing every check in `group`, or null */
+  const relight = (
+    k: string,
+    group: Check[],
+    keepPolarity: boolean,
+  ): string | null => {
+    const before = new Map(group.map((c) => [c, polarity(c)]));
+    const lch = rgbToOklch(rgbOf(k));
+    // Evaluate the rounded hex so the stored value really passes
+    const at = (L: number) => hexToRgb(rgbToHex(oklchToRgb({ ...lch, L })));
+    const L = nearestPassingL(lch.L, (L) => {
+      const rgb = at(L);
+      return group.every(
+        (c) =>
+          passes(c, k, rgb) &&
+          (!keepPolarity || polarity(c, k, rgb) === before.get(c)),
+      );
+    });
+    return L === null ? null : rgbToHex(at(L));
+  };
+
+  // Preference order: a move that keeps all of the token's pairs passing beats
+  // one that only fixes the failing pair, and within each, light text stays
+  // light and dark text stays dark before either side is allowed to flip
+  const TIERS = [
+    { all: true, keepPolarity: true },
+    { all: true, keepPolarity: false },
+    { all: false, keepPolarity: true },
+    { all: false, keepPolarity: false },
+  ];
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const failing = checks.filter((c) => !passes(c));
+    if (!failing.length) break;
+    let moved = false;
+    for (const c of failing) {
+      if (passes(c)) continue;
+      const sides = [c.fg, c.bg]
+        .filter(movable)
+        .sort((a, b) => load.get(a)! - load.get(b)!);
+      search: for (const { all, keepPolarity } of TIERS)
+        for (const k of sides) {
+          const group = all
+            ? checks.filter((x) => x.fg === k || x.bg === k)
+            : [c];
+          const hex = relight(k, group, keepPolarity);
+          if (!hex) continue;
+          values.set(k, hex);
+          moved = true;
+          break search;
+        }
+    }
+    if (!moved) break;
+  }
+
+  const changes: TokenRepairChange[] = [];
+  for (const [k, to] of values) {
+    const from = original.get(k)!;
+    if (from === to || nameOf(k).endsWith("-base")) continue;
+    changes.push({
+      token: nameOf(k),
+      mode: k.endsWith("@dark") ? "dark" : "light",
+      from,
+      to,
+      dL: rgbToOklch(hexToRgb(to)).L - rgbToOklch(hexToRgb(from)).L,
+    });
+  }
+
+  return {
+    tokens: unflatten(tokens, values),
+    changes,
+    unresolved: checks
+      .filter((c) => !passes(c))
+      .map((c) => ({
+        requirement: c.requirement,
+        mode: c.mode,
+        value: valueOf(c),
+      })),
+  };
+}
@@ -0,0 +1,800 @@
+// css-color.utils.ts
+// CSS Color Level 4/5 parser — hex, named colors, rgb() / hsl() / hwb(),
+// lab() / lch() / oklab() / oklch(), color() with the predefined spaces,
+// `none` components, color-mix() and relative colors (`rgb(from …)`) with
+// calc(). Extracted from color-math.ts for
+// maintainability; parseAny() there delegates here. Space math lives in
+// color-space.utils.ts.
+
+import type { ParsedColor, RGB } from "@/types";
+import { clamp } from "./color-math.utils";
+import {
+  A98_TO_XYZ,
+  D50_TO_D65,
+  D65_TO_D50,
+  type Mat3,
+  P3_TO_XYZ,
+  PROPHOTO_TO_XYZ50,
+  REC2020_TO_XYZ,
+  SRGB_TO_XYZ,
+  type Vec3,
+  XYZ50_TO_PROPHOTO,
+  XYZ_TO_A98,
+  XYZ_TO_P3,
+  XYZ_TO_REC2020,
+  XYZ_TO_SRGB,
+  a98FromLinear,
+  a98ToLinear,
+  fromPolar,
+  hslToSrgb,
+  hwbToSrgb,
+  labToXyzVec,
+  map3,
+  mul,
+  normalizeHue,
+  oklabToXyzVec,
+  prophotoFromLinear,
+  prophotoToLinear,
+  rec2020FromLinear,
+  rec2020ToLinear,
+  srgbFromLinear,
+  srgbToHsl,
+  srgbToHwb,
+  srgbToLinear,
+  toPolar,
+  xyzToLabVec,
+  xyzToOklabVec,
+} from "./color-space.utils";
+
+// ─── Color spaces ─────────────────────────────────────────────────────────────
+
+type CssColorSpace =
+  | "srgb"
+  | "srgb-linear"
+  | "display-p3"
+  | "a98-rgb"
+  | "prophoto-rgb"
+  | "rec2020"
+  | "xyz-d65"
+  | "xyz-d50"
+  | "lab"
+  | "lch"
+  | "oklab"
+  | "oklch"
+  | "hsl"
+  | "hwb";
+
+/** A color in its own space — NaN marks a `none` (missing) component */
+interface SpaceColor {
+  space: CssColorSpace;
+  coords: Vec3;
+  /** 0–1 */
+  alpha: number;
+}
+
+interface SpaceDef {
+  toXyz: (c: Vec3) => Vec3;
+  fromXyz: (xyz: Vec3) => Vec3;
+  /** Index of the hue coordinate in polar spaces */
+  hue?: number;
+}
+
+function rgbSpace(
+  toLin: (v: number) => number,
+  fromLin: (v: number) => number,
+  toXyz: Mat3,
+  fromXyz: Mat3,
+): SpaceDef {
+  return {
+    toXyz: (c) => mul(toXyz, map3(c, toLin)),
+    fromXyz: (xyz) => map3(mul(fromXyz, xyz), fromLin),
+  };
+}
+
+const SRGB = rgbSpace(srgbToLinear, srgbFromLinear, SRGB_TO_XYZ, XYZ_TO_SRGB);
+
+const SPACES: Record<CssColorSpace, SpaceDef> = {
+  srgb: SRGB,
+  "srgb-linear": rgbSpace(
+    (v) => v,
+    (v) => v,
+    SRGB_TO_XYZ,
+    XYZ_TO_SRGB,
+  ),
+  "display-p3": rgbSpace(srgbToLinear, srgbFromLinear, P3_TO_XYZ, XYZ_TO_P3),
+  "a98-rgb": rgbSpace(a98ToLinear, a98FromLinear, A98_TO_XYZ, XYZ_TO_A98),
+  "prophoto-rgb": {
+    toXyz: (c) =>
+      mul(D50_TO_D65, mul(PROPHOTO_TO_XYZ50, map3(c, prophotoToLinear))),
+    fromXyz: (xyz) =>
+      map3(mul(XYZ50_TO_PROPHOTO, mul(D65_TO_D50, xyz)), prophotoFromLinear),
+  },
+  rec2020: rgbSpace(
+    rec2020ToLinear,
+    rec2020FromLinear,
+    REC2020_TO_XYZ,
+    XYZ_TO_REC2020,
+  ),
+  "xyz-d65": { toXyz: (c) => c, fromXyz: (xyz) => xyz },
+  "xyz-d50": {
+    toXyz: (c) => mul(D50_TO_D65, c),
+    fromXyz: (xyz) => mul(D65_TO_D50, xyz),
+  },
+  lab: {
+    toXyz: (c) => mul(D50_TO_D65, labToXyzVec(c, "d50")),
+    fromXyz: (xyz) => xyzToLabVec(mul(D65_TO_D50, xyz), "d50"),
+  },
+  lch: {
+    toXyz: (c) => mul(D50_TO_D65, labToXyzVec(fromPolar(c), "d50")),
+    fromXyz: (xyz) => toPolar(xyzToLabVec(mul(D65_TO_D50, xyz), "d50"), 0.0015),
+    hue: 2,
+  },
+  oklab: { toXyz: oklabToXyzVec, fromXyz: xyzToOklabVec },
+  oklch: {
+    toXyz: (c) => oklabToXyzVec(fromPolar(c)),
+    fromXyz: (xyz) => toPolar(xyzToOklabVec(xyz), 0.000004),
+    hue: 2,
+  },
+  hsl: {
+    toXyz: (c) => SRGB.toXyz(hslToSrgb(c)),
+    fromXyz: (xyz) => srgbToHsl(SRGB.fromXyz(xyz)),
+    hue: 0,
+  },
+  hwb: {
+    toXyz: (c) => SRGB.toXyz(hwbToSrgb(c)),
+    fromXyz: (xyz) => srgbToHwb(SRGB.fromXyz(xyz)),
+    hue: 0,
+  },
+};
+
+/** `none` components are treated as 0 once a color leaves its own space */
+function convertSpace(color: SpaceColor, target: CssColorSpace): SpaceColor {
+  if (color.space === target) return color;
+  const filled = map3(color.coords, (v) => (Number.isNaN(v) ? 0 : v));
+  const coords = SPACES[target].fromXyz(SPACES[color.space].toXyz(filled));
+  // Carry a missing hue forward between polar spaces
+  const from = SPACES[color.space].hue;
+  const to = SPACES[target].hue;
+  if (
+    from !== undefined &&
+    to !== undefined &&
+    Number.isNaN(color.coords[from])
+  )
+    coords[to] = NaN;
+  return { space: target, coords, alpha: color.alpha };
+}
+
+// ─── Tokenizing ───────────────────────────────────────────────────────────────
+
+/** Split on `sep` outside parentheses */
+function splitTop(s: string, sep: "," | "/"): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "(") depth++;
+    else if (s[i] === ")") depth--;
+    else if (s[i] === sep && depth === 0) {
+      out.push(s.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  out.push(s.slice(start).trim());
+  return out;
+}
+
+/** Split on whitespace outside parentheses */
+function splitWords(s: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let word = "";
+  for (const ch of s) {
+    if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    if (depth === 0 && /\s/.test(ch)) {
+      if (word) out.push(word);
+      word = "";
+    } else word += ch;
+  }
+  if (word) out.push(word);
+  return out;
+}
+
+const NUMBER_RE =
+  /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/;
+
+/** How a component reads plain numbers and percentages */
+interface ComponentSpec {
+  /** Multiplier for plain numbers */
+  num: number;
+  /** Value that 100% maps to */
+  pct: number;
+  hue?: boolean;
+}
+
+const HUE: ComponentSpec = { num: 1, pct: 0, hue: true };
+const RGB_CHANNEL: ComponentSpec = { num: 1 / 255, pct: 1 };
+const PERCENT: ComponentSpec = { num: 1, pct: 100 };
+const UNIT: ComponentSpec = { num: 1, pct: 1 };
+
+function parseComponent(token: string, spec: ComponentSpec): number | null {
+  if (token === "none") return NaN;
+  const m = NUMBER_RE.exec(token);
+  if (!m) return null;
+  const n = +m[1];
+  const unit = m[2];
+  if (spec.hue) {
+    if (unit === "%") return null;
+    const deg =
+      unit === "rad"
+        ? (n * 180) / Math.PI
+        : unit === "grad"
+          ? n * 0.9
+          : unit === "turn"
+            ? n * 360
+            : n;
+    return normalizeHue(deg);
+  }
+  if (unit && unit !== "%") return null;
+  return unit === "%" ? (n / 100) * spec.pct : n * spec.num;
+}
+
+/** A plain number in a component's position — as if written without units */
+function numberComponent(n: number, spec: ComponentSpec): number | null {
+  if (!Number.isFinite(n)) return null;
+  return spec.hue ? normalizeHue(n) : n * spec.num;
+}
+
+function parseAlpha(token: string | undefined): number | null {
+  if (token === undefined) return 1;
+  const a = parseComponent(token, UNIT);
+  return a === null ? null : Number.isNaN(a) ? a : clamp(a, 0, 1);
+}
+
+// ─── Functions ────────────────────────────────────────────────────────────────
+
+interface FunctionDef {
+  space: CssColorSpace;
+  components: [ComponentSpec, ComponentSpec, ComponentSpec];
+  /** Channel keywords of the relative syntax, in component order */
+  channels: [string, string, string];
+  /** Accepts the comma-separated legacy syntax */
+  legacy?: boolean;
+  /** Range clamps applied after parsing */
+  fix?: (c: Vec3) => Vec3;
+}
+
+const clampRgb = (c: Vec3): Vec3 => map3(c, (v) => clamp(v, 0, 1));
+const clampL =
+  (max: number) =>
+  (c: Vec3): Vec3 => [clamp(c[0], 0, max), c[1], c[2]];
+const clampLC =
+  (max: number) =>
+  (c: Vec3): Vec3 => [clamp(c[0], 0, max), Math.max(0, c[1]), c[2]];
+
+const RGB_FN: FunctionDef = {
+  space: "srgb",
+  components: [RGB_CHANNEL, RGB_CHANNEL, RGB_CHANNEL],
+  channels: ["r", "g", "b"],
+  legacy: true,
+  fix: clampRgb,
+};
+const HSL_FN: FunctionDef = {
+  space: "hsl",
+  components: [HUE, PERCENT, PERCENT],
+  channels: ["h", "s", "l"],
+  legacy: true,
+  fix: ([h, s, l]) => [h, clamp(s, 0, 100), clamp(l, 0, 100)],
+};
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+  rgb: RGB_FN,
+  rgba: RGB_FN,
+  hsl: HSL_FN,
+  hsla: HSL_FN,
+  hwb: {
+    space: "hwb",
+    components: [HUE, PERCENT, PERCENT],
+    channels: ["h", "w", "b"],
+  },
+  lab: {
+    space: "lab",
+    components: [PERCENT, { num: 1, pct: 125 }, { num: 1, pct: 125 }],
+    channels: ["l", "a", "b"],
+    fix: clampL(100),
+  },
+  lch: {
+    space: "lch",
+    components: [PERCENT, { num: 1, pct: 150 }, HUE],
+    channels: ["l", "c", "h"],
+    fix: clampLC(100),
+  },
+  oklab: {
+    space: "oklab",
+    components: [UNIT, { num: 1, pct: 0.4 }, { num: 1, pct: 0.4 }],
+    channels: ["l", "a", "b"],
+    fix: clampL(1),
+  },
+  oklch: {
+    space: "oklch",
+    components: [UNIT, { num: 1, pct: 0.4 }, HUE],
+    channels: ["l", "c", "h"],
+    fix: clampLC(1),
+  },
+};
+
+/** Spaces accepted by color() — `xyz` is an alias for xyz-d65 */
+const COLOR_FN_SPACES: Record<string, CssColorSpace> = {
+  srgb: "srgb",
+  "srgb-linear": "srgb-linear",
+  "display-p3": "display-p3",
+  "a98-rgb": "a98-rgb",
+  "prophoto-rgb": "prophoto-rgb",
+  rec2020: "rec2020",
+  xyz: "xyz-d65",
+  "xyz-d65": "xyz-d65",
+  "xyz-d50": "xyz-d50",
+};
+
+function parseFunction(def: FunctionDef, body: string): SpaceColor | null {
+  if (body.startsWith("from ")) {
+    const relative = parseRelative(
+      body,
+      def.space,
+      def.channels,
+      def.components,
+    );
+    return relative && def.fix
+      ? { ...relative, coords: def.fix(relative.coords) }
+      : relative;
+  }
+  const commas = splitTop(body, ",");
+  let parts: string[];
+  let alphaToken: string | undefined;
+
+  if (commas.length > 1) {
+    // Legacy syntax: no `none`, and rgb() channels can't mix numbers and %
+    if (!def.legacy || commas.length < 3 || commas.length > 4) return null;
+    parts = commas.slice(0, 3);
+    alphaToken = commas[3];
+    if ([...parts, alphaToken].includes("none")) return null;
+    if (def === RGB_FN && new Set(parts.map((p) => p.endsWith("%"))).size > 1)
+      return null;
+  } else {
+    const slash = splitTop(body, "/");
+    if (slash.length > 2) return null;
+    parts = slash[0].split(/\s+/).filter(Boolean);
+    alphaToken = slash[1];
+  }
+  if (parts.length !== 3 || alphaToken === "") return null;
+
+  const coords = parts.map((p, i) => parseComponent(p, def.components[i]));
+  const alpha = parseAlpha(alphaToken);
+  if (coords.includes(null) || alpha === null) return null;
+  const c = coords as Vec3;
+  return { space: def.space, coords: def.fix ? def.fix(c) : c, alpha };
+}
+
+function parseColorFunction(body: string): SpaceColor | null {
+  if (body.startsWith("from ")) {
+    // The space name sits between the origin and the channels
+    const [from, origin, name, ...rest] = splitWords(body);
+    const space = COLOR_FN_SPACES[name];
+    if (!space || !origin) return null;
+    const channels: [string, string, string] = space.startsWith("xyz")
+      ? ["x", "y", "z"]
+      : ["r", "g", "b"];
+    return parseRelative([from, origin, ...rest].join(" "), space, channels, [
+      UNIT,
+      UNIT,
+      UNIT,
+    ]);
+  }
+  const slash = splitTop(body, "/");
+  if (slash.length > 2 || slash[1] === "") return null;
+  const [name, ...parts] = slash[0].split(/\s+/).filter(Boolean);
+  const space = COLOR_FN_SPACES[name];
+  if (!space || parts.length !== 3) return null;
+  const coords = parts.map((p) => parseComponent(p, UNIT));
+  const alpha = parseAlpha(slash[1]);
+  if (coords.includes(null) || alpha === null) return null;
+  return { space, coords: coords as Vec3, alpha };
+}
+
+// ─── Relative colors ──────────────────────────────────────────────────────────
+
+/**
+ * calc() over plain numbers and channel keywords — `+ - * /` and
+ * parentheses. Units and percentages inside calc() aren't supported.
+ */
+function evalCalc(expr: string, vars: Record<string, number>): number | null {
+  const tokens = expr.match(/(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?|[a-z]+|\S/g);
+  if (!tokens) return null;
+  let i = 0;
+  const factor = (): number => {
+    const t = tokens[i++];
+    if (t === "-") return -factor();
+    if (t === "+") return factor();
+    if (t === "calc" && tokens[i] === "(") i++;
+    else if (t !== "(") {
+      if (Object.hasOwn(vars, t)) return vars[t];
+      return /^[\d.]/.test(t ?? "") ? +t : NaN;
+    }
+    const v = sum();
+    return tokens[i++] === ")" ? v : NaN;
+  };
+  const product = (): number => {
+    let v = factor();
+    while (tokens[i] === "*" || tokens[i] === "/")
+      v = tokens[i++] === "*" ? v * factor() : v / factor();
+    return v;
+  };
+  const sum = (): number => {
+    let v = product();
+    while (tokens[i] === "+" || tokens[i] === "-")
+      v = tokens[i++] === "+" ? v + product() : v - product();
+    return v;
+  };
+  const v = factor();
+  return i === tokens.length && Number.isFinite(v) ? v : null;
+}
+
+/**
+ * `from <color> c1 c2 c3 [/ alpha]` — the origin is converted to `space` and
+ * its channels become keywords, on their own or inside calc(). Keywords read
+ * in the function's number range (0–255 for rgb(), 0–100 for hsl()'s s and
+ * l); a `none` channel of the origin reads as 0.
+ */
+function parseRelative(
+  body: string,
+  space: CssColorSpace,
+  channels: [string, string, string],
+  components: [ComponentSpec, ComponentSpec, ComponentSpec],
+): SpaceColor | null {
+  const slash = splitTop(body, "/");
+  if (slash.length > 2 || slash[1] === "") return null;
+  const [, originToken, ...parts] = splitWords(slash[0]);
+  const origin = originToken && parseSpaceColor(originToken);
+  if (!origin || parts.length !== 3) return null;
+
+  const converted = convertSpace(origin, space);
+  const zero = (v: number) => (Number.isNaN(v) ? 0 : v);
+  const vars: Record<string, number> = { alpha: zero(origin.alpha) };
+  channels.forEach((name, i) => {
+    vars[name] = zero(converted.coords[i]) / components[i].num;
+  });
+  const resolve = (token: string, spec: ComponentSpec) => {
+    if (Object.hasOwn(vars, token)) return numberComponent(vars[token], spec);
+    if (token.startsWith("calc(")) {
+      const n = evalCalc(token, vars);
+      return n === null ? null : numberComponent(n, spec);
+    }
+    return parseComponent(token, spec);
+  };
+
+  const coords = parts.map((p, i) => resolve(p, components[i]));
+  const alpha = resolve(slash[1] ?? "alpha", UNIT);
+  if (coords.includes(null) || alpha === null) return null;
+  return {
+    space,
+    coords: coords as Vec3,
+    alpha: Number.isNaN(alpha) ? alpha : clamp(alpha, 0, 1),
+  };
+}
+
+// ─── color-mix() ──────────────────────────────────────────────────────────────
+
+type HueMethod = "shorter" | "longer" | "increasing" | "decreasing";
+
+const MIX_SPACES: Record<string, CssColorSpace> = {
+  ...COLOR_FN_SPACES,
+  lab: "lab",
+  lch: "lch",
+  oklab: "oklab",
+  oklch: "oklch",
+  hsl: "hsl",
+  hwb: "hwb",
+};
+
+/** `<color> <pct>?` or `<pct> <color>` */
+function parseMixArg(arg: string): { color: SpaceColor; pct?: number } | null {
+  const lead = /^([+-]?[\d.]+)%\s+([\s\S]+)$/.exec(arg);
+  const trail = /^([\s\S]+?)\s+([+-]?[\d.]+)%$/.exec(arg);
+  const [colorStr, pctStr] = lead
+    ? [lead[2], lead[1]]
+    : trail
+      ? [trail[1], trail[2]]
+      : [arg, undefined];
+  const color = parseSpaceColor(colorStr);
+  if (!color) return null;
+  if (pctStr === undefined) return { color };
+  const pct = +pctStr;
+  return Number.isFinite(pct) && pct >= 0 && pct <= 100 ? { color, pct } : null;
+}
+
+function fixupHues(
+  h1: number,
+  h2: number,
+  method: HueMethod,
+): [number, number] {
+  const d = h2 - h1;
+  if (method === "shorter") {
+    if (d > 180) h1 += 360;
+    else if (d < -180) h2 += 360;
+  } else if (method === "longer") {
+    if (d > 0 && d < 180) h1 += 360;
+    else if (d > -180 && d <= 0) h2 += 360;
+  } else if (method === "increasing") {
+    if (h2 < h1) h2 += 360;
+  } else if (h1 < h2) h1 += 360;
+  return [h1, h2];
+}
+
+function parseColorMix(body: string): SpaceColor | null {
+  const args = splitTop(body, ",");
+  // The interpolation method is optional in Color 5 — default is oklab
+  const head = args.length === 3 ? args.shift()! : "in oklab";
+  if (args.length !== 2) return null;
+  const method =
+    /^in\s+([a-z0-9-]+)(?:\s+(shorter|longer|increasing|decreasing)\s+hue)?$/.exec(
+      head,
+    );
+  const space = method && MIX_SPACES[method[1]];
+  if (!space) return null;
+  const hueIndex = SPACES[space].hue;
+  if (method[2] && hueIndex === undefined) return null;
+
+  const a = parseMixArg(args[0]);
+  const b = parseMixArg(args[1]);
+  if (!a || !b) return null;
+
+  // Percentage normalisation — omitted values complement each other
+  let p1 = a.pct ?? (b.pct !== undefined ? 100 - b.pct : 50);
+  let p2 = b.pct ?? 100 - p1;
+  const sum = p1 + p2;
+  if (sum === 0) return null;
+  const alphaMultiplier = Math.min(sum, 100) / 100;
+  p1 /= sum;
+  p2 /= sum;
+
+  const c1 = convertSpace(a.color, space);
+  const c2 = convertSpace(b.color, space);
+  const fill = (x: number, y: number) => (Number.isNaN(x) ? y : x);
+  const a1 = fill(c1.alpha, c2.alpha);
+  const a2 = fill(c2.alpha, c1.alpha);
+  // Both alphas `none` — treated as opaque for the premultiplication
+  const alpha1 = Number.isNaN(a1) ? 1 : a1;
+  const alpha2 = Number.isNaN(a2) ? 1 : a2;
+  const alpha = alpha1 * p1 + alpha2 * p2;
+
+  const coords = c1.coords.map((v, i) => {
+    let x = fill(v, c2.coords[i]);
+    let y = fill(c2.coords[i], v);
+    if (Number.isNaN(x)) return NaN; // missing in both
+    if (i === hueIndex) {
+      [x, y] = fixupHues(x, y, (method[2] as HueMethod) ?? "shorter");
+      return normalizeHue(x * p1 + y * p2);
+    }
+    // Premultiplied interpolation
+    const mixed = x * alpha1 * p1 + y * alpha2 * p2;
+    return alpha === 0 ? x * p1 + y * p2 : mixed / alpha;
+  }) as Vec3;
+
+  return { space, coords, alpha: alpha * alphaMultiplier };
+}
+
+// ─── Named colors ─────────────────────────────────────────────────────────────
+
+/** CSS Color 4 named colors → 6-digit hex without the leading # */
+export const CSS_NAMED_COLORS: Record<string, string> = {
+  aliceblue: "f0f8ff",
+  antiquewhite: "faebd7",
+  aqua: "00ffff",
+  aquamarine: "7fffd4",
+  azure: "f0ffff",
+  beige: "f5f5dc",
+  bisque: "ffe4c4",
+  black: "000000",
+  blanchedalmond: "ffebcd",
+  blue: "0000ff",
+  blueviolet: "8a2be2",
+  brown: "a52a2a",
+  burlywood: "deb887",
+  cadetblue: "5f9ea0",
+  chartreuse: "7fff00",
+  chocolate: "d2691e",
+  coral: "ff7f50",
+  cornflowerblue: "6495ed",
+  cornsilk: "fff8dc",
+  crimson: "dc143c",
+  cyan: "00ffff",
+  darkblue: "00008b",
+  darkcyan: "008b8b",
+  darkgoldenrod: "b8860b",
+  darkgray: "a9a9a9",
+  darkgreen: "006400",
+  darkgrey: "a9a9a9",
+  darkkhaki: "bdb76b",
+  darkmagenta: "8b008b",
+  darkolivegreen: "556b2f",
+  darkorange: "ff8c00",
+  darkorchid: "9932cc",
+  darkred: "8b0000",
+  darksalmon: "e9967a",
+  darkseagreen: "8fbc8f",
+  darkslateblue: "483d8b",
+  darkslategray: "2f4f4f",
+  darkslategrey: "2f4f4f",
+  darkturquoise: "00ced1",
+  darkviolet: "9400d3",
+  deeppink: "ff1493",
+  deepskyblue: "00bfff",
+  dimgray: "696969",
+  dimgrey: "696969",
+  dodgerblue: "1e90ff",
+  firebrick: "b22222",
+  floralwhite: "fffaf0",
+  forestgreen: "228b22",
+  fuchsia: "ff00ff",
+  gainsboro: "dcdcdc",
+  ghostwhite: "f8f8ff",
+  gold: "ffd700",
+  goldenrod: "daa520",
+  gray: "808080",
+  green: "008000",
+  greenyellow: "adff2f",
+  grey: "808080",
+  honeydew: "f0fff0",
+  hotpink: "ff69b4",
+  indianred: "cd5c5c",
+  indigo: "4b0082",
+  ivory: "fffff0",
+  khaki: "f0e68c",
+  lavender: "e6e6fa",
+  lavenderblush: "fff0f5",
+  lawngreen: "7cfc00",
+  lemonchiffon: "fffacd",
+  lightblue: "add8e6",
+  lightcoral: "f08080",
+  lightcyan: "e0ffff",
+  lightgoldenrodyellow: "fafad2",
+  lightgray: "d3d3d3",
+  lightgreen: "90ee90",
+  lightgrey: "d3d3d3",
+  lightpink: "ffb6c1",
+  lightsalmon: "ffa07a",
+  lightseagreen: "20b2aa",
+  lightskyblue: "87cefa",
+  lightslategray: "778899",
+  lightslategrey: "778899",
+  lightsteelblue: "b0c4de",
+  lightyellow: "ffffe0",
+  lime: "00ff00",
+  limegreen: "32cd32",
+  linen: "faf0e6",
+  magenta: "ff00ff",
+  maroon: "800000",
+  mediumaquamarine: "66cdaa",
+  mediumblue: "0000cd",
+  mediumorchid: "ba55d3",
+  mediumpurple: "9370db",
+  mediumseagreen: "3cb371",
+  mediumslateblue: "7b68ee",
+  mediumspringgreen: "00fa9a",
+  mediumturquoise: "48d1cc",
+  mediumvioletred: "c71585",
+  midnightblue: "191970",
+  mintcream: "f5fffa",
+  mistyrose: "ffe4e1",
+  moccasin: "ffe4b5",
+  navajowhite: "ffdead",
+  navy: "000080",
+  oldlace: "fdf5e6",
+  olive: "808000",
+  olivedrab: "6b8e23",
+  orange: "ffa500",
+  orangered: "ff4500",
+  orchid: "da70d6",
+  palegoldenrod: "eee8aa",
+  palegreen: "98fb98",
+  paleturquoise: "afeeee",
+  palevioletred: "db7093",
+  papayawhip: "ffefd5",
+  peachpuff: "ffdab9",
+  peru: "cd853f",
+  pink: "ffc0cb",
+  plum: "dda0dd",
+  powderblue: "b0e0e6",
+  purple: "800080",
+  rebeccapurple: "663399",
+  red: "ff0000",
+  rosybrown: "bc8f8f",
+  royalblue: "4169e1",
+  saddlebrown: "8b4513",
+  salmon: "fa8072",
+  sandybrown: "f4a460",
+  seagreen: "2e8b57",
+  seashell: "fff5ee",
+  sienna: "a0522d",
+  silver: "c0c0c0",
+  skyblue: "87ceeb",
+  slateblue: "6a5acd",
+  slategray: "708090",
+  slategrey: "708090",
+  snow: "fffafa",
+  springgreen: "00ff7f",
+  steelblue: "4682b4",
+  tan: "d2b48c",
+  teal: "008080",
+  thistle: "d8bfd8",
+  tomato: "ff6347",
+  turquoise: "40e0d0",
+  violet: "ee82ee",
+  wheat: "f5deb3",
+  white: "ffffff",
+  whitesmoke: "f5f5f5",
+  yellow: "ffff00",
+  yellowgreen: "9acd32",
+};
+
+// ─── Entry points ─────────────────────────────────────────────────────────────
+
+/** #rgb, #rgba, #rrggbb, #rrggbbaa — the leading "#" is optional here */
+function parseHexColor(s: string): SpaceColor | null {
+  const m = /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(s);
+  if (!m) return null;
+  let h = m[1];
+  if (h.length <= 4)
+    h = h
+      .split("")
+      .map((c) => c + c)
+      .join("");
+  const byte = (i: number) => parseInt(h.slice(i, i + 2), 16) / 255;
+  return {
+    space: "srgb",
+    coords: [byte(0), byte(2), byte(4)],
+    alpha: h.length === 8 ? byte(6) : 1,
+  };
+}
+
+function parseSpaceColor(input: string): SpaceColor | null {
+  const s = input.trim().toLowerCase();
+  if (!s) return null;
+  if (s === "transparent")
+    return { space: "srgb", coords: [0, 0, 0], alpha: 0 };
+  const named = CSS_NAMED_COLORS[s];
+  if (named) return parseHexColor(named);
+  const hex = parseHexColor(s);
+  if (hex) return hex;
+
+  const fn = /^([a-z-]+)\(([\s\S]*)\)$/.exec(s);
+  if (!fn) return null;
+  const [, name, body] = fn;
+  if (name === "color-mix") return parseColorMix(body);
+  if (name === "color") return parseColorFunction(body);
+  const def = FUNCTIONS[name];
+  return def ? parseFunction(def, body) : null;
+}
+
+/** Half an 8-bit step — anything closer to the sRGB cube counts as in gamut */
+const GAMUT_EPSILON = 0.5 / 255;
+
+/**
+ * Parse any CSS Color 4/5 string, relative colors (`rgb(from …)`) included.
+ * Out-of-gamut colors are clipped to sRGB and flagged; `none` components
+ * resolve to 0.
+ */
+export function parseColor(input: string): ParsedColor | null {
+  const color = parseSpaceColor(input);
+  if (!color) return null;
+  const srgb = convertSpace(color, "srgb").coords.map((v) =>
+    Number.isNaN(v) ? 0 : v,
+  );
+  const inGamut = srgb.every(
+    (v) => v >= -GAMUT_EPSILON && v <= 1 + GAMUT_EPSILON,
+  );
+  const to255 = (v: number) => Math.round(clamp(v, 0, 1) * 255);
+  const rgb: RGB = { r: to255(srgb[0]), g: to255(srgb[1]), b: to255(srgb[2]) };
+  const alpha = Number.isNaN(color.alpha) ? 0 : color.alpha;
+  return { rgb, alpha: Math.round(clamp(alpha, 0, 1) * 100), inGamut };
+}
@@ -0,0 +1,427 @@
+// cvd.utils.ts
+// Color-vision deficiency simulation in linear RGB — Machado, Oliveira &
+// Fernandes 2009 with graded severity, Brettel, Viénot & Mollon 1997 for
+// dichromats, plus rod and blue-cone monochromacy. One engine for single
+// colors, whole token sets and image pixels. Re-exported from color-math.ts.
+
+import type {
+  CvdConflict,
+  CvdNudge,
+  CvdSimulation,
+  CvdType,
+  DeltaEMetric,
+  RGB,
+  ThemeTokenSet,
+} from "@/types";
+import {
+  clamp,
+  fromLinear,
+  hexToRgb,
+  oklchToRgb,
+  rgbToHex,
+  rgbToOklab,
+  rgbToOklch,
+  toLinear,
+} from "./color-math.utils";
+import { DELTA_E_METRICS, type DeltaEMetricDef } from "./delta-e.utils";
+
+type Mat3 = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+const IDENTITY: Mat3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// ─── Machado 2009 ─────────────────────────────────────────────────────────────
+// Linear-sRGB matrices at severity 0.1…1.0 (Machado et al., Table 1);
+// severity 0 is the identity and values in between are interpolated.
+
+// prettier-ignore
+const MACHADO: Record<"protan" | "deutan" | "tritan", Mat3[]> = {
+  protan: [
+    [0.856167, 0.182038, -0.038205, 0.029342, 0.955115, 0.015544, -0.00288, -0.001563, 1.004443],
+    [0.734766, 0.334872, -0.069637, 0.05184, 0.919198, 0.028963, -0.004928, -0.004209, 1.009137],
+    [0.630323, 0.465641, -0.095964, 0.069181, 0.890046, 0.040773, -0.006308, -0.007724, 1.014032],
+    [0.539009, 0.579343, -0.118352, 0.082546, 0.866121, 0.051332, -0.007136, -0.011959, 1.019095],
+    [0.458064, 0.679578, -0.137642, 0.092785, 0.846313, 0.060902, -0.007494, -0.016807, 1.024301],
+    [0.38545, 0.769005, -0.154455, 0.100526, 0.829802, 0.069673, -0.007442, -0.02219, 1.029632],
+    [0.319627, 0.849633, -0.169261, 0.106241, 0.815969, 0.07779, -0.007025, -0.028051, 1.035076],
+    [0.259411, 0.923008, -0.18242, 0.110296, 0.80434, 0.085364, -0.006276, -0.034346, 1.040622],
+    [0.203876, 0.990338, -0.194214, 0.112975, 0.794542, 0.092483, -0.005222, -0.041043, 1.046265],
+    [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  ],
+  deutan: [
+    [0.866435, 0.177704, -0.044139, 0.049567, 0.939063, 0.01137, -0.003453, 0.007233, 0.99622],
+    [0.760729, 0.319078, -0.079807, 0.090568, 0.889315, 0.020117, -0.006027, 0.013325, 0.992702],
+    [0.675425, 0.43385, -0.109275, 0.125303, 0.847755, 0.026942, -0.00795, 0.018572, 0.989378],
+    [0.605511, 0.52856, -0.134071, 0.155318, 0.812366, 0.032316, -0.009376, 0.023176, 0.9862],
+    [0.547494, 0.607765, -0.155259, 0.181692, 0.781742, 0.036566, -0.01041, 0.027275, 0.983136],
+    [0.498864, 0.674741, -0.173604, 0.205199, 0.754872, 0.039929, -0.011131, 0.030969, 0.980162],
+    [0.457771, 0.731899, -0.18967, 0.226409, 0.731012, 0.042579, -0.011595, 0.034333, 0.977261],
+    [0.422823, 0.781057, -0.203881, 0.245752, 0.709602, 0.044646, -0.011843, 0.037423, 0.974421],
+    [0.392952, 0.82361, -0.216562, 0.263559, 0.69021, 0.046232, -0.01191, 0.040281, 0.97163],
+    [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881],
+  ],
+  tritan: [
+    [0.92667, 0.092514, -0.019184, 0.021191, 0.964503, 0.014306, 0.008437, 0.054813, 0.93675],
+    [0.89572, 0.13333, -0.02905, 0.029997, 0.9454, 0.024603, 0.013027, 0.104707, 0.882266],
+    [0.905871, 0.127791, -0.033662, 0.026856, 0.941251, 0.031893, 0.01341, 0.148296, 0.838294],
+    [0.948035, 0.08949, -0.037526, 0.014364, 0.946792, 0.038844, 0.010853, 0.193991, 0.795156],
+    [1.017277, 0.027029, -0.044306, -0.006113, 0.958479, 0.047634, 0.006379, 0.248708, 0.744913],
+    [1.104996, -0.046633, -0.058363, -0.032137, 0.971635, 0.060503, 0.001336, 0.317922, 0.680742],
+    [1.193214, -0.109812, -0.083402, -0.058496, 0.97941, 0.079086, -0.002346, 0.403492, 0.598854],
+    [1.257728, -0.139648, -0.118081, -0.078003, 0.975409, 0.102594, -0.003316, 0.501214, 0.502102],
+    [1.278864, -0.125333, -0.153531, -0.084748, 0.957674, 0.127074, -0.000989, 0.601151, 0.399838],
+    [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039],
+  ],
+};
+
+function lerpMat(a: Mat3, b: Mat3, t: number): Mat3 {
+  return a.map((v, i) => v + (b[i] - v) * t) as Mat3;
+}
+
+// ─── Monochromacies ───────────────────────────────────────────────────────────
+// Rod monochromacy (achromatopsia) sees only luminance. Blue-cone
+// monochromacy keeps S cones alone, so brightness follows the S-cone
+// response (Viénot 1999 LMS row, normalized so white stays white).
+
+const Y_ROW = [0.2126, 0.7152, 0.0722];
+const S_ROW = [0.01782, 0.10963, 0.87255];
+
+const mono = ([r, g, b]: number[]): Mat3 => [r, g, b, r, g, b, r, g, b];
+
+/** Linear-RGB simulation matrix — Machado for protan/deutan/tritan */
+export function cvdMatrix(type: CvdType, severity: number): Mat3 {
+  const s = clamp(severity, 0, 1);
+  if (type === "achromat") return lerpMat(IDENTITY, mono(Y_ROW), s);
+  if (type === "bcm") return lerpMat(IDENTITY, mono(S_ROW), s);
+  const table = MACHADO[type];
+  const pos = s * 10;
+  const i = Math.floor(pos);
+  if (i >= 10) return table[9];
+  const lo = i === 0 ? IDENTITY : table[i - 1];
+  return lerpMat(lo, table[i], pos - i);
+}
+
+// ─── Brettel 1997 ─────────────────────────────────────────────────────────────
+// Two projection half-planes per dichromacy in linear sRGB, split by a plane
+// through the neutral axis (DaltonLens formulation). Severity blends linearly
+// between the original and the dichromat projection.
+
+// prettier-ignore
+const BRETTEL: Record<"protan" | "deutan" | "tritan", { a: Mat3; b: Mat3; normal: [number, number, number] }> = {
+  protan: {
+    a: [0.1498, 1.19548, -0.34528, 0.10764, 0.84864, 0.04372, 0.00384, -0.0054, 1.00156],
+    b: [0.1457, 1.16172, -0.30742, 0.10816, 0.85291, 0.03892, 0.00386, -0.00524, 1.00139],
+    normal: [0.00048, 0.00393, -0.00441],
+  },
+  deutan: {
+    a: [0.36477, 0.86381, -0.22858, 0.26294, 0.64245, 0.09462, -0.02006, 0.02728, 0.99278],
+    b: [0.37298, 0.88166, -0.25464, 0.25954, 0.63506, 0.1054, -0.0198, 0.02784, 0.99196],
+    normal: [-0.00281, -0.00611, 0.00892],
+  },
+  tritan: {
+    a: [1.01277, 0.13548, -0.14826, -0.01243, 0.86812, 0.14431, 0.07589, 0.805, 0.11911],
+    b: [0.93678, 0.18979, -0.12657, 0.06154, 0.81526, 0.1232, -0.37562, 1.12767, 0.24796],
+    normal: [0.03901, -0.02788, -0.01113],
+  },
+};
+
+// ─── Engine ───────────────────────────────────────────────────────────────────
+
+const apply = (M: Mat3, r: number, g: number, b: number) =>
+  [
+    M[0] * r + M[1] * g + M[2] * b,
+    M[3] * r + M[4] * g + M[5] * b,
+    M[6] * r + M[7] * g + M[8] * b,
+  ] as const;
+
+/**
+ * Per-pixel simulator in linear RGB (0–1). Built once per simulation so
+ * swatches, token sets and images share the same math.
+ */
+function linearSimulator(
+  sim: CvdSimulation,
+): (r: number, g: number, b: number) => readonly [number, number, number] {
+  const s = clamp(sim.severity, 0, 1);
+  if (s === 0) return (r, g, b) => [r, g, b];
+  if (sim.method === "brettel" && sim.type in BRETTEL) {
+    const { a, b: planeB, normal } = BRETTEL[sim.type as keyof typeof BRETTEL];
+    return (r, g, b) => {
+      const side = r * normal[0] + g * normal[1] + b * normal[2];
+      const [x, y, z] = apply(side >= 0 ? a : planeB, r, g, b);
+      return [r + (x - r) * s, g + (y - g) * s, b + (z - b) * s];
+    };
+  }
+  const M = cvdMatrix(sim.type, s);
+  return (r, g, b) => apply(M, r, g, b);
+}
+
+/** Simulate how a color appears under a color-vision deficiency */
+export function simulateCvd(rgb: RGB, sim: CvdSimulation): RGB {
+  const [r, g, b] = linearSimulator(sim)(
+    toLinear(rgb.r / 255),
+    toLinear(rgb.g / 255),
+    toLinear(rgb.b / 255),
+  );
+  const enc = (v: number) => Math.round(fromLinear(clamp(v, 0, 1)) * 255);
+  return { r: enc(r), g: enc(g), b: enc(b) };
+}
+
+/** Hex in, hex out — for swatches and token previews */
+export function simulateCvdHex(hex: string, sim: CvdSimulation): string {
+  return rgbToHex(simulateCvd(hexToRgb(hex), sim));
+}
+
+/** Every color of a token set as seen under `sim` — drives CVD theme previews */
+export function simulateCvdTokens(
+  tokens: ThemeTokenSet,
+  sim: CvdSimulation,
+): ThemeTokenSet {
+  const f = (hex: string) => simulateCvdHex(hex, sim);
+  return {
+    semantic: tokens.semantic.map((t) => ({
+      ...t,
+      light: f(t.light),
+      dark: f(t.dark),
+    })),
+    utility: Object.fromEntries(
+      Object.entries(tokens.utility).map(([role, u]) => [
+        role,
+        {
+          ...u,
+          base: f(u.base),
+          light: f(u.light),
+          dark: f(u.dark),
+          subtle: f(u.subtle),
+          subtleDark: f(u.subtleDark),
+        },
+      ]),
+    ) as ThemeTokenSet["utility"],
+    palette: tokens.palette.map((p) => ({ ...p, hex: f(p.hex) })),
+  };
+}
+
+const LINEAR_LUT = Float32Array.from({ length: 256 }, (_, i) =>
+  toLinear(i / 255),
+);
+const ENCODE_STEPS = 4096;
+const ENCODE_LUT = Uint8ClampedArray.from(
+  { length: ENCODE_STEPS + 1 },
+  (_, i) => Math.round(fromLinear(i / ENCODE_STEPS) * 255),
+);
+
+/** Simulate RGBA pixels (canvas ImageData.data) in place — alpha is untouched */
+export function simulateCvdPixels(
+  data: Uint8ClampedArray,
+  sim: CvdSimulation,
+): Uint8ClampedArray {
+  const fn = linearSimulator(sim);
+  const enc = (v: number) =>
+    ENCODE_LUT[Math.round(clamp(v, 0, 1) * ENCODE_STEPS)];
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = fn(
+      LINEAR_LUT[data[i]],
+      LINEAR_LUT[data[i + 1]],
+      LINEAR_LUT[data[i + 2]],
+    );
+    data[i] = enc(r);
+    data[i + 1] = enc(g);
+    data[i + 2] = enc(b);
+  }
+  return data;
+}
+
+/** "Deuteranopia", "Protanomaly (60%)", "Blue-cone monochromacy"… */
+export function cvdLabel({ type, severity }: CvdSimulation): string {
+  const pct = Math.round(clamp(severity, 0, 1) * 100);
+  if (pct === 0) return "Normal vision";
+  if (type === "achromat" || type === "bcm") {
+    const name =
+      type === "achromat" ? "Achromatopsia" : "Blue-cone monochromacy";
+    return pct === 100 ? name : `${name} (${pct}%)`;
+  }
+  const stem = { protan: "Protan", deutan: "Deuteran", tritan: "Tritan" }[type];
+  return pct === 100 ? `${stem}opia` : `${stem}omaly (${pct}%)`;
+}
+
+// ─── Distinguishability ───────────────────────────────────────────────────────
+// Pairwise distances between palette colors after simulation, in JNDs of the
+// chosen ΔE metric so thresholds mean the same thing across metrics.
+
+/** Below this many JNDs two chart colors are easy to confuse */
+export const CVD_SAFE_DISTANCE = 10;
+
+/** The three dichromacies — the default set a chart palette must survive */
+export const CVD_DICHROMACIES: CvdSimulation[] = [
+  { type: "protan", severity: 1 },
+  { type: "deutan", severity: 1 },
+  { type: "tritan", severity: 1 },
+];
+
+export interface CvdSafetyOptions {
+  metric?: DeltaEMetric;
+  /** Minimum distance in JNDs */
+  threshold?: number;
+}
+
+const NORMAL_VISION: CvdSimulation = { type: "protan", severity: 0 };
+
+type Coords = ReturnType<DeltaEMetricDef["prepare"]>;
+
+/** Distances between every pair of `rgbs` under one simulation, in JNDs */
+function pairDistances(
+  rgbs: RGB[],
+  sim: CvdSimulation,
+  metric: DeltaEMetric,
+): { coords: Coords[]; at: (i: number, j: number) => number } {
+  const { prepare, diff, jnd } = DELTA_E_METRICS[metric];
+  const coords = rgbs.map((rgb) => prepare(simulateCvd(rgb, sim)));
+  const n = rgbs.length;
+  const table = new Float64Array(n * n);
+  for (let i = 0; i < n; i++)
+    for (let j = i + 1; j < n; j++)
+      table[i * n + j] = table[j * n + i] = diff(coords[i], coords[j]) / jnd;
+  return { coords, at: (i, j) => table[i * n + j] };
+}
+
+/**
+ * Every pair of colors that falls below `threshold` JNDs under any of `sims`,
+ * closest first. Pairs already that close under normal vision are skipped —
+ * those are a palette problem, not a color-blindness one.
+ */
+export function cvdConflicts(
+  hexes: string[],
+  sims: CvdSimulation[] = CVD_DICHROMACIES,
+  { metric = "2000", threshold = CVD_SAFE_DISTANCE }: CvdSafetyOptions = {},
+): CvdConflict[] {
+  const rgbs = hexes.map(hexToRgb);
+  const normal = pairDistances(rgbs, NORMAL_VISION, metric);
+  const conflicts: CvdConflict[] = [];
+  for (const sim of sims) {
+    const simulated = pairDistances(rgbs, sim, metric);
+    for (let a = 0; a < rgbs.length; a++)
+      for (let b = a + 1; b < rgbs.length; b++) {
+        const jnd = simulated.at(a, b);
+        const normalJnd = normal.at(a, b);
+        if (jnd < threshold && normalJnd >= threshold)
+          conflicts.push({ sim, a, b, jnd, normalJnd });
+      }
+  }
+  return conflicts.sort((x, y) => x.jnd - y.jnd);
+}
+
+// OKLCH search grid for nudges — ±0.24 L, ±0.12 C, ±45° H
+const NUDGE_L = 12,
+  NUDGE_L_STEP = 0.02;
+const NUDGE_C = 6,
+  NUDGE_C_STEP = 0.02;
+const NUDGE_H = 9,
+  NUDGE_H_STEP = 5;
+
+/**
+ * Smallest OKLCH change to one side of `conflict` that lifts it to
+ * `threshold` without pulling any other pair below it (or further below,
+ * if it already was) under normal vision or any of `sims`. Both sides are
+ * tried — skipping `locked` slot indexes — and the cheaper move wins.
+ * Candidates are visited nearest-first in OKLab, so the first that passes
+ * is the nudge. Returns null when nothing within the search range works.
+ */
+export function suggestCvdNudge(
+  hexes: string[],
+  conflict: CvdConflict,
+  sims: CvdSimulation[] = CVD_DICHROMACIES,
+  {
+    metric = "2000",
+    threshold = CVD_SAFE_DISTANCE,
+    locked = [],
+  }: CvdSafetyOptions & { locked?: number[] } = {},
+): CvdNudge | null {
+  const { prepare, diff, jnd } = DELTA_E_METRICS[metric];
+  const dist = (x: Coords, y: Coords) => diff(x, y) / jnd;
+  const rgbs = hexes.map(hexToRgb);
+  const views = [NORMAL_VISION, ...sims].map((sim) => ({
+    sim,
+    ...pairDistances(rgbs, sim, metric),
+  }));
+
+  const offsets: { dL: number; dC: number; dH: number }[] = [];
+  for (let l = -NUDGE_L; l <= NUDGE_L; l++)
+    for (let c = -NUDGE_C; c <= NUDGE_C; c++)
+      for (let h = -NUDGE_H; h <= NUDGE_H; h++)
+        if (l || c || h)
+          offsets.push({
+            dL: l * NUDGE_L_STEP,
+            dC: c * NUDGE_C_STEP,
+            dH: h * NUDGE_H_STEP,
+          });
+
+  const tryMove = (index: number, other: number): CvdNudge | null => {
+    const orig = rgbToOklch(rgbs[index]);
+    const origLab = rgbToOklab(rgbs[index]);
+    const labAt = ({ dL, dC, dH }: (typeof offsets)[number]) => {
+      const L = clamp(orig.L + dL, 0, 1);
+      const C = Math.max(0, orig.C + dC);
+      const h = ((orig.H + dH) * Math.PI) / 180;
+      return { L, C, H: orig.H + dH, a: C * Math.cos(h), b: C * Math.sin(h) };
+    };
+    const ranked = offsets
+      .map((o) => {
+        const p = labAt(o);
+        const cost = Math.hypot(
+          p.L - origLab.L,
+          p.a - origLab.a,
+          p.b - origLab.b,
+        );
+        return { o, p, cost };
+      })
+      .sort((x, y) => x.cost - y.cost);
+
+    const apart = prepare(simulateCvd(rgbs[other], conflict.sim));
+    const seen = new Set<string>();
+    for (const { p } of ranked) {
+      const hex = rgbToHex(
+        oklchToRgb({ L: p.L, C: p.C, H: (p.H + 360) % 360 }),
+      );
+      if (seen.has(hex) || hex === hexes[index]) continue;
+      seen.add(hex);
+      const rgb = hexToRgb(hex);
+      // Cheap check first — does it fix the pair we were asked about?
+      if (dist(prepare(simulateCvd(rgb, conflict.sim)), apart) < threshold)
+        continue;
+      const ok = views.every((v) => {
+        const c = prepare(simulateCvd(rgb, v.sim));
+        return rgbs.every(
+          (_, j) =>
+            j === index ||
+            dist(c, v.coords[j]) >= Math.min(threshold, v.at(index, j)),
+        );
+      });
+      if (!ok) continue;
+      // Report the move actually made — gamut mapping may have trimmed it
+      const moved = rgbToOklch(rgb);
+      return {
+        index,
+        hex,
+        dL: moved.L - orig.L,
+        dC: moved.C - orig.C,
+        dH: ((moved.H - orig.H + 540) % 360) - 180,
+        shift: dist(prepare(rgb), views[0].coords[index]),
+      };
+    }
+    return null;
+  };
+
+  const options = [
+    locked.includes(conflict.a) ? null : tryMove(conflict.a, conflict.b),
+    locked.includes(conflict.b) ? null : tryMove(conflict.b, conflict.a),
+  ].filter((n): n is CvdNudge => n !== null);
+  return options.sort((x, y) => x.shift - y.shift)[0] ?? null;
+}
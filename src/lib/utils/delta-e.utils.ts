@@ -0,0 +1,237 @@
+// delta-e.utils.ts
+// Color-difference metrics — ΔE76, ΔE94, ΔE2000, CMC l:c, ΔEITP and ΔEOK —
+// behind one registry so dedup, naming, brand matching and scoring can pick
+// a metric. Re-exported from color-math.ts.
+
+import type { DeltaEMetric, RGB } from "@/types";
+import { rgbToOklab } from "./color-math.utils";
+import { rgbToLab, rgbToXyz } from "./color-space.utils";
+
+type Coords = [number, number, number];
+
+const DEG = Math.PI / 180;
+
+// ─── CIELAB metrics ───────────────────────────────────────────────────────────
+// All Lab-based formulas use D65 CIELAB.
+
+function labCoords(rgb: RGB): Coords {
+  const { L, a, b } = rgbToLab(rgb, "d65");
+  return [L, a, b];
+}
+
+function deltaE76([L1, a1, b1]: Coords, [L2, a2, b2]: Coords): number {
+  return Math.hypot(L1 - L2, a1 - a2, b1 - b2);
+}
+
+/** ΔC and ΔH² shared by ΔE94 and CMC — ΔH² can dip below 0 from rounding */
+function chromaHueDiff([, a1, b1]: Coords, [, a2, b2]: Coords) {
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const dC = C1 - C2;
+  const dH2 = Math.max(0, (a1 - a2) ** 2 + (b1 - b2) ** 2 - dC * dC);
+  return { C1, dC, dH2 };
+}
+
+/** CIE94, graphic-arts weights (kL = 1, K1 = 0.045, K2 = 0.015) */
+function deltaE94(x: Coords, y: Coords): number {
+  const { C1, dC, dH2 } = chromaHueDiff(x, y);
+  const SC = 1 + 0.045 * C1;
+  const SH = 1 + 0.015 * C1;
+  return Math.sqrt((x[0] - y[0]) ** 2 + (dC / SC) ** 2 + dH2 / SH ** 2);
+}
+
+/** CIEDE2000 (Sharma, Wu & Dalal 2005), kL = kC = kH = 1 */
+function deltaE2000([L1, a1, b1]: Coords, [L2, a2, b2]: Coords): number {
+  const Cb = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const G = 0.5 * (1 - Math.sqrt(Cb ** 7 / (Cb ** 7 + 25 ** 7)));
+  const a1p = (1 + G) * a1;
+  const a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) =>
+    a === 0 && b === 0 ? 0 : (Math.atan2(b, a) / DEG + 360) % 360;
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * DEG);
+
+  const Lbp = (L1 + L2) / 2;
+  const Cbp = (C1p + C2p) / 2;
+  let hbp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbp /= 2;
+    else hbp = hbp < 360 ? (hbp + 360) / 2 : (hbp - 360) / 2;
+  }
+
+  const T =
+    1 -
+    0.17 * Math.cos((hbp - 30) * DEG) +
+    0.24 * Math.cos(2 * hbp * DEG) +
+    0.32 * Math.cos((3 * hbp + 6) * DEG) -
+    0.2 * Math.cos((4 * hbp - 63) * DEG);
+  const dTheta = 30 * Math.exp(-(((hbp - 275) / 25) ** 2));
+  const RC = 2 * Math.sqrt(Cbp ** 7 / (Cbp ** 7 + 25 ** 7));
+  const SL = 1 + (0.015 * (Lbp - 50) ** 2) / Math.sqrt(20 + (Lbp - 50) ** 2);
+  const SC = 1 + 0.045 * Cbp;
+  const SH = 1 + 0.015 * Cbp * T;
+  const RT = -Math.sin(2 * dTheta * DEG) * RC;
+
+  return Math.sqrt(
+    (dLp / SL) ** 2 +
+      (dCp / SC) ** 2 +
+      (dHp / SH) ** 2 +
+      RT * (dCp / SC) * (dHp / SH),
+  );
+}
+
+/** CMC l:c — asymmetric, the first color is the reference (standard) */
+export function deltaECMC(x: Coords, y: Coords, l = 2, c = 1): number {
+  const [L1, a1, b1] = x;
+  const { C1, dC, dH2 } = chromaHueDiff(x, y);
+  const H1 = (Math.atan2(b1, a1) / DEG + 360) % 360;
+  const F = Math.sqrt(C1 ** 4 / (C1 ** 4 + 1900));
+  const T =
+    H1 >= 164 && H1 <= 345
+      ? 0.56 + Math.abs(0.2 * Math.cos((H1 + 168) * DEG))
+      : 0.36 + Math.abs(0.4 * Math.cos((H1 + 35) * DEG));
+  const SL = L1 < 16 ? 0.511 : (0.040975 * L1) / (1 + 0.01765 * L1);
+  const SC = (0.0638 * C1) / (1 + 0.0131 * C1) + 0.638;
+  const SH = SC * (F * T + 1 - F);
+  return Math.sqrt(
+    ((L1 - y[0]) / (l * SL)) ** 2 + (dC / (c * SC)) ** 2 + dH2 / SH ** 2,
+  );
+}
+
+// ─── ICtCp (ITU-R BT.2124) ────────────────────────────────────────────────────
+// SDR white is placed at 203 cd/m² (BT.2408) before the PQ curve.
+
+const SDR_WHITE = 203;
+const PQ_M1 = 2610 / 16384;
+const PQ_M2 = (2523 / 4096) * 128;
+const PQ_C1 = 3424 / 4096;
+const PQ_C2 = (2413 / 4096) * 32;
+const PQ_C3 = (2392 / 4096) * 32;
+
+const pq = (v: number) => {
+  const y = Math.max(0, v / 10000) ** PQ_M1;
+  return ((PQ_C1 + PQ_C2 * y) / (1 + PQ_C3 * y)) ** PQ_M2;
+};
+
+function ictcpCoords(rgb: RGB): Coords {
+  const { x, y, z } = rgbToXyz(rgb);
+  const [X, Y, Z] = [x * SDR_WHITE, y * SDR_WHITE, z * SDR_WHITE];
+  const L = pq(
+    0.3592832590121217 * X + 0.6976051147779502 * Y - 0.035891593232029 * Z,
+  );
+  const M = pq(
+    -0.1920808463704993 * X + 1.1004767970374321 * Y + 0.0753748658519118 * Z,
+  );
+  const S = pq(
+    0.0070797844607479 * X + 0.0748396662186362 * Y + 0.8433265453898765 * Z,
+  );
+  return [
+    0.5 * L + 0.5 * M,
+    (6610 * L - 13613 * M + 7003 * S) / 4096,
+    (17933 * L - 17390 * M - 543 * S) / 4096,
+  ];
+}
+
+/** ΔEITP — scaled so 1 ≈ one just-noticeable difference */
+function deltaEITP([I1, T1, P1]: Coords, [I2, T2, P2]: Coords): number {
+  return 720 * Math.hypot(I1 - I2, 0.5 * (T1 - T2), P1 - P2);
+}
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+export interface DeltaEMetricDef {
+  id: DeltaEMetric;
+  label: string;
+  desc: string;
+  /** Roughly one just-noticeable difference in this metric's units */
+  jnd: number;
+  /** Project a color into the metric's working space — cache when comparing many */
+  prepare: (rgb: RGB) => Coords;
+  /** Distance between two prepared colors */
+  diff: (a: Coords, b: Coords) => number;
+}
+
+export const DELTA_E_METRICS: Record<DeltaEMetric, DeltaEMetricDef> = {
+  "76": {
+    id: "76",
+    label: "ΔE76",
+    desc: "Euclidean CIELAB — simple, overstates saturated differences",
+    jnd: 2.3,
+    prepare: labCoords,
+    diff: deltaE76,
+  },
+  "94": {
+    id: "94",
+    label: "ΔE94",
+    desc: "CIE94 graphic-arts weights for chroma and hue",
+    jnd: 1,
+    prepare: labCoords,
+    diff: deltaE94,
+  },
+  "2000": {
+    id: "2000",
+    label: "ΔE2000",
+    desc: "CIEDE2000 — the print and brand-compliance standard",
+    jnd: 1,
+    prepare: labCoords,
+    diff: deltaE2000,
+  },
+  cmc: {
+    id: "cmc",
+    label: "CMC 2:1",
+    desc: "CMC l:c acceptability (2:1) — textile and print QC",
+    jnd: 1,
+    prepare: labCoords,
+    diff: (a, b) => deltaECMC(a, b),
+  },
+  itp: {
+    id: "itp",
+    label: "ΔEITP",
+    desc: "ICtCp (BT.2124) — built for HDR and wide gamut",
+    jnd: 1,
+    prepare: ictcpCoords,
+    diff: deltaEITP,
+  },
+  ok: {
+    id: "ok",
+    label: "ΔEOK",
+    desc: "Euclidean OKLab — fast and perceptually even",
+    jnd: 0.02,
+    prepare: (rgb) => {
+      const { L, a, b } = rgbToOklab(rgb);
+      return [L, a, b];
+    },
+    diff: deltaE76,
+  },
+};
+
+export const DELTA_E_METRIC_IDS = Object.keys(
+  DELTA_E_METRICS,
+) as DeltaEMetric[];
+
+/** Color difference between two sRGB colors under the chosen metric */
+export function deltaE(a: RGB, b: RGB, metric: DeltaEMetric = "2000"): number {
+  const def = DELTA_E_METRICS[metric];
+  return def.diff(def.prepare(a), def.prepare(b));
+}
+
+/** Difference expressed in just-noticeable differences — comparable across metrics */
+export function deltaEJnd(
+  a: RGB,
+  b: RGB,
+  metric: DeltaEMetric = "2000",
+): number {
+  return deltaE(a, b, metric) / DELTA_E_METRICS[metric].jnd;
+}
@@ -0,0 +1,118 @@
+// history.utils.ts
+// Edit history as a tree of immer patches. Every entry holds the patches from
+// its parent's state to its own and back, so moving between any two entries
+// replays inverse patches up to their common ancestor, then forward patches
+// down from it — an undone branch stays reachable after a new edit.
+
+import { type Patch, applyPatches, enablePatches } from "immer";
+import type { EditHistory, HistoryEntry } from "@/types";
+
+enablePatches();
+
+// ─── Tree ─────────────────────────────────────────────────────────────────────
+
+export function createHistory(label: string, now = Date.now()): EditHistory {
+  const id = crypto.randomUUID();
+  return {
+    entries: {
+      [id]: {
+        id,
+        parentId: null,
+        label,
+        createdAt: now,
+        updatedAt: now,
+        patches: [],
+        inverse: [],
+      },
+    },
+    rootId: id,
+    currentId: id,
+  };
+}
+
+/** Entries from the root down to `id` */
+export function historyLineage(h: EditHistory, id: string): HistoryEntry[] {
+  const out: HistoryEntry[] = [];
+  for (
+    let e: HistoryEntry | undefined = h.entries[id];
+    e;
+    e = e.parentId ? h.entries[e.parentId] : undefined
+  )
+    out.push(e);
+  return out.reverse();
+}
+
+/** Child entries by parent id, oldest first */
+export function historyChildren(h: EditHistory): Map<string, HistoryEntry[]> {
+  const out = new Map<string, HistoryEntry[]>();
+  for (const e of Object.values(h.entries)) {
+    if (!e.parentId) continue;
+    const list = out.get(e.parentId);
+    if (list) list.push(e);
+    else out.set(e.parentId, [e]);
+  }
+  for (const list of out.values())
+    list.sort((a, b) => a.createdAt - b.createdAt);
+  return out;
+}
+
+/** Patches that take the state at entry `from` to the state at entry `to` */
+export function historyRoute(
+  h: EditHistory,
+  from: string,
+  to: string,
+): Patch[] {
+  const up = historyLineage(h, from);
+  const down = historyLineage(h, to);
+  let shared = 0;
+  while (
+    shared < up.length &&
+    shared < down.length &&
+    up[shared].id === down[shared].id
+  )
+    shared++;
+  return [
+    ...up
+      .slice(shared)
+      .reverse()
+      .flatMap((e) => e.inverse),
+    ...down.slice(shared).flatMap((e) => e.patches),
+  ];
+}
+
+/**
+ * The state at every entry, given the state at the current one — for
+ * previews. `doc` only needs the fields the patches touch.
+ */
+export function historyStates<T extends object>(
+  h: EditHistory,
+  doc: T,
+): Map<string, T> {
+  const children = historyChildren(h);
+  const states = new Map<string, T>();
+  const visit = (e: HistoryEntry, state: T) => {
+    states.set(e.id, state);
+    for (const child of children.get(e.id) ?? [])
+      visit(child, applyPatches(state, child.patches));
+  };
+  visit(
+    h.entries[h.rootId],
+    applyPatches(doc, historyRoute(h, h.currentId, h.rootId)),
+  );
+  return states;
+}
+
+// ─── Merging ──────────────────────────────────────────────────────────────────
+
+/**
+ * Drop replace patches overwritten later at the same path. Only done when
+ * every patch is a replace: nothing moves, so the last write to a path wins
+ * and earlier ones are dead weight (a color drag writes hundreds).
+ */
+export function compactPatches(patches: Patch[]): Patch[] {
+  if (patches.some((p) => p.op !== "replace")) return patches;
+  const key = (p: Patch) => JSON.stringify(p.path);
+  const last = new Map<string, number>();
+  patches.forEach((p, i) => last.set(key(p), i));
+  return patches.filter((p, i) => last.get(key(p)) === i);
+}
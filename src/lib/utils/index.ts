@@ -1,6 +1,16 @@
 export * from "./color-math.utils";
 export * from "./color-math-scale.utils";
 export * from "./color-math-export.utils";
+export * from "./css-color.utils";
 export * from "./svg-export";
 export * from "./palette.utils";
+export * from "./quantize.utils";
+export * from "./color-names.utils";
+export * from "./palette-export.utils";
+export * from "./swatch-file.utils";
+export * from "./contrast-audit.utils";
+export * from "./contrast-repair.utils";
+export * from "./recolor.utils";
+export * from "./source-colors.utils";
+export * from "./history.utils";
 export * from "./tw";
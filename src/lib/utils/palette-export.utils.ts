@@ -0,0 +1,188 @@
+// palette-export.utils.ts
+// Headless export pipeline — turns a list of hexes into any supported file format.
+// Shared by the REST API (/api/palette/export) and the command-line entry point,
+// so neither needs a browser, a store or React to produce token files.
+
+import type {
+  GamutMapMethod,
+  HarmonyMode,
+  PaletteSlot,
+  UtilityColorSet,
+} from "@/types";
+import {
+  buildColorStoryHtml,
+  buildFigmaTokens,
+  buildStyleDictionary,
+  buildTailwindConfig,
+  buildTailwindV4,
+  buildThemeCss,
+  deriveThemeTokens,
+  semanticSlotNames,
+} from "./color-math-export.utils";
+import { generateScale, generateUtilityColors } from "./color-math-scale.utils";
+import { hexToStop } from "./palette.utils";
+import { generateSvgSwatch } from "./svg-export";
+
+// ─── Formats ──────────────────────────────────────────────────────────────────
+
+export type PaletteExportFormat =
+  | "hex"
+  | "css"
+  | "scss"
+  | "tailwind"
+  | "tailwind4"
+  | "figma"
+  | "style-dictionary"
+  | "scales"
+  | "svg"
+  | "html";
+
+export interface PaletteExportContext {
+  slots: PaletteSlot[];
+  utility: UtilityColorSet;
+  mode: HarmonyMode;
+  title: string;
+  /** How derived theme and scale colors are brought into sRGB */
+  gamut: GamutMapMethod;
+}
+
+interface PaletteExportDef {
+  label: string;
+  filename: string;
+  mimeType: string;
+  build: (ctx: PaletteExportContext) => string;
+}
+
+/** Slot token name — user name when set, otherwise the semantic slug */
+function tokenNames(slots: PaletteSlot[]): string[] {
+  const auto = semanticSlotNames(slots);
+  return slots.map((s, i) => s.name || auto[i]);
+}
+
+function themeTokens(ctx: PaletteExportContext) {
+  return deriveThemeTokens(ctx.slots, ctx.utility, ctx.gamut);
+}
+
+/** 50–950 tint/shade scale for every slot, as one :root block */
+function buildScalesCss(slots: PaletteSlot[], gamut: GamutMapMethod): string {
+  const names = tokenNames(slots);
+  const blocks = slots.map((s, i) =>
+    generateScale(s.color.hex, gamut)
+      .map(({ step, hex }) => `  --${names[i]}-${step}: ${hex};`)
+      .join("\n"),
+  );
+  return `:root {\n${blocks.join("\n\n")}\n}`;
+}
+
+export const PALETTE_EXPORT_FORMATS: Record<
+  PaletteExportFormat,
+  PaletteExportDef
+> = {
+  hex: {
+    label: "HEX list",
+    filename: "palette.txt",
+    mimeType: "text/plain",
+    build: ({ slots }) => slots.map((s) => s.color.hex).join("\n"),
+  },
+  css: {
+    label: "CSS variables",
+    filename: "theme.css",
+    mimeType: "text/css",
+    build: (ctx) => buildThemeCss(themeTokens(ctx)),
+  },
+  scss: {
+    label: "SCSS variables",
+    filename: "_palette.scss",
+    mimeType: "text/x-scss",
+    build: ({ slots }) => {
+      const names = tokenNames(slots);
+      return slots.map((s, i) => `$${names[i]}: ${s.color.hex};`).join("\n");
+    },
+  },
+  tailwind: {
+    label: "Tailwind @theme",
+    filename: "tailwind.theme.css",
+    mimeType: "text/css",
+    build: (ctx) => buildTailwindConfig(themeTokens(ctx), ctx.utility),
+  },
+  tailwind4: {
+    label: "Tailwind v4",
+    filename: "tailwind.css",
+    mimeType: "text/css",
+    build: (ctx) => buildTailwindV4(themeTokens(ctx), ctx.utility),
+  },
+  figma: {
+    label: "Figma Tokens",
+    filename: "figma-tokens.json",
+    mimeType: "application/json",
+    build: (ctx) => buildFigmaTokens(themeTokens(ctx), ctx.utility),
+  },
+  "style-dictionary": {
+    label: "Style Dictionary",
+    filename: "tokens.json",
+    mimeType: "application/json",
+    build: (ctx) => buildStyleDictionary(themeTokens(ctx), ctx.utility),
+  },
+  scales: {
+    label: "Scales (CSS)",
+    filename: "scales.css",
+    mimeType: "text/css",
+    build: ({ slots, gamut }) => buildScalesCss(slots, gamut),
+  },
+  svg: {
+    label: "SVG swatch sheet",
+    filename: "palette.svg",
+    mimeType: "image/svg+xml",
+    build: ({ slots, title }) => generateSvgSwatch(slots, { title }),
+  },
+  html: {
+    label: "Color Story",
+    filename: "color-story.html",
+    mimeType: "text/html",
+    build: ({ slots, mode, utility }) =>
+      buildColorStoryHtml(slots, mode, utility, semanticSlotNames(slots)),
+  },
+};
+
+export const PALETTE_EXPORT_FORMAT_IDS = Object.keys(
+  PALETTE_EXPORT_FORMATS,
+) as PaletteExportFormat[];
+
+// ─── Context ──────────────────────────────────────────────────────────────────
+
+/** Build throwaway palette slots (no store involved) from hexes + optional names */
+export function slotsFromHexes(
+  colors: { hex: string; name?: string }[],
+): PaletteSlot[] {
+  return colors.map(({ hex, name }) => ({
+    id: crypto.randomUUID(),
+    color: hexToStop(hex),
+    locked: false,
+    name,
+  }));
+}
+
+export function buildPaletteExport(
+  format: PaletteExportFormat,
+  slots: PaletteSlot[],
+  options: {
+    mode?: HarmonyMode;
+    title?: string;
+    utility?: UtilityColorSet;
+    gamut?: GamutMapMethod;
+  } = {},
+): { filename: string; mimeType: string; content: string } {
+  const def = PALETTE_EXPORT_FORMATS[format];
+  const ctx: PaletteExportContext = {
+    slots,
+    utility: options.utility ?? generateUtilityColors(slots),
+    mode: options.mode ?? "analogous",
+    title: options.title ?? "Palette",
+    gamut: options.gamut ?? "css",
+  };
+  return {
+    filename: def.filename,
+    mimeType: def.mimeType,
+    content: def.build(ctx),
+  };
+}
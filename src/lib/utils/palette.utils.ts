@@ -1,8 +1,18 @@
+import * as z from "zod";
+
 import type {
   HarmonyMode,
+  ChromaState,
   ColorStop,
+  CvdSimulation,
+  DataVizMode,
+  DeltaEMetric,
+  GamutMapMethod,
+  OKLCH,
   PaletteSlot,
   SavedPalette,
+  SharedPalette,
+  UtilityRole,
 } from "@/types";
 import {
   hexToRgb,
@@ -10,106 +20,41 @@ import {
   rgbToHsl,
   hslToRgb,
   rgbToOklch,
-  oklchToRgb,
+  gamutMapOklch,
   clamp,
-  colorDist,
+  DELTA_E_METRICS,
+  CVD_DICHROMACIES,
+  simulateCvd,
   parseHexAlpha,
   opaqueHex,
+  toHexAlpha,
 } from "./color-math.utils";
-import { NAMED } from "@/lib/constants/chroma";
-
-// ─── Color Naming ─────────────────────────────────────────────────────────────
-// Pre-flattened float array: [r0,g0,b0, r1,g1,b1, ...] — avoids object property
-// access in the hot loop and keeps the data fully packed for cache efficiency.
-
-let _namedFlat: Float32Array | null = null;
-let _namedByHex: Map<string, string[]> | null = null;
-let _namedByName: Map<string, string[]> | null = null;
-
-function normalizeNameQuery(value: string): string {
-  return value.trim().toLocaleLowerCase();
-}
-
-function normalizeHexQuery(value: string): string {
-  const hex = value.trim().replace(/^#/, "").toLowerCase();
-  if (/^[0-9a-f]{3}$/.test(hex)) {
-    return `#${hex}`;
-  }
-  if (/^[0-9a-f]{6}$/.test(hex)) {
-    return `#${hex}`;
-  }
-  return "";
-}
-
-function getNamedFlat(): Float32Array {
-  if (_namedFlat) return _namedFlat;
-  _namedFlat = new Float32Array(NAMED.length * 3);
-  for (let i = 0; i < NAMED.length; i++) {
-    _namedFlat[i * 3] = NAMED[i].rgb.r;
-    _namedFlat[i * 3 + 1] = NAMED[i].rgb.g;
-    _namedFlat[i * 3 + 2] = NAMED[i].rgb.b;
-  }
-  return _namedFlat;
-}
-
-function getNamedIndexes(): {
-  byHex: Map<string, string[]>;
-  byName: Map<string, string[]>;
-} {
-  if (_namedByHex && _namedByName) {
-    return { byHex: _namedByHex, byName: _namedByName };
-  }
-
-  const byHex = new Map<string, string[]>();
-  const byName = new Map<string, string[]>();
-
-  for (const color of NAMED) {
-    const hexKey = normalizeHexQuery(color.hex);
-    const nameKey = normalizeNameQuery(color.name);
-
-    if (hexKey) {
-      const names = byHex.get(hexKey);
-      if (names) names.push(color.name);
-      else byHex.set(hexKey, [color.name]);
-    }
-
-    const hexes = byName.get(nameKey);
-    if (hexes) hexes.push(color.hex);
-    else byName.set(nameKey, [color.hex]);
-  }
-
-  _namedByHex = byHex;
-  _namedByName = byName;
-  return { byHex, byName };
-}
-
-function exactNameMatchFromHex(hex: string): string | null {
-  const { byHex } = getNamedIndexes();
-  const key = normalizeHexQuery(hex);
-  if (!key) return null;
-  const names = byHex.get(key);
-  return names?.[0] ?? null;
+import { generateUtilityColors } from "./color-math-scale.utils";
+import { HARMONIES } from "@/lib/constants/chroma";
+
+// ─── Seeded RNG ───────────────────────────────────────────────────────────────
+// genPalette draws every random value (base color, natural/random modes, L/C
+// jitter, Matsuda arc sampling) from one generator. Passing the same numeric
+// seed reproduces a palette exactly — the seed travels on snapshots and URLs.
+
+/** Uniform random source in [0, 1) — same contract as Math.random */
+export type Rng = () => number;
+
+/** mulberry32 — tiny, fast 32-bit PRNG with good distribution for UI use */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
-export function nearestName(rgb: { r: number; g: number; b: number }): string {
-  const exact = exactNameMatchFromHex(rgbToHex(rgb));
-  if (exact) return exact;
-
-  const flat = getNamedFlat();
-  const { r, g, b } = rgb;
-  let bestIdx = 0;
-  let bestD = Infinity;
-  for (let i = 0; i < NAMED.length; i++) {
-    const dr = r - flat[i * 3];
-    const dg = g - flat[i * 3 + 1];
-    const db = b - flat[i * 3 + 2];
-    const d = dr * dr + dg * dg + db * db; // squared — no sqrt needed for comparison
-    if (d < bestD) {
-      bestD = d;
-      bestIdx = i;
-    }
-  }
-  return NAMED[bestIdx].name;
+/** Fresh unsigned 32-bit seed for a new generation */
+export function newRngSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
 }
 
 // ─── OKLCH Palette Generation ─────────────────────────────────────────────────
@@ -122,7 +67,8 @@ export function nearestName(rgb: { r: number; g: number; b: number }): string {
 //    this: yellow at HSL L=50% looks far lighter than blue at L=50%.
 //  • Hue rotations follow the perceptual color wheel, not the RGB wheel, so
 //    complementary / triadic angles feel more balanced visually.
-//  • Gamut mapping (chroma bisection) keeps out-of-sRGB colors valid.
+//  • Gamut mapping (CSS Color 4 chroma bisection) keeps out-of-sRGB colors
+//    valid; mapped stops carry `outOfGamut` so the UI can flag them.
 //
 // Chroma strategy:
 //  Palette chroma lives in 0.08–0.22 for general palettes. Seeds push this
@@ -138,10 +84,17 @@ function rotateHue(h: number, d: number): number {
   return (((h + d) % 360) + 360) % 360;
 }
 
-/** Build a ColorStop from OKLCH values — gamut-maps automatically */
-function makeStop(L: number, C: number, H: number): ColorStop {
-  const rgb = oklchToRgb({ L, C, H });
-  return { hex: rgbToHex(rgb), rgb, hsl: rgbToHsl(rgb) };
+/** Build a ColorStop from OKLCH values — gamut-maps and flags out-of-sRGB input */
+function makeStop(
+  L: number,
+  C: number,
+  H: number,
+  gamut: GamutMapMethod,
+): ColorStop {
+  const { rgb, inGamut } = gamutMapOklch({ L, C, H }, gamut);
+  const stop: ColorStop = { hex: rgbToHex(rgb), rgb, hsl: rgbToHsl(rgb) };
+  if (!inGamut) stop.outOfGamut = true;
+  return stop;
 }
 
 /**
@@ -197,7 +150,12 @@ const MATSUDA_TEMPLATES: Record<string, TemplateArc[]> = {
 /** Sample n hues from a set of template arcs (rotated to anchorH).
  *  Uses a bias toward arc centers (Gaussian-like weighting via cosine)
  *  so colors feel cohesive rather than randomly spread. */
-function sampleArcs(arcs: TemplateArc[], anchorH: number, n: number): number[] {
+function sampleArcs(
+  arcs: TemplateArc[],
+  anchorH: number,
+  n: number,
+  rand: Rng,
+): number[] {
   const hues: number[] = [];
   // Distribute n samples across arcs proportionally to their width
   const totalWidth = arcs.reduce((s, a) => s + a.width, 0);
@@ -214,7 +172,7 @@ function sampleArcs(arcs: TemplateArc[], anchorH: number, n: number): number[] {
     for (let i = 0; i < count; i++) {
       // Bias toward center: use cosine-weighted sampling
       // u ∈ [-1, 1] biased toward 0 via u = sin(random * π - π/2)
-      const u = Math.sin(Math.random() * Math.PI - Math.PI / 2);
+      const u = Math.sin(rand() * Math.PI - Math.PI / 2);
       const offset = u * (arc.width / 2);
       hues.push((((anchorH + arc.center + offset) % 360) + 360) % 360);
     }
@@ -233,7 +191,7 @@ function sampleArcs(arcs: TemplateArc[], anchorH: number, n: number): number[] {
  *   Red ≈ 25°, Orange ≈ 55°, Yellow ≈ 90°, Yellow-Green ≈ 115°,
  *   Green ≈ 142°, Cyan ≈ 195°, Blue ≈ 260°, Purple ≈ 305°, Pink ≈ 340°
  */
-function anchorHues(mode: HarmonyMode, h: number): number[] {
+function anchorHues(mode: HarmonyMode, h: number, rand: Rng): number[] {
   switch (mode) {
     case "complementary":
       return [h, rotateHue(h, 180)];
@@ -260,7 +218,7 @@ function anchorHues(mode: HarmonyMode, h: number): number[] {
     case "matsuda_Y":
     case "matsuda_X":
     case "matsuda_T":
-      return getMatsudaHues(mode, h, 5) ?? [h];
+      return getMatsudaHues(mode, h, 5, rand) ?? [h];
     default:
       return [h];
   }
@@ -271,6 +229,7 @@ function getMatsudaHues(
   mode: HarmonyMode,
   anchorH: number,
   n: number,
+  rand: Rng,
 ): number[] | null {
   const templateMap: Partial<Record<HarmonyMode, string>> = {
     analogous: "matsuda_V",
@@ -281,16 +240,24 @@ function getMatsudaHues(
   };
   const key = templateMap[mode];
   if (!key) return null;
-  return sampleArcs(MATSUDA_TEMPLATES[key], anchorH, n);
+  return sampleArcs(MATSUDA_TEMPLATES[key], anchorH, n, rand);
 }
 
+/**
+ * `random` is either a numeric seed (fed to the built-in mulberry32 PRNG) or
+ * any `() => [0, 1)` source. Defaults to Math.random — non-reproducible.
+ */
 export function genPalette(
   mode: HarmonyMode,
   count: number,
   seeds: { h: number; s: number; l: number }[] | null, // incoming seeds are still in HSL (from picker/store)
   seedMode: "influence" | "pin" = "influence",
   temperature: number = 0, // -1 (cool) to +1 (warm) — biases base hue
+  random: number | Rng = Math.random,
+  gamut: GamutMapMethod = "css",
 ): ColorStop[] {
+  const rand = typeof random === "number" ? createRng(random) : random;
+
   // Convert seed HSL → OKLCH for internal work
   const seedsOklch = seeds?.length
     ? seeds.map((s) => rgbToOklch(hslToRgb(s)))
@@ -298,9 +265,9 @@ export function genPalette(
 
   // Base color in OKLCH
   const baseRaw = seedsOklch?.[0] ?? {
-    L: 0.42 + Math.random() * 0.25,
-    C: 0.1 + Math.random() * 0.14,
-    H: Math.random() * 360,
+    L: 0.42 + rand() * 0.25,
+    C: 0.1 + rand() * 0.14,
+    H: rand() * 360,
   };
 
   // Temperature bias: nudge hue toward warm (0-120) or cool (180-300) arc
@@ -329,6 +296,23 @@ export function genPalette(
   // Target lightness — inherit from seed, clamped to visible midrange
   const targetL = clamp(base.L, 0.32, 0.72);
 
+  // ── Data-viz modes ──────────────────────────────────────────────────────────
+
+  if (mode === "categorical")
+    return genCategoricalPalette(count, {
+      seeds: seedsOklch ?? [],
+      random: rand,
+      gamut,
+    });
+  if (mode === "sequential")
+    return genSequentialPalette(count, { hue: base.H, chroma: targetC, gamut });
+  if (mode === "diverging")
+    return genDivergingPalette(count, {
+      hues: [base.H, seedsOklch?.[1]?.H ?? rotateHue(base.H, 180)],
+      chroma: targetC,
+      gamut,
+    });
+
   // ── Special modes ───────────────────────────────────────────────────────────
 
   if (mode === "monochromatic") {
@@ -337,7 +321,7 @@ export function genPalette(
       const t = count === 1 ? 0.5 : i / (count - 1);
       const L = clamp(0.88 - t * 0.7, 0.1, 0.92); // L: 0.88 → 0.18
       const C = targetC * (1 - 0.35 * Math.abs(t - 0.5)); // chroma peaks at midpoint
-      return makeStop(L, C, base.H);
+      return makeStop(L, C, base.H, gamut);
     });
   }
 
@@ -347,37 +331,37 @@ export function genPalette(
       const t = count === 1 ? 0.5 : i / (count - 1);
       const L = clamp(0.93 - t * 0.82, 0.06, 0.94);
       const C = targetC * Math.sin(t * Math.PI) * 0.9; // smooth sine fade
-      return makeStop(L, C, base.H);
+      return makeStop(L, C, base.H, gamut);
     });
   }
 
   if (mode === "natural") {
     // Organic: hue wanders ±40°, low-moderate chroma, varied lightness
     return Array.from({ length: count }, () => {
-      const L = clamp(0.3 + Math.random() * 0.45, 0.25, 0.78);
-      const C = clamp(0.04 + Math.random() * 0.14, 0.02, 0.18);
-      const H = rotateHue(base.H + (Math.random() - 0.5) * 80, 0);
-      return makeStop(L, C, H);
+      const L = clamp(0.3 + rand() * 0.45, 0.25, 0.78);
+      const C = clamp(0.04 + rand() * 0.14, 0.02, 0.18);
+      const H = rotateHue(base.H + (rand() - 0.5) * 80, 0);
+      return makeStop(L, C, H, gamut);
     });
   }
 
   if (mode === "random") {
     // Golden-angle hue series for good visual spread
-    const bH = Math.random() * 360;
+    const bH = rand() * 360;
     return Array.from({ length: count }, (_, i) => {
-      const L = clamp(0.35 + Math.random() * 0.3, 0.28, 0.72);
-      const C = clamp(0.1 + Math.random() * 0.16, 0.08, 0.28);
-      return makeStop(L, C, rotateHue(bH + i * 137.508, 0)); // golden angle
+      const L = clamp(0.35 + rand() * 0.3, 0.28, 0.72);
+      const C = clamp(0.1 + rand() * 0.16, 0.08, 0.28);
+      return makeStop(L, C, rotateHue(bH + i * 137.508, 0), gamut); // golden angle
     });
   }
 
   // ── Matsuda template modes (analogous) — sample full count from arcs ────────
-  const matsudaHues = getMatsudaHues(mode, base.H, count);
+  const matsudaHues = getMatsudaHues(mode, base.H, count, rand);
   if (matsudaHues) {
     return matsudaHues.map((H) => {
-      const L = clamp(targetL + (Math.random() - 0.5) * 0.18, 0.28, 0.74);
-      const C = clamp(targetC + (Math.random() - 0.5) * 0.06, 0.06, 0.28);
-      return makeStop(L, C, H);
+      const L = clamp(targetL + (rand() - 0.5) * 0.18, 0.28, 0.74);
+      const C = clamp(targetC + (rand() - 0.5) * 0.06, 0.06, 0.28);
+      return makeStop(L, C, H, gamut);
     });
   }
 
@@ -385,15 +369,15 @@ export function genPalette(
   // When seedMode === 'pin', the first seed color is placed exactly as-is.
   // If there are multiple pinned seeds, all appear verbatim; rest are generated.
   if (seedMode === "pin" && seedsOklch && seedsOklch.length > 0) {
-    const pinned = seedsOklch.map((s) => makeStop(s.L, s.C, s.H));
+    const pinned = seedsOklch.map((s) => makeStop(s.L, s.C, s.H, gamut));
     const need = Math.max(0, count - pinned.length);
-    const hues = anchorHues(mode, seedsOklch[0].H);
+    const hues = anchorHues(mode, seedsOklch[0].H, rand);
     const generated: ColorStop[] = [];
     for (let i = 0; i < need; i++) {
       const H = hues[i % hues.length];
-      const L = clamp(targetL + (Math.random() - 0.5) * 0.22, 0.28, 0.75);
-      const C = clamp(targetC + (Math.random() - 0.5) * 0.06, 0.06, 0.28);
-      generated.push(makeStop(L, C, H));
+      const L = clamp(targetL + (rand() - 0.5) * 0.22, 0.28, 0.75);
+      const C = clamp(targetC + (rand() - 0.5) * 0.06, 0.06, 0.28);
+      generated.push(makeStop(L, C, H, gamut));
     }
     return [...pinned, ...generated].slice(0, count);
   }
@@ -402,12 +386,12 @@ export function genPalette(
   if (seedsOklch && seedsOklch.length > 1) {
     // Multi-seed compositing: find the rotation that minimises total angular distance
     const allHues = seedsOklch.map((s) => s.H);
-    const hues0 = anchorHues(mode, seedsOklch[0].H);
+    const hues0 = anchorHues(mode, seedsOklch[0].H, rand);
     // Try rotating template to each seed; pick the orientation with min total dist
     let bestHues = hues0,
       bestCost = Infinity;
     for (const seedH of allHues) {
-      const candidate = anchorHues(mode, seedH);
+      const candidate = anchorHues(mode, seedH, rand);
       const cost = allHues.reduce((sum, sh) => {
         const minDist = Math.min(
           ...candidate.map((ch) => {
@@ -422,19 +406,19 @@ export function genPalette(
         bestHues = candidate;
       }
     }
-    const stops = seedsOklch.map((s) => makeStop(s.L, s.C, s.H));
+    const stops = seedsOklch.map((s) => makeStop(s.L, s.C, s.H, gamut));
     const need = count - stops.length;
     for (let i = 0; i < need; i++) {
       const H = bestHues[i % bestHues.length];
-      const L = clamp(targetL + (Math.random() - 0.5) * 0.22, 0.28, 0.75);
-      const C = clamp(targetC + (Math.random() - 0.5) * 0.06, 0.06, 0.28);
-      stops.push(makeStop(L, C, H));
+      const L = clamp(targetL + (rand() - 0.5) * 0.22, 0.28, 0.75);
+      const C = clamp(targetC + (rand() - 0.5) * 0.06, 0.06, 0.28);
+      stops.push(makeStop(L, C, H, gamut));
     }
     return stops.slice(0, count);
   }
 
   // ── Standard single-seed harmony ───────────────────────────────────────────
-  const hues = anchorHues(mode, base.H);
+  const hues = anchorHues(mode, base.H, rand);
   const cyclesNeeded = Math.ceil(count / hues.length);
 
   return Array.from({ length: count }, (_, i) => {
@@ -446,13 +430,183 @@ export function genPalette(
     const lOffset =
       cyclesNeeded > 1
         ? (cycle / (cyclesNeeded - 1) - 0.5) * 0.18
-        : (Math.random() - 0.5) * 0.14;
+        : (rand() - 0.5) * 0.14;
     const L = clamp(targetL + lOffset, 0.24, 0.78);
 
     // Chroma: small random variation ±0.04 for natural variation
-    const C = clamp(targetC + (Math.random() - 0.5) * 0.08, 0.06, 0.3);
+    const C = clamp(targetC + (rand() - 0.5) * 0.08, 0.06, 0.3);
 
-    return makeStop(L, C, hues[hueIdx]);
+    return makeStop(L, C, hues[hueIdx], gamut);
+  });
+}
+
+// ─── Data-viz Palettes ───────────────────────────────────────────────────────
+//
+// Chart palettes are judged by function, not harmony:
+//  • Categorical — every pair of series must stay apart, also for color-blind
+//    readers, so colors are picked to maximise the smallest pairwise ΔE
+//    across normal vision and the three dichromacies.
+//  • Sequential — lightness encodes magnitude, so it must be strictly
+//    monotonic. Chroma peaks mid-ramp and the hue drifts slightly.
+//  • Diverging — two sequential arms sharing a neutral (C = 0) midpoint, with
+//    matching lightness at equal distances from the center.
+
+export function isDataVizMode(mode: HarmonyMode): mode is DataVizMode {
+  return (
+    mode === "categorical" || mode === "sequential" || mode === "diverging"
+  );
+}
+
+// Candidate grid for categorical picks — mid lightness keeps every color
+// usable as a line on both light and dark backgrounds
+const CATEGORICAL_L = [0.5, 0.58, 0.66, 0.74, 0.82];
+const CATEGORICAL_C = [0.1, 0.14, 0.18];
+const CATEGORICAL_H_STEP = 10;
+const CATEGORICAL_REFINE_PASSES = 2;
+
+/**
+ * Greedy farthest-point selection over an in-gamut OKLCH grid, followed by
+ * swap refinement. Seeds are kept verbatim as the first colors; the rest are
+ * chosen so the closest pair — measured under every simulation in `sims` as
+ * well as normal vision — is as far apart as possible. Colors come out in
+ * pick order, so the first few series are the most distinct.
+ */
+export function genCategoricalPalette(
+  count: number,
+  {
+    seeds = [],
+    random = Math.random,
+    gamut = "css",
+    metric = "2000",
+    sims = CVD_DICHROMACIES,
+  }: {
+    seeds?: OKLCH[];
+    random?: number | Rng;
+    gamut?: GamutMapMethod;
+    metric?: DeltaEMetric;
+    sims?: CvdSimulation[];
+  } = {},
+): ColorStop[] {
+  const rand = typeof random === "number" ? createRng(random) : random;
+  const { prepare, diff } = DELTA_E_METRICS[metric];
+  const offset = rand() * CATEGORICAL_H_STEP;
+
+  const pool: ColorStop[] = seeds
+    .slice(0, count)
+    .map((s) => makeStop(s.L, s.C, s.H, gamut));
+  const fixed = pool.length;
+  const seen = new Set(pool.map((c) => c.hex));
+  for (const L of CATEGORICAL_L)
+    for (const C of CATEGORICAL_C)
+      for (let H = offset; H < 360; H += CATEGORICAL_H_STEP) {
+        const stop = makeStop(L, C, H, gamut);
+        if (stop.outOfGamut || seen.has(stop.hex)) continue;
+        seen.add(stop.hex);
+        pool.push(stop);
+      }
+
+  // coords[v][p] — pool color p as seen under view v (normal vision first)
+  const views = [null, ...sims];
+  const coords = views.map((sim) =>
+    pool.map((c) => prepare(sim ? simulateCvd(c.rgb, sim) : c.rgb)),
+  );
+  const dist = (p: number, q: number) =>
+    Math.min(...coords.map((view) => diff(view[p], view[q])));
+  /** Distance from p to its nearest neighbour in `chosen`, ignoring `skip` */
+  const nearest = (p: number, chosen: number[], skip = -1) =>
+    chosen.reduce(
+      (m, q, i) => (i === skip || q === p ? m : Math.min(m, dist(p, q))),
+      Infinity,
+    );
+
+  const chosen = Array.from({ length: fixed }, (_, i) => i);
+  if (!chosen.length && count > 0)
+    chosen.push(fixed + Math.floor(rand() * (pool.length - fixed)));
+
+  const closest = pool.map((_, p) => nearest(p, chosen));
+  while (chosen.length < Math.min(count, pool.length)) {
+    let best = -1;
+    for (let p = fixed; p < pool.length; p++)
+      if (!chosen.includes(p) && (best < 0 || closest[p] > closest[best]))
+        best = p;
+    chosen.push(best);
+    for (let p = 0; p < pool.length; p++)
+      closest[p] = Math.min(closest[p], dist(p, best));
+  }
+
+  // Swap refinement — move each free pick to the spot farthest from the rest
+  for (let pass = 0; pass < CATEGORICAL_REFINE_PASSES; pass++) {
+    let improved = false;
+    for (let i = fixed; i < chosen.length; i++) {
+      let bestP = chosen[i],
+        bestD = nearest(chosen[i], chosen, i);
+      for (let p = fixed; p < pool.length; p++) {
+        if (chosen.includes(p)) continue;
+        const d = nearest(p, chosen, i);
+        if (d > bestD) {
+          bestP = p;
+          bestD = d;
+        }
+      }
+      if (bestP !== chosen[i]) {
+        chosen[i] = bestP;
+        improved = true;
+      }
+    }
+    if (!improved) break;
+  }
+
+  return chosen.map((p) => pool[p]);
+}
+
+const SEQUENTIAL_L: [number, number] = [0.96, 0.3];
+const SEQUENTIAL_HUE_DRIFT = 20;
+
+/** Light-to-dark ramp on one hue — strictly decreasing OKLCH lightness */
+export function genSequentialPalette(
+  count: number,
+  {
+    hue,
+    chroma = 0.16,
+    gamut = "css",
+  }: { hue: number; chroma?: number; gamut?: GamutMapMethod },
+): ColorStop[] {
+  const [L0, L1] = SEQUENTIAL_L;
+  return Array.from({ length: count }, (_, i) => {
+    const t = count === 1 ? 0.5 : i / (count - 1);
+    // Chroma is lowest at the pale end and eases off again in the darks
+    const C = chroma * Math.sin(Math.PI * (0.1 + 0.8 * t));
+    const H = rotateHue(hue, (t - 0.5) * SEQUENTIAL_HUE_DRIFT);
+    return makeStop(L0 + (L1 - L0) * t, C, H, gamut);
+  });
+}
+
+const DIVERGING_L: [number, number] = [0.95, 0.4];
+
+/**
+ * Two arms from hues[0] (first half) to hues[1] (second half) through a
+ * neutral light midpoint. Odd counts put an exact neutral in the middle;
+ * even counts split it into the two palest arm colors.
+ */
+export function genDivergingPalette(
+  count: number,
+  {
+    hues,
+    chroma = 0.16,
+    gamut = "css",
+  }: { hues: [number, number]; chroma?: number; gamut?: GamutMapMethod },
+): ColorStop[] {
+  const [mid, end] = DIVERGING_L;
+  const center = (count - 1) / 2;
+  return Array.from({ length: count }, (_, i) => {
+    const t = center === 0 ? 0 : (i - center) / center;
+    const d = Math.abs(t);
+    return makeStop(
+      mid + (end - mid) * d,
+      chroma * d ** 0.8,
+      t < 0 ? hues[0] : hues[1],
+      gamut,
+    );
   });
 }
 
@@ -465,6 +619,7 @@ export function cloneSlot(slot: PaletteSlot): PaletteSlot {
     hsl: { ...slot.color.hsl },
   };
   if (slot.color.a !== undefined) color.a = slot.color.a;
+  if (slot.color.outOfGamut) color.outOfGamut = true;
   return {
     id: slot.id,
     color,
@@ -485,103 +640,16 @@ export function hexToStop(hex: string, alpha?: number): ColorStop {
   return stop;
 }
 
-// ─── Image Extraction — median-cut quantization ───────────────────────────────
-
-type Pixel = { r: number; g: number; b: number };
-
-function medianCut(px: Pixel[], depth: number): Pixel[][] {
-  if (depth === 0 || !px.length) return [px];
-  let mnR = 255,
-    mxR = 0,
-    mnG = 255,
-    mxG = 0,
-    mnB = 255,
-    mxB = 0;
-  for (const { r, g, b } of px) {
-    if (r < mnR) mnR = r;
-    if (r > mxR) mxR = r;
-    if (g < mnG) mnG = g;
-    if (g > mxG) mxG = g;
-    if (b < mnB) mnB = b;
-    if (b > mxB) mxB = b;
-  }
-  const rR = mxR - mnR,
-    gR = mxG - mnG,
-    bR = mxB - mnB;
-  const mx = Math.max(rR, gR, bR);
-  const key = mx === rR ? "r" : mx === gR ? "g" : "b";
-  px.sort((a, b) => a[key] - b[key]);
-  const mid = Math.floor(px.length / 2);
-  return [
-    ...medianCut(px.slice(0, mid), depth - 1),
-    ...medianCut(px.slice(mid), depth - 1),
-  ];
-}
-
-function avgBucket(b: Pixel[]): Pixel {
-  if (!b.length) return { r: 128, g: 128, b: 128 };
-  const s = b.reduce((a, p) => ({ r: a.r + p.r, g: a.g + p.g, b: a.b + p.b }), {
-    r: 0,
-    g: 0,
-    b: 0,
-  });
-  return {
-    r: Math.round(s.r / b.length),
-    g: Math.round(s.g / b.length),
-    b: Math.round(s.b / b.length),
-  };
-}
-
-function isUsable(rgb: Pixel): boolean {
-  const { s, l } = rgbToHsl(rgb);
-  return s >= 8 && l >= 10 && l <= 92;
-}
-
-function dedupColors(cs: Pixel[], threshold = 0.08): Pixel[] {
-  const r: Pixel[] = [];
-  for (const c of cs)
-    if (!r.some((x) => colorDist(c, x) < threshold)) r.push(c);
-  return r;
-}
-
-export async function extractColors(file: File, count = 8): Promise<Pixel[]> {
-  return new Promise((resolve, reject) => {
-    const objUrl = URL.createObjectURL(file);
-    const img = new Image();
-    img.onload = () => {
-      URL.revokeObjectURL(objUrl);
-      const scale = Math.min(1, 200 / Math.max(img.width, img.height));
-      const w = Math.max(1, Math.round(img.width * scale));
-      const h = Math.max(1, Math.round(img.height * scale));
-      const c = document.createElement("canvas");
-      c.width = w;
-      c.height = h;
-      const ctx = c.getContext("2d")!;
-      ctx.drawImage(img, 0, 0, w, h);
-      const data = ctx.getImageData(0, 0, w, h).data;
-      const px: Pixel[] = [];
-      for (let i = 0; i < data.length; i += 4) {
-        if (data[i + 3] < 128) continue;
-        px.push({ r: data[i], g: data[i + 1], b: data[i + 2] });
-      }
-      if (!px.length) return resolve([]);
-      const depth = Math.ceil(Math.log2(count * 2));
-      const buckets = medianCut([...px], depth);
-      const avgs = buckets.map(avgBucket).filter(isUsable);
-      const dd = dedupColors(avgs);
-      dd.sort((a, b) => rgbToHsl(b).s - rgbToHsl(a).s);
-      resolve(dd.slice(0, count));
-    };
-    img.onerror = reject;
-    img.src = objUrl;
-  });
-}
-
 // ─── localStorage ─────────────────────────────────────────────────────────────
 
 const LS_KEY = "chroma:palettes";
 const LS_PREF_KEY = "chroma:prefs";
 
+/**
+ * The pre-project flat list of saved palettes. Only read once, when the
+ * store first hydrates without projects — they become that project's
+ * palettes. Left in place so older builds still see it.
+ */
 export function loadSaved(): SavedPalette[] {
   try {
     return JSON.parse(localStorage.getItem(LS_KEY) || "[]");
@@ -589,33 +657,6 @@ export function loadSaved(): SavedPalette[] {
     return [];
   }
 }
-export function savePalette(
-  name: string,
-  hexes: string[],
-  mode: HarmonyMode,
-  slotNames?: (string | undefined)[],
-): SavedPalette {
-  const saved = loadSaved();
-  const entry: SavedPalette = {
-    id: crypto.randomUUID(),
-    name,
-    hexes,
-    slotNames,
-    mode,
-    createdAt: Date.now(),
-  };
-  localStorage.setItem(LS_KEY, JSON.stringify([entry, ...saved].slice(0, 50)));
-  return entry;
-}
-export function deleteSaved(id: string): void {
-  localStorage.setItem(
-    LS_KEY,
-    JSON.stringify(loadSaved().filter((p) => p.id !== id)),
-  );
-}
-export function clearSaved(): void {
-  localStorage.removeItem(LS_KEY);
-}
 
 // Persist user prefs (mode + count)
 export function savePrefs(mode: HarmonyMode, count: number): void {
@@ -623,26 +664,250 @@ export function savePrefs(mode: HarmonyMode, count: number): void {
 }
 
 // ─── URL encode/decode ────────────────────────────────────────────────────────
+//
+// v2 links carry everything needed to rebuild the palette losslessly —
+// names, locks, alpha, generator settings, utility and brand colors — as
+// base64url JSON in `#v=2&d=…`. Legacy `#p=hex-hex&m=mode&r=seed` links
+// still decode (as version 1).
 
 /** Safe check — returns false during SSR where window/location don't exist */
 const isBrowser = typeof window !== "undefined";
 
-export function encodeUrl(hexes: string[], mode: HarmonyMode): string {
+export const SHARE_URL_VERSION = 2;
+
+/** Store fields a share link can carry — slots and mode are required */
+export type ShareableState = Pick<ChromaState, "slots" | "mode"> &
+  Partial<
+    Pick<
+      ChromaState,
+      | "count"
+      | "seeds"
+      | "seedMode"
+      | "temperature"
+      | "rngSeed"
+      | "utilityColors"
+      | "brandColors"
+    >
+  >;
+
+const shareHexSchema = z
+  .string()
+  .regex(/^[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/)
+  .transform((h) => "#" + h.toLowerCase());
+
+const UTILITY_ROLES = [
+  "info",
+  "success",
+  "warning",
+  "error",
+  "neutral",
+  "focus",
+] as const satisfies readonly UtilityRole[];
+
+/** Most slots, seeds or brand colors a link carries — extras are dropped */
+const MAX_SHARE_ITEMS = 64;
+
+/** Longest slot name or brand label a link carries — longer ones are clipped */
+const MAX_SHARE_NAME = 80;
+
+/** Clip to MAX_SHARE_NAME UTF-16 units without splitting a surrogate pair */
+function clipShareName(name: string): string {
+  const cut = name.slice(0, MAX_SHARE_NAME);
+  return /[\uD800-\uDBFF]$/.test(cut) ? cut.slice(0, -1) : cut;
+}
+
+/** Compact wire format — short keys, hexes without "#", locks as 0/1 */
+const sharePayloadSchema = z.object({
+  v: z.literal(2),
+  // Lazy — HARMONIES is still uninitialised while the constants ↔ utils
+  // import cycle resolves, so the enum is built on first parse instead
+  m: z.lazy(() =>
+    z.enum(HARMONIES.map((h) => h.id) as [HarmonyMode, ...HarmonyMode[]]),
+  ),
+  c: z.number().int().min(1).max(MAX_SHARE_ITEMS).optional(),
+  /** [hex, locked, name?] */
+  s: z
+    .array(
+      z.tuple([
+        shareHexSchema,
+        z.union([z.literal(0), z.literal(1)]),
+        z.string().max(MAX_SHARE_NAME).optional(),
+      ]),
+    )
+    .min(1)
+    .max(MAX_SHARE_ITEMS),
+  sd: z.array(shareHexSchema).max(MAX_SHARE_ITEMS).optional(),
+  sm: z.enum(["influence", "pin"]).optional(),
+  t: z.number().min(-1).max(1).optional(),
+  r: z.number().int().min(0).max(0xffffffff).optional(),
+  /** role → [hex, locked] */
+  u: z
+    .partialRecord(
+      z.enum(UTILITY_ROLES),
+      z.tuple([shareHexSchema, z.union([z.literal(0), z.literal(1)])]),
+    )
+    .optional(),
+  /** [hex, label] */
+  b: z
+    .array(z.tuple([shareHexSchema, z.string().max(MAX_SHARE_NAME)]))
+    .max(MAX_SHARE_ITEMS)
+    .optional(),
+});
+
+type SharePayload = z.infer<typeof sharePayloadSchema>;
+
+function stopToShareHex(stop: ColorStop): string {
+  return toHexAlpha(stop.hex, stop.a ?? 100).slice(1);
+}
+
+/** Brand hexes are free text — normalise to 6 or 8 digits, keeping alpha */
+function brandToShareHex(hex: string): string {
+  return toHexAlpha(opaqueHex(hex), parseHexAlpha(hex) ?? 100).slice(1);
+}
+
+function toBase64Url(text: string): string {
+  let bin = "";
+  for (const byte of new TextEncoder().encode(text))
+    bin += String.fromCharCode(byte);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(data: string): string {
+  const b64 = data.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+/** Serialise palette state to the base64url `d` parameter of a v2 link */
+export function encodeSharePayload(state: ShareableState): string {
+  const payload: SharePayload = {
+    v: 2,
+    m: state.mode,
+    s: state.slots.slice(0, MAX_SHARE_ITEMS).map((slot) => {
+      const entry: SharePayload["s"][number] = [
+        stopToShareHex(slot.color),
+        slot.locked ? 1 : 0,
+      ];
+      if (slot.name) entry.push(clipShareName(slot.name));
+      return entry;
+    }),
+  };
+  if (state.count !== undefined && state.count !== payload.s.length)
+    payload.c = Math.min(state.count, MAX_SHARE_ITEMS);
+  if (state.seeds)
+    payload.sd = state.seeds.slice(0, MAX_SHARE_ITEMS).map(stopToShareHex);
+  if (state.seedMode) payload.sm = state.seedMode;
+  if (state.temperature !== undefined) payload.t = state.temperature;
+  if (state.rngSeed != null) payload.r = state.rngSeed;
+  if (state.utilityColors) {
+    const u: NonNullable<SharePayload["u"]> = {};
+    for (const role of UTILITY_ROLES) {
+      const uc = state.utilityColors[role];
+      if (uc) u[role] = [stopToShareHex(uc.color), uc.locked ? 1 : 0];
+    }
+    payload.u = u;
+  }
+  if (state.brandColors?.length)
+    payload.b = state.brandColors
+      .slice(0, MAX_SHARE_ITEMS)
+      .map((b) => [brandToShareHex(b.hex), clipShareName(b.label)]);
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/** Inverse of encodeSharePayload — null when the data is corrupt or invalid */
+export function decodeSharePayload(data: string): SharedPalette | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(fromBase64Url(data));
+  } catch {
+    return null;
+  }
+  const parsed = sharePayloadSchema.safeParse(json);
+  if (!parsed.success) return null;
+  const p = parsed.data;
+
+  const slots: PaletteSlot[] = p.s.map(([hex, locked, name]) => ({
+    id: crypto.randomUUID(),
+    color: hexToStop(hex),
+    locked: locked === 1,
+    name: name || undefined,
+  }));
+  const shared: SharedPalette = {
+    version: p.v,
+    mode: p.m,
+    count: p.c ?? slots.length,
+    slots,
+  };
+  if (p.sd) shared.seeds = p.sd.map((hex) => hexToStop(hex));
+  if (p.sm) shared.seedMode = p.sm;
+  if (p.t !== undefined) shared.temperature = p.t;
+  if (p.r !== undefined) shared.rngSeed = p.r;
+  if (p.u) {
+    const utility = generateUtilityColors(slots);
+    for (const [role, [hex, locked]] of Object.entries(p.u) as [
+      UtilityRole,
+      [string, 0 | 1],
+    ][])
+      utility[role] = {
+        ...utility[role],
+        color: hexToStop(hex),
+        locked: locked === 1,
+      };
+    shared.utilityColors = utility;
+  }
+  if (p.b)
+    shared.brandColors = p.b.map(([hex, label]) => ({
+      id: crypto.randomUUID(),
+      label,
+      hex,
+    }));
+  return shared;
+}
+
+export function encodeUrl(state: ShareableState): string {
   if (!isBrowser) return "";
   const base = `${location.origin}${location.pathname}`;
-  return `${base}#p=${hexes.map((h) => h.replace("#", "")).join("-")}&m=${mode}`;
+  return `${base}#v=${SHARE_URL_VERSION}&d=${encodeSharePayload(state)}`;
+}
+
+/** Legacy v1 link: `#p=hex-hex-…&m=mode&r=seed` — hexes and mode only */
+function decodeLegacyUrl(p: URLSearchParams): SharedPalette | null {
+  const hexes = (p.get("p") || "")
+    .split("-")
+    .map((c) => "#" + c)
+    .filter((c) => /^#[0-9a-fA-F]{6}$/.test(c));
+  if (hexes.length < 2) return null;
+  const mode = p.get("m") || "analogous";
+  const slots: PaletteSlot[] = hexes.map((hex) => ({
+    id: crypto.randomUUID(),
+    color: hexToStop(hex),
+    locked: false,
+  }));
+  const shared: SharedPalette = {
+    version: 1,
+    mode: HARMONIES.some((h) => h.id === mode)
+      ? (mode as HarmonyMode)
+      : "analogous",
+    count: slots.length,
+    slots,
+  };
+  const r = Number(p.get("r") ?? NaN);
+  if (Number.isInteger(r) && r >= 0 && r <= 0xffffffff) shared.rngSeed = r;
+  return shared;
 }
 
-export function decodeUrl(): { hexes: string[]; mode: HarmonyMode } | null {
+export function decodeUrl(): SharedPalette | null {
   if (!isBrowser) return null; // SSR — no location, no hash
   try {
     const p = new URLSearchParams(location.hash.slice(1));
-    const hexes = (p.get("p") || "")
-      .split("-")
-      .map((c) => "#" + c)
-      .filter((c) => /^#[0-9a-fA-F]{6}$/.test(c));
-    const mode = (p.get("m") || "analogous") as HarmonyMode;
-    return hexes.length >= 2 ? { hexes, mode } : null;
+    const data = p.get("d");
+    if (data !== null) {
+      // Unknown future versions fall through to null rather than half-loading
+      return p.get("v") === String(SHARE_URL_VERSION)
+        ? decodeSharePayload(data)
+        : null;
+    }
+    return decodeLegacyUrl(p);
   } catch {
     return null;
   }
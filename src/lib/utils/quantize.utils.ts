@@ -0,0 +1,649 @@
+// quantize.utils.ts
+// Color quantization for image extraction and recoloring. Pixels are binned
+// into a 5-bit-per-channel histogram first (exact channel sums are kept per
+// bin), so a full-resolution photo costs one pass over its bytes and every
+// algorithm works on at most 32k weighted entries. Pure and DOM-free — these
+// run inside the analysis workers (see @/lib/workers).
+
+import type {
+  DeltaEMetric,
+  ExtractAlgorithm,
+  ExtractRegion,
+  ExtractedColor,
+  PixelBuffer,
+  PixelCluster,
+  RGB,
+} from "@/types";
+import {
+  DELTA_E_METRICS,
+  clamp,
+  rgbToHsl,
+  rgbToOklab,
+} from "./color-math.utils";
+import { createRng } from "./palette.utils";
+
+type Pixel = RGB;
+type Bin = Pixel & { w: number };
+
+// ─── Histogram ────────────────────────────────────────────────────────────────
+
+const HIST_BITS = 5;
+const HIST_SHIFT = 8 - HIST_BITS;
+const HIST_SIDE = 1 << HIST_BITS;
+
+/** Opaque pixels inside `roi` (fractions of the image), binned */
+function histogram(
+  { data, width, height }: PixelBuffer,
+  roi?: ExtractRegion | null,
+): Bin[] {
+  const size = HIST_SIDE ** 3;
+  const count = new Uint32Array(size);
+  const sumR = new Float64Array(size),
+    sumG = new Float64Array(size),
+    sumB = new Float64Array(size);
+  const x0 = roi ? Math.floor(clamp(roi.x, 0, 1) * width) : 0;
+  const y0 = roi ? Math.floor(clamp(roi.y, 0, 1) * height) : 0;
+  const x1 = roi ? Math.ceil(clamp(roi.x + roi.w, 0, 1) * width) : width;
+  const y1 = roi ? Math.ceil(clamp(roi.y + roi.h, 0, 1) * height) : height;
+  for (let y = y0; y < y1; y++) {
+    for (
+      let i = (y * width + x0) * 4, end = (y * width + x1) * 4;
+      i < end;
+      i += 4
+    ) {
+      if (data[i + 3] < 128) continue;
+      const r = data[i],
+        g = data[i + 1],
+        b = data[i + 2];
+      const k =
+        ((r >> HIST_SHIFT) << (HIST_BITS * 2)) |
+        ((g >> HIST_SHIFT) << HIST_BITS) |
+        (b >> HIST_SHIFT);
+      count[k]++;
+      sumR[k] += r;
+      sumG[k] += g;
+      sumB[k] += b;
+    }
+  }
+  const bins: Bin[] = [];
+  for (let k = 0; k < size; k++) {
+    const w = count[k];
+    if (w) bins.push({ r: sumR[k] / w, g: sumG[k] / w, b: sumB[k] / w, w });
+  }
+  return bins;
+}
+
+/** Weighted mean of a group of bins, carrying their total weight */
+function merge(bins: Bin[]): Bin {
+  let r = 0,
+    g = 0,
+    b = 0,
+    w = 0;
+  for (const p of bins) {
+    r += p.r * p.w;
+    g += p.g * p.w;
+    b += p.b * p.w;
+    w += p.w;
+  }
+  return { r: r / w, g: g / w, b: b / w, w };
+}
+
+const roundRgb = ({ r, g, b }: Pixel): RGB => ({
+  r: Math.round(r),
+  g: Math.round(g),
+  b: Math.round(b),
+});
+
+// ─── Median cut ───────────────────────────────────────────────────────────────
+
+/** Splits at the weighted median of the widest channel */
+function medianCut(bins: Bin[], depth: number): Bin[][] {
+  if (depth === 0 || bins.length < 2) return [bins];
+  let mnR = 255,
+    mxR = 0,
+    mnG = 255,
+    mxG = 0,
+    mnB = 255,
+    mxB = 0,
+    total = 0;
+  for (const { r, g, b, w } of bins) {
+    if (r < mnR) mnR = r;
+    if (r > mxR) mxR = r;
+    if (g < mnG) mnG = g;
+    if (g > mxG) mxG = g;
+    if (b < mnB) mnB = b;
+    if (b > mxB) mxB = b;
+    total += w;
+  }
+  const rR = mxR - mnR,
+    gR = mxG - mnG,
+    bR = mxB - mnB;
+  const mx = Math.max(rR, gR, bR);
+  const key = mx === rR ? "r" : mx === gR ? "g" : "b";
+  bins.sort((a, b) => a[key] - b[key]);
+  let mid = 0;
+  for (let acc = 0; mid < bins.length - 1; mid++) {
+    acc += bins[mid].w;
+    if (acc >= total / 2) break;
+  }
+  // Keep the crossing bin on the left, but never leave a side empty
+  mid = Math.min(mid + 1, bins.length - 1);
+  return [
+    ...medianCut(bins.slice(0, mid), depth - 1),
+    ...medianCut(bins.slice(mid), depth - 1),
+  ];
+}
+
+function medianCutClusters(bins: Bin[], k: number): Bin[] {
+  return medianCut([...bins], Math.ceil(Math.log2(Math.max(1, k))))
+    .filter((b) => b.length)
+    .map(merge);
+}
+
+// ─── k-means++ (OKLab) ────────────────────────────────────────────────────────
+// Seeded by D² sampling (weighted by pixel count) from a fixed RNG seed, so the
+// same image always gives the same colors. Distances are in OKLab; centers
+// are reported as the weighted sRGB mean of their members.
+
+const KMEANS_ITERATIONS = 16;
+const KMEANS_SEED = 0x5eed;
+
+function kmeansClusters(bins: Bin[], k: number): Bin[] {
+  const n = bins.length;
+  k = Math.min(k, n);
+  if (!k) return [];
+  const labs = bins.map((b) => rgbToOklab(b));
+  const rand = createRng(KMEANS_SEED);
+  const dist = (i: number, c: { L: number; a: number; b: number }) =>
+    (labs[i].L - c.L) ** 2 + (labs[i].a - c.a) ** 2 + (labs[i].b - c.b) ** 2;
+
+  const pick = (weights: Float64Array) => {
+    let total = 0;
+    for (const w of weights) total += w;
+    let t = rand() * total;
+    for (let i = 0; i < n; i++) if ((t -= weights[i]) <= 0) return i;
+    return n - 1;
+  };
+
+  const centers = [{ ...labs[pick(Float64Array.from(bins, (b) => b.w))] }];
+  const nearest = Float64Array.from(labs, (_, i) => dist(i, centers[0]));
+  while (centers.length < k) {
+    const c = labs[pick(nearest.map((d, i) => d * bins[i].w))];
+    centers.push({ ...c });
+    for (let i = 0; i < n; i++) nearest[i] = Math.min(nearest[i], dist(i, c));
+  }
+
+  const assign = new Int32Array(n).fill(-1);
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    let changed = false;
+    for (let i = 0; i < n; i++) {
+      let best = 0,
+        bestD = Infinity;
+      for (let j = 0; j < centers.length; j++) {
+        const d = dist(i, centers[j]);
+        if (d < bestD) [best, bestD] = [j, d];
+      }
+      if (assign[i] !== best) [assign[i], changed] = [best, true];
+    }
+    if (!changed) break;
+    const sums = centers.map(() => ({ L: 0, a: 0, b: 0, w: 0 }));
+    for (let i = 0; i < n; i++) {
+      const s = sums[assign[i]],
+        w = bins[i].w;
+      s.L += labs[i].L * w;
+      s.a += labs[i].a * w;
+      s.b += labs[i].b * w;
+      s.w += w;
+    }
+    sums.forEach((s, j) => {
+      if (s.w) centers[j] = { L: s.L / s.w, a: s.a / s.w, b: s.b / s.w };
+    });
+  }
+
+  const groups: Bin[][] = centers.map(() => []);
+  for (let i = 0; i < n; i++) groups[assign[i]].push(bins[i]);
+  return groups.filter((g) => g.length).map(merge);
+}
+
+// ─── Octree ───────────────────────────────────────────────────────────────────
+// Every node keeps the pixel sums of its subtree, so folding a node into a
+// leaf is just dropping its children. The deepest, lightest nodes fold first.
+
+const OCTREE_DEPTH = HIST_BITS;
+
+interface OctNode {
+  r: number;
+  g: number;
+  b: number;
+  w: number;
+  children: OctNode[] | null;
+}
+
+function octreeClusters(bins: Bin[], k: number): Bin[] {
+  const node = (): OctNode => ({ r: 0, g: 0, b: 0, w: 0, children: null });
+  const root = node();
+  const levels: OctNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  let leaves = 0;
+
+  for (const bin of bins) {
+    const r = Math.floor(bin.r),
+      g = Math.floor(bin.g),
+      b = Math.floor(bin.b);
+    let n = root;
+    for (let depth = 0; ; depth++) {
+      n.r += bin.r * bin.w;
+      n.g += bin.g * bin.w;
+      n.b += bin.b * bin.w;
+      n.w += bin.w;
+      if (depth === OCTREE_DEPTH) break;
+      if (!n.children) {
+        n.children = [];
+        levels[depth].push(n);
+      }
+      const shift = 7 - depth;
+      const i =
+        (((r >> shift) & 1) << 2) |
+        (((g >> shift) & 1) << 1) |
+        ((b >> shift) & 1);
+      if (!n.children[i]) {
+        n.children[i] = node();
+        if (depth + 1 === OCTREE_DEPTH) leaves++;
+      }
+      n = n.children[i];
+    }
+  }
+
+  for (let depth = OCTREE_DEPTH - 1; depth >= 0 && leaves > k; depth--) {
+    const level = levels[depth].sort((a, b) => a.w - b.w);
+    for (const n of level) {
+      if (leaves <= k) break;
+      leaves -= n.children!.filter(Boolean).length - 1;
+      n.children = null;
+    }
+  }
+
+  const out: Bin[] = [];
+  const collect = (n: OctNode) => {
+    if (!n.children) {
+      if (n.w) out.push({ r: n.r / n.w, g: n.g / n.w, b: n.b / n.w, w: n.w });
+      return;
+    }
+    for (const c of n.children) if (c) collect(c);
+  };
+  collect(root);
+  return out;
+}
+
+// ─── Wu ───────────────────────────────────────────────────────────────────────
+// Xiaolin Wu's variance-minimizing quantizer (Graphics Gems II): cumulative
+// color moments over the 32³ histogram, then repeatedly cut the box with the
+// highest variance where it reduces the summed squared error most.
+
+const WU_SIDE = HIST_SIDE + 1;
+
+interface WuBox {
+  r0: number;
+  r1: number;
+  g0: number;
+  g1: number;
+  b0: number;
+  b1: number;
+}
+
+type Moments = Record<"w" | "r" | "g" | "b" | "m2", Float64Array>;
+type Axis = "r" | "g" | "b";
+
+const wuIndex = (r: number, g: number, b: number) =>
+  (r * WU_SIDE + g) * WU_SIDE + b;
+
+function wuMoments(bins: Bin[]): Moments {
+  const size = WU_SIDE ** 3;
+  const m: Moments = {
+    w: new Float64Array(size),
+    r: new Float64Array(size),
+    g: new Float64Array(size),
+    b: new Float64Array(size),
+    m2: new Float64Array(size),
+  };
+  for (const bin of bins) {
+    const i = wuIndex(
+      (Math.floor(bin.r) >> HIST_SHIFT) + 1,
+      (Math.floor(bin.g) >> HIST_SHIFT) + 1,
+      (Math.floor(bin.b) >> HIST_SHIFT) + 1,
+    );
+    m.w[i] += bin.w;
+    m.r[i] += bin.r * bin.w;
+    m.g[i] += bin.g * bin.w;
+    m.b[i] += bin.b * bin.w;
+    m.m2[i] += (bin.r ** 2 + bin.g ** 2 + bin.b ** 2) * bin.w;
+  }
+  // 3-D prefix sums, one moment at a time
+  for (const arr of Object.values(m)) {
+    for (let r = 1; r < WU_SIDE; r++) {
+      const area = new Float64Array(WU_SIDE);
+      for (let g = 1; g < WU_SIDE; g++) {
+        let line = 0;
+        for (let b = 1; b < WU_SIDE; b++) {
+          const i = wuIndex(r, g, b);
+          line += arr[i];
+          area[b] += line;
+          arr[i] = arr[wuIndex(r - 1, g, b)] + area[b];
+        }
+      }
+    }
+  }
+  return m;
+}
+
+function wuVolume(c: WuBox, m: Float64Array): number {
+  return (
+    m[wuIndex(c.r1, c.g1, c.b1)] -
+    m[wuIndex(c.r1, c.g1, c.b0)] -
+    m[wuIndex(c.r1, c.g0, c.b1)] +
+    m[wuIndex(c.r1, c.g0, c.b0)] -
+    m[wuIndex(c.r0, c.g1, c.b1)] +
+    m[wuIndex(c.r0, c.g1, c.b0)] +
+    m[wuIndex(c.r0, c.g0, c.b1)] -
+    m[wuIndex(c.r0, c.g0, c.b0)]
+  );
+}
+
+/** Part of the volume below the box's lower bound on `axis` */
+function wuBottom(c: WuBox, axis: Axis, m: Float64Array): number {
+  if (axis === "r")
+    return (
+      -m[wuIndex(c.r0, c.g1, c.b1)] +
+      m[wuIndex(c.r0, c.g1, c.b0)] +
+      m[wuIndex(c.r0, c.g0, c.b1)] -
+      m[wuIndex(c.r0, c.g0, c.b0)]
+    );
+  if (axis === "g")
+    return (
+      -m[wuIndex(c.r1, c.g0, c.b1)] +
+      m[wuIndex(c.r1, c.g0, c.b0)] +
+      m[wuIndex(c.r0, c.g0, c.b1)] -
+      m[wuIndex(c.r0, c.g0, c.b0)]
+    );
+  return (
+    -m[wuIndex(c.r1, c.g1, c.b0)] +
+    m[wuIndex(c.r1, c.g0, c.b0)] +
+    m[wuIndex(c.r0, c.g1, c.b0)] -
+    m[wuIndex(c.r0, c.g0, c.b0)]
+  );
+}
+
+/** Volume with the box's upper bound on `axis` moved to `pos` */
+function wuTop(c: WuBox, axis: Axis, pos: number, m: Float64Array): number {
+  if (axis === "r")
+    return (
+      m[wuIndex(pos, c.g1, c.b1)] -
+      m[wuIndex(pos, c.g1, c.b0)] -
+      m[wuIndex(pos, c.g0, c.b1)] +
+      m[wuIndex(pos, c.g0, c.b0)]
+    );
+  if (axis === "g")
+    return (
+      m[wuIndex(c.r1, pos, c.b1)] -
+      m[wuIndex(c.r1, pos, c.b0)] -
+      m[wuIndex(c.r0, pos, c.b1)] +
+      m[wuIndex(c.r0, pos, c.b0)]
+    );
+  return (
+    m[wuIndex(c.r1, c.g1, pos)] -
+    m[wuIndex(c.r1, c.g0, pos)] -
+    m[wuIndex(c.r0, c.g1, pos)] +
+    m[wuIndex(c.r0, c.g0, pos)]
+  );
+}
+
+function wuVariance(c: WuBox, m: Moments): number {
+  const w = wuVolume(c, m.w);
+  if (w <= 0) return 0;
+  const r = wuVolume(c, m.r),
+    g = wuVolume(c, m.g),
+    b = wuVolume(c, m.b);
+  return wuVolume(c, m.m2) - (r * r + g * g + b * b) / w;
+}
+
+/** Best cut position on one axis and the between-part score it reaches */
+function wuMaximize(
+  c: WuBox,
+  axis: Axis,
+  m: Moments,
+): { cut: number; score: number } {
+  const whole = {
+    w: wuVolume(c, m.w),
+    r: wuVolume(c, m.r),
+    g: wuVolume(c, m.g),
+    b: wuVolume(c, m.b),
+  };
+  const base = {
+    w: wuBottom(c, axis, m.w),
+    r: wuBottom(c, axis, m.r),
+    g: wuBottom(c, axis, m.g),
+    b: wuBottom(c, axis, m.b),
+  };
+  let best = { cut: -1, score: 0 };
+  for (let pos = c[`${axis}0`] + 1; pos < c[`${axis}1`]; pos++) {
+    const w = base.w + wuTop(c, axis, pos, m.w);
+    if (w <= 0 || w >= whole.w) continue;
+    const r = base.r + wuTop(c, axis, pos, m.r),
+      g = base.g + wuTop(c, axis, pos, m.g),
+      b = base.b + wuTop(c, axis, pos, m.b);
+    const score =
+      (r * r + g * g + b * b) / w +
+      ((whole.r - r) ** 2 + (whole.g - g) ** 2 + (whole.b - b) ** 2) /
+        (whole.w - w);
+    if (score > best.score) best = { cut: pos, score };
+  }
+  return best;
+}
+
+function wuCut(c: WuBox, m: Moments): [WuBox, WuBox] | null {
+  const axes: Axis[] = ["r", "g", "b"];
+  const cuts = axes.map((axis) => ({ axis, ...wuMaximize(c, axis, m) }));
+  const best = cuts.reduce((a, b) => (b.score > a.score ? b : a));
+  if (best.cut < 0) return null;
+  return [
+    { ...c, [`${best.axis}1`]: best.cut },
+    { ...c, [`${best.axis}0`]: best.cut },
+  ];
+}
+
+function wuClusters(bins: Bin[], k: number): Bin[] {
+  const m = wuMoments(bins);
+  const boxes: WuBox[] = [
+    { r0: 0, r1: HIST_SIDE, g0: 0, g1: HIST_SIDE, b0: 0, b1: HIST_SIDE },
+  ];
+  const variance = [wuVariance(boxes[0], m)];
+  while (boxes.length < k) {
+    let next = 0;
+    for (let i = 1; i < boxes.length; i++)
+      if (variance[i] > variance[next]) next = i;
+    if (variance[next] <= 0) break;
+    const parts = wuCut(boxes[next], m);
+    if (!parts) {
+      variance[next] = 0;
+      continue;
+    }
+    boxes[next] = parts[0];
+    boxes.push(parts[1]);
+    variance[next] = wuVariance(parts[0], m);
+    variance.push(wuVariance(parts[1], m));
+  }
+  return boxes.flatMap((c) => {
+    const w = wuVolume(c, m.w);
+    return w > 0
+      ? [
+          {
+            r: wuVolume(c, m.r) / w,
+            g: wuVolume(c, m.g) / w,
+            b: wuVolume(c, m.b) / w,
+            w,
+          },
+        ]
+      : [];
+  });
+}
+
+// ─── Extraction ───────────────────────────────────────────────────────────────
+
+export const EXTRACT_ALGORITHMS: Record<
+  ExtractAlgorithm,
+  { label: string; desc: string; cluster: (bins: Bin[], k: number) => Bin[] }
+> = {
+  "median-cut": {
+    label: "Median cut",
+    desc: "Splits the busiest color box at its median — fast and even",
+    cluster: medianCutClusters,
+  },
+  kmeans: {
+    label: "k-means++",
+    desc: "Perceptual clusters in OKLab — closest to how colors group by eye",
+    cluster: kmeansClusters,
+  },
+  octree: {
+    label: "Octree",
+    desc: "Merges the rarest colors first — keeps small, distinct accents",
+    cluster: octreeClusters,
+  },
+  wu: {
+    label: "Wu",
+    desc: "Variance-minimizing boxes (Wu 1991) — lowest overall error",
+    cluster: wuClusters,
+  },
+};
+
+export const EXTRACT_ALGORITHM_IDS = Object.keys(
+  EXTRACT_ALGORITHMS,
+) as ExtractAlgorithm[];
+
+export interface ExtractOptions {
+  count?: number;
+  metric?: DeltaEMetric;
+  algorithm?: ExtractAlgorithm;
+  /** Keep grays, near-blacks and near-whites (dropped by default) */
+  neutrals?: boolean;
+  /** Only pixels inside this region count */
+  roi?: ExtractRegion | null;
+  /** "share" = most coverage first; "saturation" = most vivid first */
+  sort?: "share" | "saturation";
+}
+
+/**
+ * OKLCH chroma below which a color counts as neutral — grays, off-whites and
+ * near-blacks. Chroma rather than HSL saturation, which calls a barely tinted
+ * off-white "12% saturated".
+ */
+export const NEUTRAL_CHROMA = 0.03;
+
+export function isNeutral(rgb: RGB): boolean {
+  const { a, b } = rgbToOklab(rgb);
+  return Math.hypot(a, b) < NEUTRAL_CHROMA;
+}
+
+/**
+ * Drop colors closer than `jnds` just-noticeable differences to one already
+ * kept. The threshold is in JND units so it means the same under any metric.
+ */
+export function dedupColors(
+  cs: Pixel[],
+  metric: DeltaEMetric = "ok",
+  jnds = 4,
+): Pixel[] {
+  const { prepare, diff, jnd } = DELTA_E_METRICS[metric];
+  const threshold = jnds * jnd;
+  const kept: [number, number, number][] = [];
+  const r: Pixel[] = [];
+  for (const c of cs) {
+    const p = prepare(c);
+    if (kept.some((x) => diff(x, p) < threshold)) continue;
+    kept.push(p);
+    r.push(c);
+  }
+  return r;
+}
+
+/** Like dedupColors, but a dropped color's coverage goes to the one it matched */
+function mergeSimilar(
+  cs: ExtractedColor[],
+  metric: DeltaEMetric,
+  jnds = 4,
+): ExtractedColor[] {
+  const { prepare, diff, jnd } = DELTA_E_METRICS[metric];
+  const threshold = jnds * jnd;
+  const kept: { p: [number, number, number]; c: ExtractedColor }[] = [];
+  for (const c of [...cs].sort((a, b) => b.share - a.share)) {
+    const p = prepare(c.rgb);
+    const match = kept.find((k) => diff(k.p, p) < threshold);
+    if (match) match.c = { ...match.c, share: match.c.share + c.share };
+    else kept.push({ p, c });
+  }
+  return kept.map((k) => k.c);
+}
+
+/**
+ * Dominant colors of an image's pixels, each with the fraction of the
+ * (region's opaque) pixels it covers. Clusters into twice `count` colors,
+ * drops neutrals unless asked, merges near-duplicates under `metric` and
+ * keeps the top `count`.
+ */
+export function quantizePixels(
+  pixels: PixelBuffer,
+  {
+    count = 8,
+    metric = "ok",
+    algorithm = "median-cut",
+    neutrals = false,
+    roi = null,
+    sort = "share",
+  }: ExtractOptions = {},
+): ExtractedColor[] {
+  const bins = histogram(pixels, roi);
+  const total = bins.reduce((s, b) => s + b.w, 0);
+  if (!total) return [];
+  const colors = EXTRACT_ALGORITHMS[algorithm]
+    .cluster(bins, count * 2)
+    .map((c) => ({ rgb: roundRgb(c), share: c.w / total }))
+    .filter((c) => neutrals || !isNeutral(c.rgb));
+  const merged = mergeSimilar(colors, metric);
+  if (sort === "saturation")
+    merged.sort((a, b) => rgbToHsl(b.rgb).s - rgbToHsl(a.rgb).s);
+  return merged.slice(0, count);
+}
+
+// ─── Clusters ─────────────────────────────────────────────────────────────────
+
+/** Lloyd passes over the histogram that move median-cut boxes onto real clusters */
+const REFINE_PASSES = 4;
+
+/**
+ * Clusters of an image, largest share first — median cut, then a few weighted
+ * k-means passes so no cluster straddles two color families. Unlike
+ * quantizePixels nothing is filtered out: neutrals and near-duplicates stay,
+ * so every pixel belongs to one of the clusters (recoloring needs that).
+ */
+export function pixelClusters(pixels: PixelBuffer, count = 8): PixelCluster[] {
+  const bins = histogram(pixels);
+  const total = bins.reduce((s, b) => s + b.w, 0);
+  if (!total) return [];
+  let centers = medianCut(bins, Math.max(0, Math.round(Math.log2(count))))
+    .filter((b) => b.length)
+    .map(merge);
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    const groups: Bin[][] = centers.map(() => []);
+    for (const bin of bins) {
+      let best = 0,
+        bestD = Infinity;
+      centers.forEach((c, i) => {
+        const d = (c.r - bin.r) ** 2 + (c.g - bin.g) ** 2 + (c.b - bin.b) ** 2;
+        if (d < bestD) [best, bestD] = [i, d];
+      });
+      groups[best].push(bin);
+    }
+    centers = groups.filter((g) => g.length).map(merge);
+  }
+  return centers
+    .map((c) => ({ rgb: roundRgb(c), share: c.w / total }))
+    .sort((a, b) => b.share - a.share);
+}
@@ -0,0 +1,164 @@
+// recolor.utils.ts
+// Palette transfer for recoloring images. Each transfer moves a source color
+// (an image cluster) to a target in OKLab; every pixel moves by a blend of
+// those offsets weighted by its distance to each source, so gradients, edges
+// and shading survive the swap.
+
+import type { ColorTransfer, OKLab, PixelCluster, RGB } from "@/types";
+import { clamp, oklabToRgb, rgbToOklab } from "./color-math.utils";
+import { isNeutral } from "./quantize.utils";
+
+// ─── Assignment ───────────────────────────────────────────────────────────────
+
+const dist2 = (p: OKLab, q: OKLab) =>
+  (p.L - q.L) ** 2 + (p.a - q.a) ** 2 + (p.b - q.b) ** 2;
+
+/**
+ * Default cluster → slot mapping. Chromatic clusters claim the nearest unused
+ * slot in OKLab, largest share first; once every slot is claimed the rest
+ * follow the nearest cluster that has one, so a color family moves together.
+ * Neutral clusters map to null — kept as they are.
+ */
+export function autoAssignClusters(
+  clusters: PixelCluster[],
+  targets: RGB[],
+): (number | null)[] {
+  const out: (number | null)[] = clusters.map(() => null);
+  if (!targets.length) return out;
+  const labs = clusters.map((c) => rgbToOklab(c.rgb));
+  const slots = targets.map(rgbToOklab);
+  const chromatic = clusters
+    .map((c, i) => ({ share: c.share, i }))
+    .filter(({ i }) => !isNeutral(clusters[i].rgb))
+    .sort((p, q) => q.share - p.share)
+    .map(({ i }) => i);
+
+  const nearest = <T>(lab: OKLab, items: T[], at: (t: T) => OKLab) =>
+    items.reduce((a, b) => (dist2(lab, at(b)) < dist2(lab, at(a)) ? b : a));
+
+  const free = slots.map((_, j) => j);
+  const claimed: number[] = [];
+  for (const i of chromatic) {
+    if (!free.length) break;
+    const j = nearest(labs[i], free, (j) => slots[j]);
+    free.splice(free.indexOf(j), 1);
+    out[i] = j;
+    claimed.push(i);
+  }
+  for (const i of chromatic)
+    if (out[i] === null)
+      out[i] = out[nearest(labs[i], claimed, (k) => labs[k])];
+  return out;
+}
+
+/**
+ * Transfers for an assignment (cluster index → slot index, null = keep). When
+ * several clusters share a slot, the largest lands exactly on the slot color
+ * and the others keep their lightness difference from it, so shading within
+ * a color family isn't flattened to one tone.
+ */
+export function clusterTransfers(
+  clusters: PixelCluster[],
+  assignment: (number | null)[],
+  targets: RGB[],
+): ColorTransfer[] {
+  const labs = clusters.map((c) => rgbToOklab(c.rgb));
+  const anchor = new Map<number, number>();
+  clusters.forEach((c, i) => {
+    const j = assignment[i];
+    if (j == null || !targets[j]) return;
+    const a = anchor.get(j);
+    if (a === undefined || c.share > clusters[a].share) anchor.set(j, i);
+  });
+  return clusters.map((c, i) => {
+    const j = assignment[i];
+    if (j == null || !targets[j]) return { from: c.rgb, to: c.rgb };
+    const slot = rgbToOklab(targets[j]);
+    const dL = labs[i].L - labs[anchor.get(j)!].L;
+    return {
+      from: c.rgb,
+      to: oklabToRgb({ ...slot, L: clamp(slot.L + dL, 0, 1) }),
+    };
+  });
+}
+
+// ─── Transfer ─────────────────────────────────────────────────────────────────
+
+/** Direct-mapped cache of recent pixel results — photos repeat colors a lot */
+const CACHE_BITS = 16;
+
+/**
+ * Recolor RGBA pixels (canvas ImageData.data) in place — alpha is untouched.
+ * Weights are Gaussian in OKLab distance with a width set by how far apart
+ * the sources are; the nearest source always has weight 1, so pixels far
+ * from every cluster still follow the closest one. `strength` scales every
+ * offset (0 = original image, 1 = full transfer).
+ */
+export function recolorPixels(
+  data: Uint8ClampedArray,
+  transfers: ColorTransfer[],
+  strength = 1,
+): Uint8ClampedArray {
+  if (!transfers.length || strength === 0) return data;
+  const from = transfers.map((t) => rgbToOklab(t.from));
+  const offset = transfers.map((t, i) => {
+    const to = rgbToOklab(t.to);
+    return {
+      L: (to.L - from[i].L) * strength,
+      a: (to.a - from[i].a) * strength,
+      b: (to.b - from[i].b) * strength,
+    };
+  });
+
+  // Mean distance from each source to its nearest neighbour
+  let spacing = 0;
+  for (const p of from) {
+    let nearest = Infinity;
+    for (const q of from) if (q !== p) nearest = Math.min(nearest, dist2(p, q));
+    spacing += Number.isFinite(nearest) ? Math.sqrt(nearest) : 0.1;
+  }
+  const sigma = Math.max(0.02, spacing / from.length / 2);
+  const inv2s2 = 1 / (2 * sigma * sigma);
+
+  const n = from.length;
+  const d = new Float64Array(n);
+  const size = 1 << CACHE_BITS;
+  const keys = new Int32Array(size).fill(-1);
+  const vals = new Int32Array(size);
+
+  for (let px = 0; px < data.length; px += 4) {
+    const key = (data[px] << 16) | (data[px + 1] << 8) | data[px + 2];
+    const slot = Math.imul(key, 0x9e3779b1) >>> (32 - CACHE_BITS);
+    if (keys[slot] !== key) {
+      const lab = rgbToOklab({ r: data[px], g: data[px + 1], b: data[px + 2] });
+      let min = Infinity;
+      for (let i = 0; i < n; i++) {
+        d[i] = dist2(lab, from[i]);
+        if (d[i] < min) min = d[i];
+      }
+      let wSum = 0,
+        dL = 0,
+        da = 0,
+        db = 0;
+      for (let i = 0; i < n; i++) {
+        const w = Math.exp(-(d[i] - min) * inv2s2);
+        wSum += w;
+        dL += w * offset[i].L;
+        da += w * offset[i].a;
+        db += w * offset[i].b;
+      }
+      const { r, g, b } = oklabToRgb({
+        L: clamp(lab.L + dL / wSum, 0, 1),
+        a: lab.a + da / wSum,
+        b: lab.b + db / wSum,
+      });
+      keys[slot] = key;
+      vals[slot] = (r << 16) | (g << 8) | b;
+    }
+    const v = vals[slot];
+    data[px] = v >> 16;
+    data[px + 1] = (v >> 8) & 255;
+    data[px + 2] = v & 255;
+  }
+  return data;
+}
@@ -0,0 +1,187 @@
+// source-colors.utils.ts
+// Color literals in CSS, HTML and SVG source — for lifting the palette off
+// an existing site or asset. Hex and functional notations are picked up
+// anywhere; named colors only inside declarations and color attributes, so
+// prose like "the red button" doesn't count. Every literal goes through the
+// same CSS Color 4 parser as parseAny().
+
+import type { DeltaEMetric, RGB, SourceColor } from "@/types";
+import { DELTA_E_METRICS, rgbToHex } from "./color-math.utils";
+import { CSS_NAMED_COLORS, parseColor } from "./css-color.utils";
+import { dedupColors } from "./quantize.utils";
+
+// ─── Scanning ─────────────────────────────────────────────────────────────────
+
+export interface ColorLiteral {
+  /** As written, lowercased with whitespace collapsed */
+  literal: string;
+  rgb: RGB;
+  /** Offset in the source (comments stripped) — literals come back in order */
+  index: number;
+}
+
+const COMMENT_RE = /\/\*[\s\S]*?\*\/|<!--[\s\S]*?-->/g;
+
+/**
+ * A color function's opening, or a hex literal that isn't an HTML entity
+ * (`&#123;`), a fragment link (`href="#abc"`) or an SVG reference
+ * (`url(#abc)`).
+ */
+const LITERAL_RE =
+  /(?<![\w-])(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix)\(|(?<![&\w]|url\(|href=["']?)#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})(?![\w-])/gi;
+
+/** `#bad {`, `#add:hover`, `#fab.open` — an id selector, not a color */
+const SELECTOR_TAIL_RE = /^(?:\s*\{|[.:[])/;
+
+/** Longest color function worth parsing — anything longer is a false match */
+const MAX_FUNCTION_LENGTH = 256;
+
+/** `prop: value` in stylesheets and style attributes */
+const DECLARATION_RE = /(?<![\w-])[a-z-]+\s*:\s*([^;{}<>"']+)/gi;
+
+/** Presentation attributes that take a color */
+const ATTRIBUTE_RE =
+  /(?<![\w-])(?:fill|stroke|stop-color|flood-color|lighting-color|color|bgcolor)\s*=\s*(["'])([^"']*)\1/gi;
+
+const WORD_RE = /(?<![\w./-])[a-z]+(?![\w./-])/gi;
+
+const normalize = (s: string) => s.replace(/\s+/g, " ").toLowerCase();
+
+/** Index just past the parenthesis matching the one at `open`, or -1 */
+function closingParen(s: string, open: number): number {
+  let depth = 0;
+  const end = Math.min(s.length, open + MAX_FUNCTION_LENGTH);
+  for (let i = open; i < end; i++) {
+    if (s[i] === "(") depth++;
+    else if (s[i] === ")" && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+/**
+ * Blank out parenthesised groups, so named colors inside a function — already
+ * counted as part of it — aren't counted twice. Offsets are preserved.
+ */
+function stripGroups(s: string): string {
+  let prev;
+  do {
+    prev = s;
+    s = s.replace(/\([^()]*\)/g, (m) => " ".repeat(m.length));
+  } while (s !== prev);
+  return s;
+}
+
+/**
+ * Every visible color literal in a CSS / HTML / SVG source, in order.
+ * Comments are skipped, and so are fully transparent colors — they don't
+ * show up on the page. Relative colors and `var()` references can't be
+ * resolved from source alone and are skipped too.
+ */
+export function scanColorLiterals(source: string): ColorLiteral[] {
+  const text = source.replace(COMMENT_RE, (m) => " ".repeat(m.length));
+  const out: ColorLiteral[] = [];
+  const push = (literal: string, index: number) => {
+    const parsed = parseColor(literal);
+    if (parsed && parsed.alpha > 0)
+      out.push({ literal: normalize(literal), rgb: parsed.rgb, index });
+    return !!parsed;
+  };
+
+  LITERAL_RE.lastIndex = 0;
+  for (let m; (m = LITERAL_RE.exec(text)); ) {
+    const [match] = m;
+    if (match.endsWith("(")) {
+      const end = closingParen(text, LITERAL_RE.lastIndex - 1);
+      // Unparseable functions are scanned inside for the literals they hold
+      if (end > 0 && push(text.slice(m.index, end), m.index))
+        LITERAL_RE.lastIndex = end;
+    } else if (!SELECTOR_TAIL_RE.test(text.slice(LITERAL_RE.lastIndex))) {
+      push(match, m.index);
+    }
+  }
+
+  const scanValue = (value: string, offset: number) => {
+    const bare = stripGroups(value);
+    WORD_RE.lastIndex = 0;
+    for (let w; (w = WORD_RE.exec(bare)); ) {
+      const word = w[0].toLowerCase();
+      if (word in CSS_NAMED_COLORS || word === "transparent")
+        push(word, offset + w.index);
+    }
+  };
+  for (const m of text.matchAll(DECLARATION_RE))
+    scanValue(m[1], m.index + m[0].length - m[1].length);
+  for (const m of text.matchAll(ATTRIBUTE_RE))
+    scanValue(m[2], m.index + m[0].length - m[2].length - 1);
+
+  return out.sort((a, b) => a.index - b.index);
+}
+
+// ─── Ranking ──────────────────────────────────────────────────────────────────
+
+export interface SourceColorOptions {
+  /** ΔE formula for clustering near-duplicates */
+  metric?: DeltaEMetric;
+  /** Cluster radius in just-noticeable differences — 0 keeps every color */
+  jnds?: number;
+}
+
+/**
+ * The colors a source uses, most frequent first. Exact repeats are counted,
+ * then near-duplicates (a design token and its hand-typed approximation)
+ * are clustered with dedupColors: the most frequent color of each cluster
+ * represents it and every member's count goes to its nearest representative.
+ */
+export function extractSourceColors(
+  source: string,
+  { metric = "ok", jnds = 4 }: SourceColorOptions = {},
+): SourceColor[] {
+  const literals = scanColorLiterals(source);
+  if (!literals.length) return [];
+
+  const byHex = new Map<
+    string,
+    { rgb: RGB; count: number; literals: Map<string, number> }
+  >();
+  for (const { literal, rgb } of literals) {
+    const hex = rgbToHex(rgb);
+    let entry = byHex.get(hex);
+    if (!entry)
+      byHex.set(hex, (entry = { rgb, count: 0, literals: new Map() }));
+    entry.count++;
+    entry.literals.set(literal, (entry.literals.get(literal) ?? 0) + 1);
+  }
+  // Stable sort — ties stay in order of first appearance
+  const unique = [...byHex.values()].sort((a, b) => b.count - a.count);
+
+  const { prepare, diff } = DELTA_E_METRICS[metric];
+  const reps = dedupColors(
+    unique.map((u) => u.rgb),
+    metric,
+    jnds,
+  ).map((rgb) => ({
+    rgb,
+    p: prepare(rgb),
+    count: 0,
+    literals: new Map<string, number>(),
+  }));
+  for (const u of unique) {
+    const p = prepare(u.rgb);
+    const rep = reps.reduce((a, b) => (diff(b.p, p) < diff(a.p, p) ? b : a));
+    rep.count += u.count;
+    for (const [literal, n] of u.literals)
+      rep.literals.set(literal, (rep.literals.get(literal) ?? 0) + n);
+  }
+
+  return reps
+    .sort((a, b) => b.count - a.count)
+    .map((rep) => ({
+      rgb: rep.rgb,
+      hex: rgbToHex(rep.rgb),
+      count: rep.count,
+      share: rep.count / literals.length,
+      literals: [...rep.literals]
+        .sort((a, b) => b[1] - a[1])
+        .map(([literal]) => literal),
+    }));
+}
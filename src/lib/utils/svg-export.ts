@@ -2,7 +2,7 @@
  * svg-export.ts
  *
  * Generates a labelled SVG swatch sheet from a palette.
- * Used by both the Export modal (download) and the REST API (/api/export/svg).
+ * Used by both the Export modal (download) and the REST API (/api/palette/export).
  */
 
 import type { PaletteSlot } from "@/types";
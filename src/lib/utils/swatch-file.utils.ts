@@ -0,0 +1,798 @@
+// swatch-file.utils.ts
+// Native swatch file formats — Adobe ASE / ACO, GIMP GPL, Procreate .swatches
+// and Sketch palette JSON. Parsers turn a file into PaletteSlot[], keeping the
+// swatch names as slot names; writers do the reverse for download.
+
+import type { PaletteSlot, RGB } from "@/types";
+import {
+  clamp,
+  cmykToRgb,
+  fromLinear,
+  hsvToRgb,
+  rgbToHex,
+  rgbToHsv,
+} from "./color-math.utils";
+import { hexToStop } from "./palette.utils";
+import { nearestName } from "./color-names.utils";
+
+// ─── Formats ──────────────────────────────────────────────────────────────────
+
+export type SwatchFileFormat = "ase" | "aco" | "gpl" | "procreate" | "sketch";
+
+export const SWATCH_FILE_FORMATS: Record<
+  SwatchFileFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  ase: {
+    label: "Adobe Swatch Exchange",
+    extension: ".ase",
+    mimeType: "application/octet-stream",
+  },
+  aco: {
+    label: "Photoshop Color Swatches",
+    extension: ".aco",
+    mimeType: "application/octet-stream",
+  },
+  gpl: { label: "GIMP Palette", extension: ".gpl", mimeType: "text/plain" },
+  procreate: {
+    label: "Procreate Swatches",
+    extension: ".swatches",
+    mimeType: "application/zip",
+  },
+  sketch: {
+    label: "Sketch Palette",
+    extension: ".sketchpalette",
+    mimeType: "application/json",
+  },
+};
+
+/** `accept` attribute for file inputs */
+export const SWATCH_FILE_ACCEPT = [
+  ...Object.values(SWATCH_FILE_FORMATS).map((f) => f.extension),
+  ".json",
+].join(",");
+
+export interface ImportedSwatches {
+  format: SwatchFileFormat;
+  /** Palette / group name stored in the file, when there is one */
+  name?: string;
+  slots: PaletteSlot[];
+  /** Entries that couldn't be converted (unsupported color model, empty slot) */
+  skipped: number;
+}
+
+interface RawSwatch {
+  rgb: RGB;
+  /** 0–100 */
+  alpha?: number;
+  name?: string;
+}
+
+// ─── Color model helpers ──────────────────────────────────────────────────────
+
+const to255 = (v: number) => Math.round(clamp(v, 0, 1) * 255);
+
+/** CIELAB (D50, as used by Adobe files) → sRGB via Bradford-adapted XYZ */
+function labD50ToRgb(L: number, a: number, b: number): RGB {
+  const fy = (L + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inv = (t: number) =>
+    t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27);
+  const x = 0.96422 * inv(fx);
+  const y = L > 8 ? fy ** 3 : L / (24389 / 27);
+  const z = 0.82521 * inv(fz);
+  return {
+    r: to255(fromLinear(3.1338561 * x - 1.6168667 * y - 0.4906146 * z)),
+    g: to255(fromLinear(-0.9787684 * x + 1.9161415 * y + 0.033454 * z)),
+    b: to255(fromLinear(0.0719453 * x - 0.2289914 * y + 1.4052427 * z)),
+  };
+}
+
+/** Drop generic placeholder names so the UI falls back to nearest-name */
+function cleanName(name: string | undefined): string | undefined {
+  const n = name?.replace(/\0/g, "").trim();
+  return n && n.toLowerCase() !== "untitled" ? n : undefined;
+}
+
+// ─── Binary helpers ───────────────────────────────────────────────────────────
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+/**
+ * Throw unless `length` bytes from `offset` end by `end` (the file or the
+ * enclosing block) — reading past it would surface DataView's bare RangeError.
+ */
+function need(
+  end: number,
+  offset: number,
+  length: number,
+  format: string,
+): void {
+  if (offset + length > end)
+    throw new Error(`Not a valid ${format} file — it's truncated or corrupt`);
+}
+
+/** UTF-16BE string of `units` code units, trailing NUL stripped */
+function utf16be(view: DataView, offset: number, units: number): string {
+  let s = "";
+  for (let i = 0; i < units; i++)
+    s += String.fromCharCode(view.getUint16(offset + i * 2));
+  return s.replace(/\0+$/, "");
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Read one entry from a ZIP archive (stored or deflated) */
+async function readZipEntry(
+  bytes: Uint8Array,
+  match: (name: string) => boolean,
+): Promise<Uint8Array | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // End-of-central-directory record sits in the last 64 KiB + 22 bytes
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a valid ZIP archive");
+
+  const entries = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  for (let e = 0; e < entries; e++) {
+    if (view.getUint32(p, true) !== 0x02014b50) break;
+    const method = view.getUint16(p + 10, true);
+    const size = view.getUint32(p + 20, true);
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    const local = view.getUint32(p + 42, true);
+    const name = new TextDecoder().decode(
+      bytes.subarray(p + 46, p + 46 + nameLen),
+    );
+    p += 46 + nameLen + extraLen + commentLen;
+    if (!match(name)) continue;
+
+    const start =
+      local +
+      30 +
+      view.getUint16(local + 26, true) +
+      view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + size);
+    if (method === 0) return data;
+    if (method === 8) return inflateRaw(data);
+    throw new Error(`Unsupported ZIP compression method ${method}`);
+  }
+  return null;
+}
+
+// ─── Parsers ──────────────────────────────────────────────────────────────────
+
+type Parsed = { name?: string; swatches: RawSwatch[]; skipped: number };
+
+/** float32 values per ASE color model */
+const ASE_CHANNELS: Record<string, number> = {
+  "RGB ": 3,
+  CMYK: 4,
+  "LAB ": 3,
+  Gray: 1,
+};
+
+/** Adobe Swatch Exchange — big-endian block list, UTF-16 names, float32 values */
+function parseAse(bytes: Uint8Array): Parsed {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (ascii(bytes, 0, 4) !== "ASEF") throw new Error("Not an ASE file");
+  need(bytes.length, 0, 12, "ASE");
+  const blocks = view.getUint32(8);
+  const swatches: RawSwatch[] = [];
+  let name: string | undefined;
+  let skipped = 0;
+  let off = 12;
+
+  for (let i = 0; i < blocks; i++) {
+    need(bytes.length, off, 6, "ASE");
+    const type = view.getUint16(off);
+    const length = view.getUint32(off + 2);
+    const body = off + 6;
+    need(bytes.length, body, length, "ASE");
+    off = body + length;
+    if (type !== 0x0001 && type !== 0xc001) continue; // group end / unknown
+
+    need(off, body, 2, "ASE");
+    const nameLen = view.getUint16(body);
+    need(off, body + 2, nameLen * 2, "ASE");
+    const blockName = utf16be(view, body + 2, nameLen);
+    if (type === 0xc001) {
+      name ??= cleanName(blockName); // first group names the palette
+      continue;
+    }
+
+    let p = body + 2 + nameLen * 2;
+    need(off, p, 4, "ASE");
+    const model = ascii(bytes, p, 4);
+    p += 4;
+    need(off, p, (ASE_CHANNELS[model] ?? 0) * 4, "ASE");
+    const f = (n: number) => view.getFloat32(p + n * 4);
+    let rgb: RGB | null = null;
+    if (model === "RGB ")
+      rgb = { r: to255(f(0)), g: to255(f(1)), b: to255(f(2)) };
+    else if (model === "CMYK")
+      rgb = cmykToRgb({
+        c: f(0) * 100,
+        m: f(1) * 100,
+        y: f(2) * 100,
+        k: f(3) * 100,
+      });
+    else if (model === "LAB ") rgb = labD50ToRgb(f(0) * 100, f(1), f(2));
+    else if (model === "Gray")
+      rgb = { r: to255(f(0)), g: to255(f(0)), b: to255(f(0)) };
+
+    if (rgb) swatches.push({ rgb, name: cleanName(blockName) });
+    else skipped++;
+  }
+  return { name, swatches, skipped };
+}
+
+/** Photoshop .aco — v1 section (unnamed), optionally followed by v2 (named) */
+function parseAco(bytes: Uint8Array): Parsed {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let off = 0;
+  let best: Parsed | null = null;
+
+  while (off + 4 <= bytes.length) {
+    const version = view.getUint16(off);
+    const count = view.getUint16(off + 2);
+    if (version !== 1 && version !== 2) break;
+    off += 4;
+    const swatches: RawSwatch[] = [];
+    let skipped = 0;
+
+    for (let i = 0; i < count; i++) {
+      need(bytes.length, off, 10, "ACO");
+      const space = view.getUint16(off);
+      const w = [1, 2, 3, 4].map((n) => view.getUint16(off + n * 2));
+      off += 10;
+      let name: string | undefined;
+      if (version === 2) {
+        need(bytes.length, off, 4, "ACO");
+        const units = view.getUint32(off);
+        need(bytes.length, off + 4, units * 2, "ACO");
+        name = cleanName(utf16be(view, off + 4, units));
+        off += 4 + units * 2;
+      }
+
+      let rgb: RGB | null = null;
+      if (space === 0)
+        rgb = {
+          r: to255(w[0] / 65535),
+          g: to255(w[1] / 65535),
+          b: to255(w[2] / 65535),
+        };
+      else if (space === 1)
+        rgb = hsvToRgb({
+          h: (w[0] / 65536) * 360,
+          s: (w[1] / 65535) * 100,
+          v: (w[2] / 65535) * 100,
+        });
+      else if (space === 2)
+        // CMYK is stored inverted: 0 = 100% ink
+        rgb = cmykToRgb({
+          c: 100 - (w[0] / 65535) * 100,
+          m: 100 - (w[1] / 65535) * 100,
+          y: 100 - (w[2] / 65535) * 100,
+          k: 100 - (w[3] / 65535) * 100,
+        });
+      else if (space === 7) {
+        const int16 = (v: number) => (v > 32767 ? v - 65536 : v);
+        rgb = labD50ToRgb(w[0] / 100, int16(w[1]) / 100, int16(w[2]) / 100);
+      } else if (space === 8) {
+        const g = to255(1 - w[0] / 10000);
+        rgb = { r: g, g, b: g };
+      }
+
+      if (rgb) swatches.push({ rgb, name });
+      else skipped++;
+    }
+    // v2 repeats the v1 colors with names — prefer it when present
+    best = { swatches, skipped };
+  }
+  if (!best) throw new Error("Not an ACO file");
+  return best;
+}
+
+/** GIMP palette — `R G B<tab>Name` lines under a `GIMP Palette` header */
+function parseGpl(text: string): Parsed {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith("GIMP Palette"))
+    throw new Error("Not a GIMP palette");
+  let name: string | undefined;
+  let rgba = false;
+  let skipped = 0;
+  const swatches: RawSwatch[] = [];
+
+  for (const raw of lines.slice(1)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const header = /^(Name|Columns|Channels):\s*(.*)$/i.exec(line);
+    if (header) {
+      if (/^name$/i.test(header[1])) name = cleanName(header[2]);
+      if (/^channels$/i.test(header[1])) rgba = /rgba/i.test(header[2]);
+      continue;
+    }
+    const m = rgba
+      ? /^(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(line)
+      : /^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(line);
+    if (!m) {
+      skipped++;
+      continue;
+    }
+    const [r, g, b] = [m[1], m[2], m[3]].map((v) => clamp(+v, 0, 255));
+    swatches.push({
+      rgb: { r, g, b },
+      alpha: rgba ? Math.round((clamp(+m[4], 0, 255) / 255) * 100) : undefined,
+      name: cleanName(rgba ? m[5] : m[4]),
+    });
+  }
+  return { name, swatches, skipped };
+}
+
+type SwatchesJson = {
+  name?: string;
+  swatches?: ({
+    hue: number;
+    saturation: number;
+    brightness: number;
+    alpha?: number;
+    name?: string;
+  } | null)[];
+};
+
+/** Procreate Swatches.json — HSB 0–1, `null` for empty slots */
+function parseProcreateJson(json: unknown): Parsed {
+  const doc = (Array.isArray(json) ? json[0] : json) as SwatchesJson;
+  if (!doc || !Array.isArray(doc.swatches))
+    throw new Error("Procreate swatches are missing Swatches.json data");
+  const swatches: RawSwatch[] = [];
+  let skipped = 0;
+  for (const s of doc.swatches) {
+    if (!s || typeof s.hue !== "number") {
+      skipped++;
+      continue;
+    }
+    swatches.push({
+      rgb: hsvToRgb({
+        h: (s.hue % 1) * 360,
+        s: s.saturation * 100,
+        v: s.brightness * 100,
+      }),
+      alpha: s.alpha !== undefined ? Math.round(s.alpha * 100) : undefined,
+      name: cleanName(s.name),
+    });
+  }
+  return { name: cleanName(doc.name), swatches, skipped };
+}
+
+async function parseProcreate(bytes: Uint8Array): Promise<Parsed> {
+  const entry = await readZipEntry(bytes, (n) =>
+    /(^|\/)swatches\.json$/i.test(n),
+  );
+  if (!entry) throw new Error("Procreate swatches are missing Swatches.json");
+  return parseProcreateJson(JSON.parse(new TextDecoder().decode(entry)));
+}
+
+type SketchColor =
+  | string
+  | {
+      name?: string;
+      red?: number;
+      green?: number;
+      blue?: number;
+      alpha?: number;
+      color?: SketchColor;
+    };
+
+/**
+ * Sketch palette JSON — v1 lists hex strings, v2 lists `{ red, green, blue,
+ * alpha }` (0–1). Shared-style exports nest the color under `color`.
+ */
+function parseSketch(json: unknown): Parsed {
+  const colors = (json as { colors?: SketchColor[] })?.colors;
+  if (!Array.isArray(colors)) throw new Error("Not a Sketch palette");
+  const swatches: RawSwatch[] = [];
+  let skipped = 0;
+
+  const read = (c: SketchColor, name?: string): RawSwatch | null => {
+    if (typeof c === "string") {
+      const hex = /^#?([0-9a-f]{6})([0-9a-f]{2})?$/i.exec(c.trim());
+      if (!hex) return null;
+      const stop = hexToStop("#" + hex[1] + (hex[2] ?? ""));
+      return { rgb: stop.rgb, alpha: stop.a, name };
+    }
+    if (c.color) return read(c.color, c.name ?? name);
+    if (typeof c.red !== "number") return null;
+    return {
+      rgb: { r: to255(c.red), g: to255(c.green ?? 0), b: to255(c.blue ?? 0) },
+      alpha: c.alpha !== undefined ? Math.round(c.alpha * 100) : undefined,
+      name: c.name ?? name,
+    };
+  };
+
+  for (const c of colors) {
+    const swatch = c ? read(c) : null;
+    if (swatch) swatches.push({ ...swatch, name: cleanName(swatch.name) });
+    else skipped++;
+  }
+  return { swatches, skipped };
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+/** Sniff the format from magic bytes, falling back to the file extension */
+export function detectSwatchFormat(
+  bytes: Uint8Array,
+  filename = "",
+): SwatchFileFormat | null {
+  if (ascii(bytes, 0, 4) === "ASEF") return "ase";
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return "procreate"; // "PK" zip
+  const head = new TextDecoder().decode(bytes.subarray(0, 64)).trimStart();
+  if (head.startsWith("GIMP Palette")) return "gpl";
+  if (head.startsWith("[")) return "procreate"; // bare Swatches.json
+  if (head.startsWith("{")) return "sketch";
+  const ext = filename.toLowerCase().match(/\.[a-z]+$/)?.[0];
+  const byExt = (Object.keys(SWATCH_FILE_FORMATS) as SwatchFileFormat[]).find(
+    (f) => SWATCH_FILE_FORMATS[f].extension === ext,
+  );
+  if (byExt) return byExt;
+  // ACO has no magic — just a 1 or 2 version word
+  return bytes[0] === 0 && (bytes[1] === 1 || bytes[1] === 2) ? "aco" : null;
+}
+
+/** Parse swatch file bytes into palette slots. Throws on unreadable input. */
+export async function parseSwatchFile(
+  bytes: Uint8Array,
+  filename = "",
+): Promise<ImportedSwatches> {
+  const format = detectSwatchFormat(bytes, filename);
+  if (!format) throw new Error("Unrecognised swatch file format");
+
+  const text = () => new TextDecoder().decode(bytes);
+  let parsed: Parsed;
+  switch (format) {
+    case "ase":
+      parsed = parseAse(bytes);
+      break;
+    case "aco":
+      parsed = parseAco(bytes);
+      break;
+    case "gpl":
+      parsed = parseGpl(text());
+      break;
+    case "procreate":
+      parsed =
+        bytes[0] === 0x50
+          ? await parseProcreate(bytes)
+          : parseProcreateJson(JSON.parse(text()));
+      break;
+    case "sketch":
+      parsed = parseSketch(JSON.parse(text()));
+      break;
+  }
+  if (!parsed.swatches.length)
+    throw new Error("No usable colors found in the file");
+
+  return {
+    format,
+    name: parsed.name,
+    skipped: parsed.skipped,
+    slots: parsed.swatches.map((s) => ({
+      id: crypto.randomUUID(),
+      color: hexToStop(rgbToHex(s.rgb), s.alpha),
+      locked: false,
+      name: s.name,
+    })),
+  };
+}
+
+export async function importSwatchFile(file: File): Promise<ImportedSwatches> {
+  return parseSwatchFile(new Uint8Array(await file.arrayBuffer()), file.name);
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+/** Procreate palettes hold at most 30 swatches */
+const PROCREATE_MAX_SWATCHES = 30;
+
+/** Swatch name — the slot name when set, otherwise the nearest named color */
+function swatchName(slot: PaletteSlot): string {
+  return slot.name || nearestName(slot.color.rgb);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let off = 0;
+  for (const c of chunks) {
+    out.set(c, off);
+    off += c.length;
+  }
+  return out;
+}
+
+/** Big-endian (or little-endian) fixed-width fields packed into bytes */
+function pack(
+  fields: ["u16" | "u32" | "f32", number][],
+  littleEndian = false,
+): Uint8Array {
+  const size = fields.reduce((n, [t]) => n + (t === "u16" ? 2 : 4), 0);
+  const view = new DataView(new ArrayBuffer(size));
+  let off = 0;
+  for (const [type, value] of fields) {
+    if (type === "u16") view.setUint16(off, value, littleEndian);
+    else if (type === "u32") view.setUint32(off, value, littleEndian);
+    else view.setFloat32(off, value, littleEndian);
+    off += type === "u16" ? 2 : 4;
+  }
+  return new Uint8Array(view.buffer);
+}
+
+/** NUL-terminated UTF-16BE — the string encoding of ASE and ACO */
+function utf16beZ(text: string): Uint8Array {
+  const units = text + "\0";
+  const view = new DataView(new ArrayBuffer(units.length * 2));
+  for (let i = 0; i < units.length; i++)
+    view.setUint16(i * 2, units.charCodeAt(i));
+  return new Uint8Array(view.buffer);
+}
+
+function buildAse(slots: PaletteSlot[], title: string): Uint8Array {
+  const block = (type: number, body: Uint8Array) =>
+    concatBytes([
+      pack([
+        ["u16", type],
+        ["u32", body.length],
+      ]),
+      body,
+    ]);
+  const named = (name: string) => {
+    const utf16 = utf16beZ(name);
+    return concatBytes([pack([["u16", utf16.length / 2]]), utf16]);
+  };
+
+  const colors = slots.map((slot) => {
+    const { r, g, b } = slot.color.rgb;
+    return block(
+      0x0001,
+      concatBytes([
+        named(swatchName(slot)),
+        new TextEncoder().encode("RGB "),
+        pack([
+          ["f32", r / 255],
+          ["f32", g / 255],
+          ["f32", b / 255],
+          ["u16", 2], // normal (not global / spot)
+        ]),
+      ]),
+    );
+  });
+  const blocks = [
+    block(0xc001, named(title)),
+    ...colors,
+    block(0xc002, new Uint8Array()),
+  ];
+  return concatBytes([
+    new TextEncoder().encode("ASEF"),
+    pack([
+      ["u16", 1],
+      ["u16", 0],
+      ["u32", blocks.length],
+    ]),
+    ...blocks,
+  ]);
+}
+
+/** v1 section for old readers, then the same colors again with names (v2) */
+function buildAco(slots: PaletteSlot[]): Uint8Array {
+  const color = (slot: PaletteSlot) => {
+    const { r, g, b } = slot.color.rgb;
+    return pack([
+      ["u16", 0], // RGB
+      ["u16", r * 257],
+      ["u16", g * 257],
+      ["u16", b * 257],
+      ["u16", 0],
+    ]);
+  };
+  const v1 = [
+    pack([
+      ["u16", 1],
+      ["u16", slots.length],
+    ]),
+    ...slots.map(color),
+  ];
+  const v2 = [
+    pack([
+      ["u16", 2],
+      ["u16", slots.length],
+    ]),
+    ...slots.flatMap((slot) => {
+      const name = utf16beZ(swatchName(slot));
+      return [color(slot), pack([["u32", name.length / 2]]), name];
+    }),
+  ];
+  return concatBytes([...v1, ...v2]);
+}
+
+function buildGpl(slots: PaletteSlot[], title: string): string {
+  const lines = slots.map((slot) => {
+    const { r, g, b } = slot.color.rgb;
+    const rgb = [r, g, b].map((v) => String(v).padStart(3)).join(" ");
+    return `${rgb}\t${swatchName(slot)}`;
+  });
+  return [
+    "GIMP Palette",
+    `Name: ${title}`,
+    `Columns: ${Math.min(slots.length, 8)}`,
+    "#",
+    ...lines,
+    "",
+  ].join("\n");
+}
+
+function buildSketch(slots: PaletteSlot[]): string {
+  return JSON.stringify(
+    {
+      compatibleVersion: "2.0",
+      pluginVersion: "2.22",
+      colors: slots.map((slot) => ({
+        name: swatchName(slot),
+        red: slot.color.rgb.r / 255,
+        green: slot.color.rgb.g / 255,
+        blue: slot.color.rgb.b / 255,
+        alpha: (slot.color.a ?? 100) / 100,
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/** Minimal ZIP writer — stored (uncompressed) entries only */
+function zipStored(files: { name: string; data: Uint8Array }[]): Uint8Array {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const { name, data } of files) {
+    const nameBytes = new TextEncoder().encode(name);
+    const crc = crc32(data);
+    const common: ["u16" | "u32", number][] = [
+      ["u16", 20], // version needed
+      ["u16", 0], // flags
+      ["u16", 0], // method: stored
+      ["u16", 0], // mod time
+      ["u16", 0x21], // mod date (1980-01-01)
+      ["u32", crc],
+      ["u32", data.length],
+      ["u32", data.length],
+      ["u16", nameBytes.length],
+      ["u16", 0], // extra length
+    ];
+    const header = concatBytes([
+      pack([["u32", 0x04034b50], ...common], true),
+      nameBytes,
+    ]);
+    central.push(
+      concatBytes([
+        pack(
+          [
+            ["u32", 0x02014b50],
+            ["u16", 20], // version made by
+            ...common,
+            ["u16", 0], // comment length
+            ["u16", 0], // disk number
+            ["u16", 0], // internal attributes
+            ["u32", 0], // external attributes
+            ["u32", offset],
+          ],
+          true,
+        ),
+        nameBytes,
+      ]),
+    );
+    local.push(header, data);
+    offset += header.length + data.length;
+  }
+  const directory = concatBytes(central);
+  const end = pack(
+    [
+      ["u32", 0x06054b50],
+      ["u16", 0],
+      ["u16", 0],
+      ["u16", files.length],
+      ["u16", files.length],
+      ["u32", directory.length],
+      ["u32", offset],
+      ["u16", 0],
+    ],
+    true,
+  );
+  return concatBytes([...local, directory, end]);
+}
+
+/** Procreate stores HSB 0–1 and has no per-swatch names — the title names the palette */
+function buildProcreate(slots: PaletteSlot[], title: string): Uint8Array {
+  const swatches = slots.slice(0, PROCREATE_MAX_SWATCHES).map((slot) => {
+    const { h, s, v } = rgbToHsv(slot.color.rgb);
+    return {
+      hue: h / 360,
+      saturation: s / 100,
+      brightness: v / 100,
+      alpha: (slot.color.a ?? 100) / 100,
+      colorSpace: 0,
+    };
+  });
+  const json = JSON.stringify([{ name: title, swatches }]);
+  return zipStored([
+    { name: "Swatches.json", data: new TextEncoder().encode(json) },
+  ]);
+}
+
+/** Serialise slots into a swatch file; text formats come back as UTF-8 bytes */
+export function buildSwatchFile(
+  format: SwatchFileFormat,
+  slots: PaletteSlot[],
+  title = "Palette",
+): { filename: string; mimeType: string; data: Uint8Array } {
+  const { extension, mimeType } = SWATCH_FILE_FORMATS[format];
+  const utf8 = (text: string) => new TextEncoder().encode(text);
+  const data =
+    format === "ase"
+      ? buildAse(slots, title)
+      : format === "aco"
+        ? buildAco(slots)
+        : format === "gpl"
+          ? utf8(buildGpl(slots, title))
+          : format === "procreate"
+            ? buildProcreate(slots, title)
+            : utf8(buildSketch(slots));
+  const base =
+    title
+      .trim()
+      .replace(/[^\w-]+/g, "-")
+      .toLowerCase() || "palette";
+  return { filename: base + extension, mimeType, data };
+}
+
+export function downloadSwatchFile(
+  format: SwatchFileFormat,
+  slots: PaletteSlot[],
+  title?: string,
+): void {
+  const { filename, mimeType, data } = buildSwatchFile(format, slots, title);
+  const blob = new Blob([data.slice()], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,246 @@
+// analysis.pool.ts
+// A small pool of analysis workers plus the async entry points the views
+// call. Workers are spawned on demand, up to one fewer than the core count;
+// without Worker support (SSR, the CLI, tests) tasks run inline instead.
+
+import type {
+  ColorNameDictionary,
+  ColorTransfer,
+  ContrastAudit,
+  DeltaEMetric,
+  ExtractedColor,
+  PixelBuffer,
+  PixelCluster,
+  RGB,
+} from "@/types";
+import type { ContrastAuditInput } from "@/lib/utils/contrast-audit.utils";
+import type { ExtractOptions } from "@/lib/utils/quantize.utils";
+import {
+  type AnalysisPayload,
+  type AnalysisResult,
+  type AnalysisTask,
+  MAX_DECODE_PIXELS,
+  MAX_EXTRACT_PIXELS,
+  type TaskImage,
+  bitmapPixels,
+  runAnalysisTask,
+} from "./analysis.tasks";
+
+// ─── Protocol ─────────────────────────────────────────────────────────────────
+
+export interface NameConfig {
+  active: string[];
+  custom: ColorNameDictionary[];
+}
+
+export type WorkerRequest =
+  | {
+      type: "run";
+      id: number;
+      task: AnalysisTask;
+      payload: AnalysisPayload<AnalysisTask>;
+    }
+  | { type: "names"; config: NameConfig };
+
+export type WorkerResponse =
+  | { id: number; result: AnalysisResult<AnalysisTask> }
+  | { id: number; error: string };
+
+// ─── Pool ─────────────────────────────────────────────────────────────────────
+
+const MAX_WORKERS = 4;
+
+interface PoolJob {
+  task: AnalysisTask;
+  payload: AnalysisPayload<AnalysisTask>;
+  resolve: (v: unknown) => void;
+  reject: (e: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  jobs: Map<number, PoolJob>;
+  /**
+   * Set by the worker's first reply. Until then payloads are copied rather
+   * than transferred, so they can still run inline if the worker never loads.
+   */
+  loaded: boolean;
+}
+
+const workers: PoolWorker[] = [];
+let nextId = 0;
+let nameConfig: NameConfig | null = null;
+/** Set once a worker fails to load — everything after that runs inline */
+let disabled = false;
+
+/** Run a job on this thread, settling it the way a worker reply would */
+function runInline({ task, payload, resolve, reject }: PoolJob): void {
+  try {
+    resolve(runAnalysisTask(task, payload));
+  } catch (err) {
+    reject(err instanceof Error ? err : new Error(String(err)));
+  }
+}
+
+const poolSize = () =>
+  Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+function spawn(): PoolWorker {
+  const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const entry: PoolWorker = { worker, jobs: new Map(), loaded: false };
+  worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+    entry.loaded = true;
+    const job = entry.jobs.get(data.id);
+    if (!job) return;
+    entry.jobs.delete(data.id);
+    if ("error" in data) job.reject(new Error(data.error));
+    else job.resolve(data.result);
+  };
+  // Task errors come back as messages, so this is a worker that failed to
+  // load (CSP, bundler, old browser) — its pending jobs rerun here instead
+  worker.onerror = (e) => {
+    e.preventDefault();
+    disabled = true;
+    worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+    const pending = [...entry.jobs.values()];
+    entry.jobs.clear();
+    pending.forEach(runInline);
+  };
+  if (nameConfig) worker.postMessage({ type: "names", config: nameConfig });
+  workers.push(entry);
+  return entry;
+}
+
+/** An idle worker, a new one while under the pool size, else the least busy */
+function pickWorker(): PoolWorker {
+  const idle = workers.find((w) => !w.jobs.size);
+  if (idle) return idle;
+  if (workers.length < poolSize()) return spawn();
+  return workers.reduce((a, b) => (b.jobs.size < a.jobs.size ? b : a));
+}
+
+/**
+ * Run an analysis task on the pool. `transfer` hands buffers or bitmaps to
+ * the worker without copying — they're unusable on this side afterwards.
+ */
+export function runInWorker<T extends AnalysisTask>(
+  task: T,
+  payload: AnalysisPayload<T>,
+  transfer: Transferable[] = [],
+): Promise<AnalysisResult<T>> {
+  if (disabled || typeof Worker === "undefined")
+    return new Promise((resolve) => resolve(runAnalysisTask(task, payload)));
+  return new Promise((resolve, reject) => {
+    const entry = pickWorker();
+    const id = nextId++;
+    entry.jobs.set(id, {
+      task,
+      payload,
+      resolve: resolve as (v: unknown) => void,
+      reject,
+    });
+    entry.worker.postMessage(
+      { type: "run", id, task, payload } satisfies WorkerRequest,
+      entry.loaded ? transfer : [],
+    );
+  });
+}
+
+/** Mirror the store's name-dictionary selection into every worker */
+export function configureWorkerColorNames(config: NameConfig): void {
+  nameConfig = config;
+  for (const { worker } of workers)
+    worker.postMessage({ type: "names", config } satisfies WorkerRequest);
+}
+
+// ─── Entry points ─────────────────────────────────────────────────────────────
+
+/**
+ * Decode an image for a worker. The bitmap itself is transferred when the
+ * worker can draw it on an OffscreenCanvas; otherwise its pixels are read
+ * here and only the buffer is transferred.
+ */
+async function loadImage(
+  file: Blob,
+  maxPixels = MAX_DECODE_PIXELS,
+): Promise<{ image: TaskImage; transfer: Transferable[] }> {
+  const bitmap = await createImageBitmap(file);
+  if (typeof OffscreenCanvas !== "undefined")
+    return { image: bitmap, transfer: [bitmap] };
+  const pixels = bitmapPixels(bitmap, maxPixels);
+  return { image: pixels, transfer: [pixels.data.buffer] };
+}
+
+/**
+ * Dominant colors of an image file with their coverage, sampled at up to
+ * MAX_EXTRACT_PIXELS. Decoding, drawing and quantizing all happen in a worker.
+ */
+export async function extractColors(
+  file: Blob,
+  options: ExtractOptions = {},
+): Promise<ExtractedColor[]> {
+  const { image, transfer } = await loadImage(file, MAX_EXTRACT_PIXELS);
+  return runInWorker("extract", { image, options }, transfer);
+}
+
+/** Pixels of an image file, scaled down past `maxPixels` — for previews */
+export async function decodeImage(
+  file: Blob,
+  maxPixels = MAX_DECODE_PIXELS,
+): Promise<PixelBuffer> {
+  const { image, transfer } = await loadImage(file, maxPixels);
+  if ("data" in image) return image;
+  return runInWorker("decode", { image, maxPixels }, transfer);
+}
+
+/** Median-cut clusters of decoded pixels — the buffer is copied, not moved */
+export function imageClustersAsync(
+  pixels: PixelBuffer,
+  count = 8,
+): Promise<PixelCluster[]> {
+  return runInWorker("clusters", { image: pixels, count });
+}
+
+/**
+ * Palette transfer on an image. Pass decoded pixels for a preview (they're
+ * copied, so the source stays usable) or the file itself for a
+ * full-resolution render.
+ */
+export async function recolorImageAsync(
+  source: PixelBuffer | Blob,
+  transfers: ColorTransfer[],
+  strength = 1,
+): Promise<PixelBuffer> {
+  if (source instanceof Blob) {
+    const { image, transfer } = await loadImage(source);
+    return runInWorker("recolor", { image, transfers, strength }, transfer);
+  }
+  return runInWorker("recolor", { image: source, transfers, strength });
+}
+
+/** nearestName() for many colors at once, against the active dictionaries */
+export function nearestNamesAsync(
+  colors: RGB[],
+  metric?: DeltaEMetric,
+): Promise<string[]> {
+  return runInWorker("names", { colors, metric });
+}
+
+export function scorePaletteAsync(
+  slots: { color: { hex: string } }[],
+  metric: DeltaEMetric = "ok",
+): Promise<AnalysisResult<"score">> {
+  return runInWorker("score", {
+    hexes: slots.map((s) => s.color.hex),
+    metric,
+  });
+}
+
+export function runContrastAuditAsync(
+  input: ContrastAuditInput,
+): Promise<ContrastAudit> {
+  return runInWorker("audit", input);
+}
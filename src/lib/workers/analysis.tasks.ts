@@ -0,0 +1,124 @@
+// analysis.tasks.ts
+// The work the analysis pool can run off the main thread. Each task takes one
+// structured-cloneable payload and returns a cloneable result; the worker and
+// the inline fallback both dispatch through this table.
+
+import type {
+  ColorTransfer,
+  ContrastAudit,
+  DeltaEMetric,
+  PixelBuffer,
+  RGB,
+} from "@/types";
+import {
+  type ExtractOptions,
+  pixelClusters,
+  quantizePixels,
+} from "@/lib/utils/quantize.utils";
+import { recolorPixels } from "@/lib/utils/recolor.utils";
+import { nearestName } from "@/lib/utils/color-names.utils";
+import { scorePalette } from "@/lib/utils/color-math-scale.utils";
+import {
+  type ContrastAuditInput,
+  runContrastAudit,
+} from "@/lib/utils/contrast-audit.utils";
+
+/**
+ * Color extraction samples at most this many pixels — the original 200px
+ * downscale, which coverage shares don't need more than
+ */
+export const MAX_EXTRACT_PIXELS = 200 * 200;
+
+/** Decodes and full-size renders are scaled down past this — 64 MB of RGBA */
+export const MAX_DECODE_PIXELS = 16_000_000;
+
+/** A decoded image transferred to the worker, or its pixels when OffscreenCanvas is missing */
+export type TaskImage = ImageBitmap | PixelBuffer;
+
+export interface ExtractTaskPayload {
+  image: TaskImage;
+  options: ExtractOptions;
+}
+
+export interface RecolorTaskPayload {
+  image: TaskImage;
+  transfers: ColorTransfer[];
+  strength: number;
+}
+
+type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+function canvasContext(w: number, h: number): Canvas2D {
+  if (typeof OffscreenCanvas !== "undefined")
+    return new OffscreenCanvas(w, h).getContext("2d", {
+      willReadFrequently: true,
+    })!;
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  return c.getContext("2d", { willReadFrequently: true })!;
+}
+
+/** Pixels of a bitmap at full resolution, scaled down past `maxPixels` */
+export function bitmapPixels(
+  bitmap: ImageBitmap,
+  maxPixels = MAX_DECODE_PIXELS,
+): PixelBuffer {
+  const scale = Math.min(
+    1,
+    Math.sqrt(maxPixels / (bitmap.width * bitmap.height)),
+  );
+  const w = Math.max(1, Math.round(bitmap.width * scale));
+  const h = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvasContext(w, h);
+  ctx.drawImage(bitmap, 0, 0, w, h);
+  bitmap.close();
+  return { data: ctx.getImageData(0, 0, w, h).data, width: w, height: h };
+}
+
+const pixelsOf = (image: TaskImage, maxPixels?: number) =>
+  "data" in image ? image : bitmapPixels(image, maxPixels);
+
+export const ANALYSIS_TASKS = {
+  extract: ({ image, options }: ExtractTaskPayload) =>
+    quantizePixels(pixelsOf(image, MAX_EXTRACT_PIXELS), options),
+  decode: ({ image, maxPixels }: { image: ImageBitmap; maxPixels?: number }) =>
+    bitmapPixels(image, maxPixels),
+  clusters: ({ image, count }: { image: PixelBuffer; count: number }) =>
+    pixelClusters(image, count),
+  recolor: ({
+    image,
+    transfers,
+    strength,
+  }: RecolorTaskPayload): PixelBuffer => {
+    const pixels = pixelsOf(image);
+    recolorPixels(pixels.data, transfers, strength);
+    return pixels;
+  },
+  names: ({ colors, metric }: { colors: RGB[]; metric?: DeltaEMetric }) =>
+    colors.map((rgb) => nearestName(rgb, metric)),
+  score: ({ hexes, metric }: { hexes: string[]; metric: DeltaEMetric }) =>
+    scorePalette(
+      hexes.map((hex) => ({ color: { hex } })),
+      metric,
+    ),
+  audit: (input: ContrastAuditInput): ContrastAudit => runContrastAudit(input),
+};
+
+export type AnalysisTask = keyof typeof ANALYSIS_TASKS;
+export type AnalysisPayload<T extends AnalysisTask> = Parameters<
+  (typeof ANALYSIS_TASKS)[T]
+>[0];
+export type AnalysisResult<T extends AnalysisTask> = ReturnType<
+  (typeof ANALYSIS_TASKS)[T]
+>;
+
+export function runAnalysisTask<T extends AnalysisTask>(
+  task: T,
+  payload: AnalysisPayload<T>,
+): AnalysisResult<T> {
+  const run = ANALYSIS_TASKS[task] as (
+    p: AnalysisPayload<T>,
+  ) => AnalysisResult<T>;
+  return run(payload);
+}
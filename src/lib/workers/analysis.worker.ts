@@ -0,0 +1,39 @@
+// analysis.worker.ts
+// Worker entry for the analysis pool. Runs one task per message and posts the
+// result back under the same id; dictionary config arrives as its own message
+// so naming in the worker matches the main thread.
+
+import { configureColorNames } from "@/lib/utils/color-names.utils";
+import { runAnalysisTask } from "./analysis.tasks";
+import type { WorkerRequest, WorkerResponse } from "./analysis.pool";
+
+// The project compiles against the DOM lib, so type just what the worker uses
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+};
+
+/** Pixel results go back without a copy */
+const transferables = (result: unknown): Transferable[] =>
+  result &&
+  typeof result === "object" &&
+  "data" in result &&
+  result.data instanceof Uint8ClampedArray
+    ? [result.data.buffer]
+    : [];
+
+scope.onmessage = ({ data }) => {
+  if (data.type === "names") {
+    configureColorNames(data.config);
+    return;
+  }
+  try {
+    const result = runAnalysisTask(data.task, data.payload);
+    scope.postMessage({ id: data.id, result }, transferables(result));
+  } catch (err) {
+    scope.postMessage({
+      id: data.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
@@ -0,0 +1,8 @@
+export * from "./analysis.pool";
+export {
+  MAX_DECODE_PIXELS,
+  MAX_EXTRACT_PIXELS,
+  type AnalysisTask,
+  type AnalysisPayload,
+  type AnalysisResult,
+} from "./analysis.tasks";
@@ -25,6 +25,7 @@ import { Route as ChromaP3RouteImport } from './routes/_chroma/p3'
 import { Route as ChromaOklchScatterRouteImport } from './routes/_chroma/oklch-scatter'
 import { Route as ChromaMultiscaleRouteImport } from './routes/_chroma/multiscale'
 import { Route as ChromaMixerRouteImport } from './routes/_chroma/mixer'
+import { Route as ChromaHistoryRouteImport } from './routes/_chroma/history'
 import { Route as ChromaGradientRouteImport } from './routes/_chroma/gradient'
 import { Route as ChromaExtractRouteImport } from './routes/_chroma/extract'
 import { Route as ChromaExportRouteImport } from './routes/_chroma/export'
@@ -40,6 +41,10 @@ import { Route as ChromaAccessibilityRouteImport } from './routes/_chroma/access
 import { Route as ChromaExportIndexRouteImport } from './routes/_chroma/export/index'
 import { Route as ChromaBuildIndexRouteImport } from './routes/_chroma/build/index'
 import { Route as ChromaAnalyzeIndexRouteImport } from './routes/_chroma/analyze/index'
+import { Route as ApiPaletteScoreRouteImport } from './routes/api/palette.score'
+import { Route as ApiPaletteGenerateRouteImport } from './routes/api/palette.generate'
+import { Route as ApiPaletteExportRouteImport } from './routes/api/palette.export'
+import { Route as ApiPaletteExtractRouteImport } from './routes/api/palette.extract'
 import { Route as ApiHelloNameRouteImport } from './routes/api/hello.$name'
 import { Route as ChromaExportUtilityRouteImport } from './routes/_chroma/export/utility'
 import { Route as ChromaExportThemeRouteImport } from './routes/_chroma/export/theme'
@@ -132,6 +137,11 @@ const ChromaMixerRoute = ChromaMixerRouteImport.update({
   path: '/mixer',
   getParentRoute: () => ChromaRoute,
 } as any)
+const ChromaHistoryRoute = ChromaHistoryRouteImport.update({
+  id: '/history',
+  path: '/history',
+  getParentRoute: () => ChromaRoute,
+} as any)
 const ChromaGradientRoute = ChromaGradientRouteImport.update({
   id: '/gradient',
   path: '/gradient',
@@ -207,6 +217,26 @@ const ChromaAnalyzeIndexRoute = ChromaAnalyzeIndexRouteImport.update({
   path: '/',
   getParentRoute: () => ChromaAnalyzeRoute,
 } as any)
+const ApiPaletteScoreRoute = ApiPaletteScoreRouteImport.update({
+  id: '/score',
+  path: '/score',
+  getParentRoute: () => ApiPaletteRoute,
+} as any)
+const ApiPaletteGenerateRoute = ApiPaletteGenerateRouteImport.update({
+  id: '/generate',
+  path: '/generate',
+  getParentRoute: () => ApiPaletteRoute,
+} as any)
+const ApiPaletteExportRoute = ApiPaletteExportRouteImport.update({
+  id: '/export',
+  path: '/export',
+  getParentRoute: () => ApiPaletteRoute,
+} as any)
+const ApiPaletteExtractRoute = ApiPaletteExtractRouteImport.update({
+  id: '/extract',
+  path: '/extract',
+  getParentRoute: () => ApiPaletteRoute,
+} as any)
 const ApiHelloNameRoute = ApiHelloNameRouteImport.update({
   id: '/$name',
   path: '/$name',
@@ -284,6 +314,7 @@ export interface FileRoutesByFullPath {
   '/export': typeof ChromaExportRouteWithChildren
   '/extract': typeof ChromaExtractRoute
   '/gradient': typeof ChromaGradientRoute
+  '/history': typeof ChromaHistoryRoute
   '/mixer': typeof ChromaMixerRoute
   '/multiscale': typeof ChromaMultiscaleRoute
   '/oklch-scatter': typeof ChromaOklchScatterRoute
@@ -297,7 +328,7 @@ export interface FileRoutesByFullPath {
   '/theme': typeof ChromaThemeRoute
   '/utility': typeof ChromaUtilityRoute
   '/api/hello': typeof ApiHelloRouteWithChildren
-  '/api/palette': typeof ApiPaletteRoute
+  '/api/palette': typeof ApiPaletteRouteWithChildren
   '/analyze/accessibility': typeof ChromaAnalyzeAccessibilityRoute
   '/analyze/brand': typeof ChromaAnalyzeBrandRoute
   '/analyze/scoring': typeof ChromaAnalyzeScoringRoute
@@ -310,6 +341,10 @@ export interface FileRoutesByFullPath {
   '/export/theme': typeof ChromaExportThemeRoute
   '/export/utility': typeof ChromaExportUtilityRoute
   '/api/hello/$name': typeof ApiHelloNameRoute
+  '/api/palette/export': typeof ApiPaletteExportRoute
+  '/api/palette/extract': typeof ApiPaletteExtractRoute
+  '/api/palette/generate': typeof ApiPaletteGenerateRoute
+  '/api/palette/score': typeof ApiPaletteScoreRoute
   '/analyze/': typeof ChromaAnalyzeIndexRoute
   '/build/': typeof ChromaBuildIndexRoute
   '/export/': typeof ChromaExportIndexRoute
@@ -325,6 +360,7 @@ export interface FileRoutesByTo {
   '/designsystem': typeof ChromaDesignsystemRoute
   '/extract': typeof ChromaExtractRoute
   '/gradient': typeof ChromaGradientRoute
+  '/history': typeof ChromaHistoryRoute
   '/mixer': typeof ChromaMixerRoute
   '/multiscale': typeof ChromaMultiscaleRoute
   '/oklch-scatter': typeof ChromaOklchScatterRoute
@@ -338,7 +374,7 @@ export interface FileRoutesByTo {
   '/theme': typeof ChromaThemeRoute
   '/utility': typeof ChromaUtilityRoute
   '/api/hello': typeof ApiHelloRouteWithChildren
-  '/api/palette': typeof ApiPaletteRoute
+  '/api/palette': typeof ApiPaletteRouteWithChildren
   '/analyze/accessibility': typeof ChromaAnalyzeAccessibilityRoute
   '/analyze/brand': typeof ChromaAnalyzeBrandRoute
   '/analyze/scoring': typeof ChromaAnalyzeScoringRoute
@@ -351,6 +387,10 @@ export interface FileRoutesByTo {
   '/export/theme': typeof ChromaExportThemeRoute
   '/export/utility': typeof ChromaExportUtilityRoute
   '/api/hello/$name': typeof ApiHelloNameRoute
+  '/api/palette/export': typeof ApiPaletteExportRoute
+  '/api/palette/extract': typeof ApiPaletteExtractRoute
+  '/api/palette/generate': typeof ApiPaletteGenerateRoute
+  '/api/palette/score': typeof ApiPaletteScoreRoute
   '/analyze': typeof ChromaAnalyzeIndexRoute
   '/build': typeof ChromaBuildIndexRoute
   '/export': typeof ChromaExportIndexRoute
@@ -371,6 +411,7 @@ export interface FileRoutesById {
   '/_chroma/export': typeof ChromaExportRouteWithChildren
   '/_chroma/extract': typeof ChromaExtractRoute
   '/_chroma/gradient': typeof ChromaGradientRoute
+  '/_chroma/history': typeof ChromaHistoryRoute
   '/_chroma/mixer': typeof ChromaMixerRoute
   '/_chroma/multiscale': typeof ChromaMultiscaleRoute
   '/_chroma/oklch-scatter': typeof ChromaOklchScatterRoute
@@ -384,7 +425,7 @@ export interface FileRoutesById {
   '/_chroma/theme': typeof ChromaThemeRoute
   '/_chroma/utility': typeof ChromaUtilityRoute
   '/api/hello': typeof ApiHelloRouteWithChildren
-  '/api/palette': typeof ApiPaletteRoute
+  '/api/palette': typeof ApiPaletteRouteWithChildren
   '/_chroma/analyze/accessibility': typeof ChromaAnalyzeAccessibilityRoute
   '/_chroma/analyze/brand': typeof ChromaAnalyzeBrandRoute
   '/_chroma/analyze/scoring': typeof ChromaAnalyzeScoringRoute
@@ -397,6 +438,10 @@ export interface FileRoutesById {
   '/_chroma/export/theme': typeof ChromaExportThemeRoute
   '/_chroma/export/utility': typeof ChromaExportUtilityRoute
   '/api/hello/$name': typeof ApiHelloNameRoute
+  '/api/palette/export': typeof ApiPaletteExportRoute
+  '/api/palette/extract': typeof ApiPaletteExtractRoute
+  '/api/palette/generate': typeof ApiPaletteGenerateRoute
+  '/api/palette/score': typeof ApiPaletteScoreRoute
   '/_chroma/analyze/': typeof ChromaAnalyzeIndexRoute
   '/_chroma/build/': typeof ChromaBuildIndexRoute
   '/_chroma/export/': typeof ChromaExportIndexRoute
@@ -417,6 +462,7 @@ export interface FileRouteTypes {
     | '/export'
     | '/extract'
     | '/gradient'
+    | '/history'
     | '/mixer'
     | '/multiscale'
     | '/oklch-scatter'
@@ -443,6 +489,10 @@ export interface FileRouteTypes {
     | '/export/theme'
     | '/export/utility'
     | '/api/hello/$name'
+    | '/api/palette/export'
+    | '/api/palette/extract'
+    | '/api/palette/generate'
+    | '/api/palette/score'
     | '/analyze/'
     | '/build/'
     | '/export/'
@@ -458,6 +508,7 @@ export interface FileRouteTypes {
     | '/designsystem'
     | '/extract'
     | '/gradient'
+    | '/history'
     | '/mixer'
     | '/multiscale'
     | '/oklch-scatter'
@@ -484,6 +535,10 @@ export interface FileRouteTypes {
     | '/export/theme'
     | '/export/utility'
     | '/api/hello/$name'
+    | '/api/palette/export'
+    | '/api/palette/extract'
+    | '/api/palette/generate'
+    | '/api/palette/score'
     | '/analyze'
     | '/build'
     | '/export'
@@ -503,6 +558,7 @@ export interface FileRouteTypes {
     | '/_chroma/export'
     | '/_chroma/extract'
     | '/_chroma/gradient'
+    | '/_chroma/history'
     | '/_chroma/mixer'
     | '/_chroma/multiscale'
     | '/_chroma/oklch-scatter'
@@ -529,6 +585,10 @@ export interface FileRouteTypes {
     | '/_chroma/export/theme'
     | '/_chroma/export/utility'
     | '/api/hello/$name'
+    | '/api/palette/export'
+    | '/api/palette/extract'
+    | '/api/palette/generate'
+    | '/api/palette/score'
     | '/_chroma/analyze/'
     | '/_chroma/build/'
     | '/_chroma/export/'
@@ -538,7 +598,7 @@ export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   ChromaRoute: typeof ChromaRouteWithChildren
   ApiHelloRoute: typeof ApiHelloRouteWithChildren
-  ApiPaletteRoute: typeof ApiPaletteRoute
+  ApiPaletteRoute: typeof ApiPaletteRouteWithChildren
 }
 
 declare module '@tanstack/react-router' {
@@ -655,6 +715,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ChromaMixerRouteImport
       parentRoute: typeof ChromaRoute
     }
+    '/_chroma/history': {
+      id: '/_chroma/history'
+      path: '/history'
+      fullPath: '/history'
+      preLoaderRoute: typeof ChromaHistoryRouteImport
+      parentRoute: typeof ChromaRoute
+    }
     '/_chroma/gradient': {
       id: '/_chroma/gradient'
       path: '/gradient'
@@ -760,6 +827,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ChromaAnalyzeIndexRouteImport
       parentRoute: typeof ChromaAnalyzeRoute
     }
+    '/api/palette/score': {
+      id: '/api/palette/score'
+      path: '/score'
+      fullPath: '/api/palette/score'
+      preLoaderRoute: typeof ApiPaletteScoreRouteImport
+      parentRoute: typeof ApiPaletteRoute
+    }
+    '/api/palette/generate': {
+      id: '/api/palette/generate'
+      path: '/generate'
+      fullPath: '/api/palette/generate'
+      preLoaderRoute: typeof ApiPaletteGenerateRouteImport
+      parentRoute: typeof ApiPaletteRoute
+    }
+    '/api/palette/export': {
+      id: '/api/palette/export'
+      path: '/export'
+      fullPath: '/api/palette/export'
+      preLoaderRoute: typeof ApiPaletteExportRouteImport
+      parentRoute: typeof ApiPaletteRoute
+    }
+    '/api/palette/extract': {
+      id: '/api/palette/extract'
+      path: '/extract'
+      fullPath: '/api/palette/extract'
+      preLoaderRoute: typeof ApiPaletteExtractRouteImport
+      parentRoute: typeof ApiPaletteRoute
+    }
     '/api/hello/$name': {
       id: '/api/hello/$name'
       path: '/$name'
@@ -918,6 +1013,7 @@ interface ChromaRouteChildren {
   ChromaExportRoute: typeof ChromaExportRouteWithChildren
   ChromaExtractRoute: typeof ChromaExtractRoute
   ChromaGradientRoute: typeof ChromaGradientRoute
+  ChromaHistoryRoute: typeof ChromaHistoryRoute
   ChromaMixerRoute: typeof ChromaMixerRoute
   ChromaMultiscaleRoute: typeof ChromaMultiscaleRoute
   ChromaOklchScatterRoute: typeof ChromaOklchScatterRoute
@@ -945,6 +1041,7 @@ const ChromaRouteChildren: ChromaRouteChildren = {
   ChromaExportRoute: ChromaExportRouteWithChildren,
   ChromaExtractRoute: ChromaExtractRoute,
   ChromaGradientRoute: ChromaGradientRoute,
+  ChromaHistoryRoute: ChromaHistoryRoute,
   ChromaMixerRoute: ChromaMixerRoute,
   ChromaMultiscaleRoute: ChromaMultiscaleRoute,
   ChromaOklchScatterRoute: ChromaOklchScatterRoute,
@@ -974,11 +1071,29 @@ const ApiHelloRouteWithChildren = ApiHelloRoute._addFileChildren(
   ApiHelloRouteChildren,
 )
 
+interface ApiPaletteRouteChildren {
+  ApiPaletteExportRoute: typeof ApiPaletteExportRoute
+  ApiPaletteExtractRoute: typeof ApiPaletteExtractRoute
+  ApiPaletteGenerateRoute: typeof ApiPaletteGenerateRoute
+  ApiPaletteScoreRoute: typeof ApiPaletteScoreRoute
+}
+
+const ApiPaletteRouteChildren: ApiPaletteRouteChildren = {
+  ApiPaletteExportRoute: ApiPaletteExportRoute,
+  ApiPaletteExtractRoute: ApiPaletteExtractRoute,
+  ApiPaletteGenerateRoute: ApiPaletteGenerateRoute,
+  ApiPaletteScoreRoute: ApiPaletteScoreRoute,
+}
+
+const ApiPaletteRouteWithChildren = ApiPaletteRoute._addFileChildren(
+  ApiPaletteRouteChildren,
+)
+
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   ChromaRoute: ChromaRouteWithChildren,
   ApiHelloRoute: ApiHelloRouteWithChildren,
-  ApiPaletteRoute: ApiPaletteRoute,
+  ApiPaletteRoute: ApiPaletteRouteWithChildren,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -0,0 +1,6 @@
+import { createFileRoute } from "@tanstack/react-router";
+import HistoryView from "@/components/views/history-view";
+
+export const Route = createFileRoute("/_chroma/history")({
+  component: HistoryView,
+});
@@ -0,0 +1,11 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { handleExport } from "@/lib/api/palette.api";
+
+export const Route = createFileRoute("/api/palette/export")({
+  server: {
+    handlers: {
+      POST: async ({ request }) => handleExport(request),
+    },
+  },
+});
@@ -0,0 +1,11 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { handleExtract } from "@/lib/api/palette.api";
+
+export const Route = createFileRoute("/api/palette/extract")({
+  server: {
+    handlers: {
+      POST: async ({ request }) => handleExtract(request),
+    },
+  },
+});
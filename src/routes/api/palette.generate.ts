@@ -0,0 +1,11 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { handleGenerate } from "@/lib/api/palette.api";
+
+export const Route = createFileRoute("/api/palette/generate")({
+  server: {
+    handlers: {
+      POST: async ({ request }) => handleGenerate(request),
+    },
+  },
+});
@@ -0,0 +1,11 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { handleScore } from "@/lib/api/palette.api";
+
+export const Route = createFileRoute("/api/palette/score")({
+  server: {
+    handlers: {
+      POST: async ({ request }) => handleScore(request),
+    },
+  },
+});
@@ -0,0 +1,13 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { PALETTE_API_ENDPOINTS } from "@/lib/api/palette.api";
+
+// JSON palette API — generation, scoring and export without a browser.
+// Each endpoint lives in its own flat route file (palette.generate.ts, …).
+export const Route = createFileRoute("/api/palette")({
+  server: {
+    handlers: {
+      GET: async () => Response.json({ endpoints: PALETTE_API_ENDPOINTS }),
+    },
+  },
+});
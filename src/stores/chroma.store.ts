@@ -1,17 +1,27 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
+import { applyPatches, produce, produceWithPatches } from "immer";
+import type { Draft, Patch } from "immer";
 import type {
   ChromaStore,
   ChromaState,
+  EditHistory,
+  HistoryEntry,
+  PaletteFields,
   PaletteSlot,
   PaletteSnapshot,
   HarmonyMode,
   BrandColor,
-  HSL,
+  ColorNameDictionary,
   ColorStop,
+  DeltaEMetric,
+  Project,
+  ProjectItemKind,
+  ProjectPalette,
 } from "@/types";
 import {
+  DELTA_E_METRICS,
   generateUtilityColors,
   mergeUtilityColors,
 } from "@/lib/utils/color-math.utils";
@@ -20,22 +30,36 @@ import {
   cloneSlot,
   hexToStop,
   decodeUrl,
+  loadSaved,
   savePrefs,
+  newRngSeed,
 } from "@/lib/utils/palette.utils";
+import {
+  compactPatches,
+  createHistory,
+  historyChildren,
+  historyLineage,
+  historyRoute,
+} from "@/lib/utils/history.utils";
+import {
+  DEFAULT_NAME_DICTIONARIES,
+  configureColorNames,
+} from "@/lib/utils/color-names.utils";
+import { configureWorkerColorNames } from "@/lib/workers";
+import { SCALE_PRESETS } from "@/lib/constants/chroma";
 
-function colorDistance(a: HSL, b: HSL) {
-  const dh = Math.min(Math.abs(a.h - b.h), 360 - Math.abs(a.h - b.h)) / 180;
-  const ds = Math.abs(a.s - b.s);
-  const dl = Math.abs(a.l - b.l);
-  return dh * dh + ds * ds + dl * dl;
-}
-
-function findClosestPaletteIndex(hsl: HSL, palette: ColorStop[]) {
+function findClosestPaletteIndex(
+  color: ColorStop,
+  palette: ColorStop[],
+  metric: DeltaEMetric,
+) {
+  const { prepare, diff } = DELTA_E_METRICS[metric];
+  const p = prepare(color.rgb);
   let bestIndex = 0;
   let bestDist = Infinity;
 
   for (let i = 0; i < palette.length; i++) {
-    const d = colorDistance(hsl, palette[i].hsl);
+    const d = diff(p, prepare(palette[i].rgb));
     if (d < bestDist) {
       bestDist = d;
       bestIndex = i;
@@ -88,11 +112,13 @@ function makeSnapshot(
   slots: PaletteSlot[],
   mode: HarmonyMode,
   label: string,
+  rngSeed: number | null,
 ): PaletteSnapshot {
   return {
     id: crypto.randomUUID(),
     label,
     mode,
+    rngSeed: rngSeed ?? undefined,
     createdAt: Date.now(),
     slots: slots.map((s) => ({
       id: s.id,
@@ -103,6 +129,365 @@ function makeSnapshot(
   };
 }
 
+// ─── History ──────────────────────────────────────────────────────────────────
+//
+// Edits to the fields a project saves are recorded as immer patches in a
+// tree (see history.utils). Picker, hover, modal and other UI state isn't
+// tracked, so undo never fights with what's on screen.
+
+const HISTORY_FIELDS = new Set<keyof ChromaState>([
+  "slots",
+  "mode",
+  "count",
+  "seeds",
+  "seedMode",
+  "temperature",
+  "rngSeed",
+  "gradient",
+  "scaleHex",
+  "scaleName",
+  "scaleDefinition",
+  "utilityColors",
+  "brandColors",
+  "tokenOverrides",
+]);
+
+const MAX_HISTORY_ENTRIES = 200;
+/** Edits with the same merge key this close together fold into one entry */
+const MERGE_WINDOW_MS = 1000;
+
+const isTracked = (p: Patch) =>
+  HISTORY_FIELDS.has(p.path[0] as keyof ChromaState);
+
+/**
+ * Drop entries past MAX_HISTORY_ENTRIES — the stalest abandoned branch tips
+ * first, then (once history is a single line) the root.
+ */
+function pruneHistory(h: EditHistory) {
+  while (Object.keys(h.entries).length > MAX_HISTORY_ENTRIES) {
+    const children = historyChildren(h);
+    const lineage = new Set(historyLineage(h, h.currentId).map((e) => e.id));
+    const tip = Object.values(h.entries)
+      .filter((e) => !lineage.has(e.id) && !children.has(e.id))
+      .reduce<HistoryEntry | undefined>(
+        (a, b) => (!a || b.updatedAt < a.updatedAt ? b : a),
+        undefined,
+      );
+    if (tip) {
+      delete h.entries[tip.id];
+      const parent = h.entries[tip.parentId!];
+      if (parent.redoId === tip.id)
+        parent.redoId = children
+          .get(parent.id)!
+          .filter((c) => c.id !== tip.id)
+          .at(-1)?.id;
+      continue;
+    }
+    const next = children.get(h.rootId)![0];
+    delete h.entries[h.rootId];
+    next.parentId = null;
+    next.patches = [];
+    next.inverse = [];
+    h.rootId = next.id;
+  }
+}
+
+function recordEdit(
+  h: EditHistory,
+  edit: Pick<HistoryEntry, "label" | "patches" | "inverse" | "mergeKey">,
+  now = Date.now(),
+) {
+  const current = h.entries[h.currentId];
+  if (
+    edit.mergeKey &&
+    edit.mergeKey === current.mergeKey &&
+    !current.redoId &&
+    now - current.updatedAt < MERGE_WINDOW_MS
+  ) {
+    current.patches = compactPatches([...current.patches, ...edit.patches]);
+    current.inverse = compactPatches([...edit.inverse, ...current.inverse]);
+    current.updatedAt = now;
+    return;
+  }
+  const id = crypto.randomUUID();
+  h.entries[id] = {
+    id,
+    parentId: current.id,
+    createdAt: now,
+    updatedAt: now,
+    ...edit,
+  };
+  current.redoId = id;
+  h.currentId = id;
+  pruneHistory(h);
+}
+
+/**
+ * Apply an edit and record it as one history entry. An edit that touches no
+ * tracked field goes through unrecorded.
+ */
+function edited(
+  state: ChromaStore,
+  label: string,
+  recipe: (s: Draft<ChromaStore>) => void,
+  mergeKey?: string,
+): ChromaStore {
+  const [next, patches, inverse] = produceWithPatches(state, recipe);
+  const forward = patches.filter(isTracked);
+  if (!forward.length) return next;
+  return produce(next, (s) => {
+    recordEdit(s.history, {
+      label,
+      patches: forward,
+      inverse: inverse.filter(isTracked),
+      mergeKey,
+    });
+  });
+}
+
+/**
+ * The state at another history entry. Redo then leads back along the path
+ * to it, so undoing after a jump retraces it.
+ */
+function travel(state: ChromaStore, id: string): ChromaStore {
+  const h = state.history;
+  if (!h.entries[id] || id === h.currentId) return state;
+  return produce(applyPatches(state, historyRoute(h, h.currentId, id)), (s) => {
+    s.history.currentId = id;
+    for (const e of historyLineage(h, id))
+      if (e.parentId) s.history.entries[e.parentId].redoId = e.id;
+  });
+}
+
+// ─── Projects ─────────────────────────────────────────────────────────────────
+//
+// The active project's current palette, scale and gradient are edited in the
+// top-level fields every view already reads. Switching writes them back into
+// `projects` (stash) and copies the target's fields out (load). Assigning
+// draft objects across the tree is fine — immer shares them structurally and
+// copies on the next write.
+
+const ITEM_LISTS = {
+  palette: "palettes",
+  scale: "scales",
+  gradient: "gradients",
+} as const satisfies Record<ProjectItemKind, keyof Project>;
+
+const pickPalette = (p: PaletteFields): PaletteFields => ({
+  slots: p.slots,
+  mode: p.mode,
+  count: p.count,
+  seeds: p.seeds,
+  seedMode: p.seedMode,
+  temperature: p.temperature,
+  rngSeed: p.rngSeed,
+});
+
+/** A one-palette project holding the given state's working fields */
+function projectFromState(name: string, s: ChromaState): Project {
+  const now = Date.now();
+  const palette = {
+    id: crypto.randomUUID(),
+    name: "Palette",
+    ...pickPalette(s),
+  };
+  const scale = {
+    id: crypto.randomUUID(),
+    name: s.scaleName,
+    hex: s.scaleHex,
+    definition: s.scaleDefinition,
+  };
+  const gradient = {
+    id: crypto.randomUUID(),
+    name: "Gradient",
+    gradient: s.gradient,
+  };
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    palettes: [palette],
+    scales: [scale],
+    gradients: [gradient],
+    active: { palette: palette.id, scale: scale.id, gradient: gradient.id },
+    brandColors: s.brandColors,
+    utilityColors: s.utilityColors,
+    tokenOverrides: s.tokenOverrides,
+  };
+}
+
+const activeProject = (s: ChromaState) =>
+  s.projects.find((p) => p.id === s.activeProjectId);
+
+/**
+ * The active project with its current palette, scale and gradient (and
+ * shared colors) taken from the working fields — what a stash would write.
+ */
+export function liveProject(s: ChromaState): Project | undefined {
+  const project = activeProject(s);
+  if (!project) return undefined;
+  const { active } = project;
+  return {
+    ...project,
+    palettes: project.palettes.map((p) =>
+      p.id === active.palette ? { ...p, ...pickPalette(s) } : p,
+    ),
+    scales: project.scales.map((p) =>
+      p.id === active.scale
+        ? {
+            ...p,
+            name: s.scaleName,
+            hex: s.scaleHex,
+            definition: s.scaleDefinition,
+          }
+        : p,
+    ),
+    gradients: project.gradients.map((p) =>
+      p.id === active.gradient ? { ...p, gradient: s.gradient } : p,
+    ),
+    brandColors: s.brandColors,
+    utilityColors: s.utilityColors,
+    tokenOverrides: s.tokenOverrides,
+  };
+}
+
+/** Write the working fields back into the active project */
+function stashProject(s: ChromaState) {
+  const i = s.projects.findIndex((p) => p.id === s.activeProjectId);
+  if (i >= 0) s.projects[i] = { ...liveProject(s)!, updatedAt: Date.now() };
+}
+
+/**
+ * Copy one of the active project's items into the working fields. History
+ * is left to the caller — it has to restart, but once per load.
+ */
+function loadProjectItem(s: ChromaState, kind: ProjectItemKind) {
+  const project = activeProject(s);
+  if (!project) return;
+  if (kind === "palette") {
+    const palette = project.palettes.find(
+      (p) => p.id === project.active.palette,
+    );
+    if (!palette) return;
+    Object.assign(s, pickPalette(palette));
+  } else if (kind === "scale") {
+    const scale = project.scales.find((p) => p.id === project.active.scale);
+    if (!scale) return;
+    s.scaleName = scale.name;
+    s.scaleHex = scale.hex;
+    s.scaleDefinition = scale.definition;
+  } else {
+    const gradient = project.gradients.find(
+      (p) => p.id === project.active.gradient,
+    );
+    if (gradient) s.gradient = gradient.gradient;
+  }
+}
+
+/** Load one item of the active project with a fresh history */
+function openProjectItem(s: ChromaState, kind: ProjectItemKind) {
+  loadProjectItem(s, kind);
+  const project = activeProject(s);
+  // Patches only make sense against the item they were recorded on
+  const item =
+    project &&
+    itemList(project, kind).find((i) => i.id === project.active[kind]);
+  s.history = createHistory(`Opened ${item?.name ?? kind}`);
+}
+
+function loadProject(s: ChromaState, id: string) {
+  const project = s.projects.find((p) => p.id === id);
+  if (!project) return;
+  s.activeProjectId = id;
+  loadProjectItem(s, "palette");
+  loadProjectItem(s, "scale");
+  loadProjectItem(s, "gradient");
+  s.brandColors = project.brandColors;
+  s.utilityColors = project.utilityColors;
+  s.tokenOverrides = project.tokenOverrides;
+  s.history = createHistory(`Opened ${project.name}`);
+}
+
+/** A name not yet used in `taken` — "Palette 2", "Palette 3", … */
+function uniqueName(base: string, taken: { name: string }[], sep = " ") {
+  const names = new Set(taken.map((t) => t.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base}${sep}${n}`)) n++;
+  return `${base}${sep}${n}`;
+}
+
+/** The project's palettes, scales or gradients, as far as ids and names go */
+const itemList = (project: Project, kind: ProjectItemKind) =>
+  project[ITEM_LISTS[kind]] as { id: string; name: string }[];
+
+/** Palettes from the old flat `chroma:palettes` list, for the first project */
+function legacyPalettes(): ProjectPalette[] {
+  return loadSaved().map((p) => ({
+    id: p.id,
+    name: p.name || "Unnamed",
+    slots: p.hexes.map((hex, i) => ({
+      id: crypto.randomUUID(),
+      color: hexToStop(hex),
+      locked: false,
+      name: p.slotNames?.[i],
+    })),
+    mode: p.mode,
+    count: p.hexes.length,
+    seeds: [],
+    seedMode: "influence",
+    temperature: 0,
+    rngSeed: null,
+  }));
+}
+
+/** One project wrapping `s`, with the old flat saved list as extra palettes */
+function firstProject(s: ChromaState): Project {
+  const project = projectFromState("My Project", s);
+  project.palettes.push(...legacyPalettes());
+  return project;
+}
+
+/**
+ * Persisted state from an older version. v4 added projects: a v3 store's
+ * working palette, scale and gradient become its first project.
+ */
+function migratePersisted(persisted: unknown, version: number) {
+  const p = (persisted ?? {}) as Partial<ChromaState>;
+  if (version >= 4 || p.projects?.length) return p;
+  const initial = makeInitialState();
+  const project = firstProject({
+    ...initial,
+    ...p,
+    slots: p.slots ? sanitizeSlots(p.slots as unknown[]) : initial.slots,
+  });
+  return { ...p, projects: [project], activeProjectId: project.id };
+}
+
+/**
+ * Hydrated projects, checked over. A store with nothing persisted gets one
+ * project wrapping its working state. A missing active project falls back
+ * to the first.
+ */
+function withProjects<T extends ChromaState>(s: T, persisted?: Project[]): T {
+  if (!persisted?.length) {
+    const project = firstProject(s);
+    return { ...s, projects: [project], activeProjectId: project.id };
+  }
+  const projects = persisted.map((project) => ({
+    ...project,
+    palettes: project.palettes.map((palette) => ({
+      ...palette,
+      slots: sanitizeSlots(palette.slots),
+    })),
+  }));
+  const next = { ...s, projects };
+  if (!projects.some((p) => p.id === s.activeProjectId))
+    loadProject(next, projects[0].id);
+  return next;
+}
+
 // ─── Initial state ────────────────────────────────────────────────────────────
 
 function makeInitialState(): ChromaState {
@@ -131,9 +516,9 @@ function makeInitialState(): ChromaState {
     locked: false,
   }));
 
-  return {
+  const state: ChromaState = {
     seeds: [],
-    history: [],
+    history: createHistory("Session start"),
     paletteSnapshots: [],
     recentColors: [],
     hoverSlot: null,
@@ -141,8 +526,10 @@ function makeInitialState(): ChromaState {
     pickerHex: "#3b82f6",
     pickerAlpha: 100,
     pickerMode: "hsl" as const,
+    deltaEMetric: "2000" as const,
     scaleHex: "#6366f1",
     scaleName: "primary",
+    scaleDefinition: SCALE_PRESETS[0],
     scaleTokenTab: "css",
     convInput: "#e07a5f",
     exportTab: "hex",
@@ -155,219 +542,298 @@ function makeInitialState(): ChromaState {
     slots,
     seedMode: "influence" as const,
     temperature: 0,
+    rngSeed: null,
     utilityColors: generateUtilityColors(slots),
     brandColors: [],
+    nameDictionaries: [...DEFAULT_NAME_DICTIONARIES],
+    customNameDictionaries: [],
+    tokenOverrides: {},
+    projects: [],
+    activeProjectId: "",
   };
+  const project = projectFromState("My Project", state);
+  return { ...state, projects: [project], activeProjectId: project.id };
 }
 
 // ─── Store ────────────────────────────────────────────────────────────────────
 
 export const useChromaStore = create<ChromaStore>()(
   persist(
-    immer((set) => ({
+    immer((set, get) => ({
       ...makeInitialState(),
 
       // ── Palette ─────────────────────────────────────────────────────────────
 
       setMode: (mode) =>
-        set((s) => {
-          s.mode = mode;
-        }),
+        set(
+          edited(get(), "Change harmony", (s) => {
+            s.mode = mode;
+          }),
+        ),
       setCount: (count) =>
-        set((s) => {
-          s.count = count;
-        }),
+        set(
+          edited(
+            get(),
+            "Change count",
+            (s) => {
+              s.count = count;
+            },
+            "count",
+          ),
+        ),
       setHoverSlot: (slot: number | null) =>
         set((s) => {
           s.hoverSlot = slot;
         }),
       addSeed: (seed) =>
-        set((s) => {
-          s.seeds.push(seed);
-        }),
+        set(
+          edited(get(), "Add seed", (s) => {
+            s.seeds.push(seed);
+          }),
+        ),
       removeSeed: (index) =>
-        set((s) => {
-          s.seeds.splice(index, 1);
-        }),
+        set(
+          edited(get(), "Remove seed", (s) => {
+            s.seeds.splice(index, 1);
+          }),
+        ),
       setSeeds: (seeds) =>
-        set((s) => {
-          s.seeds = seeds;
-        }),
+        set(
+          edited(get(), "Set seeds", (s) => {
+            s.seeds = seeds;
+          }),
+        ),
       insertSlot: (atIndex: number) => {
-        set((state) => {
-          const slots = state.slots;
-          if (slots.length >= 10) return;
+        set(
+          edited(get(), "Insert color", (state) => {
+            const slots = state.slots;
+            if (slots.length >= 10) return;
 
-          const { mode, seedMode, temperature } = state;
+            const { mode, seedMode, temperature, deltaEMetric } = state;
 
-          const seedHsls = slots.map((slot) => ({ ...slot.color.hsl }));
+            const seedHsls = slots.map((slot) => ({ ...slot.color.hsl }));
 
-          const palette = genPalette(
-            mode,
-            10,
-            seedHsls.length ? seedHsls : null,
-            seedMode,
-            temperature,
-          );
+            const palette = genPalette(
+              mode,
+              10,
+              seedHsls.length ? seedHsls : null,
+              seedMode,
+              temperature,
+            );
 
-          // Project slots onto palette
-          const paletteIndexes = slots.map((slot) =>
-            findClosestPaletteIndex(slot.color.hsl, palette),
-          );
+            // Project slots onto palette
+            const paletteIndexes = slots.map((slot) =>
+              findClosestPaletteIndex(slot.color, palette, deltaEMetric),
+            );
 
-          const leftIndex = atIndex > 0 ? paletteIndexes[atIndex - 1] : -1;
+            const leftIndex = atIndex > 0 ? paletteIndexes[atIndex - 1] : -1;
 
-          const rightIndex =
-            atIndex < paletteIndexes.length
-              ? paletteIndexes[atIndex]
-              : palette.length;
+            const rightIndex =
+              atIndex < paletteIndexes.length
+                ? paletteIndexes[atIndex]
+                : palette.length;
 
-          const candidates = [];
+            const candidates = [];
 
-          for (let i = leftIndex + 1; i < rightIndex; i++) {
-            const hex = palette[i].hex;
+            for (let i = leftIndex + 1; i < rightIndex; i++) {
+              const hex = palette[i].hex;
 
-            if (!slots.some((s) => s.color.hex === hex)) {
-              candidates.push(hex);
+              if (!slots.some((s) => s.color.hex === hex)) {
+                candidates.push(hex);
+              }
             }
-          }
 
-          if (!candidates.length) return;
+            if (!candidates.length) return;
 
-          const newHex =
-            candidates[Math.floor(Math.random() * candidates.length)];
+            const newHex =
+              candidates[Math.floor(Math.random() * candidates.length)];
 
-          const newSlot: PaletteSlot = {
-            id: crypto.randomUUID(),
-            color: hexToStop(newHex),
-            locked: false,
-          };
-
-          const next = [...slots];
-          next.splice(atIndex, 0, newSlot);
+            const newSlot: PaletteSlot = {
+              id: crypto.randomUUID(),
+              color: hexToStop(newHex),
+              locked: false,
+            };
 
-          return { slots: next };
-        });
+            slots.splice(atIndex, 0, newSlot);
+            // Hand-edited slots are no longer what the seed generates
+            state.rngSeed = null;
+          }),
+        );
       },
-      generate: () =>
-        set((s) => {
-          // Push to in-memory undo history (last 25)
-          s.history = [...s.history, s.slots.map(cloneSlot)].slice(-25);
-          // Push persistent snapshot (last 50)
-          s.paletteSnapshots = [
-            makeSnapshot(s.slots as PaletteSlot[], s.mode, "Before generate"),
-            ...s.paletteSnapshots,
-          ].slice(0, 50);
-          const seedHsls = s.seeds.map((seed) => ({ ...seed.hsl }));
-          const newColors = genPalette(
-            s.mode,
-            s.count,
-            seedHsls.length ? seedHsls : null,
-            s.seedMode,
-            s.temperature,
-          );
-          const seedCount = s.seedMode === "pin" ? s.seeds.length : 0;
-          s.slots = newColors.map((color, i) =>
-            s.slots[i]?.locked
-              ? cloneSlot(s.slots[i])
-              : {
-                  id: s.slots[i]?.id ?? crypto.randomUUID(),
-                  color,
-                  locked: i < seedCount,
-                  name: undefined,
-                },
-          );
-          s.utilityColors = mergeUtilityColors(
-            s.utilityColors,
-            generateUtilityColors(s.slots),
-          );
-          savePrefs(s.mode, s.count);
-        }),
+      generate: () => get().generateWithSeed(newRngSeed()),
 
-      undo: () =>
-        set((s) => {
-          if (!s.history.length) return;
-          s.slots = s.history[s.history.length - 1];
-          s.history.pop();
-        }),
+      generateWithSeed: (rngSeed) =>
+        set(
+          edited(get(), "Generate", (s) => {
+            // Push persistent snapshot (last 50)
+            s.paletteSnapshots = [
+              makeSnapshot(
+                s.slots as PaletteSlot[],
+                s.mode,
+                "Before generate",
+                s.rngSeed,
+              ),
+              ...s.paletteSnapshots,
+            ].slice(0, 50);
+            const seedHsls = s.seeds.map((seed) => ({ ...seed.hsl }));
+            const newColors = genPalette(
+              s.mode,
+              s.count,
+              seedHsls.length ? seedHsls : null,
+              s.seedMode,
+              s.temperature,
+              rngSeed,
+            );
+            const seedCount = s.seedMode === "pin" ? s.seeds.length : 0;
+            s.slots = newColors.map((color, i) =>
+              s.slots[i]?.locked
+                ? cloneSlot(s.slots[i])
+                : {
+                    id: s.slots[i]?.id ?? crypto.randomUUID(),
+                    color,
+                    locked: i < seedCount,
+                    name: undefined,
+                  },
+            );
+            s.rngSeed = rngSeed;
+            s.utilityColors = mergeUtilityColors(
+              s.utilityColors,
+              generateUtilityColors(s.slots),
+            );
+            savePrefs(s.mode, s.count);
+          }),
+        ),
+
+      undo: () => {
+        const { history } = get();
+        const { parentId } = history.entries[history.currentId];
+        if (parentId) set(travel(get(), parentId));
+      },
+      redo: () => {
+        const { history } = get();
+        const { redoId } = history.entries[history.currentId];
+        if (redoId) set(travel(get(), redoId));
+      },
+      jumpToHistory: (id) => set(travel(get(), id)),
 
       toggleLock: (index) =>
-        set((s) => {
-          s.slots[index].locked = !s.slots[index].locked;
-        }),
+        set(
+          edited(
+            get(),
+            get().slots[index]?.locked ? "Unlock color" : "Lock color",
+            (s) => {
+              s.slots[index].locked = !s.slots[index].locked;
+            },
+          ),
+        ),
       editSlotColor: (index, color) =>
-        set((s) => {
-          s.slots[index].color = color;
-        }),
+        set(
+          edited(
+            get(),
+            "Edit color",
+            (s) => {
+              s.slots[index].color = color;
+              s.rngSeed = null;
+            },
+            `color:${get().slots[index]?.id}`,
+          ),
+        ),
       addSlot: (color, index) =>
-        set((s) => {
-          if (index === undefined)
-            return s.slots.push({
+        set(
+          edited(get(), "Add color", (s) => {
+            s.slots.splice(index ?? s.slots.length, 0, {
               id: crypto.randomUUID(),
               color,
               locked: false,
             });
-
-          s.slots.splice(index, 0, {
-            id: crypto.randomUUID(),
-            color,
-            locked: false,
-          });
-        }),
+            s.rngSeed = null;
+          }),
+        ),
       removeSlot: (index) =>
-        set((s) => {
-          s.slots.splice(index, 1);
-        }),
+        set(
+          edited(get(), "Remove color", (s) => {
+            s.slots.splice(index, 1);
+            s.rngSeed = null;
+          }),
+        ),
 
       reorderSlots: (fromIndex, toIndex) =>
-        set((s) => {
-          const moved = s.slots.splice(fromIndex, 1)[0];
-          s.slots.splice(toIndex, 0, moved);
-        }),
+        set(
+          edited(get(), "Reorder colors", (s) => {
+            const moved = s.slots.splice(fromIndex, 1)[0];
+            s.slots.splice(toIndex, 0, moved);
+            s.rngSeed = null;
+          }),
+        ),
 
       renameSlot: (index, name) =>
-        set((s) => {
-          s.slots[index].name = name;
-        }),
+        set(
+          edited(
+            get(),
+            "Rename color",
+            (s) => {
+              s.slots[index].name = name;
+            },
+            `name:${get().slots[index]?.id}`,
+          ),
+        ),
 
       loadPalette: (slots, mode, count) =>
-        set((s) => {
-          s.history = [...s.history, s.slots.map(cloneSlot)].slice(-25);
-          s.paletteSnapshots = [
-            makeSnapshot(s.slots as PaletteSlot[], s.mode, `Before load`),
-            ...s.paletteSnapshots,
-          ].slice(0, 50);
-          s.slots = slots;
-          s.mode = mode;
-          s.count = count;
-          s.utilityColors = mergeUtilityColors(
-            s.utilityColors,
-            generateUtilityColors(slots),
-          );
-        }),
+        set(
+          edited(get(), "Load palette", (s) => {
+            s.paletteSnapshots = [
+              makeSnapshot(
+                s.slots as PaletteSlot[],
+                s.mode,
+                `Before load`,
+                s.rngSeed,
+              ),
+              ...s.paletteSnapshots,
+            ].slice(0, 50);
+            s.slots = slots;
+            s.mode = mode;
+            s.count = count;
+            s.rngSeed = null;
+            s.utilityColors = mergeUtilityColors(
+              s.utilityColors,
+              generateUtilityColors(slots),
+            );
+          }),
+        ),
 
       restoreSnapshot: (snap) =>
-        set((s) => {
-          s.history = [...s.history, s.slots.map(cloneSlot)].slice(-25);
-          s.slots = snap.slots.map((ss) => ({
-            id: ss.id,
-            color: hexToStop(ss.hex),
-            locked: ss.locked,
-            name: ss.name,
-          }));
-          s.mode = snap.mode;
-        }),
+        set(
+          edited(get(), `Restore "${snap.label}"`, (s) => {
+            s.slots = snap.slots.map((ss) => ({
+              id: ss.id,
+              color: hexToStop(ss.hex),
+              locked: ss.locked,
+              name: ss.name,
+            }));
+            s.mode = snap.mode;
+            s.rngSeed = snap.rngSeed ?? null;
+          }),
+        ),
 
       // ── Picker ──────────────────────────────────────────────────────────────
 
       setSeedMode: (mode) =>
-        set((s) => {
-          s.seedMode = mode;
-        }),
+        set(
+          edited(get(), "Change seed behavior", (s) => {
+            s.seedMode = mode;
+          }),
+        ),
       setTemperature: (t) =>
-        set((s) => {
-          s.temperature = t;
-        }),
+        set(
+          edited(
+            get(),
+            "Change temperature",
+            (s) => {
+              s.temperature = t;
+            },
+            "temperature",
+          ),
+        ),
       setPickerHex: (hex) =>
         set((s) => {
           s.pickerHex = hex;
@@ -380,6 +846,10 @@ export const useChromaStore = create<ChromaStore>()(
         set((s) => {
           s.pickerMode = mode;
         }),
+      setDeltaEMetric: (metric) =>
+        set((s) => {
+          s.deltaEMetric = metric;
+        }),
       addRecent: (hex) =>
         set((s) => {
           s.recentColors = [
@@ -391,20 +861,52 @@ export const useChromaStore = create<ChromaStore>()(
       // ── Gradient ────────────────────────────────────────────────────────────
 
       setGradient: (partial) =>
-        set((s) => {
-          Object.assign(s.gradient, partial);
-        }),
+        set(
+          edited(
+            get(),
+            "Edit gradient",
+            (s) => {
+              Object.assign(s.gradient, partial);
+            },
+            "gradient",
+          ),
+        ),
 
       // ── Scale ───────────────────────────────────────────────────────────────
 
       setScaleHex: (hex) =>
-        set((s) => {
-          s.scaleHex = hex;
-        }),
+        set(
+          edited(
+            get(),
+            "Change scale color",
+            (s) => {
+              s.scaleHex = hex;
+            },
+            "scaleHex",
+          ),
+        ),
       setScaleName: (name) =>
-        set((s) => {
-          s.scaleName = name;
-        }),
+        set(
+          edited(
+            get(),
+            "Rename scale",
+            (s) => {
+              s.scaleName = name;
+            },
+            "scaleName",
+          ),
+        ),
+      setScaleDefinition: (def) =>
+        set(
+          edited(
+            get(),
+            "Edit scale steps",
+            (s) => {
+              s.scaleDefinition = def;
+            },
+            "scaleDefinition",
+          ),
+        ),
       setScaleTokenTab: (tab) =>
         set((s) => {
           s.scaleTokenTab = tab;
@@ -450,35 +952,222 @@ export const useChromaStore = create<ChromaStore>()(
       // ── Utility colors ──────────────────────────────────────────────────────
 
       setUtilityColor: (role, color) =>
+        set(
+          edited(
+            get(),
+            `Edit ${role} color`,
+            (s) => {
+              s.utilityColors[role].color = color;
+            },
+            `utility:${role}`,
+          ),
+        ),
+      toggleUtilityLock: (role) =>
+        set(
+          edited(
+            get(),
+            `${get().utilityColors[role].locked ? "Unlock" : "Lock"} ${role} color`,
+            (s) => {
+              s.utilityColors[role].locked = !s.utilityColors[role].locked;
+            },
+          ),
+        ),
+      regenUtilityColors: () =>
+        set(
+          edited(get(), "Regenerate utility colors", (s) => {
+            s.utilityColors = mergeUtilityColors(
+              s.utilityColors,
+              generateUtilityColors(s.slots),
+            );
+          }),
+        ),
+
+      // ── Brand colors ─────────────────────────────────────────────────────────
+
+      addBrandColor: (hex, label) =>
+        set(
+          edited(get(), "Add brand color", (s) => {
+            s.brandColors.push({ id: crypto.randomUUID(), hex, label });
+          }),
+        ),
+      removeBrandColor: (id) =>
+        set(
+          edited(get(), "Remove brand color", (s) => {
+            s.brandColors = s.brandColors.filter(
+              (b: BrandColor) => b.id !== id,
+            );
+          }),
+        ),
+      updateBrandColor: (id, patch) =>
+        set(
+          edited(
+            get(),
+            "Edit brand color",
+            (s) => {
+              const b = s.brandColors.find((b: BrandColor) => b.id === id);
+              if (b) Object.assign(b, patch);
+            },
+            `brand:${id}`,
+          ),
+        ),
+
+      // ── Color names ─────────────────────────────────────────────────────────
+
+      setNameDictionaries: (ids) =>
         set((s) => {
-          s.utilityColors[role].color = color;
+          s.nameDictionaries = ids;
         }),
-      toggleUtilityLock: (role) =>
+      addNameDictionary: (dictionary) =>
         set((s) => {
-          s.utilityColors[role].locked = !s.utilityColors[role].locked;
+          s.customNameDictionaries.push(dictionary);
+          s.nameDictionaries.push(dictionary.id);
         }),
-      regenUtilityColors: () =>
+      removeNameDictionary: (id) =>
         set((s) => {
-          s.utilityColors = mergeUtilityColors(
-            s.utilityColors,
-            generateUtilityColors(s.slots),
+          s.customNameDictionaries = s.customNameDictionaries.filter(
+            (d: ColorNameDictionary) => d.id !== id,
           );
+          s.nameDictionaries = s.nameDictionaries.filter((d) => d !== id);
         }),
 
-      // ── Brand colors ─────────────────────────────────────────────────────────
+      // ── Token overrides ─────────────────────────────────────────────────────
 
-      addBrandColor: (hex, label) =>
+      setTokenOverride: (name, mode, hex, base) =>
+        set(
+          edited(
+            get(),
+            `Override ${name}`,
+            (s) => {
+              s.tokenOverrides[name] = {
+                ...(s.tokenOverrides[name] ?? base),
+                [mode]: hex,
+              };
+            },
+            `token:${name}:${mode}`,
+          ),
+        ),
+      revertTokenOverride: (name) =>
+        set(
+          edited(
+            get(),
+            name === undefined ? "Revert overrides" : `Revert ${name}`,
+            (s) => {
+              if (name === undefined) s.tokenOverrides = {};
+              else delete s.tokenOverrides[name];
+            },
+          ),
+        ),
+
+      // ── Projects ────────────────────────────────────────────────────────────
+
+      createProject: (name) =>
         set((s) => {
-          s.brandColors.push({ id: crypto.randomUUID(), hex, label });
+          stashProject(s);
+          const project = {
+            ...makeInitialState().projects[0],
+            name: uniqueName(name, s.projects),
+          };
+          s.projects.push(project);
+          loadProject(s, project.id);
         }),
-      removeBrandColor: (id) =>
+      duplicateProject: (id) => {
+        set((s) => stashProject(s));
+        const { projects } = get();
+        const source = projects.find((p) => p.id === id);
+        if (!source) return;
+        const now = Date.now();
+        const copy: Project = {
+          ...structuredClone(source),
+          id: crypto.randomUUID(),
+          name: uniqueName(`${source.name} copy`, projects),
+          createdAt: now,
+          updatedAt: now,
+        };
         set((s) => {
-          s.brandColors = s.brandColors.filter((b: BrandColor) => b.id !== id);
+          s.projects.push(copy);
+          loadProject(s, copy.id);
+        });
+      },
+      switchProject: (id) =>
+        set((s) => {
+          if (id === s.activeProjectId) return;
+          stashProject(s);
+          loadProject(s, id);
         }),
-      updateBrandColor: (id, patch) =>
+      renameProject: (id, name) =>
         set((s) => {
-          const b = s.brandColors.find((b: BrandColor) => b.id === id);
-          if (b) Object.assign(b, patch);
+          const project = s.projects.find((p) => p.id === id);
+          if (project) project.name = name;
+        }),
+      deleteProject: (id) =>
+        set((s) => {
+          if (s.projects.length < 2) return;
+          s.projects = s.projects.filter((p) => p.id !== id);
+          if (id === s.activeProjectId) loadProject(s, s.projects[0].id);
+        }),
+
+      addProjectItem: (kind, name) =>
+        set((s) => {
+          stashProject(s);
+          const project = activeProject(s);
+          if (!project) return;
+          const list = itemList(project, kind);
+          const source = list.find((i) => i.id === project.active[kind]);
+          if (!source) return;
+          const item = {
+            ...source,
+            id: crypto.randomUUID(),
+            // Scale names are token prefixes, so no spaces
+            name: uniqueName(name, list, kind === "scale" ? "-" : " "),
+          };
+          list.push(item);
+          project.active[kind] = item.id;
+          openProjectItem(s, kind);
+        }),
+      switchProjectItem: (kind, id) =>
+        set((s) => {
+          const target = activeProject(s);
+          if (!target || target.active[kind] === id) return;
+          if (!itemList(target, kind).some((i) => i.id === id)) return;
+          stashProject(s);
+          activeProject(s)!.active[kind] = id;
+          openProjectItem(s, kind);
+        }),
+      // Renaming the open scale renames its tokens, so it's an undoable edit
+      renameProjectItem: (kind, id, name) =>
+        set(
+          edited(get(), "Rename scale", (s) => {
+            const project = activeProject(s);
+            const item =
+              project && itemList(project, kind).find((i) => i.id === id);
+            if (!item) return;
+            item.name = name;
+            if (kind === "scale" && project.active.scale === id)
+              s.scaleName = name;
+          }),
+        ),
+      deleteProjectItem: (kind, id) =>
+        set((s) => {
+          const project = activeProject(s);
+          if (!project) return;
+          const list = itemList(project, kind);
+          const index = list.findIndex((i) => i.id === id);
+          if (index < 0 || list.length < 2) return;
+          list.splice(index, 1);
+          if (project.active[kind] !== id) return;
+          project.active[kind] = list[0].id;
+          openProjectItem(s, kind);
+        }),
+      savePaletteAs: (name) =>
+        set((s) => {
+          stashProject(s);
+          const project = activeProject(s);
+          if (!project) return;
+          project.palettes.push({
+            id: crypto.randomUUID(),
+            name: uniqueName(name, project.palettes),
+            ...pickPalette(s),
+          });
         }),
     })),
     {
@@ -493,21 +1182,28 @@ export const useChromaStore = create<ChromaStore>()(
         gradient: state.gradient,
         seedMode: state.seedMode,
         temperature: state.temperature,
+        rngSeed: state.rngSeed,
         pickerHex: state.pickerHex,
         pickerAlpha: state.pickerAlpha,
         pickerMode: state.pickerMode,
+        deltaEMetric: state.deltaEMetric,
         scaleHex: state.scaleHex,
         scaleName: state.scaleName,
+        scaleDefinition: state.scaleDefinition,
         scaleTokenTab: state.scaleTokenTab,
         convInput: state.convInput,
         exportTab: state.exportTab,
         utilityColors: state.utilityColors,
         paletteSnapshots: state.paletteSnapshots,
         brandColors: state.brandColors,
+        nameDictionaries: state.nameDictionaries,
+        customNameDictionaries: state.customNameDictionaries,
+        tokenOverrides: state.tokenOverrides,
+        projects: state.projects,
+        activeProjectId: state.activeProjectId,
       }),
       merge: (persisted, current) => {
-        if (decodeUrl()) return current;
-        const p = persisted as Partial<ChromaStore>;
+        const p = (persisted ?? {}) as Partial<ChromaStore>;
         const slots = p.slots
           ? sanitizeSlots(p.slots as unknown[])
           : current.slots;
@@ -518,10 +1214,49 @@ export const useChromaStore = create<ChromaStore>()(
                 generateUtilityColors(slots),
               )
             : current.utilityColors;
-        return { ...current, ...p, slots, utilityColors };
+        const merged = withProjects(
+          { ...current, ...p, slots, utilityColors },
+          p.projects,
+        );
+
+        // Share link wins over persisted palette state; the rest (picker,
+        // export tab, snapshots…) is kept
+        const shared = decodeUrl();
+        if (!shared) return merged;
+        return {
+          ...merged,
+          slots: shared.slots,
+          mode: shared.mode,
+          count: shared.count,
+          seeds: shared.seeds ?? merged.seeds,
+          seedMode: shared.seedMode ?? merged.seedMode,
+          temperature: shared.temperature ?? merged.temperature,
+          rngSeed: shared.rngSeed ?? null,
+          utilityColors:
+            shared.utilityColors ?? generateUtilityColors(shared.slots),
+          brandColors: shared.brandColors ?? merged.brandColors,
+        };
       },
-      version: 3,
+      version: 4,
+      migrate: migratePersisted,
       skipHydration: true,
     },
   ),
 );
+
+// Auto-labels read the dictionary selection outside React, so mirror it into
+// the naming module — and the analysis workers — whenever it changes
+// (including on rehydrate)
+useChromaStore.subscribe((state, prev) => {
+  if (
+    state.nameDictionaries === prev.nameDictionaries &&
+    state.customNameDictionaries === prev.customNameDictionaries
+  )
+    return;
+  const config = {
+    active: state.nameDictionaries,
+    custom: state.customNameDictionaries,
+  };
+  configureColorNames(config);
+  configureWorkerColorNames(config);
+});
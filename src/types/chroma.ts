@@ -1,3 +1,5 @@
+import type { Patch } from "immer";
+
 // ─── Primitives ───────────────────────────────────────────────────────────────
 
 export interface RGB {
@@ -31,6 +33,60 @@ export interface OKLCH {
   C: number;
   H: number;
 }
+/** CIELAB — L 0–100, a/b roughly ±125 */
+export interface CIELab {
+  L: number;
+  a: number;
+  b: number;
+}
+/** CIE LCh — polar CIELAB, H in degrees */
+export interface CIELCH {
+  L: number;
+  C: number;
+  H: number;
+}
+/** w, b 0–100 */
+export interface HWB {
+  h: number;
+  w: number;
+  b: number;
+}
+/** CIE XYZ relative to the reference white, Y = 1 for white */
+export interface XYZ {
+  x: number;
+  y: number;
+  z: number;
+}
+/** RGB with 0–1 float channels — may fall outside 0–1 when out of gamut */
+export interface RGBFloat {
+  r: number;
+  g: number;
+  b: number;
+}
+export type LinearRGB = RGBFloat;
+export type DisplayP3 = RGBFloat;
+export type Rec2020 = RGBFloat;
+/** Reference white for CIELAB / LCh — CSS lab() and lch() use D50 */
+export type Illuminant = "d50" | "d65";
+
+/** Color-difference formula — see DELTA_E_METRICS */
+export type DeltaEMetric = "76" | "94" | "2000" | "cmc" | "itp" | "ok";
+
+/** How out-of-sRGB OKLCH colors are brought into gamut — see gamutMapOklch() */
+export type GamutMapMethod = "css" | "chroma" | "clip";
+
+/** Result of parsing any CSS color string */
+export interface ParsedColor {
+  /** sRGB, clipped to 0–255 when the source is out of gamut */
+  rgb: RGB;
+  /**
+   * Opacity as a percentage, 0–100 — not CSS's 0–1 — so it drops straight
+   * into ColorStop.a; `none` reads as 0
+   */
+  alpha: number;
+  /** False when the source color lies outside sRGB and was clipped */
+  inGamut: boolean;
+}
 
 // ─── Palette ──────────────────────────────────────────────────────────────────
 
@@ -38,7 +94,10 @@ export interface ColorStop {
   hex: string;
   readonly rgb: RGB;
   readonly hsl: HSL;
+  /** Opacity 0–100, like ParsedColor.alpha — absent means opaque */
   a?: number;
+  /** Set when generated from an OKLCH color outside sRGB that was gamut-mapped */
+  outOfGamut?: boolean;
 }
 
 export interface PaletteSlot {
@@ -66,7 +125,16 @@ export type HarmonyMode =
   | "matsuda_L"
   | "matsuda_Y"
   | "matsuda_X"
-  | "matsuda_T";
+  | "matsuda_T"
+  | "categorical"
+  | "sequential"
+  | "diverging";
+
+/** Harmony modes that generate chart palettes rather than aesthetic sets */
+export type DataVizMode = Extract<
+  HarmonyMode,
+  "categorical" | "sequential" | "diverging"
+>;
 
 export interface HarmonyDef {
   id: HarmonyMode;
@@ -102,20 +170,133 @@ export interface GradientPreset {
 
 // ─── Color Blindness ─────────────────────────────────────────────────────────
 
+/** Cone deficiency — protan (L), deutan (M), tritan (S) — or a monochromacy */
+export type CvdType = "protan" | "deutan" | "tritan" | "achromat" | "bcm";
+
+/** Machado 2009 (anomalous trichromacy model) or Brettel 1997 (dichromat half-planes) */
+export type CvdMethod = "machado" | "brettel";
+
+export interface CvdSimulation {
+  type: CvdType;
+  /** 0 = normal vision, 1 = dichromacy / full monochromacy */
+  severity: number;
+  method?: CvdMethod;
+}
+
+/** Two palette colors that collapse under a simulated deficiency */
+export interface CvdConflict {
+  sim: CvdSimulation;
+  /** Slot indexes */
+  a: number;
+  b: number;
+  /** Distance after simulation, in JNDs of the chosen ΔE metric */
+  jnd: number;
+  /** The same pair under normal vision */
+  normalJnd: number;
+}
+
+/** Smallest OKLCH change to one slot that pulls a conflicting pair apart */
+export interface CvdNudge {
+  index: number;
+  hex: string;
+  dL: number;
+  dC: number;
+  /** Degrees */
+  dH: number;
+  /** Normal-vision distance from the original color, in JNDs */
+  shift: number;
+}
+
 export interface CBType {
   id: string;
   name: string;
   desc: string;
-  matrix: number[];
+  /** null for normal vision */
+  cvd: CvdType | null;
+  /** Follows the severity slider — protan, deutan and tritan */
+  graded?: boolean;
 }
 
 // ─── Scale ────────────────────────────────────────────────────────────────────
 
+/** Step label — numeric (Tailwind 50–950, Radix 1–12) or free-form ("A100") */
+export type ScaleStep = number | string;
+
+/** 0–1 easing: a power curve (t^exponent) or a CSS-style cubic Bézier */
+export type ScaleEasing =
+  | { kind: "power"; exponent: number }
+  | { kind: "bezier"; x1: number; y1: number; x2: number; y2: number };
+
+/** Solve a step's lightness so it reaches a WCAG ratio against white or black */
+export interface ScaleContrastTarget {
+  step: ScaleStep;
+  ratio: number;
+  against: "white" | "black";
+}
+
+/**
+ * Contrast-anchored lightness: any two steps at least `distance` apart reach
+ * `target` (a WCAG ratio, or APCA Lc in both polarities). Distance is in step
+ * names when every step is numeric (500 = "100 vs 600"), else in step count.
+ */
+export interface ScaleContrastAnchor {
+  metric: "wcag" | "apca";
+  target: number;
+  distance: number;
+}
+
+export interface ScaleDefinition {
+  id: string;
+  label: string;
+  /** Step names, lightest first */
+  steps: ScaleStep[];
+  /** Where each step sits along the scale (0 = lightest, 1 = darkest) — evenly spread over 0.05–0.95 when omitted */
+  positions?: number[];
+  /** OKLCH lightness at position 0 and 1, eased between */
+  lightness: { max: number; min: number; curve: ScaleEasing };
+  /**
+   * Chroma rises from 0 at both ends to `boost` × input chroma at `peak`.
+   * A `falloff` tapers the boost by that much per unit of distance from
+   * `focus` (default: the peak), leaning the strongest step off-centre.
+   */
+  chroma: {
+    peak: number;
+    boost: number;
+    curve: ScaleEasing;
+    focus?: number;
+    falloff?: number;
+  };
+  /** Degrees of hue rotation from the lightest to the darkest step */
+  hueDrift: number;
+  /** Extra per-step hue offsets in degrees, parallel to `steps` */
+  hueOffsets?: number[];
+  /** Keep the input color exactly at this step — "auto" picks the step nearest in lightness */
+  pin?: ScaleStep | "auto" | null;
+  contrastTargets?: ScaleContrastTarget[];
+  /** Replaces the lightness curve (and contrast targets) with a solved one */
+  anchor?: ScaleContrastAnchor | null;
+}
+
+/** One step pair checked against a ScaleContrastAnchor */
+export interface ScalePairCheck {
+  from: ScaleStep;
+  to: ScaleStep;
+  /** WCAG ratio, or the lower APCA |Lc| of the two polarities */
+  value: number;
+  pass: boolean;
+}
+
 export interface ScaleEntry {
-  step: number;
+  step: ScaleStep;
   hex: string;
   rgb: RGB;
   hsl: HSL;
+  /** False when the step's OKLCH target lay outside sRGB and was gamut-mapped */
+  inGamut: boolean;
+  /** True for the step holding the unmodified input color */
+  pinned?: boolean;
+  /** Set when the step was solved for a contrast target — `achieved` may fall short */
+  target?: ScaleContrastTarget & { achieved: number };
 }
 export type TokenFormat = "css" | "js" | "tailwind" | "json";
 
@@ -131,6 +312,21 @@ export interface SavedPalette {
   createdAt: number;
 }
 
+/** Palette state decoded from a share link */
+export interface SharedPalette {
+  /** Link format — 1 for legacy `#p=…&m=…` links */
+  version: number;
+  mode: HarmonyMode;
+  count: number;
+  slots: PaletteSlot[];
+  seeds?: ColorStop[];
+  seedMode?: "influence" | "pin";
+  temperature?: number;
+  rngSeed?: number;
+  utilityColors?: UtilityColorSet;
+  brandColors?: BrandColor[];
+}
+
 // ─── Palette History (persistent snapshots) ───────────────────────────────────
 
 export interface PaletteSnapshot {
@@ -139,9 +335,43 @@ export interface PaletteSnapshot {
   label: string;
   slots: Array<{ id: string; hex: string; name?: string; locked: boolean }>;
   mode: HarmonyMode;
+  /** PRNG seed that generated these slots — replaying it reproduces them */
+  rngSeed?: number;
   createdAt: number;
 }
 
+// ─── Edit History ─────────────────────────────────────────────────────────────
+
+/** One undoable edit — a node in the history tree */
+export interface HistoryEntry {
+  id: string;
+  /** null for the root — the state history started from */
+  parentId: string | null;
+  /** Human label, e.g. "Edit color" */
+  label: string;
+  createdAt: number;
+  /** Last time a merged edit was folded in */
+  updatedAt: number;
+  /** immer patches from the parent's state to this one */
+  patches: Patch[];
+  /** immer patches from this state back to the parent's */
+  inverse: Patch[];
+  /** Child that redo moves to — the one last created or visited */
+  redoId?: string;
+  /** Consecutive edits with the same key (a slider drag) fold into one entry */
+  mergeKey?: string;
+}
+
+/**
+ * Undo/redo as a tree: editing after an undo starts a new branch and the
+ * undone one stays reachable from the timeline.
+ */
+export interface EditHistory {
+  entries: Record<string, HistoryEntry>;
+  rootId: string;
+  currentId: string;
+}
+
 // ─── Utility Colors ───────────────────────────────────────────────────────────
 
 export type UtilityRole =
@@ -168,6 +398,8 @@ export interface SemanticToken {
   light: string;
   dark: string;
   description: string;
+  /** Modes whose derived color fell outside sRGB and was gamut-mapped */
+  outOfGamut?: ("light" | "dark")[];
 }
 export interface ThemeTokenSet {
   semantic: SemanticToken[];
@@ -179,16 +411,105 @@ export interface ThemeTokenSet {
       dark: string;
       subtle: string;
       subtleDark: string;
+      /** Variants whose derived color was gamut-mapped into sRGB */
+      outOfGamut?: ("light" | "dark" | "subtle" | "subtleDark")[];
     }
   >;
   palette: { name: string; hex: string }[];
 }
 
+// ─── Contrast Audit ───────────────────────────────────────────────────────────
+
+export type AuditGroup = "palette" | "semantic" | "utility" | "scale";
+
+/** What the foreground is used for — sets the WCAG ratio and APCA Lc required */
+export type AuditUsage = "body" | "large" | "ui";
+
+export interface AuditPair {
+  /** Stable key, e.g. "semantic:light:--foreground/--background" */
+  id: string;
+  group: AuditGroup;
+  mode?: "light" | "dark";
+  label: string;
+  fg: { name: string; hex: string };
+  bg: { name: string; hex: string };
+  usage: AuditUsage;
+  /** WCAG 2 contrast ratio */
+  wcag: number;
+  /** APCA Lc of fg on bg — signed, negative for light text on dark */
+  apca: number;
+  passWcag: boolean;
+  passApca: boolean;
+}
+
+export interface AuditSummary {
+  total: number;
+  passWcag: number;
+  passApca: number;
+}
+
+export interface ContrastAudit {
+  title: string;
+  /** ISO timestamp */
+  generatedAt: string;
+  pairs: AuditPair[];
+  summary: AuditSummary & { byGroup: Record<AuditGroup, AuditSummary> };
+}
+
+// ─── Contrast Repair ──────────────────────────────────────────────────────────
+
+export type ContrastStandard = "aa" | "aaa" | "apca";
+
+/** Two token names that must reach a contrast target, e.g. --foreground on --background */
+export interface ContrastRequirement {
+  fg: string;
+  bg: string;
+  metric: "wcag" | "apca";
+  /** WCAG ratio or APCA |Lc| */
+  target: number;
+  /** Defaults to both */
+  modes?: ("light" | "dark")[];
+  label?: string;
+}
+
+export interface TokenRepairChange {
+  token: string;
+  mode: "light" | "dark";
+  from: string;
+  to: string;
+  /** OKLCH lightness shift, -1…1 */
+  dL: number;
+}
+
+export interface ContrastRepairResult {
+  tokens: ThemeTokenSet;
+  changes: TokenRepairChange[];
+  /** Requirements that still fail — neither side could move far enough */
+  unresolved: {
+    requirement: ContrastRequirement;
+    mode: "light" | "dark";
+    value: number;
+  }[];
+}
+
 // ─── Mixer ────────────────────────────────────────────────────────────────────
 
 export type MixSpace = "oklch" | "hsl" | "rgb";
 
-export type PickerMode = "rgb" | "hsl" | "hsv" | "oklch" | "oklab" | "cmyk";
+export type PickerMode =
+  | "rgb"
+  | "hsl"
+  | "hsv"
+  | "hwb"
+  | "oklch"
+  | "oklab"
+  | "lab"
+  | "lch"
+  | "xyz"
+  | "p3"
+  | "rec2020"
+  | "linear"
+  | "cmyk";
 
 // ─── Export ───────────────────────────────────────────────────────────────────
 
@@ -199,7 +520,11 @@ export type ExportTab =
   | "scss"
   | "figma"
   | "tailwind"
-  | "svg";
+  | "svg"
+  | "ase"
+  | "aco"
+  | "gpl"
+  | "procreate";
 
 // ─── Brand Compliance ─────────────────────────────────────────────────────────
 
@@ -209,6 +534,129 @@ export interface BrandColor {
   hex: string;
 }
 
+// ─── Color Names ──────────────────────────────────────────────────────────────
+
+export interface NamedColor {
+  name: string;
+  hex: string;
+}
+
+/** A list of named colors that auto-labels and name search can draw from */
+export interface ColorNameDictionary {
+  id: string;
+  label: string;
+  desc?: string;
+  colors: NamedColor[];
+  /** Imported by the user — persisted and removable */
+  custom?: boolean;
+}
+
+export interface ColorNameMatch extends NamedColor {
+  /** Dictionary id the name came from */
+  dictionary: string;
+  /** Nearest lookup: ΔE to the query color. Text search: match score, higher is better */
+  score: number;
+}
+
+// ─── Image Extraction ─────────────────────────────────────────────────────────
+
+export type ExtractAlgorithm = "median-cut" | "kmeans" | "octree" | "wu";
+
+/** A rectangle in fractions (0–1) of the image's width and height */
+export interface ExtractRegion {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface ExtractedColor {
+  rgb: RGB;
+  /** Fraction (0–1) of the image's — or region's — opaque pixels it covers */
+  share: number;
+}
+
+/** A color found in pasted or fetched CSS / HTML / SVG source */
+export interface SourceColor {
+  rgb: RGB;
+  hex: string;
+  /** Occurrences, including near-duplicates clustered into this one */
+  count: number;
+  /** Fraction (0–1) of all color literals in the source */
+  share: number;
+  /** Distinct spellings as written, most frequent first */
+  literals: string[];
+}
+
+// ─── Image Recolor ────────────────────────────────────────────────────────────
+
+/** Raw RGBA pixels — the shape of canvas ImageData without the DOM class */
+export interface PixelBuffer {
+  data: Uint8ClampedArray<ArrayBuffer>;
+  width: number;
+  height: number;
+}
+
+/** A median-cut cluster of an image: its mean color and share of the pixels */
+export interface PixelCluster {
+  rgb: RGB;
+  share: number;
+}
+
+/** Moves one source color (an image cluster) to a target (a palette slot) */
+export interface ColorTransfer {
+  from: RGB;
+  to: RGB;
+}
+
+// ─── Projects ─────────────────────────────────────────────────────────────────
+
+/** Hand-picked semantic token colors that replace the derived ones, by name */
+export type TokenOverrides = Record<string, { light: string; dark: string }>;
+
+/** Slots plus the generator settings that produced them */
+export type PaletteFields = Pick<
+  ChromaState,
+  "slots" | "mode" | "count" | "seeds" | "seedMode" | "temperature" | "rngSeed"
+>;
+
+export interface ProjectPalette extends PaletteFields {
+  id: string;
+  name: string;
+}
+
+export interface ProjectScale {
+  id: string;
+  /** Token prefix — doubles as the scale's label */
+  name: string;
+  hex: string;
+  definition: ScaleDefinition;
+}
+
+export interface ProjectGradient {
+  id: string;
+  name: string;
+  gradient: GradientState;
+}
+
+export type ProjectItemKind = "palette" | "scale" | "gradient";
+
+/** One brand or client: its palettes, scales and gradients plus shared colors */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  palettes: ProjectPalette[];
+  scales: ProjectScale[];
+  gradients: ProjectGradient[];
+  /** Id of the palette, scale and gradient being edited */
+  active: Record<ProjectItemKind, string>;
+  brandColors: BrandColor[];
+  utilityColors: UtilityColorSet;
+  tokenOverrides: TokenOverrides;
+}
+
 // ─── App State ────────────────────────────────────────────────────────────────
 
 export interface ChromaState {
@@ -216,27 +664,49 @@ export interface ChromaState {
   count: number;
   seeds: ColorStop[];
   slots: PaletteSlot[];
-  history: PaletteSlot[][];
+  /** In-memory edit history of the working fields — reset on every switch */
+  history: EditHistory;
   hoverSlot: number | null;
   paletteSnapshots: PaletteSnapshot[];
   recentColors: string[];
   gradient: GradientState;
   seedMode: "influence" | "pin";
   temperature: number;
+  /**
+   * PRNG seed of the last generate(); null when slots weren't generated or
+   * have been edited by hand since. Locked colors aren't recorded with it,
+   * so locking keeps the seed and the seed alone reproduces only the slots
+   * that were unlocked when generate() ran
+   */
+  rngSeed: number | null;
   pickerHex: string;
   pickerAlpha: number;
   pickerMode: PickerMode;
+  /** Color-difference formula used by matching, dedup and scoring */
+  deltaEMetric: DeltaEMetric;
   scaleHex: string;
   scaleName: string;
+  scaleDefinition: ScaleDefinition;
   scaleTokenTab: TokenFormat;
   convInput: string;
   exportTab: ExportTab;
   modal: "export" | "share" | "save" | "shortcuts" | null;
   saveName: string;
-  extractedColors: RGB[];
+  extractedColors: ExtractedColor[];
   imgSrc: string | null;
   utilityColors: UtilityColorSet;
   brandColors: BrandColor[];
+  /** Dictionary ids used for auto-labels and name search, in priority order */
+  nameDictionaries: string[];
+  customNameDictionaries: ColorNameDictionary[];
+  tokenOverrides: TokenOverrides;
+  /**
+   * Every project as of its last stash. The active project's current
+   * palette, scale and gradient — and its brand, utility and token colors —
+   * are edited in the fields above and written back on every switch.
+   */
+  projects: Project[];
+  activeProjectId: string;
 }
 
 // ─── Store Actions ────────────────────────────────────────────────────────────
@@ -249,7 +719,12 @@ export interface ChromaActions {
   removeSeed: (index: number) => void;
   setSeeds: (seeds: ColorStop[]) => void;
   generate: () => void;
+  /** Generate with a specific PRNG seed — same seed + settings = same palette */
+  generateWithSeed: (rngSeed: number) => void;
   undo: () => void;
+  redo: () => void;
+  /** Move to any history entry — undone branches included */
+  jumpToHistory: (id: string) => void;
   toggleLock: (index: number) => void;
   editSlotColor: (index: number, color: ColorStop) => void;
   insertSlot: (atIndex: number) => void;
@@ -264,9 +739,11 @@ export interface ChromaActions {
   setPickerHex: (hex: string) => void;
   setPickerAlpha: (alpha: number) => void;
   setPickerMode: (mode: ChromaState["pickerMode"]) => void;
+  setDeltaEMetric: (metric: DeltaEMetric) => void;
   addRecent: (hex: string) => void;
   setGradient: (partial: Partial<GradientState>) => void;
   setScaleHex: (hex: string) => void;
+  setScaleDefinition: (def: ScaleDefinition) => void;
   setScaleName: (name: string) => void;
   setScaleTokenTab: (tab: TokenFormat) => void;
   setConvInput: (input: string) => void;
@@ -274,7 +751,7 @@ export interface ChromaActions {
   openModal: (modal: ChromaState["modal"]) => void;
   closeModal: () => void;
   setSaveName: (name: string) => void;
-  setExtracted: (colors: RGB[], imgSrc: string) => void;
+  setExtracted: (colors: ExtractedColor[], imgSrc: string) => void;
   setUtilityColor: (role: UtilityRole, color: ColorStop) => void;
   toggleUtilityLock: (role: UtilityRole) => void;
   regenUtilityColors: () => void;
@@ -284,6 +761,30 @@ export interface ChromaActions {
     id: string,
     patch: Partial<Omit<BrandColor, "id">>,
   ) => void;
+  setNameDictionaries: (ids: string[]) => void;
+  addNameDictionary: (dictionary: ColorNameDictionary) => void;
+  removeNameDictionary: (id: string) => void;
+  /** Override one mode of a semantic token; `base` fills the other mode */
+  setTokenOverride: (
+    name: string,
+    mode: "light" | "dark",
+    hex: string,
+    base: { light: string; dark: string },
+  ) => void;
+  /** Drop one token's override, or every override when `name` is omitted */
+  revertTokenOverride: (name?: string) => void;
+  createProject: (name: string) => void;
+  duplicateProject: (id: string) => void;
+  switchProject: (id: string) => void;
+  renameProject: (id: string, name: string) => void;
+  deleteProject: (id: string) => void;
+  /** Add a copy of the current palette, scale or gradient and switch to it */
+  addProjectItem: (kind: ProjectItemKind, name: string) => void;
+  switchProjectItem: (kind: ProjectItemKind, id: string) => void;
+  renameProjectItem: (kind: ProjectItemKind, id: string, name: string) => void;
+  deleteProjectItem: (kind: ProjectItemKind, id: string) => void;
+  /** Keep a copy of the current palette in the project without switching */
+  savePaletteAs: (name: string) => void;
 }
 
 export type ChromaStore = ChromaState & ChromaActions;
@@ -17,6 +17,11 @@ const config = defineConfig({
     }),
     viteReact(),
   ],
+  // Analysis workers are bundled separately and need the @/ alias too
+  worker: {
+    format: "es",
+    plugins: () => [tsconfigPaths({ projects: ["./tsconfig.json"] })],
+  },
 });
 
 export default config;